@@ -30,6 +30,15 @@ import { useBudgetPlan } from '@/contexts/BudgetPlanContext';
 import { financialNarrativeService } from '@/services/FinancialNarrativeService';
 import { useBalance } from '@/contexts/BalanceContext';
 import { useAWS } from '../../contexts/AWSContext';
+import { useGoals } from '@/contexts/GoalsContext';
+import { useBudgets } from '@/contexts/BudgetsContext';
+import { monthCategorySpend } from '@/utils/budgets';
+import { openLocalDatabase } from '@/database/core/LocalDatabase';
+import { createLogger } from '@/database/logging/AppLogger';
+import { SyncQueueRepository } from '@/database/repositories/SyncQueueRepository';
+import { ChangeHistoryRepository } from '@/database/repositories/ChangeHistoryRepository';
+import { parseIntent, ChatIntent } from '@/services/NLIntents';
+import { buildActionSummary, canExecuteIntent, executeChatIntent, ChatActions } from '@/services/IntentExecution';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Speech from 'expo-speech';
 import Voice from '@react-native-community/voice';
@@ -66,9 +75,9 @@ interface Agent {
 }
 
 export default function AIChatScreen() {
-  const { currentBalance } = useBalance();
+  const { currentBalance, payday } = useBalance();
   const accountsFeed = useAccountsIntegration();
-  const { plan: budgetPlan } = useBudgetPlan();
+  const { plan: budgetPlan, setPlan: setBudgetPlan } = useBudgetPlan();
   const [wellbeing, setWellbeing] = useState<WellbeingScoreResult|null>(null);
   const [narrativeHighlights, setNarrativeHighlights] = useState<string[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -111,6 +120,8 @@ export default function AIChatScreen() {
   const scrollViewRef = useRef<ScrollView>(null);
   const router = useRouter();
   const { userData, currentUser } = useAWS();
+  const { goals, addGoal, updateGoalProgress } = useGoals();
+  const { budgets, setBudget, transferBudget } = useBudgets();
   const fadeAnim = useRef(new Animated.Value(0)).current;
 
   // Available AI agents
@@ -700,6 +711,90 @@ export default function AIChatScreen() {
     }
   }, [selectedAgent]);
 
+  // Change history the chat undoes, opened on first use
+  const historyRepository = useRef<Promise<ChangeHistoryRepository> | null>(null);
+
+  const getHistory = useCallback(() => {
+    if (!historyRepository.current) {
+      historyRepository.current = (async () => {
+        const logger = createLogger('Chat');
+        const db = await openLocalDatabase(logger);
+        return new ChangeHistoryRepository(db, logger, new SyncQueueRepository(db, logger));
+      })();
+      historyRepository.current.catch(() => {
+        historyRepository.current = null;
+      });
+    }
+    return historyRepository.current;
+  }, []);
+
+  const chatActions = useMemo<ChatActions>(() => ({
+    undo: {
+      history: { undoLatest: async (id, context) => (await getHistory()).undoLatest(id, context) },
+      userId: currentUser?.userId || 'demo',
+    },
+    // Archived goals are done with; chat neither funds nor reports them.
+    // Changes are recorded as made in the chat, so "undo" can take them back
+    goals: {
+      goals: goals.filter(g => !g.archived),
+      addGoal: goal => addGoal(goal, { source: 'chat' }),
+      updateGoalProgress: (id, newCurrent) => updateGoalProgress(id, newCurrent, { source: 'chat' }),
+    },
+    // Feed spending this month, on top of what the stored budgets already count
+    budgets: {
+      budgets,
+      categorySpend: monthCategorySpend(accountsFeed.expenseLike, new Date().toISOString().slice(0, 7)),
+      setBudget: (category, limit) => setBudget(category, limit, 'monthly', { source: 'chat' }),
+      transferBudget: (from, to, amount) => transferBudget(from, to, amount, 'monthly', { source: 'chat' }),
+      plan: budgetPlan,
+      setPlan: setBudgetPlan,
+    },
+  }), [getHistory, currentUser, goals, addGoal, updateGoalProgress, budgets, accountsFeed.expenseLike, setBudget, transferBudget, budgetPlan, setBudgetPlan]);
+  // A confirmation answered later acts on the state at that time, not when it was asked
+  const chatActionsRef = useRef(chatActions);
+  chatActionsRef.current = chatActions;
+
+  // Intents the chat runs itself wait for a yes before anything changes
+  const confirmIntent = useCallback((intent: ChatIntent) => {
+    const confirmId = Date.now().toString() + '-confirm';
+    const respond = async (confirmed: boolean) => {
+      // The buttons go once answered, so an action can't run twice
+      setMessages(prev => prev.map(m => (m.id === confirmId ? { ...m, actions: undefined } : m)));
+      let text = 'Okay, nothing was changed.';
+      if (confirmed) {
+        try {
+          text = await executeChatIntent(intent, chatActionsRef.current);
+        } catch (error) {
+          console.error('Chat action failed:', error);
+          text = 'Sorry, I couldn\'t make that change. Please try again.';
+        }
+      }
+      const resultMessage: Message = {
+        id: Date.now().toString() + '-result',
+        text,
+        user: false,
+        timestamp: new Date(),
+        type: confirmed ? 'action' : 'system',
+        agent: selectedAgent.id,
+      };
+      setMessages(prev => [...prev, resultMessage]);
+    };
+
+    const confirmMessage: Message = {
+      id: confirmId,
+      text: buildActionSummary(intent),
+      user: false,
+      timestamp: new Date(),
+      type: 'action',
+      agent: selectedAgent.id,
+      actions: [
+        { id: 'yes', label: 'Yes', action: () => respond(true) },
+        { id: 'no', label: 'No', action: () => respond(false) },
+      ],
+    };
+    setMessages(prev => [...prev, confirmMessage]);
+  }, [selectedAgent]);
+
   const sendMessage = useCallback(async () => {
     if (inputText.trim() === '') return;
 
@@ -721,6 +816,14 @@ export default function AIChatScreen() {
 
     try {
       const message = userMessage.text;
+
+      // Changes the chat can make itself are confirmed and run here instead of by the assistant;
+      // the chat language breaks ties between languages that share words
+      const intent = parseIntent(message, selectedLanguage, { payday });
+      if (intent && canExecuteIntent(intent, chatActions)) {
+        confirmIntent(intent);
+        return;
+      }
       
       // Enhanced context with user data
       const context = {
@@ -863,7 +966,7 @@ export default function AIChatScreen() {
     } finally {
       setIsLoading(false);
     }
-  }, [inputText, selectedAgent, selectedProvider, chatContext, userData, currentUser, isSpeaking, stopSpeaking, voiceEnabled, startSpeaking, temperature, dataSharingConsent, useBedrock]);
+  }, [inputText, selectedAgent, selectedProvider, chatContext, userData, currentUser, isSpeaking, stopSpeaking, voiceEnabled, startSpeaking, temperature, dataSharingConsent, useBedrock, chatActions, confirmIntent, selectedLanguage, payday]);
 
   // Quick action handlers
   const handleQuickAction = useCallback((actionText: string) => {
@@ -937,6 +1040,21 @@ export default function AIChatScreen() {
         ]}>
           {message.text}
         </Text>
+        {message.actions && message.actions.length > 0 && (
+          <View style={styles.messageActions}>
+            {message.actions.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                accessibilityRole="button"
+                accessibilityLabel={item.label}
+                onPress={item.action}
+                style={styles.messageActionBtn}
+              >
+                <Text style={styles.messageActionText}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
         <View style={styles.bubbleMeta}>
           <Text style={[ 
             styles.timestamp,
@@ -1814,6 +1932,22 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     color: theme.colors.muted,
   },
+  messageActions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  messageActionBtn: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: 14,
+    backgroundColor: theme.colors.primary,
+  },
+  messageActionText: {
+    color: theme.colors.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   timestamp: {
     fontSize: 11,
     marginTop: theme.spacing.xs,
@@ -26,6 +26,9 @@ import { useAccountsIntegration } from '@/contexts/AccountIntegrationContext';
 import BudgetProgress from '@/components/BudgetProgress';
 import { budgetRecommendationService, BudgetPlanResult } from '@/services/BudgetRecommendationService';
 import { useBudgetPlan } from '@/contexts/BudgetPlanContext';
+import { useBudgets } from '@/contexts/BudgetsContext';
+import { categoryTotals } from '@/utils/splits';
+import { budgetSpent } from '@/utils/budgets';
 
 type ExpenseForm = {
   amount: string;
@@ -39,7 +42,7 @@ type ExpenseForm = {
 type TabKey = 'Overview' | 'Month' | 'Add' | 'Balance' | 'History';
 
 export default function Expenses() {
-  const { currentBalance, setBalance } = useBalance();
+  const { currentBalance, setBalance, payday, setPayday } = useBalance();
   // AWS Context with fallback to demo mode
   const aws = useAWS();
   const { 
@@ -47,8 +50,8 @@ export default function Expenses() {
     createExpense,
     updateExpense: awsUpdateExpense,
     deleteExpense: awsDeleteExpense,
-    budgets = [],
   } = aws || {};
+  const { budgets, setBudget } = useBudgets();
   const accountsFeed = useAccountsIntegration();
   const expenses = React.useMemo(() => accountsFeed.expenseLike.map((e, idx) => ({
     expenseId: `sim_${idx}`,
@@ -58,14 +61,16 @@ export default function Expenses() {
     description: e.category || 'Expense',
     date: (e.date || '').slice(0,10),
     isRecurring: e.isRecurring,
+    tags: e.tags || [],
+    splits: e.splits,
   })), [accountsFeed.expenseLike]);
   
   // Demo categories for fallback
   const demoCategories = [
-    { name: 'Food', color: '#FF6B6B', budget: 1500 },
-    { name: 'Transport', color: '#4ECDC4', budget: 800 },
-    { name: 'Shopping', color: '#45B7D1', budget: 600 },
-    { name: 'Entertainment', color: '#96CEB4', budget: 400 }
+    { name: 'Food', color: '#FF6B6B' },
+    { name: 'Transport', color: '#4ECDC4' },
+    { name: 'Shopping', color: '#45B7D1' },
+    { name: 'Entertainment', color: '#96CEB4' }
   ];
   
   const categoryObjs = isInitialized ? [] : demoCategories; // Will be populated from AWS in future
@@ -82,7 +87,10 @@ export default function Expenses() {
   const deleteExpense = async () => {
     Alert.alert('Read-Only', 'Simulated feed items cannot be deleted.');
   };
-  const categories = useMemo(() => (categoryObjs || []).map((c: any) => c.name), [categoryObjs]);
+  const categories = useMemo(
+    () => Array.from(new Set([...budgets.map(b => b.category), ...(categoryObjs || []).map((c: any) => c.name)])),
+    [budgets, categoryObjs]
+  );
 
   const [modalVisible, setModalVisible] = useState(false);
   const [scannerVisible, setScannerVisible] = useState(false);
@@ -99,6 +107,8 @@ export default function Expenses() {
   }));
   const [search, setSearch] = useState('');
   const [filterCategory, setFilterCategory] = useState<string>('All');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<'any' | 'all'>('any');
   const { plan: globalPlan, setPlan } = useBudgetPlan();
   const [recommendation, setRecommendation] = useState<BudgetPlanResult | null>(null);
   const [recommending, setRecommending] = useState(false);
@@ -191,10 +201,21 @@ export default function Expenses() {
     const term = normalized(search);
     const text = `${e.merchant || ''} ${e.description || ''}`.toLowerCase();
     const searchOk = !term || text.includes(term);
-    return catOk && searchOk;
+    const tags: string[] = e.tags || [];
+    const tagOk = filterTags.length === 0 || (tagMatch === 'all'
+      ? filterTags.every(t => tags.includes(t))
+      : filterTags.some(t => tags.includes(t)));
+    return catOk && searchOk && tagOk;
   });
-  const filteredMonthExpenses = useMemo(() => filterBy(monthExpenses), [monthExpenses, search, filterCategory]);
-  const filteredHistoryExpenses = useMemo(() => filterBy(sortedExpenses), [sortedExpenses, search, filterCategory]);
+  const filteredMonthExpenses = useMemo(() => filterBy(monthExpenses), [monthExpenses, search, filterCategory, filterTags, tagMatch]);
+  const filteredHistoryExpenses = useMemo(() => filterBy(sortedExpenses), [sortedExpenses, search, filterCategory, filterTags, tagMatch]);
+  const availableTags = useMemo(() => {
+    const set = new Set<string>();
+    (expenses || []).forEach((e: any) => (e.tags || []).forEach((t: string) => set.add(t)));
+    return Array.from(set).sort();
+  }, [expenses]);
+  const toggleTag = (tag: string) => setFilterTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  const formatTags = (e: any) => (e.tags && e.tags.length ? ` • ${e.tags.map((t: string) => `#${t}`).join(' ')}` : '');
 
   // Budget progress (month)
   const palette = ['#FF6B6B','#4ECDC4','#45B7D1','#96CEB4','#F7DC6F','#A29BFE','#81ECEC','#FAB1A0'];
@@ -203,43 +224,25 @@ export default function Expenses() {
     return palette[i];
   };
   const monthTotalSpent = useMemo(() => filteredMonthExpenses.reduce((s, e: any) => s + (Number(e.amount)||0), 0), [filteredMonthExpenses]);
-  const categorySpendMap = useMemo(() => {
-    const map: Record<string, number> = {};
-    for (const e of filteredMonthExpenses) {
-      const key = e.category || 'Other';
-      map[key] = (map[key] || 0) + (Number(e.amount) || 0);
-    }
-    return map;
-  }, [filteredMonthExpenses]);
-  const budgetCategories = useMemo(() => {
-    const catBudgets = (budgets || []).filter((b: any) => !!b.category);
-    if (catBudgets.length) {
-      return catBudgets.map((b: any) => ({
-        name: b.category as string,
-        spent: categorySpendMap[b.category || 'Other'] || 0,
-        budget: Number(b.totalAmount) || 0,
-        color: colorForCategory(String(b.category || 'Other')),
-      }));
-    }
-    // Fallback to demo
-    return (categoryObjs || []).map((c: any) => ({
-      name: c.name,
-      spent: categorySpendMap[c.name] || 0,
-      budget: Number(c.budget) || 0,
-      color: c.color || colorForCategory(c.name),
-    }));
-  }, [budgets, categorySpendMap, categoryObjs]);
-  const totalBudget = useMemo(() => {
-    const sum = (budgets || []).filter((b: any) => !!b.category).reduce((s: number, b: any) => s + (Number(b.totalAmount)||0), 0);
-    if (sum > 0) return sum;
-    return (categoryObjs || []).reduce((s: number, c: any) => s + (Number(c.budget)||0), 0);
-  }, [budgets, categoryObjs]);
+  // Split expenses count towards the categories of their splits
+  const categorySpendMap = useMemo(
+    () => categoryTotals(filteredMonthExpenses.map((e: any) => ({ ...e, amount: Number(e.amount) || 0 }))),
+    [filteredMonthExpenses]
+  );
+  // Stored budgets count expenses saved on the device; feed spending is added on top
+  const budgetCategories = useMemo(() => budgets.map(b => ({
+    name: b.category,
+    spent: budgetSpent(b, categorySpendMap),
+    budget: b.limit,
+    color: colorForCategory(b.category),
+  })), [budgets, categorySpendMap]);
+  const totalBudget = useMemo(() => budgets.reduce((s, b) => s + b.limit, 0), [budgets]);
 
   const generateRecommendation = () => {
     try {
       setRecommending(true);
       const res = budgetRecommendationService.generate(
-        monthExpenses.map((e:any)=>({ amount: Number(e.amount)||0, category: e.category, date: e.date })),
+        monthExpenses.map((e:any)=>({ amount: Number(e.amount)||0, category: e.category, date: e.date, splits: e.splits })),
         totalBudget > 0 ? totalBudget : undefined
       );
       setRecommendation(res);
@@ -251,10 +254,23 @@ export default function Expenses() {
     }
   };
 
+  // Save the suggested allocations as this month's category budgets
+  const applyRecommendation = async () => {
+    if (!recommendation) return;
+    try {
+      for (const r of recommendation.recommendations) {
+        if (r.suggested > 0) await setBudget(r.category, r.suggested);
+      }
+      Alert.alert('Budgets updated', 'The suggested plan is now your monthly budget.');
+    } catch (e) {
+      Alert.alert('Error', 'Could not save budgets');
+    }
+  };
+
   const exportCSV = async (rows: any[]) => {
-    const header = ['date','merchant','category','amount','description'];
+    const header = ['date','merchant','category','amount','description','tags'];
     const csv = [header.join(',')].concat(
-      rows.map((e) => [e.date, wrapCsv(e.merchant), wrapCsv(e.category), Number(e.amount||0).toFixed(2), wrapCsv(e.description)].join(','))
+      rows.map((e) => [e.date, wrapCsv(e.merchant), wrapCsv(e.category), Number(e.amount||0).toFixed(2), wrapCsv(e.description), wrapCsv((e.tags || []).join(';'))].join(','))
     ).join('\n');
     try {
       await Share.share({ message: csv, title: 'Expenses.csv' });
@@ -277,6 +293,38 @@ export default function Expenses() {
     </TouchableOpacity>
   );
 
+  const TagFilter = () => {
+    if (!availableTags.length) return null;
+    return (
+      <View style={styles.tagFilterRow}>
+        {availableTags.map(tag => {
+          const active = filterTags.includes(tag);
+          const color = colorForCategory(tag);
+          return (
+            <TouchableOpacity
+              key={tag}
+              onPress={() => toggleTag(tag)}
+              style={[styles.tagChip, { borderColor: color }, active && { backgroundColor: color }]}
+              accessibilityLabel={`Filter by tag ${tag}`}
+            >
+              <Text style={[styles.tagChipText, active && { color: '#FFFFFF' }]}>#{tag}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        {filterTags.length > 1 && (
+          <TouchableOpacity onPress={() => setTagMatch(m => m === 'any' ? 'all' : 'any')} style={styles.tagModeBtn}>
+            <Text style={styles.tagChipText}>{tagMatch === 'any' ? 'Match any' : 'Match all'}</Text>
+          </TouchableOpacity>
+        )}
+        {filterTags.length > 0 && (
+          <TouchableOpacity onPress={() => setFilterTags([])} style={styles.tagModeBtn}>
+            <Text style={styles.tagChipText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -325,7 +373,7 @@ export default function Expenses() {
               <View key={e.expenseId || e.id} style={styles.row}>
                 <View style={{ flex: 1 }}>
                   <Text style={styles.rowTitle}>{e.merchant}</Text>
-                  <Text style={styles.rowSub}>{e.category} • {e.date}</Text>
+                  <Text style={styles.rowSub}>{e.category} • {e.date}{formatTags(e)}</Text>
                 </View>
                 <Text style={styles.rowAmount}>-{fmtMoney(e.amount)}</Text>
               </View>
@@ -373,6 +421,7 @@ export default function Expenses() {
               })()}
             </View>
           </View>
+          <TagFilter />
           {monthExpenses.length === 0 ? (
             <Text style={{ color: theme.colors.muted }}>No expenses this month.</Text>
           ) : (
@@ -380,7 +429,7 @@ export default function Expenses() {
               <View key={e.expenseId || e.id} style={styles.row}>
                 <View style={{ flex: 1 }}>
                   <Text style={styles.rowTitle}>{e.merchant}</Text>
-                  <Text style={styles.rowSub}>{e.category} • {e.date}</Text>
+                  <Text style={styles.rowSub}>{e.category} • {e.date}{formatTags(e)}</Text>
                 </View>
                 <Text style={styles.rowAmount}>-{fmtMoney(e.amount)}</Text>
                 <TouchableOpacity style={styles.rowIcon} onPress={() => openEdit(e)}>
@@ -394,7 +443,12 @@ export default function Expenses() {
           )}
           {recommendation && (
             <View style={[styles.statCard,{ marginTop:16 }]}> 
-              <Text style={styles.sectionHeader}>Suggested Budget Plan</Text>
+              <View style={{ flexDirection:'row', justifyContent:'space-between', alignItems:'center' }}>
+                <Text style={styles.sectionHeader}>Suggested Budget Plan</Text>
+                <TouchableOpacity onPress={applyRecommendation} style={{ paddingHorizontal:12, paddingVertical:6, backgroundColor: theme.colors.primary, borderRadius: 20 }}>
+                  <Text style={{ color:'#fff', fontSize:12 }}>Apply</Text>
+                </TouchableOpacity>
+              </View>
               <Text style={{ color: theme.colors.muted, fontSize:12, marginBottom:8 }}>Auto-generated {new Date(recommendation.generatedAt).toLocaleTimeString()}</Text>
               {recommendation.recommendations.slice(0,8).map(r => {
                 const spent = categorySpendMap[r.category] || 0;
@@ -461,6 +515,24 @@ export default function Expenses() {
               </TouchableOpacity>
             </View>
           </View>
+          <View style={[styles.statCard, { marginTop: 12 }]}>
+            <Text style={styles.sectionHeader}>Payday</Text>
+            <Text style={styles.statLabel}>Day of the month you are paid, used for "since payday" in chat</Text>
+            <View style={[styles.input, { marginTop: 8 }]}>
+              <TextInput
+                style={{ color: theme.colors.text }}
+                keyboardType="number-pad"
+                placeholder="25"
+                placeholderTextColor={theme.colors.muted}
+                defaultValue={String(payday)}
+                onSubmitEditing={(e) => {
+                  const day = parseInt(e.nativeEvent.text || '', 10);
+                  if (!(day >= 1 && day <= 31)) { Alert.alert('Invalid', 'Enter a day between 1 and 31'); return; }
+                  setPayday(day);
+                }}
+              />
+            </View>
+          </View>
           <View style={[styles.statCard, { marginTop: 12 }]}>
             <Text style={styles.statLabel}>Spent to date</Text>
             <Text style={styles.statValueDanger}>-{fmtMoney(totalSpent)}</Text>
@@ -506,6 +578,7 @@ export default function Expenses() {
               })()}
             </View>
           </View>
+          <TagFilter />
           {filteredHistoryExpenses.length === 0 ? (
             <Text style={{ color: theme.colors.muted }}>No expense history.</Text>
           ) : (
@@ -513,7 +586,7 @@ export default function Expenses() {
               <View key={e.expenseId || e.id} style={styles.row}>
                 <View style={{ flex: 1 }}>
                   <Text style={styles.rowTitle}>{e.merchant}</Text>
-                  <Text style={styles.rowSub}>{e.category} • {e.date}</Text>
+                  <Text style={styles.rowSub}>{e.category} • {e.date}{formatTags(e)}</Text>
                 </View>
                 <Text style={styles.rowAmount}>-{fmtMoney(e.amount)}</Text>
                 <TouchableOpacity style={styles.rowIcon} onPress={() => openEdit(e)}>
@@ -705,6 +778,22 @@ const styles = StyleSheet.create({
   },
   secondaryText: { color: theme.colors.text, fontWeight: '600', fontSize: 12 },
   filtersRow: { flexDirection: 'row', gap: 10, marginBottom: 8 },
+  tagFilterRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginBottom: 8 },
+  tagChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    backgroundColor: theme.colors.cardAlt,
+  },
+  tagChipText: { color: theme.colors.text, fontSize: 12, fontWeight: '600' },
+  tagModeBtn: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
   statLabel: { color: theme.colors.muted, fontSize: 12 },
   statValue: { color: theme.colors.text, fontWeight: '800', fontSize: 20 },
   statValueDanger: { color: theme.colors.danger, fontWeight: '800', fontSize: 20 },
@@ -30,10 +30,13 @@ import { useBudgetPlan } from '@/contexts/BudgetPlanContext';
 import { standardBankService } from '@/services/StandardBankService';
 import { DEFAULT_TOTAL_BALANCE } from '@/config/app';
 import { useBalance } from '@/contexts/BalanceContext';
+import { projectOccurrences, projectedSpend } from '@/database/recurrence/RecurrenceSchedule';
+import { categoryTotals } from '@/utils/splits';
 
 // Contexts
 import { useAWS } from '@/contexts/AWSContext';
 import { useAccountsIntegration } from '@/contexts/AccountIntegrationContext';
+import { useBudgets } from '@/contexts/BudgetsContext';
 import GamificationWidget from '@/components/GamificationWidget';
 
 // Hook to safely get window dimensions
@@ -99,6 +102,7 @@ export default function Dashboard() {
       description: e.category || 'Expense',
       date: (e.date || '').slice(0,10),
       isRecurring: e.isRecurring,
+      splits: e.splits,
     }));
   }, [accountsFeed.expenseLike]);
   const displayExpenses = expenses; // no demo fallback for cleaner dashboard
@@ -113,6 +117,7 @@ export default function Dashboard() {
   const [narrative, setNarrative] = useState<string>('');
   const [narrativeHighlights, setNarrativeHighlights] = useState<string[]>([]);
   const { plan: budgetPlan } = useBudgetPlan();
+  const { budgets } = useBudgets();
 
   // Helper functions for demo/AWS mode
   const getExpensesByDateRange = (startDate: string, endDate: string) => {
@@ -122,21 +127,16 @@ export default function Dashboard() {
     });
   };
 
-  const getCategoryTotals = () => {
-    const totals: Record<string, number> = {};
-    displayExpenses.forEach(expense => {
-      totals[expense.category] = (totals[expense.category] || 0) + expense.amount;
-    });
-    return totals;
-  };
+  // Split expenses count towards the categories of their splits
+  const getCategoryTotals = () => categoryTotals(displayExpenses);
 
-  // Demo budgets (ZAR) per category
-  const demoBudgetCategories: { name: string; budget: number; color: string }[] = [
-    { name: 'Food & Dining', budget: 3500, color: theme.colors.primary },
-    { name: 'Transportation', budget: 1800, color: theme.colors.success },
-    { name: 'Shopping', budget: 2000, color: theme.gradients.purple[1] },
-    { name: 'Bills & Utilities', budget: 2500, color: theme.colors.warning },
-    { name: 'Entertainment', budget: 1000, color: theme.colors.danger },
+  // Colors of the budget bars, in budget order
+  const budgetColors = [
+    theme.colors.primary,
+    theme.colors.success,
+    theme.gradients.purple[1],
+    theme.colors.warning,
+    theme.colors.danger,
   ];
 
   const addExpense = async (expenseData: any) => {
@@ -173,22 +173,40 @@ export default function Dashboard() {
   const budgetUsed = (monthlySpent / monthlyBudget) * 100;
   const remaining = monthlyBudget - monthlySpent;
 
-  // Build BudgetProgress props from category totals (fallback to demo budgets)
+  // Recurring debits from the account feed, projected forward
+  const today = currentDate.toISOString().slice(0, 10);
+  const upcomingRecurring = React.useMemo(() => {
+    const horizon = new Date(currentDate.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return accountsFeed.recurringRules
+      .flatMap(rule => projectOccurrences(rule, [], today, horizon))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [accountsFeed.recurringRules, today]);
+  const monthProjection = projectedSpend(
+    upcomingRecurring.filter(o => o.date <= lastDayOfMonth.toISOString().slice(0, 10))
+  );
+
+  // Build BudgetProgress props from the stored budgets. Their spent covers expenses saved on
+  // the device; the account feed is not stored, so its category totals are added on top.
   const categoryTotals = getCategoryTotals();
-  const budgetCategoriesForProgress = demoBudgetCategories.map(cat => ({
-    name: cat.name,
-    spent: categoryTotals[cat.name] || 0,
-    budget: cat.budget,
-    color: cat.color,
+  const budgetCategoriesForProgress = budgets.map((b, i) => ({
+    name: b.category,
+    spent: b.spent + (categoryTotals[b.category] || 0),
+    budget: b.limit,
+    color: budgetColors[i % budgetColors.length],
+    projected: monthProjection.byCategory[b.category] || 0,
   }));
-  const totalBudgetPlanned = demoBudgetCategories.reduce((s, c) => s + c.budget, 0);
-
-  // Upcoming bills (mock if demo)
-  const upcomingBills = [
-    { id: 'b1', name: 'Telkom Fibre', amount: 899.00, due: 'in 5 days' },
-    { id: 'b2', name: 'Netflix', amount: 159.00, due: 'in 9 days' },
-    { id: 'b3', name: 'Gym Membership', amount: 499.00, due: 'in 12 days' },
-  ];
+  const totalBudgetPlanned = budgets.reduce((s, b) => s + b.limit, 0);
+
+  // Upcoming bills: the next recurring debits
+  const upcomingBills = upcomingRecurring.slice(0, 5).map(o => {
+    const days = Math.round((Date.parse(o.date) - Date.parse(today)) / (24 * 60 * 60 * 1000));
+    return {
+      id: `${o.ruleId}-${o.occurrenceDate}`,
+      name: o.name,
+      amount: o.amount,
+      due: days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`,
+    };
+  });
 
   // Product recommendations (demo-based for now)
   const productRecommendations = (() => {
@@ -432,6 +450,7 @@ export default function Dashboard() {
                 categories={budgetCategoriesForProgress}
                 totalSpent={monthlySpent}
                 totalBudget={totalBudgetPlanned}
+                totalProjected={monthProjection.total}
               />
             </GlassCard>
           </Animated.View>
@@ -517,6 +536,9 @@ export default function Dashboard() {
           {/* Upcoming Bills */}
           <Animated.View entering={FadeInUp.delay(650)} style={styles.section}>
             <Text style={styles.sectionTitle}>Upcoming Bills</Text>
+            {upcomingBills.length === 0 && (
+              <Text style={styles.billDue}>No recurring bills due in the next 30 days</Text>
+            )}
             {upcomingBills.map(bill => (
               <GlassCard key={bill.id} style={[styles.billItem, shadow(2)]}>
                 <View style={styles.billRow}>
@@ -15,6 +15,7 @@ import {
 	Alert,
 	Image,
 	Linking,
+	Share,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { theme, shadow } from '@/config/theme';
@@ -31,6 +32,10 @@ import BiometricSettings from '@/components/BiometricSettings';
 import GamificationWidget from '@/components/GamificationWidget';
 import { useGoals } from '@/contexts/GoalsContext';
 import ProgressRing from '@/components/ProgressRing';
+import { openLocalDatabase } from '@/database/core/LocalDatabase';
+import { createLogger, supportLogBuffer } from '@/database/logging/AppLogger';
+import { ReceiptAttachmentRepository } from '@/database/repositories/ReceiptAttachmentRepository';
+import { DatabaseMaintenanceService, HealthReport, formatHealthReport } from '@/database/maintenance/DatabaseMaintenanceService';
 
 export default function ProfileScreen() {
 	const { mode, toggle } = useThemeMode?.() || { mode: 'dark', toggle: () => {} } as any;
@@ -135,6 +140,44 @@ export default function ProfileScreen() {
 		} catch {}
 	}, [accountsFeed.expenseLike, currentBalance]);
 	
+	// Local database health
+	const [health, setHealth] = useState<HealthReport|null>(null);
+	const [healthBusy, setHealthBusy] = useState(false);
+
+	const withMaintenance = async (task: (maintenance: DatabaseMaintenanceService) => Promise<void>) => {
+		setHealthBusy(true);
+		try {
+			const logger = createLogger('Maintenance');
+			const db = await openLocalDatabase(logger);
+			await task(new DatabaseMaintenanceService(db, logger, new ReceiptAttachmentRepository(db, logger)));
+		} catch (e) {
+			Alert.alert('Error', 'Database maintenance failed');
+		} finally {
+			setHealthBusy(false);
+		}
+	};
+
+	const handleCheckHealth = () => withMaintenance(async maintenance => {
+		setHealth(await maintenance.checkHealth());
+	});
+
+	const handleRepair = () => withMaintenance(async maintenance => {
+		const result = await maintenance.repair();
+		const reclaimed = await maintenance.vacuum();
+		setHealth(await maintenance.checkHealth());
+		Alert.alert('Repair Complete', `Removed ${result.orphansRemoved} broken links and ${result.filesDeleted} unused files, freed ${Math.round(reclaimed / 1024)} KB.`);
+	});
+
+	const handleShareHealth = async () => {
+		if (!health) return;
+		// Log entries are redacted when they are logged, so they can go along with the report
+		const recentLog = supportLogBuffer.toText();
+		const message = recentLog ? `${formatHealthReport(health)}\n\nRecent log:\n${recentLog}` : formatHealthReport(health);
+		await Share.share({ title: 'Database health report', message });
+	};
+
+	React.useEffect(() => { handleCheckHealth(); }, []);
+
 	// Demo mode functions
 	const signOut = async () => {
 		if (awsSignOut) {
@@ -766,7 +809,7 @@ export default function ProfileScreen() {
 						const progress = Math.min((g.current / g.target) * 100, 100);
 						return (
 								<GlassCard key={g.id} style={[styles.goalItem, shadow(1), { flexDirection:'row', alignItems:'center', gap:12 }]}> 
-								<ProgressRing size={54} strokeWidth={6} progress={g.current / g.target} valueText={`${Math.round(progress)}%`} />
+								<ProgressRing size={54} strokeWidth={6} progress={progress / 100} valueText={`${Math.round(progress)}%`} />
 								<View style={{ flex:1 }}>
 									<View style={styles.goalHeaderRow}>
 										<Text style={styles.goalTitle}>{g.title}</Text>
@@ -847,6 +890,39 @@ export default function ProfileScreen() {
 					</GlassCard>
 				</View>
 
+				<View style={styles.section}>
+					<Text style={styles.sectionTitle}>Data Health</Text>
+					<GlassCard style={{ padding: 16 }}>
+						<View style={{ flexDirection:'row', justifyContent:'space-between', marginBottom:4 }}>
+							<Text style={styles.securityLabel}>Status</Text>
+							<Text style={health?.status === 'healthy' ? styles.securityValue : styles.securityPending}>
+								{healthBusy ? 'Checking...' : health ? health.status.charAt(0).toUpperCase() + health.status.slice(1) : 'Unknown'}
+							</Text>
+						</View>
+						<View style={{ flexDirection:'row', justifyContent:'space-between', marginBottom:4 }}>
+							<Text style={styles.securityLabel}>Storage</Text>
+							<Text style={styles.securityValue}>{health ? `${(health.metrics.size / (1024 * 1024)).toFixed(1)} MB` : '-'}</Text>
+						</View>
+						{health?.issues.map((issue, i) => (
+							<Text key={i} style={styles.securityLabel}>• {issue.table}: {issue.message}</Text>
+						))}
+						<View style={[styles.actionRow, { marginTop: 12 }]}>
+							<TouchableOpacity style={styles.actionButton} onPress={handleCheckHealth} disabled={healthBusy}>
+								<Ionicons name="pulse" size={18} color={theme.colors.text} />
+								<Text style={styles.actionText}>Check</Text>
+							</TouchableOpacity>
+							<TouchableOpacity style={styles.actionButton} onPress={handleRepair} disabled={healthBusy}>
+								<Ionicons name="construct" size={18} color={theme.colors.text} />
+								<Text style={styles.actionText}>Repair</Text>
+							</TouchableOpacity>
+						</View>
+						<TouchableOpacity style={styles.supportLink} onPress={handleShareHealth} disabled={!health}>
+							<Ionicons name="share-outline" size={18} color={theme.colors.primary} />
+							<Text style={styles.supportText}>Send Report to Support</Text>
+						</TouchableOpacity>
+					</GlassCard>
+				</View>
+
 				<View style={styles.section}>
 					<Text style={styles.sectionTitle}>Support</Text>
 					<GlassCard style={{ padding: 16 }}>
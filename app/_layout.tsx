@@ -7,6 +7,7 @@ import { GamificationProvider } from '@/contexts/GamificationContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { BalanceProvider } from '@/contexts/BalanceContext';
 import { BudgetPlanProvider } from '@/contexts/BudgetPlanContext';
+import { BudgetsProvider } from '@/contexts/BudgetsContext';
 import { GoalsProvider } from '@/contexts/GoalsContext';
 
 export default function RootLayout() {
@@ -18,6 +19,7 @@ export default function RootLayout() {
         <ThemeProvider>
           <BalanceProvider>
             <BudgetPlanProvider>
+            <BudgetsProvider>
           <Stack initialRouteName="(tabs)" screenOptions={{ headerShown: false }}>
             <Stack.Screen name="(auth)" options={{ headerShown: false }} />
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
@@ -29,6 +31,7 @@ export default function RootLayout() {
             <Stack.Screen name="+not-found" />
           </Stack>
           <StatusBar style="light" />
+            </BudgetsProvider>
             </BudgetPlanProvider>
           </BalanceProvider>
         </ThemeProvider>
@@ -6,18 +6,21 @@ interface BudgetCategory {
   spent: number;
   budget: number;
   color: string;
+  projected?: number; // recurring spend still to come this period
 }
 
 interface BudgetProgressProps {
   categories: BudgetCategory[];
   totalSpent: number;
   totalBudget: number;
+  totalProjected?: number;
 }
 
 export default function BudgetProgress({
   categories,
   totalSpent,
   totalBudget,
+  totalProjected = 0,
 }: BudgetProgressProps) {
   const formatCurrency = (amount: number): string => {
     return `R${amount.toLocaleString('en-ZA', {
@@ -73,6 +76,11 @@ export default function BudgetProgress({
         <Text style={styles.remainingText}>
           {formatCurrency(Math.max(totalBudget - totalSpent, 0))} remaining
         </Text>
+        {totalProjected > 0 && (
+          <Text style={styles.projectedText}>
+            {formatCurrency(totalProjected)} in recurring bills still to come
+          </Text>
+        )}
       </View>
 
       {/* Category Breakdown */}
@@ -98,6 +106,11 @@ export default function BudgetProgress({
                   {formatCurrency(category.spent)} / {formatCurrency(category.budget)}
                 </Text>
               </View>
+              {!!category.projected && (
+                <Text style={styles.projectedText}>
+                  +{formatCurrency(category.projected)} recurring due
+                </Text>
+              )}
               <View style={styles.categoryProgressContainer}>
                 <View style={styles.categoryProgressBar}>
                   <View
@@ -185,6 +198,12 @@ const styles = StyleSheet.create({
     color: '#64748B',
     textAlign: 'center',
   },
+  projectedText: {
+    fontSize: 12,
+    color: '#F59E0B',
+    textAlign: 'center',
+    marginTop: 4,
+  },
   categoriesSection: {
     gap: 16,
   },
@@ -10,9 +10,11 @@ import {
   ActivityIndicator,
   Image,
   ScrollView,
+  Dimensions,
 } from 'react-native';
 import { Camera, CameraType } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
 import {
   X,
   Camera as CameraIcon,
@@ -20,9 +22,18 @@ import {
   Check,
   RefreshCw,
   Upload,
+  Plus,
+  FileText,
 } from 'lucide-react-native';
 import ReceiptOCR from '../services/receiptOCR_Production';
 import { useAWS } from '../contexts/AWSContext';
+import { openLocalDatabase } from '@/database/core/LocalDatabase';
+import { createLogger } from '@/database/logging/AppLogger';
+import { ReceiptRepository } from '@/database/repositories/ReceiptRepository';
+import { ReceiptAttachmentRepository } from '@/database/repositories/ReceiptAttachmentRepository';
+import { SyncQueueRepository } from '@/database/repositories/SyncQueueRepository';
+import { ReceiptAttachmentInput } from '@/database/interfaces/Repositories';
+import { ReceiptAttachmentRecord } from '@/database/models/Records';
 import { theme } from '@/config/theme';
 
 interface ReceiptScannerProps {
@@ -43,6 +54,45 @@ interface ScannedReceipt {
   category: string;
 }
 
+/**
+ * Keep the scanned receipt on the device with every page and attached document,
+ * so long slips and PDF invoices stay with the receipt when it is viewed later
+ */
+async function storeReceiptLocally(
+  userId: string,
+  receipt: ScannedReceipt,
+  pages: string[],
+  documents: ReceiptAttachmentInput[]
+): Promise<void> {
+  const logger = createLogger('ReceiptScanner');
+  const db = await openLocalDatabase(logger);
+  const receipts = new ReceiptRepository(db, logger, new SyncQueueRepository(db, logger));
+  const attachments = new ReceiptAttachmentRepository(db, logger);
+  const now = new Date().toISOString();
+
+  const receiptId = await receipts.create({
+    userId,
+    imageUri: '',
+    merchantName: receipt.merchant,
+    amount: receipt.total,
+    date: receipt.date,
+    items: JSON.stringify(receipt.items),
+    category: receipt.category,
+    processed: true,
+    ocrConfidence: 0,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  });
+
+  const stored: ReceiptAttachmentRecord[] = [];
+  for (const page of pages) stored.push(await attachments.add(receiptId, { uri: page }));
+  for (const document of documents) await attachments.add(receiptId, document);
+
+  // The first page doubles as the receipt's thumbnail
+  if (stored.length > 0) await receipts.update(receiptId, { imageUri: stored[0].uri });
+}
+
 export default function ReceiptScanner({ 
   visible, 
   onClose, 
@@ -84,13 +134,29 @@ export default function ReceiptScanner({
   }, [visible]);
   const [mode, setMode] = useState<'camera' | 'gallery' | 'result'>('camera');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  // Pages of the slip in order; long slips are photographed in several parts
+  const [pages, setPages] = useState<string[]>([]);
+  const [documents, setDocuments] = useState<ReceiptAttachmentInput[]>([]);
+  const [addingPage, setAddingPage] = useState(false);
   const [scannedReceipt, setScannedReceipt] = useState<ScannedReceipt | null>(null);
   const cameraRef = useRef<typeof Camera>(null);
   const receiptOCR = ReceiptOCR;
   // AWS Context with fallback to demo mode
   const aws = useAWS();
   const { isInitialized, processReceipt, createExpense } = aws || {};
+  const userId = aws?.currentUser?.userId || 'demo';
+
+  // A new page is added to the receipt; only the first page is read by OCR
+  const handleCapturedImage = async (uri: string) => {
+    if (addingPage) {
+      setPages(current => [...current, uri]);
+      setAddingPage(false);
+      setMode('result');
+      return;
+    }
+    setPages([uri]);
+    await processImage(uri);
+  };
 
   const handleTakePicture = async () => {
     if (!cameraRef.current) return;
@@ -101,8 +167,7 @@ export default function ReceiptScanner({
         base64: false,
       });
       
-      setCapturedImage(photo.uri);
-      await processImage(photo.uri);
+      await handleCapturedImage(photo.uri);
     } catch (error) {
       console.error('Error taking picture:', error);
       Alert.alert('Error', 'Failed to capture image');
@@ -119,9 +184,7 @@ export default function ReceiptScanner({
       });
 
       if (!result.canceled && result.assets[0]) {
-        const imageUri = result.assets[0].uri;
-        setCapturedImage(imageUri);
-        await processImage(imageUri);
+        await handleCapturedImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Error picking image:', error);
@@ -158,13 +221,42 @@ export default function ReceiptScanner({
     }
   };
 
+  const handleAddPage = () => {
+    setAddingPage(true);
+    setMode('camera');
+  };
+
+  const handleRemovePage = (index: number) => {
+    setPages(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleAttachDocument = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/pdf',
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+
+      if (!result.canceled) {
+        setDocuments(current => [
+          ...current,
+          ...result.assets.map(asset => ({ uri: asset.uri, filename: asset.name, mimeType: asset.mimeType })),
+        ]);
+      }
+    } catch (error) {
+      console.error('Error picking document:', error);
+      Alert.alert('Error', 'Failed to attach document');
+    }
+  };
+
   const handleSaveReceipt = async () => {
     if (!scannedReceipt) return;
 
     try {
       if (isInitialized && processReceipt) {
         // Run full pipeline: S3 upload + Textract + expense creation
-        await processReceipt(capturedImage || '');
+        await processReceipt(pages[0] || '');
       } else {
         // Demo fallback: just create a local expense without S3
         await createExpense?.({
@@ -177,6 +269,13 @@ export default function ReceiptScanner({
         });
       }
 
+      try {
+        await storeReceiptLocally(userId, scannedReceipt, pages, documents);
+      } catch (error) {
+        // The expense is saved; only the local copy of the pages is missing
+        console.warn('Failed to store receipt pages locally:', error);
+      }
+
       // Notify parent component
       onReceiptProcessed?.(scannedReceipt);
       
@@ -189,13 +288,17 @@ export default function ReceiptScanner({
   };
 
   const handleRetake = () => {
-    setCapturedImage(null);
+    setPages([]);
+    setDocuments([]);
+    setAddingPage(false);
     setScannedReceipt(null);
     setMode('camera');
   };
 
   const handleClose = () => {
-    setCapturedImage(null);
+    setPages([]);
+    setDocuments([]);
+    setAddingPage(false);
     setScannedReceipt(null);
     setMode('camera');
     onClose();
@@ -234,7 +337,7 @@ export default function ReceiptScanner({
             <X size={24} color={theme.colors.text} />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>
-            {mode === 'camera' ? 'Scan Receipt' : 
+            {mode === 'camera' ? (addingPage ? `Scan Page ${pages.length + 1}` : 'Scan Receipt') : 
              mode === 'result' ? 'Review Receipt' : 'Processing...'}
           </Text>
           <View style={styles.headerButton} />
@@ -289,10 +392,45 @@ export default function ReceiptScanner({
               </View>
             ) : (
               <>
-                {capturedImage && (
-                  <Image source={{ uri: capturedImage }} style={styles.receiptImage} />
+                {pages.length > 0 && (
+                  <ScrollView horizontal pagingEnabled>
+                    {pages.map((page, index) => (
+                      <View key={page} style={styles.pageContainer}>
+                        <Image source={{ uri: page }} style={styles.receiptImage} />
+                        <Text style={styles.pageLabel}>Page {index + 1} of {pages.length}</Text>
+                        {index > 0 && (
+                          <TouchableOpacity style={styles.removePageButton} onPress={() => handleRemovePage(index)}>
+                            <X size={16} color={theme.colors.text} />
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    ))}
+                  </ScrollView>
                 )}
 
+                <View style={styles.attachmentActions}>
+                  <TouchableOpacity style={styles.attachmentButton} onPress={handleAddPage}>
+                    <Plus size={18} color={theme.colors.primary} />
+                    <Text style={styles.attachmentButtonText}>Add page</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.attachmentButton} onPress={handleAttachDocument}>
+                    <Upload size={18} color={theme.colors.primary} />
+                    <Text style={styles.attachmentButtonText}>Attach PDF</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {documents.map((document, index) => (
+                  <View key={`${document.uri}-${index}`} style={styles.documentRow}>
+                    <FileText size={18} color={theme.colors.muted} />
+                    <Text style={styles.documentName} numberOfLines={1}>{document.filename}</Text>
+                    <TouchableOpacity
+                      onPress={() => setDocuments(current => current.filter((_, i) => i !== index))}
+                    >
+                      <X size={16} color={theme.colors.muted} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
                 {scannedReceipt && (
                   <View style={styles.receiptDetails}>
                     <Text style={styles.sectionTitle}>Receipt Details</Text>
@@ -470,6 +608,64 @@ const styles = StyleSheet.create({
     height: 200,
     resizeMode: 'cover',
   },
+  pageContainer: {
+    width: Dimensions.get('window').width,
+  },
+  pageLabel: {
+    position: 'absolute',
+    left: 12,
+    bottom: 12,
+    color: theme.colors.text,
+    fontSize: 12,
+    backgroundColor: theme.colors.glass,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  removePageButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: theme.colors.glass,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  attachmentActions: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    gap: 12,
+  },
+  attachmentButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.cardAlt,
+    paddingVertical: 10,
+    borderRadius: 12,
+    gap: 6,
+  },
+  attachmentButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.colors.primary,
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginTop: 12,
+    gap: 8,
+  },
+  documentName: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.text,
+  },
   receiptDetails: {
     padding: 20,
   },
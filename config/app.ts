@@ -1,3 +1,4 @@
 // App-wide configuration and demo constants
 
 export const DEFAULT_TOTAL_BALANCE = 15420.5; // ZAR
+export const DEFAULT_PAYDAY = 25; // day of the month; most South African salaries are paid on the 25th
@@ -3,12 +3,14 @@ import AccountIntegrationSimulator, { AccountFeedState } from '../services/Accou
 import { BankAccount, Transaction } from '../types/finance';
 import { ExpenseLike } from '../services/WellbeingScoreService';
 import { ExpenseInput } from '../services/BudgetRecommendationService';
+import { RecurrenceRuleRecord } from '../database/models/Records';
 
 export interface AccountIntegrationContextType {
   accounts: BankAccount[];
   transactions: Transaction[];
   expenseLike: ExpenseLike[];
   expenseInputs: ExpenseInput[];
+  recurringRules: RecurrenceRuleRecord[];
   regenerate: (seed?: string) => void;
   lastGenerated: string | null;
 }
@@ -26,7 +28,8 @@ export const AccountIntegrationProvider: React.FC<{ children: React.ReactNode; s
   React.useEffect(() => { generate(seed); }, [seed]);
 
   const expenseLike = React.useMemo<ExpenseLike[]>(() => feed ? AccountIntegrationSimulator.toExpenseLike(feed.transactions) : [], [feed]);
-  const expenseInputs = React.useMemo<ExpenseInput[]>(() => expenseLike.map(e => ({ amount: e.amount, category: e.category, date: e.date })), [expenseLike]);
+  const expenseInputs = React.useMemo<ExpenseInput[]>(() => expenseLike.map(e => ({ amount: e.amount, category: e.category, date: e.date, splits: e.splits })), [expenseLike]);
+  const recurringRules = React.useMemo<RecurrenceRuleRecord[]>(() => feed ? AccountIntegrationSimulator.toRecurrenceRules(feed.transactions) : [], [feed]);
 
   return (
     <AccountIntegrationContext.Provider value={{
@@ -34,6 +37,7 @@ export const AccountIntegrationProvider: React.FC<{ children: React.ReactNode; s
       transactions: feed?.transactions || [],
       expenseLike,
       expenseInputs,
+      recurringRules,
       regenerate: generate,
       lastGenerated: feed?.generatedAt || null
     }}>
@@ -1,11 +1,13 @@
 import React from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { DEFAULT_TOTAL_BALANCE } from '@/config/app';
+import { DEFAULT_PAYDAY, DEFAULT_TOTAL_BALANCE } from '@/config/app';
 import { useAWS } from '@/contexts/AWSContext';
 
 type BalanceContextType = {
   currentBalance: number;
   setBalance: (value: number) => Promise<void>;
+  payday: number; // day of the month, 1-31
+  setPayday: (day: number) => Promise<void>;
 };
 
 const BalanceContext = React.createContext<BalanceContextType | undefined>(undefined);
@@ -13,6 +15,7 @@ const BalanceContext = React.createContext<BalanceContextType | undefined>(undef
 export const BalanceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { userData } = useAWS() || {};
   const [currentBalance, setCurrentBalance] = React.useState<number>(DEFAULT_TOTAL_BALANCE);
+  const [payday, setPaydayState] = React.useState<number>(DEFAULT_PAYDAY);
 
   React.useEffect(() => {
     let mounted = true;
@@ -29,6 +32,15 @@ export const BalanceProvider: React.FC<{ children: React.ReactNode }> = ({ child
     return () => { mounted = false; };
   }, [userData]);
 
+  React.useEffect(() => {
+    (async () => {
+      try {
+        const stored = Number(await AsyncStorage.getItem('user.payday'));
+        if (Number.isInteger(stored) && stored >= 1 && stored <= 31) setPaydayState(stored);
+      } catch {}
+    })();
+  }, []);
+
   const setBalance = React.useCallback(async (value: number) => {
     const v = Number(value);
     const safe = isFinite(v) ? v : 0;
@@ -36,7 +48,17 @@ export const BalanceProvider: React.FC<{ children: React.ReactNode }> = ({ child
     try { await AsyncStorage.setItem('user.balance', String(safe)); } catch {}
   }, []);
 
-  const ctx = React.useMemo(() => ({ currentBalance, setBalance }), [currentBalance, setBalance]);
+  const setPayday = React.useCallback(async (day: number) => {
+    const d = Math.round(Number(day));
+    if (!isFinite(d) || d < 1 || d > 31) return;
+    setPaydayState(d);
+    try { await AsyncStorage.setItem('user.payday', String(d)); } catch {}
+  }, []);
+
+  const ctx = React.useMemo(
+    () => ({ currentBalance, setBalance, payday, setPayday }),
+    [currentBalance, setBalance, payday, setPayday]
+  );
 
   return <BalanceContext.Provider value={ctx}>{children}</BalanceContext.Provider>;
 };
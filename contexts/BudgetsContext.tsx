@@ -0,0 +1,104 @@
+import React from 'react';
+const { useEffect, useCallback, useContext, createContext, useRef } = React;
+import { useAWS } from '@/contexts/AWSContext';
+import { openLocalDatabase } from '@/database/core/LocalDatabase';
+import { createLogger } from '@/database/logging/AppLogger';
+import { SyncQueueRepository } from '@/database/repositories/SyncQueueRepository';
+import { BudgetRepository } from '@/database/repositories/BudgetRepository';
+import { ChangeHistoryRepository } from '@/database/repositories/ChangeHistoryRepository';
+import { BudgetPeriod, ChangeContext } from '@/database/models/Records';
+import { Budget } from '@/types/finance';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+
+interface BudgetsContextType {
+  budgets: Budget[];
+  loading: boolean;
+  setBudget: (category: string, limit: number, period?: BudgetPeriod, context?: ChangeContext) => Promise<void>;
+  transferBudget: (fromCategory: string, toCategory: string, amount: number, period?: BudgetPeriod, context?: ChangeContext) => Promise<void>;
+  removeBudget: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const BudgetsContext = createContext<BudgetsContextType | undefined>(undefined);
+
+export function useBudgets() {
+  const ctx = useContext(BudgetsContext);
+  if (!ctx) throw new Error('useBudgets must be used within BudgetsProvider');
+  return ctx;
+}
+
+// Monthly limits (ZAR) a new install starts with
+const defaultBudgets: { category: string; limit: number }[] = [
+  { category: 'Food & Dining', limit: 3500 },
+  { category: 'Transportation', limit: 1800 },
+  { category: 'Shopping', limit: 2000 },
+  { category: 'Bills & Utilities', limit: 2500 },
+  { category: 'Entertainment', limit: 1000 },
+];
+
+export function BudgetsProvider({ children }: { children: React.ReactNode }) {
+  const aws = useAWS();
+  const userId = aws?.currentUser?.userId || 'demo';
+  const repository = useRef<Promise<{ budgets: BudgetRepository; seeds: BudgetRepository }> | null>(null);
+
+  const getRepository = useCallback(() => {
+    if (!repository.current) {
+      repository.current = (async () => {
+        const logger = createLogger('Budgets');
+        const db = await openLocalDatabase(logger);
+        // Changes are queued so budgets reach the cloud and come back after a reinstall,
+        // and recorded so they can be undone; the starting budgets are not the user's change to undo
+        const syncQueue = new SyncQueueRepository(db, logger);
+        return {
+          budgets: new BudgetRepository(db, logger, syncQueue, new ChangeHistoryRepository(db, logger, syncQueue)),
+          seeds: new BudgetRepository(db, logger, syncQueue),
+        };
+      })();
+      repository.current.catch(() => {
+        repository.current = null;
+      });
+    }
+    return repository.current;
+  }, []);
+
+  // Spending against a budget moves with every expense change
+  const { data, loading, error, refresh } = useLiveQuery(async () => {
+    const { budgets, seeds } = await getRepository();
+    // Seed only a fresh install; budgets the user removed stay removed
+    if (await budgets.count({ userId }) === 0 && (await budgets.getDeleted(userId)).length === 0) {
+      for (const b of defaultBudgets) await seeds.setLimit(userId, b.category, b.limit);
+    }
+    return budgets.getBudgets(userId);
+  }, ['budget', 'expense'], [userId]);
+
+  useEffect(() => {
+    if (error) console.warn('Failed to load budgets', error);
+  }, [error]);
+
+  const setBudget = async (category: string, limit: number, period: BudgetPeriod = 'monthly', context?: ChangeContext) => {
+    const { budgets } = await getRepository();
+    await budgets.setLimit(userId, category, limit, period, context);
+  };
+
+  const transferBudget = async (
+    fromCategory: string,
+    toCategory: string,
+    amount: number,
+    period: BudgetPeriod = 'monthly',
+    context?: ChangeContext
+  ) => {
+    const { budgets } = await getRepository();
+    await budgets.transferLimit(userId, fromCategory, toCategory, amount, period, context);
+  };
+
+  const removeBudget = async (id: string) => {
+    const { budgets } = await getRepository();
+    await budgets.delete(Number(id));
+  };
+
+  return (
+    <BudgetsContext.Provider value={{ budgets: data ?? [], loading, setBudget, transferBudget, removeBudget, refresh }}>
+      {children}
+    </BudgetsContext.Provider>
+  );
+}
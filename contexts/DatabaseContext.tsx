@@ -1,6 +1,16 @@
 import React from 'react';
-const { useState, useCallback, useEffect, useRef, useContext, createContext } = React;
-import * as SQLite from 'expo-sqlite';
+const { useEffect, useCallback, useRef, useContext, createContext } = React;
+import { useAWS } from '@/contexts/AWSContext';
+import { openLocalDatabase } from '@/database/core/LocalDatabase';
+import { createLogger } from '@/database/logging/AppLogger';
+import { SyncQueueRepository } from '@/database/repositories/SyncQueueRepository';
+import { ChangeHistoryRepository } from '@/database/repositories/ChangeHistoryRepository';
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { ReceiptRepository } from '@/database/repositories/ReceiptRepository';
+import { SplitRepository } from '@/database/repositories/SplitRepository';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
+import { SplitAllocation } from '@/types/finance';
+import { categoryTotals } from '@/utils/splits';
 
 interface Expense {
   id: number;
@@ -12,6 +22,7 @@ interface Expense {
   receiptUrl?: string;
   isRecurring: boolean;
   createdAt: string;
+  splits?: SplitAllocation[]; // set when the expense is split across categories
 }
 
 interface Receipt {
@@ -35,17 +46,17 @@ interface DatabaseContextType {
   deleteExpense: (id: number) => Promise<void>;
   getExpensesByCategory: (category: string) => Expense[];
   getExpensesByDateRange: (startDate: string, endDate: string) => Expense[];
-  
+
   // Receipts
   receipts: Receipt[];
   addReceipt: (receipt: Omit<Receipt, 'id' | 'createdAt'>) => Promise<void>;
   updateReceipt: (id: number, updates: Partial<Receipt>) => Promise<void>;
   deleteReceipt: (id: number) => Promise<void>;
-  
+
   // Categories
   getCategories: () => string[];
   getCategoryTotals: (startDate?: string, endDate?: string) => { [category: string]: number };
-  
+
   // Database management
   clearAllData: () => Promise<void>;
   exportData: () => Promise<string>;
@@ -65,160 +76,69 @@ interface DatabaseProviderProps {
   children: React.ReactNode;
 }
 
-export function DatabaseProvider({ children }: DatabaseProviderProps) {
-  const [db, setDb] = useState<SQLite.SQLiteDatabase | null>(null);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [receipts, setReceipts] = useState<Receipt[]>([]);
+interface Repositories {
+  expenses: ExpenseRepository;
+  receipts: ReceiptRepository;
+  splits: SplitRepository;
+}
 
-  useEffect(() => {
-    initializeDatabase();
+export function DatabaseProvider({ children }: DatabaseProviderProps) {
+  const aws = useAWS();
+  const userId = aws?.currentUser?.userId || 'demo';
+  const repositories = useRef<Promise<Repositories> | null>(null);
+
+  const getRepositories = useCallback(() => {
+    if (!repositories.current) {
+      repositories.current = (async () => {
+        const logger = createLogger('Database');
+        const db = await openLocalDatabase(logger);
+        const syncQueue = new SyncQueueRepository(db, logger);
+        // Recorded so a change can be undone from the chat
+        const history = new ChangeHistoryRepository(db, logger, syncQueue);
+        return {
+          expenses: new ExpenseRepository(db, logger, syncQueue, history),
+          receipts: new ReceiptRepository(db, logger, syncQueue, history),
+          splits: new SplitRepository(db, logger),
+        };
+      })();
+      repositories.current.catch(() => {
+        repositories.current = null;
+      });
+    }
+    return repositories.current;
   }, []);
 
-  const initializeDatabase = async () => {
-    try {
-      const database = await SQLite.openDatabaseAsync('bluebot.db');
-      setDb(database);
-      
-      // Create tables
-      await database.execAsync(`
-        CREATE TABLE IF NOT EXISTS expenses (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          amount REAL NOT NULL,
-          category TEXT NOT NULL,
-          merchant TEXT NOT NULL,
-          description TEXT,
-          date TEXT NOT NULL,
-          receiptUrl TEXT,
-          isRecurring INTEGER DEFAULT 0,
-          createdAt TEXT NOT NULL
-        );
-        
-        CREATE TABLE IF NOT EXISTS receipts (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          imageUri TEXT NOT NULL,
-          merchantName TEXT NOT NULL,
-          amount REAL NOT NULL,
-          date TEXT NOT NULL,
-          items TEXT,
-          category TEXT NOT NULL,
-          processed INTEGER DEFAULT 0,
-          ocrConfidence REAL DEFAULT 0,
-          createdAt TEXT NOT NULL
-        );
-        
-        CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
-        CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category);
-        CREATE INDEX IF NOT EXISTS idx_receipts_date ON receipts(date);
-      `);
-      
-      // Load initial data
-      await loadExpenses(database);
-      await loadReceipts(database);
-      
-      // Add sample data if empty
-      await addSampleDataIfEmpty(database);
-      
-    } catch (error) {
-      console.error('Database initialization error:', error);
-    }
-  };
+  const expenseQuery = useLiveQuery(async () => {
+    const repos = await getRepositories();
+    const records = await repos.splits.withSplits('expense', await repos.expenses.getByUserId(userId));
+    return records.map(record => ({ ...record, id: record.id! }));
+  }, ['expense'], [userId]);
 
-  const addSampleDataIfEmpty = async (database: SQLite.SQLiteDatabase) => {
-    try {
-      const expenseCount = await database.getFirstAsync('SELECT COUNT(*) as count FROM expenses');
-      
-      if ((expenseCount as any)?.count === 0) {
-        const sampleExpenses = [
-          {
-            amount: 234.50,
-            category: 'Groceries',
-            merchant: 'Checkers',
-            description: 'Weekly grocery shopping',
-            date: '2025-01-20',
-            isRecurring: 0,
-            createdAt: new Date().toISOString(),
-          },
-          {
-            amount: 87.50,
-            category: 'Transport',
-            merchant: 'Uber',
-            description: 'Ride to work',
-            date: '2025-01-20',
-            isRecurring: 0,
-            createdAt: new Date().toISOString(),
-          },
-          {
-            amount: 125.00,
-            category: 'Entertainment',
-            merchant: 'Netflix',
-            description: 'Monthly subscription',
-            date: '2025-01-19',
-            isRecurring: 1,
-            createdAt: new Date().toISOString(),
-          },
-          {
-            amount: 45.80,
-            category: 'Groceries',
-            merchant: 'Woolworths',
-            description: 'Lunch items',
-            date: '2025-01-19',
-            isRecurring: 0,
-            createdAt: new Date().toISOString(),
-          },
-          {
-            amount: 320.00,
-            category: 'Utilities',
-            merchant: 'Eskom',
-            description: 'Electricity bill',
-            date: '2025-01-18',
-            isRecurring: 1,
-            createdAt: new Date().toISOString(),
-          },
-        ];
-
-        for (const expense of sampleExpenses) {
-          await database.runAsync(
-            'INSERT INTO expenses (amount, category, merchant, description, date, isRecurring, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
-            [expense.amount, expense.category, expense.merchant, expense.description, expense.date, expense.isRecurring, expense.createdAt]
-          );
-        }
-        
-        await loadExpenses(database);
-      }
-    } catch (error) {
-      console.error('Error adding sample data:', error);
-    }
-  };
+  const receiptQuery = useLiveQuery(async () => {
+    const repos = await getRepositories();
+    return (await repos.receipts.getByUserId(userId)).map(record => ({ ...record, id: record.id! }));
+  }, ['receipt'], [userId]);
 
-  const loadExpenses = async (database: SQLite.SQLiteDatabase) => {
-    try {
-      const result = await database.getAllAsync('SELECT * FROM expenses ORDER BY date DESC, createdAt DESC');
-      setExpenses(result as Expense[]);
-    } catch (error) {
-      console.error('Error loading expenses:', error);
-    }
-  };
+  useEffect(() => {
+    if (expenseQuery.error) console.error('Error loading expenses:', expenseQuery.error);
+    if (receiptQuery.error) console.error('Error loading receipts:', receiptQuery.error);
+  }, [expenseQuery.error, receiptQuery.error]);
 
-  const loadReceipts = async (database: SQLite.SQLiteDatabase) => {
-    try {
-      const result = await database.getAllAsync('SELECT * FROM receipts ORDER BY date DESC, createdAt DESC');
-      setReceipts(result as Receipt[]);
-    } catch (error) {
-      console.error('Error loading receipts:', error);
-    }
-  };
+  const expenses: Expense[] = expenseQuery.data ?? [];
+  const receipts: Receipt[] = receiptQuery.data ?? [];
 
   const addExpense = async (expense: Omit<Expense, 'id' | 'createdAt'>) => {
-    if (!db) return;
-
     try {
-      const createdAt = new Date().toISOString();
-      await db.runAsync(
-        'INSERT INTO expenses (amount, category, merchant, description, date, receiptUrl, isRecurring, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-        [expense.amount, expense.category, expense.merchant, expense.description || '', expense.date, expense.receiptUrl || null, expense.isRecurring ? 1 : 0, createdAt]
-      );
-      
-      await loadExpenses(db);
+      const repos = await getRepositories();
+      const now = new Date().toISOString();
+      await repos.expenses.create({
+        ...expense,
+        description: expense.description || '',
+        userId,
+        createdAt: now,
+        updatedAt: now,
+        syncStatus: 'pending',
+      });
     } catch (error) {
       console.error('Error adding expense:', error);
       throw error;
@@ -226,18 +146,11 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const updateExpense = async (id: number, updates: Partial<Expense>) => {
-    if (!db) return;
-
     try {
-      const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
-      const values = Object.values(updates);
-      
-      await db.runAsync(
-        `UPDATE expenses SET ${setClause} WHERE id = ?`,
-        [...values, id]
-      );
-      
-      await loadExpenses(db);
+      const repos = await getRepositories();
+      // Splits are changed through the split repository, not as a column
+      const { splits: _splits, ...changes } = updates;
+      await repos.expenses.update(id, changes);
     } catch (error) {
       console.error('Error updating expense:', error);
       throw error;
@@ -245,11 +158,9 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const deleteExpense = async (id: number) => {
-    if (!db) return;
-
     try {
-      await db.runAsync('DELETE FROM expenses WHERE id = ?', [id]);
-      await loadExpenses(db);
+      const repos = await getRepositories();
+      await repos.expenses.delete(id);
     } catch (error) {
       console.error('Error deleting expense:', error);
       throw error;
@@ -257,16 +168,16 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const addReceipt = async (receipt: Omit<Receipt, 'id' | 'createdAt'>) => {
-    if (!db) return;
-
     try {
-      const createdAt = new Date().toISOString();
-      await db.runAsync(
-        'INSERT INTO receipts (imageUri, merchantName, amount, date, items, category, processed, ocrConfidence, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [receipt.imageUri, receipt.merchantName, receipt.amount, receipt.date, receipt.items, receipt.category, receipt.processed ? 1 : 0, receipt.ocrConfidence, createdAt]
-      );
-      
-      await loadReceipts(db);
+      const repos = await getRepositories();
+      const now = new Date().toISOString();
+      await repos.receipts.create({
+        ...receipt,
+        userId,
+        createdAt: now,
+        updatedAt: now,
+        syncStatus: 'pending',
+      });
     } catch (error) {
       console.error('Error adding receipt:', error);
       throw error;
@@ -274,18 +185,9 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const updateReceipt = async (id: number, updates: Partial<Receipt>) => {
-    if (!db) return;
-
     try {
-      const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
-      const values = Object.values(updates);
-      
-      await db.runAsync(
-        `UPDATE receipts SET ${setClause} WHERE id = ?`,
-        [...values, id]
-      );
-      
-      await loadReceipts(db);
+      const repos = await getRepositories();
+      await repos.receipts.update(id, updates);
     } catch (error) {
       console.error('Error updating receipt:', error);
       throw error;
@@ -293,11 +195,9 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const deleteReceipt = async (id: number) => {
-    if (!db) return;
-
     try {
-      await db.runAsync('DELETE FROM receipts WHERE id = ?', [id]);
-      await loadReceipts(db);
+      const repos = await getRepositories();
+      await repos.receipts.delete(id);
     } catch (error) {
       console.error('Error deleting receipt:', error);
       throw error;
@@ -319,34 +219,25 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
 
   const getCategoryTotals = (startDate?: string, endDate?: string): { [category: string]: number } => {
     let filteredExpenses = expenses;
-    
+
     if (startDate && endDate) {
       filteredExpenses = getExpensesByDateRange(startDate, endDate);
     }
-    
-    const totals: { [category: string]: number } = {};
-    
-    filteredExpenses.forEach(expense => {
-      if (!totals[expense.category]) {
-        totals[expense.category] = 0;
-      }
-      totals[expense.category] += expense.amount;
-    });
-    
-    return totals;
+
+    // Split expenses count towards the categories of their splits
+    return categoryTotals(filteredExpenses);
   };
 
+  // Moves the user's records to the trash, where they can still be restored until purged
   const clearAllData = async () => {
-    if (!db) return;
-
     try {
-      await db.execAsync(`
-        DELETE FROM expenses;
-        DELETE FROM receipts;
-      `);
-      
-      setExpenses([]);
-      setReceipts([]);
+      const repos = await getRepositories();
+      for (const expense of await repos.expenses.getByUserId(userId)) {
+        await repos.expenses.delete(expense.id!);
+      }
+      for (const receipt of await repos.receipts.getByUserId(userId)) {
+        await repos.receipts.delete(receipt.id!);
+      }
     } catch (error) {
       console.error('Error clearing data:', error);
       throw error;
@@ -359,7 +250,7 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
       receipts,
       exportDate: new Date().toISOString(),
     };
-    
+
     return JSON.stringify(data, null, 2);
   };
 
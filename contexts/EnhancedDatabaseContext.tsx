@@ -1,28 +1,28 @@
-// @ts-nocheck
 import React from 'react';
 const { useState, useCallback, useEffect, useRef, useContext, createContext } = React;
-import * as SQLite from 'expo-sqlite';
-import { 
-  collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  getDocs, 
-  query, 
-  where, 
-  orderBy,
-  onSnapshot,
-  serverTimestamp,
-  Timestamp 
-} from 'firebase/firestore';
-import { db } from '../config/firebase';
-import { useAWS } from './AWSContext';
 import NetInfo from '@react-native-community/netinfo';
+import { useAWS } from './AWSContext';
+import { openLocalDatabase } from '../database/core/LocalDatabase';
+import { SQLiteManager } from '../database/core/SQLiteManager';
+import { createLogger } from '../database/logging/AppLogger';
+import { SyncQueueRepository } from '../database/repositories/SyncQueueRepository';
+import { ChangeHistoryRepository } from '../database/repositories/ChangeHistoryRepository';
+import { ExpenseRepository } from '../database/repositories/ExpenseRepository';
+import { ReceiptRepository } from '../database/repositories/ReceiptRepository';
+import { FinancialGoalRepository } from '../database/repositories/FinancialGoalRepository';
+import { SplitRepository } from '../database/repositories/SplitRepository';
+import { EducationRepository } from '../database/repositories/EducationRepository';
+import { LEGACY_MODULES_COURSE_ID } from '../database/migrations/LegacyDataImporter';
+import { SyncEngine } from '../database/sync/SyncEngine';
+import { DynamoDBSyncRemote } from '../database/sync/DynamoDBSyncRemote';
+import { awsDynamoDBService } from '../services/AWSDynamoDBService';
+import { useLiveQuery } from '../hooks/useLiveQuery';
+import { SplitAllocation } from '../types/finance';
+import { categoryTotals } from '../utils/splits';
 
 interface Expense {
   id: string;
-  localId?: number; // For SQLite sync
+  localId?: number; // row ID in the local database
   amount: number;
   category: string;
   merchant: string;
@@ -34,11 +34,12 @@ interface Expense {
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending' | 'error';
+  splits?: SplitAllocation[]; // set when the expense is split across categories
 }
 
 interface Receipt {
   id: string;
-  localId?: number; // For SQLite sync
+  localId?: number; // row ID in the local database
   imageUri: string;
   merchantName: string;
   amount: number;
@@ -83,7 +84,7 @@ interface EducationProgress {
 interface DatabaseContextType {
   // Connection status
   isOnline: boolean;
-  
+
   // Expenses
   expenses: Expense[];
   addExpense: (expense: Omit<Expense, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => Promise<void>;
@@ -91,19 +92,19 @@ interface DatabaseContextType {
   deleteExpense: (id: string) => Promise<void>;
   getExpensesByCategory: (category: string) => Expense[];
   getExpensesByDateRange: (startDate: string, endDate: string) => Expense[];
-  
+
   // Receipts
   receipts: Receipt[];
   addReceipt: (receipt: Omit<Receipt, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => Promise<void>;
   updateReceipt: (id: string, updates: Partial<Receipt>) => Promise<void>;
   deleteReceipt: (id: string) => Promise<void>;
-  
+
   // Financial Goals
   financialGoals: FinancialGoal[];
   addFinancialGoal: (goal: Omit<FinancialGoal, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => Promise<void>;
   updateFinancialGoal: (id: string, updates: Partial<FinancialGoal>) => Promise<void>;
   deleteFinancialGoal: (id: string) => Promise<void>;
-  
+
   // Education Progress
   educationProgress: EducationProgress | null;
   completeModule: (moduleId: string, xpReward: number) => Promise<void>;
@@ -111,7 +112,7 @@ interface DatabaseContextType {
   // Categories
   getCategories: () => string[];
   getCategoryTotals: (startDate?: string, endDate?: string) => { [category: string]: number };
-  
+
   // Database management
   syncData: () => Promise<void>;
   clearAllData: () => Promise<void>;
@@ -132,21 +133,69 @@ interface DatabaseProviderProps {
   children: React.ReactNode;
 }
 
+interface Repositories {
+  db: SQLiteManager;
+  syncQueue: SyncQueueRepository;
+  expenses: ExpenseRepository;
+  receipts: ReceiptRepository;
+  goals: FinancialGoalRepository;
+  splits: SplitRepository;
+  education: EducationRepository;
+}
+
+const logger = createLogger('EnhancedDatabase');
+
+// XP needed per level
+const XP_PER_LEVEL = 500;
+
+/**
+ * Local row ID behind an ID handed out by this context
+ */
+function localIdOf(id: string): number {
+  return Number(id);
+}
+
+/**
+ * Drop the fields this context adds so only record fields reach the repositories
+ */
+function recordChanges<T extends { id: string; localId?: number; splits?: unknown }>(updates: Partial<T>) {
+  const { id: _id, localId: _localId, splits: _splits, ...changes } = updates;
+  return changes;
+}
+
 export function DatabaseProvider({ children }: DatabaseProviderProps) {
   // AWS Context with fallback to demo mode
   const aws = useAWS();
-  const { currentUser, isInitialized } = aws || {};
-  const user = currentUser || { firstName: 'Demo', email: 'demo@bluebot.com' };
-  const [db, setDb] = useState<SQLite.SQLiteDatabase | null>(null);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [receipts, setReceipts] = useState<Receipt[]>([]);
-  const [financialGoals, setFinancialGoals] = useState<FinancialGoal[]>([]);
-  const [educationProgress, setEducationProgress] = useState<EducationProgress | null>(null);
+  const userId = aws?.currentUser?.userId || 'demo';
   const [isOnline, setIsOnline] = useState(true);
+  const repositories = useRef<Promise<Repositories> | null>(null);
+
+  const getRepositories = useCallback(() => {
+    if (!repositories.current) {
+      repositories.current = (async () => {
+        const db = await openLocalDatabase(logger);
+        // Changes are queued and pushed by syncData
+        const syncQueue = new SyncQueueRepository(db, logger);
+        // Recorded so a change can be undone from the chat
+        const history = new ChangeHistoryRepository(db, logger, syncQueue);
+        return {
+          db,
+          syncQueue,
+          expenses: new ExpenseRepository(db, logger, syncQueue, history),
+          receipts: new ReceiptRepository(db, logger, syncQueue, history),
+          goals: new FinancialGoalRepository(db, logger, syncQueue, history),
+          splits: new SplitRepository(db, logger),
+          education: new EducationRepository(db, logger),
+        };
+      })();
+      repositories.current.catch(() => {
+        repositories.current = null;
+      });
+    }
+    return repositories.current;
+  }, []);
 
   useEffect(() => {
-    initializeDatabase();
-    
     // Monitor network status
     const unsubscribe = NetInfo.addEventListener(state => {
       setIsOnline(state.isConnected || false);
@@ -155,384 +204,104 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
     return unsubscribe;
   }, []);
 
-  useEffect(() => {
-    if (user && db) {
-      loadLocalData();
-      setupFirebaseListeners();
-    }
-  }, [user, db]);
+  const expenseQuery = useLiveQuery(async (): Promise<Expense[]> => {
+    const repos = await getRepositories();
+    const records = await repos.splits.withSplits('expense', await repos.expenses.getByUserId(userId));
+    return records.map(record => ({
+      ...record,
+      id: String(record.id),
+      localId: record.id,
+    }));
+  }, ['expense'], [userId]);
+
+  const receiptQuery = useLiveQuery(async (): Promise<Receipt[]> => {
+    const repos = await getRepositories();
+    return (await repos.receipts.getByUserId(userId)).map(record => ({
+      ...record,
+      id: String(record.id),
+      localId: record.id,
+    }));
+  }, ['receipt'], [userId]);
+
+  const goalQuery = useLiveQuery(async (): Promise<FinancialGoal[]> => {
+    const repos = await getRepositories();
+    return (await repos.goals.getByUserId(userId)).map(record => ({
+      ...record,
+      id: String(record.id),
+      localId: record.id,
+    }));
+  }, ['goal'], [userId]);
+
+  const educationQuery = useLiveQuery(async (): Promise<EducationProgress> => {
+    const repos = await getRepositories();
+    const lessons = await repos.education.getProgress(userId, LEGACY_MODULES_COURSE_ID);
+    const achievements = await repos.education.getAchievements(userId);
+    const totalXP = lessons.reduce((sum, lesson) => sum + lesson.score, 0);
+    const lastCompleted = lessons.find(lesson => lesson.completedAt)?.completedAt;
+
+    return {
+      userId,
+      totalXP,
+      level: Math.floor(totalXP / XP_PER_LEVEL) + 1,
+      completedModules: lessons.filter(lesson => lesson.completed).map(lesson => lesson.lessonId),
+      achievements: achievements.map(achievement => achievement.achievementId),
+      lastCompletedTimestamp: lastCompleted,
+      updatedAt: lastCompleted || new Date().toISOString(),
+      // Progress stays on the device
+      syncStatus: 'pending',
+    };
+  }, ['education'], [userId]);
 
   useEffect(() => {
-    // Auto-sync when coming online
-    if (isOnline && user) {
-      syncData();
+    for (const query of [expenseQuery, receiptQuery, goalQuery, educationQuery]) {
+      if (query.error) console.error('Error loading local data:', query.error);
     }
-  }, [isOnline, user]);
+  }, [expenseQuery.error, receiptQuery.error, goalQuery.error, educationQuery.error]);
 
-  const initializeDatabase = async () => {
-    try {
-      const database = await SQLite.openDatabaseAsync('bluebotFinance.db');
-      
-      // Create tables
-      await database.execAsync(`
-        PRAGMA journal_mode = WAL;
-        
-        CREATE TABLE IF NOT EXISTS expenses (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          firebaseId TEXT UNIQUE,
-          amount REAL NOT NULL,
-          category TEXT NOT NULL,
-          merchant TEXT NOT NULL,
-          description TEXT,
-          date TEXT NOT NULL,
-          receiptUrl TEXT,
-          isRecurring INTEGER DEFAULT 0,
-          userId TEXT NOT NULL,
-          createdAt TEXT NOT NULL,
-          updatedAt TEXT NOT NULL,
-          syncStatus TEXT DEFAULT 'pending'
-        );
-        
-        CREATE TABLE IF NOT EXISTS receipts (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          firebaseId TEXT UNIQUE,
-          imageUri TEXT NOT NULL,
-          merchantName TEXT NOT NULL,
-          amount REAL NOT NULL,
-          date TEXT NOT NULL,
-          items TEXT,
-          category TEXT NOT NULL,
-          processed INTEGER DEFAULT 0,
-          ocrConfidence REAL,
-          userId TEXT NOT NULL,
-          createdAt TEXT NOT NULL,
-          updatedAt TEXT NOT NULL,
-          syncStatus TEXT DEFAULT 'pending'
-        );
-        
-        CREATE TABLE IF NOT EXISTS financial_goals (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          firebaseId TEXT UNIQUE,
-          title TEXT NOT NULL,
-          description TEXT,
-          targetAmount REAL NOT NULL,
-          currentAmount REAL DEFAULT 0,
-          deadline TEXT NOT NULL,
-          category TEXT NOT NULL,
-          userId TEXT NOT NULL,
-          isActive INTEGER DEFAULT 1,
-          createdAt TEXT NOT NULL,
-          updatedAt TEXT NOT NULL,
-          syncStatus TEXT DEFAULT 'pending'
-        );
-
-        CREATE TABLE IF NOT EXISTS education_progress (
-          userId TEXT PRIMARY KEY,
-          totalXP INTEGER DEFAULT 0,
-          level INTEGER DEFAULT 1,
-          completedModules TEXT,
-          achievements TEXT,
-          lastCompletedTimestamp TEXT,
-          updatedAt TEXT NOT NULL,
-          syncStatus TEXT DEFAULT 'pending'
-        );
-        
-        CREATE INDEX IF NOT EXISTS idx_expenses_user ON expenses(userId);
-        CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
-        CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category);
-        CREATE INDEX IF NOT EXISTS idx_receipts_user ON receipts(userId);
-        CREATE INDEX IF NOT EXISTS idx_goals_user ON financial_goals(userId);
-      `);
-      
-      setDb(database);
-    } catch (error) {
-      console.error('Error initializing database:', error);
-    }
-  };
+  const expenses = expenseQuery.data ?? [];
+  const receipts = receiptQuery.data ?? [];
+  const financialGoals = goalQuery.data ?? [];
+  const educationProgress = educationQuery.data ?? null;
 
-  const loadLocalData = async () => {
-    if (!db || !user) return;
+  const syncData = async () => {
+    // Demo data stays on the device until the user signs in
+    if (!isOnline || !aws?.isAuthenticated) return;
 
     try {
-      // Load expenses
-      const expenseResults = await db.getAllAsync(
-        'SELECT * FROM expenses WHERE userId = ? ORDER BY date DESC',
-        [user.id]
-      );
-      const localExpenses: Expense[] = expenseResults.map((row: any) => ({
-        id: row.firebaseId || `local_${row.id}`,
-        localId: row.id,
-        amount: row.amount,
-        category: row.category,
-        merchant: row.merchant,
-        description: row.description,
-        date: row.date,
-        receiptUrl: row.receiptUrl,
-        isRecurring: Boolean(row.isRecurring),
-        userId: row.userId,
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt,
-        syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
-      }));
-      setExpenses(localExpenses);
-
-      // Load receipts
-      const receiptResults = await db.getAllAsync(
-        'SELECT * FROM receipts WHERE userId = ? ORDER BY date DESC',
-        [user.id]
-      );
-      const localReceipts: Receipt[] = receiptResults.map((row: any) => ({
-        id: row.firebaseId || `local_${row.id}`,
-        localId: row.id,
-        imageUri: row.imageUri,
-        merchantName: row.merchantName,
-        amount: row.amount,
-        date: row.date,
-        items: row.items,
-        category: row.category,
-        processed: Boolean(row.processed),
-        ocrConfidence: row.ocrConfidence,
-        userId: row.userId,
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt,
-        syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
-      }));
-      setReceipts(localReceipts);
-
-      // Load financial goals
-      const goalResults = await db.getAllAsync(
-        'SELECT * FROM financial_goals WHERE userId = ? ORDER BY createdAt DESC',
-        [user.id]
-      );
-      const localGoals: FinancialGoal[] = goalResults.map((row: any) => ({
-        id: row.firebaseId || `local_${row.id}`,
-        localId: row.id,
-        title: row.title,
-        description: row.description,
-        targetAmount: row.targetAmount,
-        currentAmount: row.currentAmount,
-        deadline: row.deadline,
-        category: row.category,
-        userId: row.userId,
-        isActive: Boolean(row.isActive),
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt,
-        syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
-      }));
-      setFinancialGoals(localGoals);
-
-      // Load education progress
-      const progressResult = await db.getFirstAsync(
-        'SELECT * FROM education_progress WHERE userId = ?',
-        [user.id]
-      );
-
-      if (progressResult) {
-        const localProgress: EducationProgress = {
-          userId: progressResult.userId,
-          totalXP: progressResult.totalXP,
-          level: progressResult.level,
-          completedModules: JSON.parse(progressResult.completedModules || '[]'),
-          achievements: JSON.parse(progressResult.achievements || '[]'),
-          lastCompletedTimestamp: progressResult.lastCompletedTimestamp,
-          updatedAt: progressResult.updatedAt,
-          syncStatus: progressResult.syncStatus as 'synced' | 'pending' | 'error',
-        };
-        setEducationProgress(localProgress);
-      } else {
-        // Create initial progress if none exists
-        const initialProgress: EducationProgress = {
-          userId: user.id,
-          totalXP: 0,
-          level: 1,
-          completedModules: [],
-          achievements: [],
-          updatedAt: new Date().toISOString(),
-          syncStatus: 'pending',
-        };
-        await db.runAsync(
-          'INSERT INTO education_progress (userId, totalXP, level, completedModules, achievements, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?)',
-          [
-            initialProgress.userId,
-            initialProgress.totalXP,
-            initialProgress.level,
-            JSON.stringify(initialProgress.completedModules),
-            JSON.stringify(initialProgress.achievements),
-            initialProgress.updatedAt,
-            initialProgress.syncStatus,
-          ]
-        );
-        setEducationProgress(initialProgress);
-      }
+      const repos = await getRepositories();
+      const engine = new SyncEngine(repos.db, repos.syncQueue, new DynamoDBSyncRemote(awsDynamoDBService), logger);
+      await engine.enqueueUntracked();
+      await engine.processQueue();
+
+      // Sync only changes remote IDs and sync status, which are not announced as changes
+      await Promise.all([expenseQuery.refresh(), receiptQuery.refresh(), goalQuery.refresh()]);
     } catch (error) {
-      console.error('Error loading local data:', error);
+      console.error('Error syncing data:', error);
     }
   };
 
-  const setupFirebaseListeners = () => {
-    if (!user || !isOnline) return;
-
-    // Listen for expense changes
-    const expensesQuery = query(
-      collection(db, 'expenses'),
-      where('userId', '==', user.id),
-      orderBy('createdAt', 'desc')
-    );
-
-    const unsubscribeExpenses = onSnapshot(expensesQuery, (snapshot) => {
-      const firebaseExpenses: Expense[] = [];
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        firebaseExpenses.push({
-          id: doc.id,
-          amount: data.amount,
-          category: data.category,
-          merchant: data.merchant,
-          description: data.description,
-          date: data.date,
-          receiptUrl: data.receiptUrl,
-          isRecurring: data.isRecurring,
-          userId: data.userId,
-          createdAt: data.createdAt?.toDate?.()?.toISOString() || data.createdAt,
-          updatedAt: data.updatedAt?.toDate?.()?.toISOString() || data.updatedAt,
-          syncStatus: 'synced',
-        });
-      });
-      
-      // Merge with local data
-      setExpenses(prev => {
-        const merged = [...firebaseExpenses];
-        prev.forEach(local => {
-          if (local.syncStatus === 'pending' && !merged.find(fb => fb.id === local.id)) {
-            merged.push(local);
-          }
-        });
-        return merged.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      });
-    });
-
-    return () => {
-      unsubscribeExpenses();
-    };
-  };
+  useEffect(() => {
+    // Auto-sync when coming online
+    if (isOnline) {
+      syncData();
+    }
+  }, [isOnline, userId, aws?.isAuthenticated]);
 
   const completeModule = async (moduleId: string, xpReward: number) => {
-    if (!user || !db || !educationProgress) return;
-
-    const now = new Date().toISOString();
-    const newTotalXP = (educationProgress.totalXP || 0) + xpReward;
-    const newLevel = Math.floor(newTotalXP / 500) + 1;
-    const updatedCompletedModules = [...new Set([...educationProgress.completedModules, moduleId])];
-
-    const updatedProgress: EducationProgress = {
-      ...educationProgress,
-      totalXP: newTotalXP,
-      level: newLevel,
-      completedModules: updatedCompletedModules,
-      lastCompletedTimestamp: now,
-      updatedAt: now,
-      syncStatus: 'pending',
-    };
-
-    setEducationProgress(updatedProgress);
-
     try {
-      await db.runAsync(
-        `INSERT OR REPLACE INTO education_progress 
-         (userId, totalXP, level, completedModules, achievements, lastCompletedTimestamp, updatedAt, syncStatus) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          updatedProgress.userId,
-          updatedProgress.totalXP,
-          updatedProgress.level,
-          JSON.stringify(updatedProgress.completedModules),
-          JSON.stringify(updatedProgress.achievements),
-          updatedProgress.lastCompletedTimestamp,
-          updatedProgress.updatedAt,
-          updatedProgress.syncStatus,
-        ]
-      );
-
-      if (isOnline) {
-        // Sync to Firebase
-      }
+      const repos = await getRepositories();
+      await repos.education.completeLesson(userId, LEGACY_MODULES_COURSE_ID, moduleId, xpReward);
     } catch (error) {
       console.error('Error completing module:', error);
     }
   };
 
   const addExpense = async (expenseData: Omit<Expense, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => {
-    if (!user || !db) return;
-
-    const now = new Date().toISOString();
-    const expense: Expense = {
-      id: `temp_${Date.now()}`,
-      ...expenseData,
-      userId: user.id,
-      createdAt: now,
-      updatedAt: now,
-      syncStatus: 'pending',
-    };
-
     try {
-      // Save to SQLite first
-      const result = await db.runAsync(
-        `INSERT INTO expenses (amount, category, merchant, description, date, receiptUrl, isRecurring, userId, createdAt, updatedAt, syncStatus)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          expense.amount,
-          expense.category,
-          expense.merchant,
-          expense.description,
-          expense.date,
-          expense.receiptUrl,
-          expense.isRecurring ? 1 : 0,
-          expense.userId,
-          expense.createdAt,
-          expense.updatedAt,
-          expense.syncStatus,
-        ]
-      );
-
-      expense.localId = result.lastInsertRowId;
-      setExpenses(prev => [expense, ...prev]);
-
-      // Try to sync to Firebase
-      if (isOnline) {
-        try {
-          const docRef = await addDoc(collection(db, 'expenses'), {
-            amount: expense.amount,
-            category: expense.category,
-            merchant: expense.merchant,
-            description: expense.description,
-            date: expense.date,
-            receiptUrl: expense.receiptUrl,
-            isRecurring: expense.isRecurring,
-            userId: expense.userId,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          });
-
-          // Update local record with Firebase ID
-          await db.runAsync(
-            'UPDATE expenses SET firebaseId = ?, syncStatus = ? WHERE id = ?',
-            [docRef.id, 'synced', expense.localId]
-          );
-
-          expense.id = docRef.id;
-          expense.syncStatus = 'synced';
-          setExpenses(prev => prev.map(e => e.localId === expense.localId ? expense : e));
-        } catch (error) {
-          console.error('Error syncing expense to Firebase:', error);
-          // Update sync status to error
-          await db.runAsync(
-            'UPDATE expenses SET syncStatus = ? WHERE id = ?',
-            ['error', expense.localId]
-          );
-          expense.syncStatus = 'error';
-          setExpenses(prev => prev.map(e => e.localId === expense.localId ? expense : e));
-        }
-      }
+      const repos = await getRepositories();
+      const now = new Date().toISOString();
+      const { localId: _localId, ...expense } = expenseData;
+      await repos.expenses.create({ ...expense, userId, createdAt: now, updatedAt: now, syncStatus: 'pending' });
     } catch (error) {
       console.error('Error adding expense:', error);
       throw error;
@@ -540,55 +309,9 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const updateExpense = async (id: string, updates: Partial<Expense>) => {
-    if (!user || !db) return;
-
-    const now = new Date().toISOString();
-    updates.updatedAt = now;
-
     try {
-      const expense = expenses.find(e => e.id === id);
-      if (!expense) return;
-
-      // Update SQLite
-      if (expense.localId) {
-        const updateFields = Object.keys(updates).filter(key => key !== 'id');
-        const updateValues = updateFields.map(key => updates[key as keyof Expense]);
-        const setClause = updateFields.map(key => `${key} = ?`).join(', ');
-        
-        await db.runAsync(
-          `UPDATE expenses SET ${setClause}, syncStatus = ? WHERE id = ?`,
-          [...updateValues, 'pending', expense.localId]
-        );
-      }
-
-      // Update local state
-      setExpenses(prev => prev.map(e => 
-        e.id === id ? { ...e, ...updates, syncStatus: 'pending' } : e
-      ));
-
-      // Try to sync to Firebase
-      if (isOnline && !id.startsWith('temp_') && !id.startsWith('local_')) {
-        try {
-          await updateDoc(doc(db, 'expenses', id), {
-            ...updates,
-            updatedAt: serverTimestamp(),
-          });
-
-          // Update sync status
-          if (expense.localId) {
-            await db.runAsync(
-              'UPDATE expenses SET syncStatus = ? WHERE id = ?',
-              ['synced', expense.localId]
-            );
-          }
-
-          setExpenses(prev => prev.map(e => 
-            e.id === id ? { ...e, syncStatus: 'synced' } : e
-          ));
-        } catch (error) {
-          console.error('Error syncing expense update to Firebase:', error);
-        }
-      }
+      const repos = await getRepositories();
+      await repos.expenses.update(localIdOf(id), recordChanges(updates));
     } catch (error) {
       console.error('Error updating expense:', error);
       throw error;
@@ -596,28 +319,9 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const deleteExpense = async (id: string) => {
-    if (!user || !db) return;
-
     try {
-      const expense = expenses.find(e => e.id === id);
-      if (!expense) return;
-
-      // Delete from SQLite
-      if (expense.localId) {
-        await db.runAsync('DELETE FROM expenses WHERE id = ?', [expense.localId]);
-      }
-
-      // Update local state
-      setExpenses(prev => prev.filter(e => e.id !== id));
-
-      // Try to delete from Firebase
-      if (isOnline && !id.startsWith('temp_') && !id.startsWith('local_')) {
-        try {
-          await deleteDoc(doc(db, 'expenses', id));
-        } catch (error) {
-          console.error('Error deleting expense from Firebase:', error);
-        }
-      }
+      const repos = await getRepositories();
+      await repos.expenses.delete(localIdOf(id));
     } catch (error) {
       console.error('Error deleting expense:', error);
       throw error;
@@ -625,208 +329,66 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
   };
 
   const addReceipt = async (receiptData: Omit<Receipt, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => {
-    if (!user || !db) return;
-
-    const now = new Date().toISOString();
-    const receipt: Receipt = {
-      id: `temp_${Date.now()}`,
-      ...receiptData,
-      userId: user.id,
-      createdAt: now,
-      updatedAt: now,
-      syncStatus: 'pending',
-    };
-
     try {
-      // Save to SQLite first
-      const result = await db.runAsync(
-        `INSERT INTO receipts (imageUri, merchantName, amount, date, items, category, processed, ocrConfidence, userId, createdAt, updatedAt, syncStatus)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          receipt.imageUri,
-          receipt.merchantName,
-          receipt.amount,
-          receipt.date,
-          receipt.items,
-          receipt.category,
-          receipt.processed ? 1 : 0,
-          receipt.ocrConfidence,
-          receipt.userId,
-          receipt.createdAt,
-          receipt.updatedAt,
-          receipt.syncStatus,
-        ]
-      );
-
-      receipt.localId = result.lastInsertRowId;
-      setReceipts(prev => [receipt, ...prev]);
-
-      // Try to sync to Firebase
-      if (isOnline) {
-        try {
-          const docRef = await addDoc(collection(db, 'receipts'), {
-            imageUri: receipt.imageUri,
-            merchantName: receipt.merchantName,
-            amount: receipt.amount,
-            date: receipt.date,
-            items: receipt.items,
-            category: receipt.category,
-            processed: receipt.processed,
-            ocrConfidence: receipt.ocrConfidence,
-            userId: receipt.userId,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          });
-
-          // Update local record with Firebase ID
-          await db.runAsync(
-            'UPDATE receipts SET firebaseId = ?, syncStatus = ? WHERE id = ?',
-            [docRef.id, 'synced', receipt.localId]
-          );
-
-          receipt.id = docRef.id;
-          receipt.syncStatus = 'synced';
-          setReceipts(prev => prev.map(r => r.localId === receipt.localId ? receipt : r));
-        } catch (error) {
-          console.error('Error syncing receipt to Firebase:', error);
-        }
-      }
+      const repos = await getRepositories();
+      const now = new Date().toISOString();
+      const { localId: _localId, ...receipt } = receiptData;
+      await repos.receipts.create({ ...receipt, userId, createdAt: now, updatedAt: now, syncStatus: 'pending' });
     } catch (error) {
       console.error('Error adding receipt:', error);
       throw error;
     }
   };
 
-  const addFinancialGoal = async (goalData: Omit<FinancialGoal, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => {
-    if (!user || !db) return;
-
-    const now = new Date().toISOString();
-    const goal: FinancialGoal = {
-      id: `temp_${Date.now()}`,
-      ...goalData,
-      userId: user.id,
-      createdAt: now,
-      updatedAt: now,
-      syncStatus: 'pending',
-    };
+  const updateReceipt = async (id: string, updates: Partial<Receipt>) => {
+    try {
+      const repos = await getRepositories();
+      await repos.receipts.update(localIdOf(id), recordChanges(updates));
+    } catch (error) {
+      console.error('Error updating receipt:', error);
+      throw error;
+    }
+  };
 
+  const deleteReceipt = async (id: string) => {
     try {
-      const result = await db.runAsync(
-        `INSERT INTO financial_goals (title, description, targetAmount, currentAmount, deadline, category, userId, isActive, createdAt, updatedAt, syncStatus)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          goal.title,
-          goal.description,
-          goal.targetAmount,
-          goal.currentAmount,
-          goal.deadline,
-          goal.category,
-          goal.userId,
-          goal.isActive ? 1 : 0,
-          goal.createdAt,
-          goal.updatedAt,
-          goal.syncStatus,
-        ]
-      );
-
-      goal.localId = result.lastInsertRowId;
-      setFinancialGoals(prev => [goal, ...prev]);
-
-      if (isOnline) {
-        try {
-          const docRef = await addDoc(collection(db, 'financial_goals'), {
-            title: goal.title,
-            description: goal.description,
-            targetAmount: goal.targetAmount,
-            currentAmount: goal.currentAmount,
-            deadline: goal.deadline,
-            category: goal.category,
-            userId: goal.userId,
-            isActive: goal.isActive,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          });
-
-          await db.runAsync(
-            'UPDATE financial_goals SET firebaseId = ?, syncStatus = ? WHERE id = ?',
-            [docRef.id, 'synced', goal.localId]
-          );
-
-          goal.id = docRef.id;
-          goal.syncStatus = 'synced';
-          setFinancialGoals(prev => prev.map(g => g.localId === goal.localId ? goal : g));
-        } catch (error) {
-          console.error('Error syncing goal to Firebase:', error);
-        }
-      }
+      const repos = await getRepositories();
+      await repos.receipts.delete(localIdOf(id));
     } catch (error) {
-      console.error('Error adding financial goal:', error);
+      console.error('Error deleting receipt:', error);
       throw error;
     }
   };
 
-  const syncData = async () => {
-    if (!isOnline || !user || !db) return;
+  const addFinancialGoal = async (goalData: Omit<FinancialGoal, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => {
+    try {
+      const repos = await getRepositories();
+      const now = new Date().toISOString();
+      const { localId: _localId, ...goal } = goalData;
+      await repos.goals.create({ ...goal, userId, createdAt: now, updatedAt: now, syncStatus: 'pending' });
+    } catch (error) {
+      console.error('Error adding financial goal:', error);
+      throw error;
+    }
+  };
 
+  const updateFinancialGoal = async (id: string, updates: Partial<FinancialGoal>) => {
     try {
-      // Sync pending expenses
-      const pendingExpenses = await db.getAllAsync(
-        'SELECT * FROM expenses WHERE userId = ? AND syncStatus = ?',
-        [user.id, 'pending']
-      );
-
-      for (const row of pendingExpenses) {
-        try {
-          if (row.firebaseId) {
-            // Update existing
-            await updateDoc(doc(db, 'expenses', row.firebaseId), {
-              amount: row.amount,
-              category: row.category,
-              merchant: row.merchant,
-              description: row.description,
-              date: row.date,
-              receiptUrl: row.receiptUrl,
-              isRecurring: Boolean(row.isRecurring),
-              updatedAt: serverTimestamp(),
-            });
-          } else {
-            // Create new
-            const docRef = await addDoc(collection(db, 'expenses'), {
-              amount: row.amount,
-              category: row.category,
-              merchant: row.merchant,
-              description: row.description,
-              date: row.date,
-              receiptUrl: row.receiptUrl,
-              isRecurring: Boolean(row.isRecurring),
-              userId: row.userId,
-              createdAt: serverTimestamp(),
-              updatedAt: serverTimestamp(),
-            });
-
-            await db.runAsync(
-              'UPDATE expenses SET firebaseId = ? WHERE id = ?',
-              [docRef.id, row.id]
-            );
-          }
-
-          await db.runAsync(
-            'UPDATE expenses SET syncStatus = ? WHERE id = ?',
-            ['synced', row.id]
-          );
-        } catch (error) {
-          console.error('Error syncing expense:', error);
-          await db.runAsync(
-            'UPDATE expenses SET syncStatus = ? WHERE id = ?',
-            ['error', row.id]
-          );
-        }
-      }
+      const repos = await getRepositories();
+      await repos.goals.update(localIdOf(id), recordChanges(updates));
+    } catch (error) {
+      console.error('Error updating financial goal:', error);
+      throw error;
+    }
+  };
 
-      // Reload data after sync
-      await loadLocalData();
+  const deleteFinancialGoal = async (id: string) => {
+    try {
+      const repos = await getRepositories();
+      await repos.goals.delete(localIdOf(id));
     } catch (error) {
-      console.error('Error syncing data:', error);
+      console.error('Error deleting financial goal:', error);
+      throw error;
     }
   };
 
@@ -845,48 +407,28 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
 
   const getCategoryTotals = (startDate?: string, endDate?: string): { [category: string]: number } => {
     let filteredExpenses = expenses;
-    
+
     if (startDate && endDate) {
       filteredExpenses = getExpensesByDateRange(startDate, endDate);
     }
 
-    const totals: { [category: string]: number } = {};
-    filteredExpenses.forEach(expense => {
-      totals[expense.category] = (totals[expense.category] || 0) + expense.amount;
-    });
-
-    return totals;
-  };
-
-  const updateReceipt = async (id: string, updates: Partial<Receipt>) => {
-    // Implementation similar to updateExpense
-  };
-
-  const deleteReceipt = async (id: string) => {
-    // Implementation similar to deleteExpense
-  };
-
-  const updateFinancialGoal = async (id: string, updates: Partial<FinancialGoal>) => {
-    // Implementation similar to updateExpense
-  };
-
-  const deleteFinancialGoal = async (id: string) => {
-    // Implementation similar to deleteExpense
+    // Split expenses count towards the categories of their splits
+    return categoryTotals(filteredExpenses);
   };
 
+  // Moves the user's records to the trash; the deletions reach the cloud with the next sync
   const clearAllData = async () => {
-    if (!db) return;
-
     try {
-      await db.execAsync(`
-        DELETE FROM expenses;
-        DELETE FROM receipts;
-        DELETE FROM financial_goals;
-      `);
-
-      setExpenses([]);
-      setReceipts([]);
-      setFinancialGoals([]);
+      const repos = await getRepositories();
+      for (const expense of await repos.expenses.getByUserId(userId)) {
+        await repos.expenses.delete(expense.id!);
+      }
+      for (const receipt of await repos.receipts.getByUserId(userId)) {
+        await repos.receipts.delete(receipt.id!);
+      }
+      for (const goal of await repos.goals.getByUserId(userId)) {
+        await repos.goals.delete(goal.id!);
+      }
     } catch (error) {
       console.error('Error clearing data:', error);
       throw error;
@@ -899,13 +441,13 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
       receipts,
       financialGoals,
       exportedAt: new Date().toISOString(),
-      userId: user?.id,
+      userId,
     };
 
     return JSON.stringify(data, null, 2);
   };
 
-  const value = {
+  const value: DatabaseContextType = {
     isOnline,
     expenses,
     addExpense,
@@ -936,5 +478,3 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
     </DatabaseContext.Provider>
   );
 }
-
-
@@ -1,7 +1,15 @@
 import React from 'react';
-const { useState, useEffect, useCallback, useContext, createContext } = React;
+const { useEffect, useCallback, useContext, createContext, useRef } = React;
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAWS } from '@/contexts/AWSContext';
 import { useGamification } from '@/contexts/GamificationContext';
+import { openLocalDatabase } from '@/database/core/LocalDatabase';
+import { createLogger } from '@/database/logging/AppLogger';
+import { SyncQueueRepository } from '@/database/repositories/SyncQueueRepository';
+import { ChangeHistoryRepository } from '@/database/repositories/ChangeHistoryRepository';
+import { FinancialGoalRepository } from '@/database/repositories/FinancialGoalRepository';
+import { ChangeContext, FinancialGoalRecord } from '@/database/models/Records';
+import { useLiveQuery } from '@/hooks/useLiveQuery';
 
 export interface Goal {
   id: string;
@@ -9,6 +17,7 @@ export interface Goal {
   category: string;
   current: number;
   target: number;
+  deadline?: string; // YYYY-MM-DD
   createdAt: string;
   updatedAt: string;
   archived?: boolean;
@@ -18,8 +27,8 @@ export interface Goal {
 interface GoalsContextType {
   goals: Goal[];
   loading: boolean;
-  addGoal: (goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateGoalProgress: (id: string, newCurrent: number) => Promise<void>;
+  addGoal: (goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>, context?: ChangeContext) => Promise<void>;
+  updateGoalProgress: (id: string, newCurrent: number, context?: ChangeContext) => Promise<void>;
   updateGoalDetails: (id: string, updates: Partial<Pick<Goal, 'title' | 'target' | 'category'>>) => Promise<void>;
   removeGoal: (id: string) => Promise<void>;
   archiveGoal: (id: string) => Promise<void>;
@@ -34,6 +43,7 @@ export function useGoals() {
   return ctx;
 }
 
+// Goals were kept here before they moved into the local database
 const STORAGE_KEY = 'user.goals.v1';
 
 const defaultGoals: Goal[] = [
@@ -42,98 +52,133 @@ const defaultGoals: Goal[] = [
   { id: 'g3', title: 'New Car', category: 'asset', current: 75000, target: 250000, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() },
 ];
 
+function toGoal(record: FinancialGoalRecord): Goal {
+  return {
+    id: String(record.id),
+    title: record.title,
+    category: record.category,
+    current: record.currentAmount,
+    target: record.targetAmount,
+    deadline: record.deadline || undefined,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    archived: !record.isActive,
+    // No completion date is stored; a reached goal counts as completed at its last change
+    completedAt: record.currentAmount >= record.targetAmount ? record.updatedAt : undefined,
+  };
+}
+
+function toRecord(goal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'> & Partial<Goal>, userId: string): Omit<FinancialGoalRecord, 'id'> {
+  const now = new Date().toISOString();
+  return {
+    userId,
+    title: goal.title,
+    description: '',
+    category: goal.category,
+    currentAmount: goal.current,
+    targetAmount: goal.target,
+    deadline: goal.deadline ?? '',
+    isActive: !goal.archived,
+    createdAt: goal.createdAt ?? now,
+    updatedAt: goal.updatedAt ?? now,
+    syncStatus: 'pending',
+  };
+}
+
 export function GoalsProvider({ children }: { children: React.ReactNode }) {
-  const [goals, setGoals] = useState<Goal[]>([]);
-  const [loading, setLoading] = useState(true);
+  const aws = useAWS();
+  const userId = aws?.currentUser?.userId || 'demo';
+  const repository = useRef<Promise<{ goals: FinancialGoalRepository; seeds: FinancialGoalRepository }> | null>(null);
   // Gamification context (safe inside provider tree per _layout.tsx ordering)
   let gamification: any = null;
   try { gamification = useGamification(); } catch { /* if provider not mounted yet (unlikely) */ }
 
-  const load = useCallback(async () => {
-    try {
-      const raw = await AsyncStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed: Goal[] = JSON.parse(raw);
-        setGoals(parsed);
-      } else {
-        setGoals(defaultGoals);
-        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(defaultGoals));
-      }
-    } catch (e) {
-      console.warn('Failed to load goals', e);
-      setGoals(defaultGoals);
-    } finally {
-      setLoading(false);
+  const getRepository = useCallback(() => {
+    if (!repository.current) {
+      repository.current = (async () => {
+        const logger = createLogger('Goals');
+        const db = await openLocalDatabase(logger);
+        // Changes are queued for cloud sync and recorded so they can be undone, from the chat too;
+        // goals brought over from the device are not the user's change to undo
+        const syncQueue = new SyncQueueRepository(db, logger);
+        return {
+          goals: new FinancialGoalRepository(db, logger, syncQueue, new ChangeHistoryRepository(db, logger, syncQueue)),
+          seeds: new FinancialGoalRepository(db, logger, syncQueue),
+        };
+      })();
+      repository.current.catch(() => {
+        repository.current = null;
+      });
     }
+    return repository.current;
   }, []);
 
-  useEffect(() => { load(); }, [load]);
+  const { data, loading, error, refresh } = useLiveQuery(async () => {
+    const { goals, seeds } = await getRepository();
+    // Seed only a fresh install, from the goals stored on the device before; goals the user removed stay removed
+    if (await goals.count({ userId }) === 0 && (await goals.getDeleted(userId)).length === 0) {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      const stored: Goal[] = raw ? JSON.parse(raw) : defaultGoals;
+      for (const g of stored) await seeds.create(toRecord(g, userId));
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+    return (await goals.getByUserId(userId)).map(toGoal).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }, ['goal'], [userId]);
+
+  useEffect(() => {
+    if (error) console.warn('Failed to load goals', error);
+  }, [error]);
+
+  const goals = data ?? [];
 
-  const persist = async (next: Goal[]) => {
-    setGoals(next);
-    try { await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next)); } catch {}
+  const awardCompletion = (goal: Pick<Goal, 'title' | 'target'>) => {
+    if (!gamification) return;
+    // Award points based on goal size (simple heuristic: base 50 + scaled)
+    const pts = 50 + Math.min(150, Math.round(goal.target / 500));
+    gamification.addPoints?.(pts, `Completed goal: ${goal.title}`);
+    gamification.recordActivity?.('savings_goal_met', 1);
   };
 
-  const addGoal = async (goalInput: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const now = new Date().toISOString();
-    const g: Goal = { ...goalInput, id: 'g_' + Date.now().toString(36), createdAt: now, updatedAt: now };
-    // Immediately mark completed if already at/over target (edge case)
-    if (g.current >= g.target) {
-      g.completedAt = now;
-    }
-    await persist([...goals, g]);
-    if (g.completedAt && gamification) {
-      // Award points based on goal size (simple heuristic: base 50 + scaled)
-      const pts = 50 + Math.min(150, Math.round(g.target / 500));
-      gamification.addPoints?.(pts, `Completed goal: ${g.title}`);
-      gamification.recordActivity?.('savings_goal_met', 1);
-    }
+  const addGoal = async (goalInput: Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>, context?: ChangeContext) => {
+    const { goals: repo } = await getRepository();
+    await repo.create(toRecord(goalInput, userId), context);
+    // Immediately completed if already at/over target (edge case)
+    if (goalInput.current >= goalInput.target) awardCompletion(goalInput);
   };
 
-  const updateGoalProgress = async (id: string, newCurrent: number) => {
-    const now = new Date().toISOString();
-    let awardedGoal: Goal | undefined;
-    const next = goals.map(g => {
-      if (g.id !== id) return g;
-      const updatedCurrent = Math.min(newCurrent, g.target);
-      let completedAt = g.completedAt;
-      if (!completedAt && updatedCurrent >= g.target) {
-        completedAt = now;
-        awardedGoal = { ...g, current: updatedCurrent, completedAt };
-      }
-      return { ...g, current: updatedCurrent, updatedAt: now, completedAt };
-    });
-    await persist(next);
-    if (awardedGoal && gamification) {
-      const pts = 50 + Math.min(150, Math.round(awardedGoal.target / 500));
-      gamification.addPoints?.(pts, `Completed goal: ${awardedGoal.title}`);
-      gamification.recordActivity?.('savings_goal_met', 1);
-      gamification.checkAchievements?.();
+  const updateGoalProgress = async (id: string, newCurrent: number, context?: ChangeContext) => {
+    const goal = goals.find(g => g.id === id);
+    if (!goal) return;
+    const { goals: repo } = await getRepository();
+    // Money saved past the target still counts
+    const updated = await repo.updateProgress(Number(id), newCurrent, context);
+    if (!goal.completedAt && updated.currentAmount >= updated.targetAmount) {
+      awardCompletion(goal);
+      gamification?.checkAchievements?.();
     }
   };
 
   const updateGoalDetails = async (id: string, updates: Partial<Pick<Goal, 'title' | 'target' | 'category'>>) => {
-    const now = new Date().toISOString();
-    const next = goals.map(g => {
-      if (g.id !== id) return g;
-      let current = g.current;
-      // If target reduced below current, clamp current to new target
-      if (updates.target && updates.target < current) current = updates.target;
-      let completedAt = g.completedAt;
-      if (!completedAt && current >= (updates.target ?? g.target)) {
-        completedAt = now;
-      }
-      return { ...g, ...updates, current, updatedAt: now, completedAt };
-    });
-    await persist(next);
+    const goal = goals.find(g => g.id === id);
+    if (!goal) return;
+    const changes: Partial<FinancialGoalRecord> = {};
+    if (updates.title !== undefined) changes.title = updates.title;
+    if (updates.category !== undefined) changes.category = updates.category;
+    if (updates.target !== undefined) changes.targetAmount = updates.target;
+    // If target reduced below current, clamp current to new target
+    if (updates.target && updates.target < goal.current) changes.currentAmount = updates.target;
+    const { goals: repo } = await getRepository();
+    await repo.update(Number(id), changes);
   };
 
   const removeGoal = async (id: string) => {
-    await persist(goals.filter(g => g.id !== id));
+    const { goals: repo } = await getRepository();
+    await repo.delete(Number(id));
   };
 
   const archiveGoal = async (id: string) => {
-    await persist(goals.map(g => g.id === id ? { ...g, archived: true, updatedAt: new Date().toISOString() } : g));
+    const { goals: repo } = await getRepository();
+    await repo.update(Number(id), { isActive: false });
   };
 
   const value: GoalsContextType = {
@@ -141,10 +186,10 @@ export function GoalsProvider({ children }: { children: React.ReactNode }) {
     loading,
     addGoal,
     updateGoalProgress,
-  updateGoalDetails,
+    updateGoalDetails,
     removeGoal,
     archiveGoal,
-    refresh: load,
+    refresh,
   };
 
   return <GoalsContext.Provider value={value}>{children}</GoalsContext.Provider>;
@@ -172,12 +217,11 @@ export function __TESTING__createGoalsManager(initial: Goal[] = defaultGoals, ga
       let awarded: Goal | undefined;
       const next = goals.map(g => {
         if (g.id !== id) return g;
-        const updatedCurrent = Math.min(newCurrent, g.target);
         let completedAt = g.completedAt;
-        if (!completedAt && updatedCurrent >= g.target) {
-          completedAt = now; awarded = { ...g, current: updatedCurrent, completedAt };
+        if (!completedAt && newCurrent >= g.target) {
+          completedAt = now; awarded = { ...g, current: newCurrent, completedAt };
         }
-        return { ...g, current: updatedCurrent, updatedAt: now, completedAt };
+        return { ...g, current: newCurrent, updatedAt: now, completedAt };
       });
       await persist(next);
       if (awarded && gamification) {
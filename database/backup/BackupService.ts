@@ -0,0 +1,487 @@
+import * as FileSystem from 'expo-file-system';
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ILogger } from '../interfaces/ILogger';
+import { DatabaseMigrator } from '../migrations/DatabaseMigrator';
+import { migrations as defaultMigrations } from '../migrations/migrations';
+import { SQLiteManager } from '../core/SQLiteManager';
+import { BackupError } from '../errors/DatabaseErrors';
+import { checksumOf, crc32 } from '../../utils/checksum';
+import { changeEvents } from '../events/ChangeEventBus';
+import { ChangeEventEntity } from '../interfaces/IChangeEventBus';
+
+export const BACKUP_FORMAT = 'bluebot-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Tables copied into a backup, parents before children so rows can be inserted in order.
+ * The sync queue and search index are derived data; wallet keys are deliberately never exported.
+ */
+export const BACKUP_TABLES = [
+  'expenses',
+  'receipts',
+  'receipt_attachments',
+  'financial_goals',
+  'transactions',
+  'budgets',
+  'tags',
+  'expense_tags',
+  'transaction_tags',
+  'expense_splits',
+  'transaction_splits',
+  'fx_rates',
+  'recurrence_rules',
+  'recurrence_exceptions',
+  'educational_progress',
+  'user_achievements',
+];
+
+/**
+ * Kinds of records a restore replaces, announced once the restore has committed
+ */
+const RESTORED_ENTITIES: ChangeEventEntity[] = [
+  'expense', 'receipt', 'goal', 'transaction', 'budget', 'tag', 'recurrence_rule', 'fx_rate',
+];
+
+/**
+ * Columns holding local image file URIs
+ */
+const IMAGE_COLUMNS: Record<string, string> = {
+  receipts: 'imageUri',
+  receipt_attachments: 'uri',
+};
+
+/**
+ * BackupManifest Interface
+ * Describes the contents of an archive so it can be validated before anything is restored
+ */
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // last migration applied to the database the backup was taken from
+  createdAt: string;
+  tables: Record<string, { count: number; checksum: string }>;
+  images: Record<string, string> | null; // image name -> checksum; null when images were left out
+}
+
+/**
+ * BackupArchive Interface
+ * Self-describing snapshot of all user tables
+ */
+export interface BackupArchive {
+  manifest: BackupManifest;
+  tables: Record<string, any[]>;
+  images?: Record<string, string>; // image name -> base64 file content
+}
+
+/**
+ * BackupOptions Interface
+ */
+export interface BackupOptions {
+  includeImages?: boolean;
+}
+
+/**
+ * RestoreResult Interface
+ * Outcome of a restore
+ */
+export interface RestoreResult {
+  schemaVersion: number;
+  upgradedFrom: number | null; // schema version of the archive when it had to be migrated
+  tables: Record<string, number>;
+  images: number;
+}
+
+/**
+ * BackupService Class
+ * Creates and restores versioned backup archives of the local database.
+ * Archives from older schema versions are loaded into a staging database and
+ * migrated there, so the live database is only replaced in a single transaction.
+ */
+export class BackupService {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly createStagingDatabase: () => IDatabaseManager;
+  private readonly migrations: typeof defaultMigrations;
+
+  /**
+   * BackupService constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   * @param createStagingDatabase Factory for the scratch database used to upgrade old archives
+   * @param migrations Schema migrations (defaults to the app migrations)
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    logger: ILogger,
+    createStagingDatabase: () => IDatabaseManager = () => new SQLiteManager(':memory:', logger),
+    migrations: typeof defaultMigrations = defaultMigrations
+  ) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+    this.createStagingDatabase = createStagingDatabase;
+    this.migrations = migrations;
+  }
+
+  /**
+   * Snapshot all user tables
+   * @param options Whether to embed receipt images
+   * @returns Backup archive
+   */
+  async createBackup(options: BackupOptions = {}): Promise<BackupArchive> {
+    this.logger.info('Creating backup', { ...options });
+
+    const schemaVersion = await this.getSchemaVersion(this.dbManager);
+    const tables = await this.readTables(this.dbManager);
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion,
+      createdAt: new Date().toISOString(),
+      tables: {},
+      images: null,
+    };
+    for (const [table, rows] of Object.entries(tables)) {
+      manifest.tables[table] = { count: rows.length, checksum: checksumOf(rows) };
+    }
+
+    const archive: BackupArchive = { manifest, tables };
+    if (options.includeImages) {
+      archive.images = await this.readImages(tables);
+      manifest.images = {};
+      for (const [name, data] of Object.entries(archive.images)) {
+        manifest.images[name] = crc32(data);
+      }
+    }
+
+    this.logger.info(`Backup created at schema version ${schemaVersion}`);
+    return archive;
+  }
+
+  /**
+   * Create a backup and write it to the app's backups directory
+   * @param options Whether to embed receipt images
+   * @returns URI of the archive file
+   */
+  async exportToFile(options: BackupOptions = {}): Promise<string> {
+    const archive = await this.createBackup(options);
+    const directory = `${FileSystem.documentDirectory}backups/`;
+    const uri = `${directory}${BACKUP_FORMAT}-${archive.manifest.createdAt.replace(/[:.]/g, '-')}.json`;
+
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(archive));
+
+    this.logger.info(`Backup written to ${uri}`);
+    return uri;
+  }
+
+  /**
+   * Read an archive file and restore it
+   * @param uri URI of the archive file
+   * @returns Restore summary
+   * @throws BackupError if the file is not a valid archive or cannot be restored
+   */
+  async restoreFromFile(uri: string): Promise<RestoreResult> {
+    let archive: unknown;
+    try {
+      archive = JSON.parse(await FileSystem.readAsStringAsync(uri));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new BackupError(`Unable to read backup file: ${errorMessage}`);
+    }
+    return this.restore(archive);
+  }
+
+  /**
+   * Replace all user data with the contents of an archive.
+   * Archives from older schema versions are migrated before they are imported.
+   * @param archive Backup archive
+   * @returns Restore summary
+   * @throws BackupError if the archive is invalid, newer than the app or cannot be imported
+   */
+  async restore(archive: unknown): Promise<RestoreResult> {
+    const backup = this.validateArchive(archive);
+    const { schemaVersion } = backup.manifest;
+    const currentVersion = await this.getSchemaVersion(this.dbManager);
+
+    this.logger.info(`Restoring backup from schema version ${schemaVersion} into version ${currentVersion}`);
+
+    if (schemaVersion > currentVersion) {
+      throw new BackupError(
+        `Backup was made with schema version ${schemaVersion}, but this database is at version ${currentVersion}. Update the app first.`
+      );
+    }
+
+    let tables = backup.tables;
+    if (schemaVersion < currentVersion) {
+      tables = await this.upgradeTables(tables, schemaVersion, currentVersion);
+    }
+
+    const imageUris = await this.writeImages(backup.images || {});
+    tables = this.relinkImages(tables, imageUris);
+
+    try {
+      await this.replaceTables(this.dbManager, tables);
+    } catch (error) {
+      if (error instanceof BackupError) throw error;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to restore backup: ${errorMessage}`, error instanceof Error ? error : undefined);
+      throw new BackupError(`Failed to restore backup: ${errorMessage}`);
+    }
+
+    const result: RestoreResult = {
+      schemaVersion: currentVersion,
+      upgradedFrom: schemaVersion < currentVersion ? schemaVersion : null,
+      tables: Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.length])),
+      images: Object.keys(imageUris).length,
+    };
+    this.logger.info('Backup restored', { ...result });
+    for (const entity of RESTORED_ENTITIES) {
+      changeEvents.emit({ entity, operation: 'update', ids: [] });
+    }
+    return result;
+  }
+
+  /**
+   * Check that an archive is complete and unaltered
+   * @param archive Parsed archive
+   * @returns The archive, typed
+   * @throws BackupError describing the first problem found
+   */
+  validateArchive(archive: unknown): BackupArchive {
+    const candidate = archive as Partial<BackupArchive> | null;
+    const manifest = candidate?.manifest;
+
+    if (!manifest || manifest.format !== BACKUP_FORMAT || !candidate?.tables) {
+      throw new BackupError('Not a backup archive');
+    }
+    if (!Number.isInteger(manifest.formatVersion) || manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new BackupError(`Unsupported backup format version: ${manifest.formatVersion}`);
+    }
+    if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion < 1) {
+      throw new BackupError(`Invalid schema version: ${manifest.schemaVersion}`);
+    }
+
+    for (const table of Object.keys(candidate.tables)) {
+      if (!manifest.tables?.[table]) {
+        throw new BackupError(`Table ${table} is not listed in the manifest`);
+      }
+    }
+    for (const [table, info] of Object.entries(manifest.tables)) {
+      const rows = candidate.tables[table];
+      if (!BACKUP_TABLES.includes(table)) {
+        throw new BackupError(`Unknown table in backup: ${table}`);
+      }
+      if (!Array.isArray(rows) || rows.length !== info.count) {
+        throw new BackupError(`Table ${table} should have ${info.count} rows`);
+      }
+      if (checksumOf(rows) !== info.checksum) {
+        throw new BackupError(`Checksum mismatch for table ${table}`);
+      }
+    }
+
+    for (const [name, checksum] of Object.entries(manifest.images || {})) {
+      const data = candidate.images?.[name];
+      if (typeof data !== 'string' || crc32(data) !== checksum) {
+        throw new BackupError(`Image ${name} is missing or corrupted`);
+      }
+    }
+
+    return candidate as BackupArchive;
+  }
+
+  /**
+   * Load old-schema rows into a staging database and migrate them to the target version
+   * @param tables Rows at the archive's schema version
+   * @param fromVersion Schema version of the archive
+   * @param toVersion Schema version of the live database
+   * @returns Rows at the target schema version
+   * @throws BackupError if the rows cannot be imported or migrated
+   */
+  private async upgradeTables(tables: Record<string, any[]>, fromVersion: number, toVersion: number): Promise<Record<string, any[]>> {
+    this.logger.info(`Upgrading backup from schema version ${fromVersion} to ${toVersion}`);
+    const staging = this.createStagingDatabase();
+    await staging.initialize();
+
+    try {
+      await new DatabaseMigrator(staging, this.logger, this.migrations.filter(m => m.version <= fromVersion)).migrateUp();
+      await this.replaceTables(staging, tables);
+      await new DatabaseMigrator(staging, this.logger, this.migrations.filter(m => m.version <= toVersion)).migrateUp();
+      return await this.readTables(staging);
+    } catch (error) {
+      if (error instanceof BackupError) throw error;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to upgrade backup: ${errorMessage}`, error instanceof Error ? error : undefined);
+      throw new BackupError(`Failed to upgrade backup from schema version ${fromVersion}: ${errorMessage}`);
+    } finally {
+      await staging.close();
+    }
+  }
+
+  /**
+   * Delete all user rows and insert the given ones in a single transaction
+   * @param db Target database
+   * @param tables Rows to insert, keyed by table
+   * @throws BackupError if a table or column does not exist in the target database
+   */
+  private async replaceTables(db: IDatabaseManager, tables: Record<string, any[]>): Promise<void> {
+    const existing = await this.listTables(db);
+    const queries: { query: string; params?: any[] }[] = [];
+
+    // Children first, so foreign keys never point at deleted rows
+    for (const table of [...BACKUP_TABLES].reverse()) {
+      if (existing.has(table)) queries.push({ query: `DELETE FROM ${table}` });
+    }
+    // Queued changes refer to the replaced rows
+    if (existing.has('sync_queue')) queries.push({ query: 'DELETE FROM sync_queue' });
+
+    for (const table of BACKUP_TABLES) {
+      const rows = tables[table];
+      if (!rows || rows.length === 0) continue;
+      if (!existing.has(table)) {
+        throw new BackupError(`Table ${table} does not exist in this database`);
+      }
+
+      const columns = await this.getColumns(db, table);
+      for (const row of rows) {
+        const keys = Object.keys(row);
+        const unknown = keys.find(key => !columns.has(key));
+        if (unknown) {
+          throw new BackupError(`Column ${table}.${unknown} does not exist in this database`);
+        }
+        queries.push({
+          query: `INSERT INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`,
+          params: keys.map(key => row[key]),
+        });
+      }
+    }
+
+    await db.transaction(queries);
+  }
+
+  /**
+   * Read every backed-up table that exists in a database
+   * @param db Source database
+   * @returns Rows keyed by table
+   */
+  private async readTables(db: IDatabaseManager): Promise<Record<string, any[]>> {
+    const existing = await this.listTables(db);
+    const tables: Record<string, any[]> = {};
+
+    for (const table of BACKUP_TABLES) {
+      if (existing.has(table)) {
+        tables[table] = await db.execute<any[]>(`SELECT * FROM ${table} ORDER BY rowid`);
+      }
+    }
+    return tables;
+  }
+
+  /**
+   * Read the image files referenced by receipts and attachments
+   * @param tables Backed-up rows
+   * @returns Base64 file content keyed by image name; unreadable files are skipped
+   */
+  private async readImages(tables: Record<string, any[]>): Promise<Record<string, string>> {
+    const images: Record<string, string> = {};
+
+    for (const [table, column] of Object.entries(IMAGE_COLUMNS)) {
+      for (const row of tables[table] || []) {
+        const uri = row[column];
+        if (!uri) continue;
+        try {
+          images[this.imageName(table, row, column)] = await FileSystem.readAsStringAsync(uri, {
+            encoding: FileSystem.EncodingType.Base64,
+          });
+        } catch (error) {
+          this.logger.warn(`Skipping unreadable image ${uri}`);
+        }
+      }
+    }
+    return images;
+  }
+
+  /**
+   * Write archived images into the app's document directory
+   * @param images Base64 file content keyed by image name
+   * @returns New file URI keyed by image name
+   */
+  private async writeImages(images: Record<string, string>): Promise<Record<string, string>> {
+    const uris: Record<string, string> = {};
+    const names = Object.keys(images);
+    if (names.length === 0) return uris;
+
+    const directory = `${FileSystem.documentDirectory}receipt-images/`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    for (const name of names) {
+      const uri = `${directory}${name}`;
+      await FileSystem.writeAsStringAsync(uri, images[name], { encoding: FileSystem.EncodingType.Base64 });
+      uris[name] = uri;
+    }
+    return uris;
+  }
+
+  /**
+   * Point restored rows at the restored image files
+   * @param tables Rows to restore
+   * @param imageUris New file URI keyed by image name
+   * @returns Rows with updated image columns
+   */
+  private relinkImages(tables: Record<string, any[]>, imageUris: Record<string, string>): Record<string, any[]> {
+    if (Object.keys(imageUris).length === 0) return tables;
+
+    const relinked = { ...tables };
+    for (const [table, column] of Object.entries(IMAGE_COLUMNS)) {
+      if (!relinked[table]) continue;
+      relinked[table] = relinked[table].map(row => {
+        const uri = row[column] ? imageUris[this.imageName(table, row, column)] : undefined;
+        return uri ? { ...row, [column]: uri } : row;
+      });
+    }
+    return relinked;
+  }
+
+  /**
+   * Stable archive name of an image, unique per row
+   * @param table Table name
+   * @param row Row referencing the image
+   * @param column Image URI column
+   * @returns Image name
+   */
+  private imageName(table: string, row: any, column: string): string {
+    const fileName = String(row[column]).split(/[/\\]/).pop() || 'image';
+    return `${table}-${row.id}-${fileName.replace(/[^\w.-]/g, '_')}`;
+  }
+
+  /**
+   * Get the last migration applied to a database
+   * @param db Database
+   * @returns Schema version, 0 if no migration has run
+   */
+  private async getSchemaVersion(db: IDatabaseManager): Promise<number> {
+    if (!(await this.listTables(db)).has('migrations')) return 0;
+    const result = await db.execute<{ version: number }[]>('SELECT COALESCE(MAX(version), 0) as version FROM migrations');
+    return result[0]?.version || 0;
+  }
+
+  /**
+   * Get the names of all tables in a database
+   * @param db Database
+   * @returns Table names
+   */
+  private async listTables(db: IDatabaseManager): Promise<Set<string>> {
+    const rows = await db.execute<{ name: string }[]>("SELECT name FROM sqlite_master WHERE type = 'table'");
+    return new Set(rows.map(row => row.name));
+  }
+
+  /**
+   * Get the column names of a table
+   * @param db Database
+   * @param table Table name
+   * @returns Column names
+   */
+  private async getColumns(db: IDatabaseManager, table: string): Promise<Set<string>> {
+    const rows = await db.execute<{ name: string }[]>('SELECT name FROM pragma_table_info(?)', [table]);
+    return new Set(rows.map(row => row.name));
+  }
+}
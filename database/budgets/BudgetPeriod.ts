@@ -0,0 +1,61 @@
+import { BudgetPeriod, BudgetRecord } from '../models/Records';
+import { addDays } from '../recurrence/RecurrenceSchedule';
+
+/**
+ * First and last day of one budget period
+ */
+export interface BudgetWindow {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+const MONTHS_PER_PERIOD: Record<Exclude<BudgetPeriod, 'weekly'>, number> = { monthly: 1, yearly: 12 };
+
+/**
+ * Move a day by whole months, keeping its day of the month where the target month has it
+ * (the 31st becomes the last day of shorter months)
+ * @param day YYYY-MM-DD
+ * @param months Number of months to add
+ * @returns YYYY-MM-DD
+ */
+function addMonths(day: string, months: number): string {
+  const [year, month, date] = day.slice(0, 10).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(date, lastDay))).toISOString().slice(0, 10);
+}
+
+/**
+ * Find the period of a budget that contains a day. Periods repeat from the budget's
+ * start date, so a monthly budget starting on the 25th runs from the 25th to the 24th.
+ * Days before the start date fall in the first period.
+ * @param budget Period, start date and optional end date of the budget
+ * @param day YYYY-MM-DD
+ * @returns Window of the period, cut off at the budget's end date
+ */
+export function budgetWindow(
+  budget: Pick<BudgetRecord, 'period' | 'startDate' | 'endDate'>,
+  day: string
+): BudgetWindow {
+  const startDate = budget.startDate.slice(0, 10);
+  let start: string;
+  let next: string;
+
+  if (budget.period === 'weekly') {
+    const days = Math.round((Date.parse(day.slice(0, 10)) - Date.parse(startDate)) / (24 * 60 * 60 * 1000));
+    start = addDays(startDate, Math.max(0, Math.floor(days / 7)) * 7);
+    next = addDays(start, 7);
+  } else {
+    const step = MONTHS_PER_PERIOD[budget.period];
+    const [startYear, startMonth] = startDate.split('-').map(Number);
+    const [year, month] = day.slice(0, 10).split('-').map(Number);
+    let offset = Math.floor(((year - startYear) * 12 + month - startMonth) / step) * step;
+    // Earlier in the month than the start day: still in the previous period
+    if (addMonths(startDate, offset) > day.slice(0, 10)) offset -= step;
+    offset = Math.max(0, offset);
+    start = addMonths(startDate, offset);
+    next = addMonths(startDate, offset + step);
+  }
+
+  const end = addDays(next, -1);
+  return { start, end: budget.endDate && budget.endDate < end ? budget.endDate : end };
+}
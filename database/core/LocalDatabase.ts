@@ -0,0 +1,67 @@
+import * as FileSystem from 'expo-file-system';
+import { SQLiteManager } from './SQLiteManager';
+import { ILogger } from '../interfaces/ILogger';
+import { createLogger } from '../logging/AppLogger';
+import { DatabaseMigrator } from '../migrations/DatabaseMigrator';
+import { migrations } from '../migrations/migrations';
+import { LegacyDataImporter, LEGACY_DATABASE_NAME } from '../migrations/LegacyDataImporter';
+import { DatabaseEncryption } from '../security/DatabaseEncryption';
+import { SecureStoreKeyStore } from '../security/SecureStoreKeyStore';
+
+/**
+ * Name of the on-device database the app's repositories share
+ */
+export const LOCAL_DATABASE_NAME = 'bluebot.db';
+
+let opening: Promise<SQLiteManager> | null = null;
+
+/**
+ * Open the on-device database encrypted and bring its schema up to date.
+ * The key is kept in the device keychain; a plaintext database from an older install is encrypted in place on first open.
+ * Data left by the old database code is moved in once; a failed move is logged and retried on the next launch.
+ * Every caller shares one connection; a failed open is retried by the next call.
+ * @param logger Logger for the connection and migrations
+ * @returns Initialized database manager
+ */
+export function openLocalDatabase(logger: ILogger = createLogger('LocalDatabase')): Promise<SQLiteManager> {
+  if (!opening) {
+    opening = (async () => {
+      const db = new SQLiteManager(LOCAL_DATABASE_NAME, logger, new DatabaseEncryption(new SecureStoreKeyStore(), logger));
+      await db.initialize();
+      const legacy = new LegacyDataImporter(db, logger);
+      await legacy.stageUnmigratedTables();
+      await new DatabaseMigrator(db, logger, migrations).migrateUp();
+      await importLegacyData(legacy, logger);
+      return db;
+    })();
+    opening.catch(() => {
+      opening = null;
+    });
+  }
+  return opening;
+}
+
+/**
+ * Move the data of the old DatabaseContext tables and of the old bluebotFinance.db into the database
+ * @param legacy Importer on the migrated database
+ * @param logger Logger for the import
+ */
+async function importLegacyData(legacy: LegacyDataImporter, logger: ILogger): Promise<void> {
+  try {
+    await legacy.importStagedTables();
+
+    const legacyFile = FileSystem.documentDirectory && `${FileSystem.documentDirectory}SQLite/${LEGACY_DATABASE_NAME}`;
+    if (!legacyFile || !(await FileSystem.getInfoAsync(legacyFile)).exists || (await legacy.hasImported(LEGACY_DATABASE_NAME))) {
+      return;
+    }
+    const source = new SQLiteManager(LEGACY_DATABASE_NAME, logger);
+    await source.initialize();
+    try {
+      await legacy.importDatabase(source, LEGACY_DATABASE_NAME);
+    } finally {
+      await source.close();
+    }
+  } catch (error) {
+    logger.error('Could not import legacy data', error instanceof Error ? error : undefined);
+  }
+}
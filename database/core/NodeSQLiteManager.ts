@@ -0,0 +1,157 @@
+import Database from 'better-sqlite3';
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ILogger } from '../interfaces/ILogger';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+import { ConnectionError, QueryError, TransactionError } from '../errors/DatabaseErrors';
+import { isScript, SCRIPT_PARAMS_ERROR, SCRIPT_RESULT_QUERY } from './SqlScript';
+
+/**
+ * NodeSQLiteManager Class
+ * IDatabaseManager for Node, backed by better-sqlite3, so the migrator, repositories and
+ * services run in Jest and CLI scripts against the real schema.
+ * Mirrors SQLiteManager: SELECT queries return rows, anything else returns
+ * { changes, lastInsertRowId }, scripts run through exec, and failures surface as
+ * QueryError and TransactionError.
+ * Not for use in the app, which runs on expo-sqlite.
+ */
+export class NodeSQLiteManager implements IDatabaseManager {
+  private db: Database.Database | null = null;
+  private logger: ILogger;
+  private filename: string;
+
+  /**
+   * NodeSQLiteManager constructor
+   * @param filename Database file path, or ':memory:' for a throwaway database
+   * @param logger Logger instance (defaults to ConsoleLogger)
+   */
+  constructor(filename: string = ':memory:', logger?: ILogger) {
+    this.filename = filename;
+    this.logger = logger || new ConsoleLogger({ context: 'NodeSQLiteManager' });
+  }
+
+  /**
+   * Open the database with the same settings as the app
+   * @throws ConnectionError if the file cannot be opened
+   */
+  async initialize(): Promise<void> {
+    try {
+      this.logger.info(`Initializing SQLite database: ${this.filename}`);
+      this.db = new Database(this.filename);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('foreign_keys = ON');
+      this.logger.info('SQLite database initialized successfully');
+    } catch (error) {
+      const errorMessage = messageOf(error);
+      this.logger.error(`Failed to initialize SQLite database: ${errorMessage}`, error instanceof Error ? error : undefined);
+      throw new ConnectionError(`Failed to initialize database: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Ensure database is initialized before operations
+   * @throws ConnectionError if database not initialized
+   */
+  private ensureInitialized(): Database.Database {
+    if (!this.db) {
+      throw new ConnectionError('Database not initialized. Call initialize() first.');
+    }
+    return this.db;
+  }
+
+  /**
+   * Execute a SQL query with parameters.
+   * Scripts of several statements, such as migrations, run as a whole and cannot take parameters.
+   * @param query SQL query string
+   * @param params Query parameters
+   * @returns Rows for SELECT queries, otherwise { changes, lastInsertRowId }
+   * @throws QueryError if query execution fails
+   */
+  async execute<T>(query: string, params: any[] = []): Promise<T> {
+    const db = this.ensureInitialized();
+
+    try {
+      this.logger.debug(`Executing query: ${query}`, { params });
+      const values = params.map(toSqliteValue);
+
+      // better-sqlite3 prepares one statement at a time and throws a RangeError for scripts
+      if (isScript(query)) {
+        if (values.length > 0) throw new Error(SCRIPT_PARAMS_ERROR);
+        db.exec(query);
+        return db.prepare(SCRIPT_RESULT_QUERY).get() as T;
+      }
+
+      const statement = db.prepare(query);
+      if (query.trim().toLowerCase().startsWith('select')) {
+        return statement.all(...values) as unknown as T;
+      }
+      const result = statement.run(...values);
+      return { changes: result.changes, lastInsertRowId: Number(result.lastInsertRowid) } as unknown as T;
+    } catch (error) {
+      const errorMessage = messageOf(error);
+      this.logger.error(`Query execution failed: ${errorMessage}`, error instanceof Error ? error : undefined, { query, params });
+      throw new QueryError(`Query execution failed: ${errorMessage}`, query, params);
+    }
+  }
+
+  /**
+   * Execute multiple SQL queries in a single transaction
+   * @param queries Array of SQL queries and their parameters
+   * @returns Array of query results
+   * @throws TransactionError if transaction fails
+   */
+  async transaction<T>(queries: { query: string; params?: any[] }[]): Promise<T[]> {
+    const db = this.ensureInitialized();
+
+    try {
+      this.logger.debug(`Starting transaction with ${queries.length} queries`);
+      db.exec('BEGIN TRANSACTION;');
+
+      const results: T[] = [];
+      for (const { query, params = [] } of queries) {
+        results.push(await this.execute<T>(query, params));
+      }
+
+      db.exec('COMMIT;');
+      this.logger.debug(`Transaction completed successfully with ${results.length} results`);
+      return results;
+    } catch (error) {
+      if (db.inTransaction) {
+        db.exec('ROLLBACK;');
+        this.logger.info('Transaction rolled back due to error');
+      }
+
+      const errorMessage = messageOf(error);
+      this.logger.error(`Transaction failed: ${errorMessage}`, error instanceof Error ? error : undefined);
+      throw new TransactionError(`Transaction failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      this.logger.info('Closing database connection');
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
+
+/**
+ * Message of an error thrown by better-sqlite3; under Jest its errors come from another realm and fail instanceof Error
+ * @param error Caught error
+ * @returns Error message
+ */
+const messageOf = (error: unknown): string => (error as Error)?.message || 'Unknown error';
+
+/**
+ * Convert a parameter the way expo-sqlite binds it; better-sqlite3 rejects booleans and undefined
+ * @param value Query parameter
+ * @returns Value better-sqlite3 can bind
+ */
+const toSqliteValue = (value: any): any => {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+};
@@ -2,7 +2,10 @@ import * as SQLite from 'expo-sqlite';
 import { IDatabaseManager } from '../interfaces/IDatabaseManager';
 import { ILogger } from '../interfaces/ILogger';
 import { ConsoleLogger } from '../logging/ConsoleLogger';
-import { ConnectionError, QueryError, TransactionError } from '../errors/DatabaseErrors';
+import { ConnectionError, QueryError, TransactionError, EncryptionError } from '../errors/DatabaseErrors';
+import { DatabaseEncryption } from '../security/DatabaseEncryption';
+import { DatabaseMaintenanceService, DatabaseMetrics } from '../maintenance/DatabaseMaintenanceService';
+import { isScript, SCRIPT_PARAMS_ERROR, SCRIPT_RESULT_QUERY } from './SqlScript';
 
 /**
  * SQLiteManager Class
@@ -13,25 +16,31 @@ export class SQLiteManager implements IDatabaseManager {
   private logger: ILogger;
   private databaseName: string;
   private isInitialized: boolean = false;
+  private encryption?: DatabaseEncryption;
 
   /**
    * SQLiteManager constructor
    * @param databaseName Name of the SQLite database
    * @param logger Logger instance (defaults to ConsoleLogger)
+   * @param encryption Optional at-rest encryption; when set the database file is encrypted with SQLCipher
    */
-  constructor(databaseName: string, logger?: ILogger) {
+  constructor(databaseName: string, logger?: ILogger, encryption?: DatabaseEncryption) {
     this.databaseName = databaseName;
     this.logger = logger || new ConsoleLogger({ context: 'SQLiteManager' });
+    this.encryption = encryption;
   }
 
   /**
    * Initialize the database connection
    * @throws ConnectionError if initialization fails
+   * @throws EncryptionError if the encrypted database cannot be unlocked
    */
   async initialize(): Promise<void> {
     try {
       this.logger.info(`Initializing SQLite database: ${this.databaseName}`);
-      this.db = await SQLite.openDatabaseAsync(this.databaseName);
+      this.db = this.encryption
+        ? await this.encryption.open(this.databaseName)
+        : await SQLite.openDatabaseAsync(this.databaseName);
       
       // Enable WAL mode for better performance and concurrency
       await this.db.execAsync('PRAGMA journal_mode = WAL;');
@@ -42,6 +51,7 @@ export class SQLiteManager implements IDatabaseManager {
       this.logger.info('SQLite database initialized successfully');
       this.isInitialized = true;
     } catch (error) {
+      if (error instanceof EncryptionError) throw error;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to initialize SQLite database: ${errorMessage}`, error instanceof Error ? error : undefined);
       throw new ConnectionError(`Failed to initialize database: ${errorMessage}`);
@@ -59,10 +69,11 @@ export class SQLiteManager implements IDatabaseManager {
   }
 
   /**
-   * Execute a SQL query with parameters
+   * Execute a SQL query with parameters.
+   * Scripts of several statements, such as migrations, run as a whole and cannot take parameters.
    * @param query SQL query string
    * @param params Query parameters
-   * @returns Query result
+   * @returns Rows for SELECT queries, otherwise { changes, lastInsertRowId }
    * @throws QueryError if query execution fails
    */
   async execute<T>(query: string, params: any[] = []): Promise<T> {
@@ -71,6 +82,13 @@ export class SQLiteManager implements IDatabaseManager {
     try {
       this.logger.debug(`Executing query: ${query}`, { params });
       
+      // runAsync prepares only the first statement of a script and drops the rest
+      if (isScript(query)) {
+        if (params.length > 0) throw new Error(SCRIPT_PARAMS_ERROR);
+        await this.db!.execAsync(query);
+        return await this.db!.getFirstAsync(SCRIPT_RESULT_QUERY) as unknown as T;
+      }
+
       // Use the appropriate SQLite method based on the query type
       if (query.trim().toLowerCase().startsWith('select')) {
         return await this.db!.getAllAsync(query, params) as unknown as T;
@@ -85,7 +103,7 @@ export class SQLiteManager implements IDatabaseManager {
   }
 
   /**
-   * Execute multiple SQL queries in a single transaction
+   * Execute multiple SQL queries in a single transaction; scripts among them run as in execute
    * @param queries Array of SQL queries and their parameters
    * @returns Array of query results
    * @throws TransactionError if transaction fails
@@ -146,40 +164,34 @@ export class SQLiteManager implements IDatabaseManager {
     }
   }
   
+  /**
+   * Re-encrypt the database with a new key
+   * @throws ConnectionError if encryption is not configured
+   * @throws EncryptionError if re-keying fails
+   */
+  async rotateEncryptionKey(): Promise<void> {
+    this.ensureInitialized();
+    if (!this.encryption) {
+      throw new ConnectionError('Database encryption is not configured');
+    }
+    await this.encryption.rotateKey(this.db!);
+  }
+
+  /**
+   * Check whether the database file is encrypted at rest
+   * @returns true if encryption is configured and supported by the native build
+   */
+  async isEncrypted(): Promise<boolean> {
+    this.ensureInitialized();
+    return this.encryption ? this.encryption.isCipherAvailable(this.db!) : false;
+  }
+
   /**
    * Get database metrics for monitoring
    * @returns Database metrics
    */
-  async getDatabaseMetrics(): Promise<{
-    size: number;
-    tables: { name: string; rowCount: number }[];
-    version: string;
-  }> {
+  async getDatabaseMetrics(): Promise<DatabaseMetrics> {
     this.ensureInitialized();
-    
-    // Get database size (in bytes)
-    const sizeResult = await this.execute<{ size: number }[]>('SELECT page_count * page_size as size FROM pragma_page_count(), pragma_page_size();');
-    
-    // Get table names
-    const tablesResult = await this.execute<{ name: string }[]>("SELECT name FROM sqlite_master WHERE type='table';");
-    
-    // Get SQLite version
-    const versionResult = await this.execute<{ version: string }[]>('SELECT sqlite_version() as version;');
-    
-    const tables = await Promise.all(
-      tablesResult.map(async (table) => {
-        const countResult = await this.execute<{ count: number }[]>(`SELECT count(*) as count FROM ${table.name};`);
-        return {
-          name: table.name,
-          rowCount: countResult[0]?.count || 0
-        };
-      })
-    );
-    
-    return {
-      size: sizeResult[0]?.size || 0,
-      tables,
-      version: versionResult[0]?.version || 'unknown'
-    };
+    return new DatabaseMaintenanceService(this, this.logger).getMetrics();
   }
 }
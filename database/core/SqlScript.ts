@@ -0,0 +1,27 @@
+/**
+ * Strings, quoted identifiers and comments, whose semicolons do not end a statement
+ */
+const QUOTED_OR_COMMENT = /'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g;
+
+/**
+ * Check whether a query is a script of several statements, such as a migration.
+ * The SQLite drivers prepare one statement at a time and drop or reject the rest, so
+ * scripts have to run through their exec path, which takes no parameters.
+ * A trigger body counts as a script too; exec runs it like any other statement.
+ * @param query SQL query string
+ * @returns true if the query has more than one statement
+ */
+export function isScript(query: string): boolean {
+  const code = query.replace(QUOTED_OR_COMMENT, ' ').trim().replace(/[;\s]+$/, '');
+  return code.includes(';');
+}
+
+/**
+ * Reads the change count and row id of the last statement of a script
+ */
+export const SCRIPT_RESULT_QUERY = 'SELECT changes() AS changes, last_insert_rowid() AS lastInsertRowId;';
+
+/**
+ * Error message for a script passed with parameters, which no exec path can bind
+ */
+export const SCRIPT_PARAMS_ERROR = 'Scripts of several statements cannot take parameters';
@@ -52,3 +52,80 @@ export class MigrationError extends DatabaseError {
     this.name = 'MigrationError';
   }
 }
+
+/**
+ * RecordNotFoundError Class
+ * Error thrown when an operation targets a record that does not exist
+ */
+export class RecordNotFoundError extends DatabaseError {
+  constructor(message: string, public table?: string, public id?: number) {
+    super(message);
+    this.name = 'RecordNotFoundError';
+  }
+}
+
+/**
+ * SyncError Class
+ * Error thrown when pushing a queued change to the remote store fails
+ */
+export class SyncError extends DatabaseError {
+  constructor(message: string, public retryable: boolean = true) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+/**
+ * EncryptionError Class
+ * Error thrown when the database cannot be unlocked, encrypted or re-keyed
+ */
+export class EncryptionError extends DatabaseError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * BackupError Class
+ * Error thrown when a backup archive cannot be created, read or restored
+ */
+export class BackupError extends DatabaseError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * FxRateNotFoundError Class
+ * Error thrown when an amount cannot be converted because no exchange rate is stored
+ */
+export class FxRateNotFoundError extends DatabaseError {
+  constructor(message: string, public currency?: string, public date?: string) {
+    super(message);
+    this.name = 'FxRateNotFoundError';
+  }
+}
+
+/**
+ * SplitMismatchError Class
+ * Error thrown when the splits of an expense or transaction do not add up to its amount
+ */
+export class SplitMismatchError extends DatabaseError {
+  constructor(message: string, public expected?: number, public actual?: number) {
+    super(message);
+    this.name = 'SplitMismatchError';
+  }
+}
+
+/**
+ * LegacyImportError Class
+ * Error thrown when data from a legacy database cannot be moved into the migrated schema
+ */
+export class LegacyImportError extends DatabaseError {
+  constructor(message: string, public source?: string, public table?: string) {
+    super(message);
+    this.name = 'LegacyImportError';
+  }
+}
@@ -0,0 +1,74 @@
+import { IChangeEventBus, ChangeEvent, ChangeEventEntity, ChangeListener } from '../interfaces/IChangeEventBus';
+import { ILogger } from '../interfaces/ILogger';
+import { ConsoleLogger } from '../logging/ConsoleLogger';
+
+/**
+ * A listener and the kinds of records it listens for
+ */
+interface Subscription {
+  entities: Set<ChangeEventEntity> | null;
+  listener: ChangeListener;
+}
+
+/**
+ * ChangeEventBus Class
+ * Implements the IChangeEventBus interface. Listeners run synchronously in the order they subscribed;
+ * a failing listener is logged and does not keep the others or the emitting repository from finishing.
+ */
+export class ChangeEventBus implements IChangeEventBus {
+  private readonly subscriptions = new Set<Subscription>();
+  private readonly logger: ILogger;
+
+  /**
+   * ChangeEventBus constructor
+   * @param logger Logger instance (defaults to ConsoleLogger)
+   */
+  constructor(logger?: ILogger) {
+    this.logger = logger || new ConsoleLogger({ context: 'ChangeEventBus' });
+  }
+
+  /**
+   * Listen for changes
+   * @param entities Kinds of records to listen for, or null for every kind
+   * @param listener Callback invoked after each matching change
+   * @returns Function that stops the listener
+   */
+  subscribe(entities: ChangeEventEntity[] | null, listener: ChangeListener): () => void {
+    const subscription: Subscription = { entities: entities ? new Set(entities) : null, listener };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Announce a committed change to the listeners of its kind of record
+   * @param event Change event
+   */
+  emit(event: ChangeEvent): void {
+    this.logger.debug(`Change event: ${event.operation} ${event.entity}`, { ids: event.ids });
+
+    // Listeners that unsubscribe while the event is delivered do not affect the others
+    for (const { entities, listener } of Array.from(this.subscriptions)) {
+      if (entities && !entities.has(event.entity)) continue;
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error(`Change listener failed for ${event.operation} ${event.entity}`, error instanceof Error ? error : undefined);
+      }
+    }
+  }
+
+  /**
+   * Number of active listeners
+   * @returns Listener count
+   */
+  listenerCount(): number {
+    return this.subscriptions.size;
+  }
+}
+
+/**
+ * Bus the app's repositories announce their changes on
+ */
+export const changeEvents = new ChangeEventBus();
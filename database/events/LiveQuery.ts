@@ -0,0 +1,120 @@
+import { ChangeEventEntity, IChangeEventBus } from '../interfaces/IChangeEventBus';
+import { changeEvents } from './ChangeEventBus';
+
+/**
+ * LiveQueryState Interface
+ * Latest outcome of a live query
+ */
+export interface LiveQueryState<T> {
+  /** Result of the last successful run; undefined until the first run finishes */
+  data: T | undefined;
+  loading: boolean;
+  /** Error of the last run, or null when it succeeded */
+  error: Error | null;
+}
+
+/**
+ * LiveQuery Class
+ * Runs a query and runs it again whenever records it reads from change.
+ * Changes that arrive while the query runs are coalesced into a single rerun, and
+ * a result that was already out of date when it arrived is never published.
+ */
+export class LiveQuery<T> {
+  private readonly query: () => Promise<T>;
+  private readonly entities: ChangeEventEntity[];
+  private readonly onChange: (state: LiveQueryState<T>) => void;
+  private readonly bus: IChangeEventBus;
+  private state: LiveQueryState<T> = { data: undefined, loading: true, error: null };
+  private unsubscribe: (() => void) | null = null;
+  private running: Promise<void> | null = null;
+  private stale = false;
+
+  /**
+   * LiveQuery constructor
+   * @param query Query to run
+   * @param entities Kinds of records the query reads
+   * @param onChange Callback invoked with each new state
+   * @param bus Change event bus (defaults to the bus the app's repositories emit on)
+   */
+  constructor(
+    query: () => Promise<T>,
+    entities: ChangeEventEntity[],
+    onChange: (state: LiveQueryState<T>) => void,
+    bus: IChangeEventBus = changeEvents
+  ) {
+    this.query = query;
+    this.entities = entities;
+    this.onChange = onChange;
+    this.bus = bus;
+  }
+
+  /**
+   * Run the query and keep it up to date until stopped
+   * @returns Promise that resolves once the first run has finished
+   */
+  start(): Promise<void> {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.bus.subscribe(this.entities, () => {
+        void this.refresh();
+      });
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Stop listening for changes; a run still in progress is not published
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Run the query now, or once more after the run in progress
+   * @returns Promise that resolves once the state is up to date
+   */
+  refresh(): Promise<void> {
+    if (this.running) {
+      this.stale = true;
+      return this.running;
+    }
+    this.running = this.run().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Whether the query is listening for changes
+   * @returns true between start and stop
+   */
+  isActive(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Run the query until a run finishes without a change arriving in the meantime
+   */
+  private async run(): Promise<void> {
+    do {
+      this.stale = false;
+      try {
+        const data = await this.query();
+        if (!this.stale) this.publish({ data, loading: false, error: null });
+      } catch (error) {
+        // The last good result stays available next to the error
+        if (!this.stale) this.publish({ ...this.state, loading: false, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    } while (this.stale && this.isActive());
+  }
+
+  /**
+   * Store and announce a new state while the query is active
+   * @param state New state
+   */
+  private publish(state: LiveQueryState<T>): void {
+    if (!this.isActive()) return;
+    this.state = state;
+    this.onChange(state);
+  }
+}
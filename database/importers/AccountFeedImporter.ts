@@ -0,0 +1,93 @@
+import { ITransactionRepository, ITagRepository } from '../interfaces/Repositories';
+import { ILogger } from '../interfaces/ILogger';
+import { Transaction } from '../../types/finance';
+
+/**
+ * Outcome of an account feed import
+ */
+export interface AccountFeedImportResult {
+  imported: number;
+  updated: number;
+}
+
+/**
+ * AccountFeedImporter Class
+ * Persists transactions from the account feed, including their tags.
+ * Transactions are matched on their feed ID, so importing the same feed twice
+ * only refreshes the tags of already imported transactions.
+ */
+export class AccountFeedImporter {
+  private readonly transactions: ITransactionRepository;
+  private readonly tags: ITagRepository;
+  private readonly logger: ILogger;
+
+  /**
+   * AccountFeedImporter constructor
+   * @param transactions Transaction repository
+   * @param tags Tag repository
+   * @param logger Logger instance
+   */
+  constructor(transactions: ITransactionRepository, tags: ITagRepository, logger: ILogger) {
+    this.transactions = transactions;
+    this.tags = tags;
+    this.logger = logger;
+  }
+
+  /**
+   * Import feed transactions for a user
+   * @param userId User ID
+   * @param feed Transactions from the account feed
+   * @returns Number of new and refreshed transactions
+   */
+  async import(userId: string, feed: Transaction[]): Promise<AccountFeedImportResult> {
+    this.logger.info(`Importing ${feed.length} account feed transactions for user: ${userId}`);
+
+    const result: AccountFeedImportResult = { imported: 0, updated: 0 };
+    const tagIds = new Map<string, number>();
+
+    for (const tx of feed) {
+      const existing = await this.transactions.getByExternalId(userId, tx.id);
+      let transactionId: number;
+
+      if (existing?.id) {
+        transactionId = existing.id;
+        result.updated++;
+      } else {
+        const now = new Date().toISOString();
+        transactionId = await this.transactions.create({
+          type: tx.type,
+          amount: Math.abs(tx.amount),
+          description: tx.description,
+          category: tx.category,
+          date: tx.date,
+          externalId: tx.id,
+          currency: tx.currency,
+          originalAmount: tx.originalAmount !== undefined ? Math.abs(tx.originalAmount) : undefined,
+          userId,
+          createdAt: now,
+          updatedAt: now,
+          syncStatus: 'pending',
+        });
+        result.imported++;
+      }
+
+      // Only touch links when the feed carries tag information for this transaction
+      if (tx.tags) {
+        const ids: number[] = [];
+        for (const name of tx.tags) {
+          const key = name.trim().toLowerCase();
+          if (!key) continue;
+          if (!tagIds.has(key)) {
+            const tag = await this.tags.findOrCreate(userId, name);
+            tagIds.set(key, tag.id!);
+          }
+          ids.push(tagIds.get(key)!);
+        }
+        await this.tags.setTransactionTags(transactionId, ids);
+      }
+    }
+
+    this.logger.info('Account feed import finished', { ...result });
+    return result;
+  }
+}
@@ -0,0 +1,161 @@
+import * as FileSystem from 'expo-file-system';
+import { IFxRateRepository } from '../interfaces/Repositories';
+import { ILogger } from '../interfaces/ILogger';
+import { FxRateRecord } from '../models/Records';
+import { DatabaseError } from '../errors/DatabaseErrors';
+import { BASE_CURRENCY } from '../../utils/currency';
+
+/**
+ * A CSV row that was not imported
+ */
+export interface FxRateImportIssue {
+  line: number;
+  reason: string;
+}
+
+/**
+ * Outcome of an exchange rate import
+ */
+export interface FxRateImportResult {
+  imported: number;
+  skipped: FxRateImportIssue[];
+}
+
+type ParsedRate = Omit<FxRateRecord, 'id' | 'source' | 'createdAt' | 'updatedAt'>;
+
+const REQUIRED_COLUMNS = ['currency', 'date', 'rate'] as const;
+
+/**
+ * Split one CSV line into fields, honouring double-quoted fields and "" escapes
+ * @param line CSV line
+ * @returns Field values
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Parse an exchange rate CSV. The header row names the columns, in any order:
+ * currency (ISO code), date (YYYY-MM-DD) and rate (ZAR per unit of currency).
+ * Other columns are ignored, and a later row for the same currency and day wins.
+ * @param csv CSV text
+ * @returns Valid rates and the rows that were skipped
+ * @throws DatabaseError if the header row lacks a required column
+ */
+export function parseFxRateCsv(csv: string): { rates: ParsedRate[]; skipped: FxRateImportIssue[] } {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = splitCsvLine(lines[0] || '').map(name => name.toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new DatabaseError(`Exchange rate CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  const [currencyIndex, dateIndex, rateIndex] = REQUIRED_COLUMNS.map(column => header.indexOf(column));
+  const rates = new Map<string, ParsedRate>();
+  const skipped: FxRateImportIssue[] = [];
+
+  lines.slice(1).forEach((text, index) => {
+    const line = index + 2;
+    if (!text.trim()) return;
+
+    const fields = splitCsvLine(text);
+    const currency = (fields[currencyIndex] || '').toUpperCase();
+    const date = fields[dateIndex] || '';
+    const rate = Number(fields[rateIndex]);
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      skipped.push({ line, reason: `Invalid currency code: ${fields[currencyIndex] || ''}` });
+    } else if (currency === BASE_CURRENCY) {
+      skipped.push({ line, reason: `${BASE_CURRENCY} is the base currency` });
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      skipped.push({ line, reason: `Invalid date: ${date}` });
+    } else if (!fields[rateIndex] || !Number.isFinite(rate) || rate <= 0) {
+      skipped.push({ line, reason: `Invalid rate: ${fields[rateIndex] || ''}` });
+    } else {
+      rates.set(`${currency}|${date}`, { currency, date, rate });
+    }
+  });
+
+  return { rates: [...rates.values()], skipped };
+}
+
+/**
+ * FxRateCsvImporter Class
+ * Loads exchange rates into the local rate table from CSV files,
+ * so foreign spend can be converted to ZAR without a network connection
+ */
+export class FxRateCsvImporter {
+  private readonly rates: IFxRateRepository;
+  private readonly logger: ILogger;
+
+  /**
+   * FxRateCsvImporter constructor
+   * @param rates Exchange rate repository
+   * @param logger Logger instance
+   */
+  constructor(rates: IFxRateRepository, logger: ILogger) {
+    this.rates = rates;
+    this.logger = logger;
+  }
+
+  /**
+   * Import rates from CSV text
+   * @param csv CSV text
+   * @param source Where the rates came from, stored with each rate
+   * @returns Number of rates stored and the rows that were skipped
+   * @throws DatabaseError if the header row lacks a required column
+   */
+  async import(csv: string, source: string = 'csv'): Promise<FxRateImportResult> {
+    const { rates, skipped } = parseFxRateCsv(csv);
+    this.logger.info(`Importing ${rates.length} exchange rates from ${source}`);
+    if (skipped.length > 0) {
+      this.logger.warn(`Skipping ${skipped.length} invalid exchange rate rows`, { skipped });
+    }
+
+    const imported = await this.rates.save(rates.map(rate => ({ ...rate, source })));
+    return { imported, skipped };
+  }
+
+  /**
+   * Import rates from a CSV file, e.g. one picked with the document picker
+   * @param uri File URI
+   * @returns Number of rates stored and the rows that were skipped
+   * @throws DatabaseError if the file cannot be read or lacks a required column
+   */
+  async importFile(uri: string): Promise<FxRateImportResult> {
+    let csv: string;
+    try {
+      csv = await FileSystem.readAsStringAsync(uri);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new DatabaseError(`Failed to read exchange rate file: ${errorMessage}`);
+    }
+
+    return this.import(csv, uri.split('/').pop() || uri);
+  }
+}
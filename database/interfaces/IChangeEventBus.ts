@@ -0,0 +1,50 @@
+import { SyncEntityType } from '../models/Records';
+
+/**
+ * ChangeEventEntity Type
+ * Kinds of records whose changes are announced on the change event bus
+ */
+export type ChangeEventEntity = SyncEntityType | 'tag' | 'recurrence_rule' | 'fx_rate' | 'education';
+
+/**
+ * ChangeEventOperation Type
+ * Mutation kinds announced on the change event bus
+ */
+export type ChangeEventOperation = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * ChangeEvent Interface
+ * A committed change to one or more records of the same kind
+ */
+export interface ChangeEvent {
+  entity: ChangeEventEntity;
+  operation: ChangeEventOperation;
+  /** IDs of the changed records; empty when a bulk change touched records that are not known individually */
+  ids: number[];
+}
+
+/**
+ * ChangeListener Type
+ * Callback invoked with each change event a subscriber is interested in
+ */
+export type ChangeListener = (event: ChangeEvent) => void;
+
+/**
+ * IChangeEventBus Interface
+ * Announces committed repository changes to the parts of the app that show the data
+ */
+export interface IChangeEventBus {
+  /**
+   * Listen for changes
+   * @param entities Kinds of records to listen for, or null for every kind
+   * @param listener Callback invoked after each matching change
+   * @returns Function that stops the listener
+   */
+  subscribe(entities: ChangeEventEntity[] | null, listener: ChangeListener): () => void;
+
+  /**
+   * Announce a committed change to the listeners of its kind of record
+   * @param event Change event
+   */
+  emit(event: ChangeEvent): void;
+}
@@ -0,0 +1,36 @@
+/**
+ * IDatabaseKeyStore Interface
+ * Storage for the database encryption key. Keys are 64-character hex strings (256 bits).
+ */
+
+export interface IDatabaseKeyStore {
+  /**
+   * Get the active encryption key
+   * @returns Key or null if none has been stored yet
+   */
+  getKey(): Promise<string | null>;
+
+  /**
+   * Store the active encryption key
+   * @param key Hex key
+   */
+  setKey(key: string): Promise<void>;
+
+  /**
+   * Get the key of a rotation that has not been confirmed yet
+   * @returns Key or null if no rotation is in progress
+   */
+  getPendingKey(): Promise<string | null>;
+
+  /**
+   * Store or clear the key of a rotation in progress
+   * @param key Hex key, or null to clear
+   */
+  setPendingKey(key: string | null): Promise<void>;
+
+  /**
+   * Generate a new random key
+   * @returns Hex key
+   */
+  generateKey(): string;
+}
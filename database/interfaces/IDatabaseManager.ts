@@ -11,7 +11,8 @@ export interface IDatabaseManager {
   initialize(): Promise<void>;
   
   /**
-   * Execute a SQL query with parameters
+   * Execute a SQL query with parameters.
+   * A script of several statements, such as a migration, runs as a whole and cannot take parameters.
    * @param query SQL query string
    * @param params Query parameters
    * @returns Query result
@@ -0,0 +1,51 @@
+import { LogLevel } from '../logging/ConsoleLogger';
+
+/**
+ * LogEntry Interface
+ * A single structured log record, as handed to every sink
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  /** Part of the app that logged the entry, e.g. 'Budgets' or 'SyncEngine' */
+  module: string;
+  message: string;
+  /** Structured context; already redacted */
+  fields?: Record<string, any>;
+  error?: { name: string; message: string; stack?: string };
+}
+
+/**
+ * ILogSink Interface
+ * Destination for log entries (console, file, memory, remote)
+ */
+export interface ILogSink {
+  /**
+   * Accept an entry. Must not throw for I/O problems; sinks that write
+   * asynchronously buffer entries and write them on flush.
+   * @param entry Log entry
+   */
+  write(entry: LogEntry): void;
+
+  /**
+   * Write buffered entries
+   */
+  flush?(): Promise<void>;
+}
+
+/**
+ * ILogTransport Interface
+ * Pluggable destination for log entries that leave the device
+ */
+export interface ILogTransport {
+  /**
+   * Human readable transport name used in diagnostics
+   */
+  readonly name: string;
+
+  /**
+   * Send a batch of entries
+   * @param entries Entries in the order they were logged
+   */
+  send(entries: LogEntry[]): Promise<void>;
+}
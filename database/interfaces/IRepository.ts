@@ -3,13 +3,69 @@
  * Generic repository interface for database operations
  */
 
+import { ChangeContext } from '../models/Records';
+
+/**
+ * FieldFilter Type
+ * Condition on a single field: a plain value means equality
+ */
+export type FieldFilter<V> =
+  | V
+  | {
+      eq?: V;
+      ne?: V;
+      in?: V[];
+      gt?: V;
+      gte?: V;
+      lt?: V;
+      lte?: V;
+      contains?: string; // case-insensitive substring match
+    };
+
+/**
+ * QueryFilter Type
+ * Conditions on several fields, combined with AND
+ */
+export type QueryFilter<T> = { [K in keyof T]?: FieldFilter<T[K]> };
+
+/**
+ * SortSpec Interface
+ * One sort key; the record ID is always appended as a tie-breaker
+ */
+export interface SortSpec<T> {
+  field: keyof T & string;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * QuerySpec Interface
+ * Filter, sort and page settings for a paged query
+ */
+export interface QuerySpec<T> {
+  filter?: QueryFilter<T>;
+  sort?: SortSpec<T>[];
+  limit?: number;
+  cursor?: string | null; // nextCursor of the previous page
+}
+
+/**
+ * Page Interface
+ * One page of query results
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // opaque; pass back in QuerySpec.cursor for the next page
+  hasMore: boolean;
+}
+
 export interface IRepository<T> {
   /**
    * Create a new record
    * @param data Data to create
+   * @param context Who made the change and how, for repositories that keep a change history
    * @returns Created record ID
    */
-  create(data: Omit<T, 'id'>): Promise<number>;
+  create(data: Omit<T, 'id'>, context?: ChangeContext): Promise<number>;
   
   /**
    * Get record by ID
@@ -22,16 +78,18 @@ export interface IRepository<T> {
    * Update an existing record
    * @param id Record ID
    * @param data Data to update
+   * @param context Who made the change and how, for repositories that keep a change history
    * @returns true if update successful
    */
-  update(id: number, data: Partial<T>): Promise<boolean>;
+  update(id: number, data: Partial<T>, context?: ChangeContext): Promise<boolean>;
   
   /**
    * Delete a record
    * @param id Record ID
+   * @param context Who made the change and how, for repositories that keep a change history
    * @returns true if deletion successful
    */
-  delete(id: number): Promise<boolean>;
+  delete(id: number, context?: ChangeContext): Promise<boolean>;
   
   /**
    * Get multiple records with optional filtering
@@ -41,4 +99,40 @@ export interface IRepository<T> {
    * @returns Array of records
    */
   getMany(filter?: Partial<T>, limit?: number, offset?: number): Promise<T[]>;
+  
+  /**
+   * Get one page of records matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  query(spec?: QuerySpec<T>): Promise<Page<T>>;
+  
+  /**
+   * Count records matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  count(filter?: QueryFilter<T>): Promise<number>;
+}
+
+/**
+ * ITrashableRepository Interface
+ * Repositories whose delete moves records to the trash, where they stay until restored or purged
+ */
+export interface ITrashableRepository<T> {
+  /**
+   * Get a user's records that are in the trash, most recently deleted first
+   * @param userId User ID
+   * @returns Array of deleted records
+   */
+  getDeleted(userId: string): Promise<T[]>;
+
+  /**
+   * Take a record out of the trash
+   * @param id Record ID
+   * @param context Who made the change and how, for repositories that keep a change history
+   * @returns true if the record was in the trash and has been restored
+   */
+  restore(id: number, context?: ChangeContext): Promise<boolean>;
 }
@@ -0,0 +1,44 @@
+import { SyncEntityType, SyncOperation } from '../models/Records';
+
+/**
+ * SyncChange Interface
+ * A queued local change handed to a remote store
+ */
+export interface SyncChange {
+  queueId: number;
+  entityType: SyncEntityType;
+  entityId: number;
+  operation: SyncOperation;
+  /** Remote identifier of the record, when it has been created remotely before */
+  remoteId?: string;
+  /** Record snapshot taken when the change was queued */
+  data: Record<string, any>;
+}
+
+/**
+ * SyncPushResult Interface
+ * Outcome of pushing a single change
+ */
+export interface SyncPushResult {
+  /** Remote identifier assigned by the remote store (creates only) */
+  remoteId?: string;
+}
+
+/**
+ * ISyncRemote Interface
+ * Pluggable destination for queued local changes (cloud database or local stand-in)
+ */
+export interface ISyncRemote {
+  /**
+   * Human readable remote name used in logs
+   */
+  readonly name: string;
+
+  /**
+   * Push a single change to the remote store
+   * @param change Change to apply remotely
+   * @returns Push result
+   * @throws SyncError when the change could not be applied
+   */
+  push(change: SyncChange): Promise<SyncPushResult>;
+}
@@ -1,11 +1,38 @@
-import { IRepository } from './IRepository';
-import { ExpenseRecord, ReceiptRecord, FinancialGoalRecord, TransactionRecord } from '../models/Records';
+import { IRepository, ITrashableRepository } from './IRepository';
+import {
+  ExpenseRecord,
+  ReceiptRecord,
+  ReceiptAttachmentRecord,
+  FinancialGoalRecord,
+  TransactionRecord,
+  SyncQueueRecord,
+  SyncEntityType,
+  SyncOperation,
+  TagRecord,
+  TagMatchMode,
+  SearchFilters,
+  SearchResult,
+  ChangeContext,
+  ChangeEntityType,
+  ChangeOperation,
+  ChangeRecord,
+  FxRateRecord,
+  RecurrenceRuleRecord,
+  RecurrenceExceptionRecord,
+  BudgetRecord,
+  BudgetPeriod,
+  SplitParentType,
+  SplitRecord,
+  EducationalProgressRecord,
+  UserAchievementRecord,
+} from '../models/Records';
+import { Budget } from '../../types/finance';
 
 /**
  * IExpenseRepository Interface
  * Repository interface for expense records
  */
-export interface IExpenseRepository extends IRepository<ExpenseRecord> {
+export interface IExpenseRepository extends IRepository<ExpenseRecord>, ITrashableRepository<ExpenseRecord> {
   /**
    * Get expenses for a specific user
    * @param userId User ID
@@ -46,13 +73,22 @@ export interface IExpenseRepository extends IRepository<ExpenseRecord> {
    * @returns Number of records updated
    */
   updateSyncStatus(ids: number[], status: 'synced' | 'pending' | 'error'): Promise<number>;
+  
+  /**
+   * Get expenses carrying the given tags
+   * @param userId User ID
+   * @param tagIds Tag IDs to match
+   * @param mode 'any' returns expenses with at least one tag, 'all' only those with every tag
+   * @returns Array of expense records
+   */
+  getByTags(userId: string, tagIds: number[], mode?: TagMatchMode): Promise<ExpenseRecord[]>;
 }
 
 /**
  * IReceiptRepository Interface
  * Repository interface for receipt records
  */
-export interface IReceiptRepository extends IRepository<ReceiptRecord> {
+export interface IReceiptRepository extends IRepository<ReceiptRecord>, ITrashableRepository<ReceiptRecord> {
   /**
    * Get receipts for a specific user
    * @param userId User ID
@@ -86,11 +122,69 @@ export interface IReceiptRepository extends IRepository<ReceiptRecord> {
   getPendingSync(userId: string): Promise<ReceiptRecord[]>;
 }
 
+/**
+ * ReceiptAttachmentInput Interface
+ * A file to attach to a receipt, as handed over by the camera or a file picker
+ */
+export interface ReceiptAttachmentInput {
+  uri: string;
+  filename?: string; // taken from the URI when omitted
+  mimeType?: string; // guessed from the file extension when omitted
+}
+
+/**
+ * IReceiptAttachmentRepository Interface
+ * Repository interface for the files attached to receipts
+ */
+export interface IReceiptAttachmentRepository {
+  /**
+   * Copy a file into app storage and attach it after the receipt's other attachments
+   * @param receiptId Receipt ID
+   * @param file File to attach
+   * @returns Stored attachment
+   */
+  add(receiptId: number, file: ReceiptAttachmentInput): Promise<ReceiptAttachmentRecord>;
+
+  /**
+   * Get an attachment by ID
+   * @param id Attachment ID
+   * @returns Attachment or null if not found
+   */
+  getById(id: number): Promise<ReceiptAttachmentRecord | null>;
+
+  /**
+   * Get the attachments of a receipt
+   * @param receiptId Receipt ID
+   * @returns Attachments in page order
+   */
+  getByReceiptId(receiptId: number): Promise<ReceiptAttachmentRecord[]>;
+
+  /**
+   * Put the attachments of a receipt in a new order
+   * @param receiptId Receipt ID
+   * @param attachmentIds Every attachment ID of the receipt, in the new order
+   */
+  reorder(receiptId: number, attachmentIds: number[]): Promise<void>;
+
+  /**
+   * Remove an attachment and its file
+   * @param id Attachment ID
+   * @returns true if the attachment was removed
+   */
+  delete(id: number): Promise<boolean>;
+
+  /**
+   * Delete the files of removed receipts and attachments from storage
+   * @returns Number of files deleted
+   */
+  cleanupOrphanedFiles(): Promise<number>;
+}
+
 /**
  * IFinancialGoalRepository Interface
  * Repository interface for financial goal records
  */
-export interface IFinancialGoalRepository extends IRepository<FinancialGoalRecord> {
+export interface IFinancialGoalRepository extends IRepository<FinancialGoalRecord>, ITrashableRepository<FinancialGoalRecord> {
   /**
    * Get financial goals for a specific user
    * @param userId User ID
@@ -111,9 +205,10 @@ export interface IFinancialGoalRepository extends IRepository<FinancialGoalRecor
    * Update goal progress
    * @param id Goal ID
    * @param currentAmount New current amount
+   * @param context Who made the change and how
    * @returns Updated goal record
    */
-  updateProgress(id: number, currentAmount: number): Promise<FinancialGoalRecord>;
+  updateProgress(id: number, currentAmount: number, context?: ChangeContext): Promise<FinancialGoalRecord>;
   
   /**
    * Get pending goals for sync
@@ -127,7 +222,7 @@ export interface IFinancialGoalRepository extends IRepository<FinancialGoalRecor
  * ITransactionRepository Interface
  * Repository interface for transaction records
  */
-export interface ITransactionRepository extends IRepository<TransactionRecord> {
+export interface ITransactionRepository extends IRepository<TransactionRecord>, ITrashableRepository<TransactionRecord> {
   /**
    * Get transactions for a specific user
    * @param userId User ID
@@ -154,6 +249,14 @@ export interface ITransactionRepository extends IRepository<TransactionRecord> {
    */
   getByDateRange(userId: string, startDate: string, endDate: string): Promise<TransactionRecord[]>;
   
+  /**
+   * Get a transaction by the ID it has in the account feed
+   * @param userId User ID
+   * @param externalId Account feed transaction ID
+   * @returns Transaction record or null if not imported yet
+   */
+  getByExternalId(userId: string, externalId: string): Promise<TransactionRecord | null>;
+  
   /**
    * Get pending transactions for sync
    * @param userId User ID
@@ -161,3 +264,508 @@ export interface ITransactionRepository extends IRepository<TransactionRecord> {
    */
   getPendingSync(userId: string): Promise<TransactionRecord[]>;
 }
+
+/**
+ * ISyncQueueRepository Interface
+ * Repository interface for the offline sync queue
+ */
+export interface ISyncQueueRepository {
+  /**
+   * Queue a change for synchronization, coalescing with any unsent change for the same record
+   * @param entityType Entity type of the changed record
+   * @param entityId Local ID of the changed record
+   * @param operation Mutation that was applied locally
+   * @param data Snapshot of the record after the change (before it, for deletes)
+   * @param priority Optional priority override (higher is sent first)
+   * @returns Queue entry ID, or null when the change cancelled out an unsent create
+   */
+  enqueue(
+    entityType: SyncEntityType,
+    entityId: number,
+    operation: SyncOperation,
+    data?: Record<string, any> | null,
+    priority?: number
+  ): Promise<number | null>;
+
+  /**
+   * Get queue entries that are waiting to be sent, highest priority first
+   * @param maxAttempts Entries with this many attempts or more are excluded
+   * @param limit Maximum number of entries to return
+   * @returns Array of queue entries
+   */
+  getProcessable(maxAttempts: number, limit?: number): Promise<SyncQueueRecord[]>;
+
+  /**
+   * Check whether a record still has unsent changes queued
+   * @param entityType Entity type
+   * @param entityId Local record ID
+   * @param excludeId Queue entry to ignore (usually the one being processed)
+   */
+  hasPending(entityType: SyncEntityType, entityId: number, excludeId?: number): Promise<boolean>;
+
+  /**
+   * Mark a queue entry as being processed
+   * @param id Queue entry ID
+   */
+  markInProgress(id: number): Promise<void>;
+
+  /**
+   * Return entries left in progress by an interrupted run to the pending state
+   * @returns Number of entries reset
+   */
+  resetInProgress(): Promise<number>;
+
+  /**
+   * Mark a queue entry as successfully synchronized
+   * @param id Queue entry ID
+   */
+  markSuccess(id: number): Promise<void>;
+
+  /**
+   * Record a failed attempt for a queue entry
+   * @param id Queue entry ID
+   * @param errorMessage Failure reason
+   * @param attempts Attempt count to store
+   */
+  markError(id: number, errorMessage: string, attempts: number): Promise<void>;
+
+  /**
+   * Store the remote ID on unsent entries of a record that was created remotely
+   * @param entityType Entity type
+   * @param entityId Local record ID
+   * @param remoteId Remote identifier returned by the create
+   */
+  assignRemoteId(entityType: SyncEntityType, entityId: number, remoteId: string): Promise<void>;
+
+  /**
+   * Remove successfully synchronized entries
+   * @param olderThan Only purge entries created before this ISO timestamp
+   * @returns Number of entries removed
+   */
+  purgeCompleted(olderThan?: string): Promise<number>;
+
+  /**
+   * Count queue entries by status
+   * @returns Counts keyed by status
+   */
+  getStats(): Promise<Record<SyncQueueRecord['status'], number>>;
+}
+
+/**
+ * ITagRepository Interface
+ * Repository interface for tags and their links to expenses and transactions
+ */
+export interface ITagRepository extends IRepository<TagRecord> {
+  /**
+   * Get all tags of a user, ordered by name
+   * @param userId User ID
+   * @returns Array of tag records
+   */
+  getByUserId(userId: string): Promise<TagRecord[]>;
+  
+  /**
+   * Get a tag by name (case-insensitive)
+   * @param userId User ID
+   * @param name Tag name
+   * @returns Tag record or null if not found
+   */
+  getByName(userId: string, name: string): Promise<TagRecord | null>;
+  
+  /**
+   * Get a tag by name, creating it when it does not exist yet
+   * @param userId User ID
+   * @param name Tag name
+   * @param color Colour for a newly created tag
+   * @returns Existing or created tag record
+   */
+  findOrCreate(userId: string, name: string, color?: string): Promise<TagRecord>;
+  
+  /**
+   * Attach tags to an expense (already attached tags are ignored)
+   * @param expenseId Expense ID
+   * @param tagIds Tag IDs to attach
+   * @returns Number of links added
+   */
+  attachToExpense(expenseId: number, tagIds: number[]): Promise<number>;
+  
+  /**
+   * Detach tags from an expense
+   * @param expenseId Expense ID
+   * @param tagIds Tag IDs to detach (all tags when omitted)
+   * @returns Number of links removed
+   */
+  detachFromExpense(expenseId: number, tagIds?: number[]): Promise<number>;
+  
+  /**
+   * Replace the tags of an expense
+   * @param expenseId Expense ID
+   * @param tagIds Complete set of tag IDs
+   */
+  setExpenseTags(expenseId: number, tagIds: number[]): Promise<void>;
+  
+  /**
+   * Get the tags attached to an expense
+   * @param expenseId Expense ID
+   * @returns Array of tag records
+   */
+  getExpenseTags(expenseId: number): Promise<TagRecord[]>;
+  
+  /**
+   * Get the tags of several expenses in one query
+   * @param expenseIds Expense IDs
+   * @returns Tags keyed by expense ID
+   */
+  getTagsForExpenses(expenseIds: number[]): Promise<Record<number, TagRecord[]>>;
+  
+  /**
+   * Replace the tags of a transaction
+   * @param transactionId Transaction ID
+   * @param tagIds Complete set of tag IDs
+   */
+  setTransactionTags(transactionId: number, tagIds: number[]): Promise<void>;
+  
+  /**
+   * Get the tags attached to a transaction
+   * @param transactionId Transaction ID
+   * @returns Array of tag records
+   */
+  getTransactionTags(transactionId: number): Promise<TagRecord[]>;
+}
+
+/**
+ * ISearchRepository Interface
+ * Full-text search over expenses, receipts and receipt line items
+ */
+export interface ISearchRepository {
+  /**
+   * Search a user's expenses and receipts
+   * @param userId User ID
+   * @param query Free-text query as typed by the user
+   * @param filters Optional constraints on type, category, date and amount
+   * @returns Hits ordered by relevance
+   */
+  search(userId: string, query: string, filters?: SearchFilters): Promise<SearchResult[]>;
+  
+  /**
+   * Rebuild the search index from the source tables
+   */
+  rebuildIndex(): Promise<void>;
+}
+
+/**
+ * IChangeHistoryRepository Interface
+ * Append-only history of changes to financial records, with undo
+ */
+export interface IChangeHistoryRepository {
+  /**
+   * Read the raw row of a record, for use as the "before" image of a change
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @returns Raw row or null if the record does not exist
+   */
+  snapshot(entityType: ChangeEntityType, entityId: number): Promise<Record<string, any> | null>;
+
+  /**
+   * Append a change; the "after" image is read from the database
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change (null for creates)
+   * @param context Who made the change and how
+   * @returns Change ID
+   */
+  record(
+    entityType: ChangeEntityType,
+    entityId: number,
+    operation: ChangeOperation,
+    before: Record<string, any> | null,
+    context?: ChangeContext
+  ): Promise<number>;
+
+  /**
+   * Get a change by ID
+   * @param id Change ID
+   * @returns Change or null if not found
+   */
+  getById(id: number): Promise<ChangeRecord | null>;
+
+  /**
+   * Get all changes of a record, newest first
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @returns Array of changes
+   */
+  getHistory(entityType: ChangeEntityType, entityId: number): Promise<ChangeRecord[]>;
+
+  /**
+   * Get a user's most recent changes, newest first
+   * @param userId User ID
+   * @param limit Maximum number of changes to return
+   * @returns Array of changes
+   */
+  getRecent(userId: string, limit?: number): Promise<ChangeRecord[]>;
+
+  /**
+   * Put a record back the way it was before a change
+   * @param changeId Change to revert
+   * @param context Who requested the revert and how
+   * @returns The change that performed the revert
+   */
+  revert(changeId: number, context?: ChangeContext): Promise<ChangeRecord>;
+
+  /**
+   * Revert the user's most recent change that has not been reverted yet, together with the other changes of its batch
+   * @param userId User ID
+   * @param context Who requested the undo and how
+   * @returns The change that reverted the most recent change, or null if there is nothing to undo
+   */
+  undoLatest(userId: string, context?: ChangeContext): Promise<ChangeRecord | null>;
+}
+
+/**
+ * FxConversion Interface
+ * An amount converted to ZAR and the rate that was used
+ */
+export interface FxConversion {
+  amount: number;
+  rate: number;
+}
+
+/**
+ * IFxRateRepository Interface
+ * Repository interface for the local table of exchange rates against ZAR
+ */
+export interface IFxRateRepository {
+  /**
+   * Store rates, replacing any rate already stored for the same currency and day
+   * @param rates Rates to store
+   * @returns Number of rates stored
+   */
+  save(rates: Omit<FxRateRecord, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<number>;
+
+  /**
+   * Get the rate in effect on a day: the most recent rate on or before it
+   * @param currency Currency code
+   * @param date Day (YYYY-MM-DD or ISO timestamp)
+   * @returns Rate record or null if no rate is stored for that day or earlier
+   */
+  getRate(currency: string, date: string): Promise<FxRateRecord | null>;
+
+  /**
+   * Get all stored rates of a currency, newest first
+   * @param currency Currency code
+   * @returns Array of rate records
+   */
+  getRates(currency: string): Promise<FxRateRecord[]>;
+
+  /**
+   * Get the currencies that have at least one stored rate
+   * @returns Currency codes in alphabetical order
+   */
+  getCurrencies(): Promise<string[]>;
+
+  /**
+   * Convert an amount to ZAR at the rate in effect on a day
+   * @param amount Amount in the given currency
+   * @param currency Currency code
+   * @param date Day of the spend
+   * @returns ZAR amount rounded to the cent, and the rate used
+   * @throws FxRateNotFoundError if no rate is stored for that day or earlier
+   */
+  convert(amount: number, currency: string, date: string): Promise<FxConversion>;
+}
+
+/**
+ * IRecurrenceRuleRepository Interface
+ * Repository interface for recurrence rules and their skipped or changed occurrences
+ */
+export interface IRecurrenceRuleRepository extends IRepository<RecurrenceRuleRecord> {
+  /**
+   * Get all rules of a user, ordered by name
+   * @param userId User ID
+   * @param activeOnly Leave out paused rules
+   * @returns Array of rule records
+   */
+  getByUserId(userId: string, activeOnly?: boolean): Promise<RecurrenceRuleRecord[]>;
+
+  /**
+   * Get the active rules of every user, for generating due occurrences
+   * @returns Array of rule records
+   */
+  getActive(): Promise<RecurrenceRuleRecord[]>;
+
+  /**
+   * Record that occurrences up to a day have been created as records
+   * @param id Rule ID
+   * @param date Last day covered (YYYY-MM-DD)
+   * @returns true if the rule exists
+   */
+  setMaterializedThrough(id: number, date: string): Promise<boolean>;
+
+  /**
+   * Get the exceptions of a rule, ordered by occurrence date
+   * @param ruleId Rule ID
+   * @returns Array of exception records
+   */
+  getExceptions(ruleId: number): Promise<RecurrenceExceptionRecord[]>;
+
+  /**
+   * Skip or change one occurrence, replacing an earlier exception for the same occurrence
+   * @param exception Exception to store
+   * @returns Exception ID
+   */
+  saveException(exception: Omit<RecurrenceExceptionRecord, 'id' | 'createdAt'>): Promise<number>;
+
+  /**
+   * Put an occurrence back on the rule's schedule
+   * @param ruleId Rule ID
+   * @param occurrenceDate Scheduled date of the occurrence
+   * @returns true if the occurrence had an exception
+   */
+  deleteException(ruleId: number, occurrenceDate: string): Promise<boolean>;
+}
+
+/**
+ * IBudgetRepository Interface
+ * Repository interface for budget records and the spending against them
+ */
+export interface IBudgetRepository extends IRepository<BudgetRecord>, ITrashableRepository<BudgetRecord> {
+  /**
+   * Get budgets for a specific user
+   * @param userId User ID
+   * @param activeOnly Whether to only return active budgets
+   * @returns Array of budget records
+   */
+  getByUserId(userId: string, activeOnly?: boolean): Promise<BudgetRecord[]>;
+
+  /**
+   * Set the limit of a user's budget for a category and period, creating the budget if needed
+   * @param userId User ID
+   * @param category Category, or null for the overall budget
+   * @param amount Limit per period in ZAR
+   * @param period How often the limit resets
+   * @param context Who made the change and how, for repositories that keep a change history
+   * @returns Budget ID
+   */
+  setLimit(userId: string, category: string | null, amount: number, period?: BudgetPeriod, context?: ChangeContext): Promise<number>;
+
+  /**
+   * Move part of one category budget's limit to another in one transaction, creating the receiving budget if needed.
+   * Both changes are recorded as one batch.
+   * @param userId User ID
+   * @param fromCategory Category giving up the amount
+   * @param toCategory Category receiving it
+   * @param amount Amount in ZAR; must be less than the limit it comes from
+   * @param period Period of both budgets
+   * @param context Who made the change and how, for repositories that keep a change history
+   * @returns IDs of the budget moved from and the budget moved to
+   */
+  transferLimit(
+    userId: string,
+    fromCategory: string,
+    toCategory: string,
+    amount: number,
+    period?: BudgetPeriod,
+    context?: ChangeContext
+  ): Promise<{ fromId: number; toId: number }>;
+
+  /**
+   * Add up the expenses counting against a budget in the period that contains a day
+   * @param budget Budget record
+   * @param date Day within the period (YYYY-MM-DD), today when omitted
+   * @returns Spent amount in ZAR
+   */
+  getSpent(budget: BudgetRecord, date?: string): Promise<number>;
+
+  /**
+   * Get a user's active budgets with their spending in the current period
+   * @param userId User ID
+   * @param date Day within the period (YYYY-MM-DD), today when omitted
+   * @returns Budgets with the window of the current period
+   */
+  getBudgets(userId: string, date?: string): Promise<Budget[]>;
+}
+
+/**
+ * SplitAllocationInput Type
+ * One split as given by the caller
+ */
+export type SplitAllocationInput = Pick<SplitRecord, 'category' | 'amount' | 'tagId'>;
+
+/**
+ * ISplitRepository Interface
+ * Repository interface for the category splits of expenses and transactions
+ */
+export interface ISplitRepository {
+  /**
+   * Get the splits of a record
+   * @param parentType Expense or transaction
+   * @param parentId Record ID
+   * @returns Splits, largest first; empty if the record is not split
+   */
+  getSplits(parentType: SplitParentType, parentId: number): Promise<SplitRecord[]>;
+
+  /**
+   * Get the splits of several records at once, for lists
+   * @param parentType Expense or transaction
+   * @param parentIds Record IDs
+   * @returns Splits keyed by record ID; records that are not split are left out
+   */
+  getSplitsFor(parentType: SplitParentType, parentIds: number[]): Promise<Record<number, SplitRecord[]>>;
+
+  /**
+   * Attach their splits to records loaded elsewhere
+   * @param parentType Expense or transaction
+   * @param records Stored records
+   * @returns The records with their splits; splits is left undefined on records that are not split
+   */
+  withSplits<T extends { id?: number }>(parentType: SplitParentType, records: T[]): Promise<(T & { splits?: SplitRecord[] })[]>;
+
+  /**
+   * Split a record across categories, replacing any earlier splits
+   * @param parentType Expense or transaction
+   * @param parentId Record ID
+   * @param splits At least two splits that add up to the record amount; empty to undo the split
+   * @returns Stored splits
+   */
+  setSplits(parentType: SplitParentType, parentId: number, splits: SplitAllocationInput[]): Promise<SplitRecord[]>;
+}
+
+/**
+ * IEducationRepository Interface
+ * Repository interface for completed lessons and unlocked achievements
+ */
+export interface IEducationRepository {
+  /**
+   * Get a user's lesson progress
+   * @param userId User ID
+   * @param courseId Only lessons of this course when given
+   * @returns Progress records, most recently completed first
+   */
+  getProgress(userId: string, courseId?: string): Promise<EducationalProgressRecord[]>;
+
+  /**
+   * Mark a lesson completed; completing it again keeps the best score
+   * @param userId User ID
+   * @param courseId Course ID
+   * @param lessonId Lesson ID
+   * @param score Score (XP) earned
+   * @returns Stored progress record
+   */
+  completeLesson(userId: string, courseId: string, lessonId: string, score: number): Promise<EducationalProgressRecord>;
+
+  /**
+   * Get a user's unlocked achievements
+   * @param userId User ID
+   * @returns Achievements, oldest first
+   */
+  getAchievements(userId: string): Promise<UserAchievementRecord[]>;
+
+  /**
+   * Unlock an achievement
+   * @param userId User ID
+   * @param achievementId Achievement ID
+   * @returns true if the achievement was newly unlocked
+   */
+  unlockAchievement(userId: string, achievementId: string): Promise<boolean>;
+}
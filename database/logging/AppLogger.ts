@@ -0,0 +1,39 @@
+import { LogLevel } from './ConsoleLogger';
+import { ConsoleSink } from './ConsoleSink';
+import { LocalLogTransport } from './LocalLogTransport';
+import { RemoteLogSink } from './RemoteLogSink';
+import { RingBufferSink } from './RingBufferSink';
+import { RotatingFileSink } from './RotatingFileSink';
+import { StructuredLogger } from './StructuredLogger';
+
+/**
+ * Recent entries shown and shared from the support screen
+ */
+export const supportLogBuffer = new RingBufferSink(500);
+
+/**
+ * On-device log files
+ */
+export const logFile = new RotatingFileSink();
+
+/**
+ * Warnings and errors bound for the remote collector
+ */
+export const remoteLogSink = new RemoteLogSink(new LocalLogTransport());
+
+/**
+ * Root of the app's loggers; change levels here, e.g. appLogger.setLevel(LogLevel.DEBUG, 'SyncEngine')
+ */
+export const appLogger = new StructuredLogger({
+  sinks: [new ConsoleSink(), supportLogBuffer, logFile, remoteLogSink],
+  levels: { default: LogLevel.INFO },
+});
+
+/**
+ * Create a logger for a part of the app
+ * @param module Module name shown with each entry and used for its log level
+ * @returns Logger writing to the app's sinks
+ */
+export function createLogger(module: string): StructuredLogger {
+  return appLogger.child(module);
+}
@@ -0,0 +1,41 @@
+import { ILogSink, LogEntry } from '../interfaces/ILogSink';
+import { LogLevel } from './ConsoleLogger';
+
+/**
+ * ConsoleSink Class
+ * Writes entries to the console in the same layout as ConsoleLogger, or as JSON lines
+ */
+export class ConsoleSink implements ILogSink {
+  private readonly json: boolean;
+
+  /**
+   * ConsoleSink constructor
+   * @param options json: print each entry as a single JSON line
+   */
+  constructor(options: { json?: boolean } = {}) {
+    this.json = options.json === true;
+  }
+
+  /**
+   * Print an entry with the console method of its level
+   * @param entry Log entry
+   */
+  write(entry: LogEntry): void {
+    const print = {
+      [LogLevel.DEBUG]: console.debug,
+      [LogLevel.INFO]: console.info,
+      [LogLevel.WARN]: console.warn,
+      [LogLevel.ERROR]: console.error,
+    }[entry.level];
+
+    if (this.json) {
+      print(JSON.stringify(entry));
+      return;
+    }
+    print(
+      `[${entry.timestamp}] [${entry.module}] ${entry.message}`,
+      ...(entry.error ? [entry.error] : []),
+      entry.fields ? entry.fields : ''
+    );
+  }
+}
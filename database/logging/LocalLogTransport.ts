@@ -0,0 +1,38 @@
+import { ILogTransport, LogEntry } from '../interfaces/ILogSink';
+
+/**
+ * LocalLogTransport Class
+ * In-memory stand-in for the remote log collector, used until a collector exists and in tests
+ */
+export class LocalLogTransport implements ILogTransport {
+  readonly name = 'local';
+  private readonly received: LogEntry[] = [];
+  private readonly capacity: number;
+
+  /**
+   * LocalLogTransport constructor
+   * @param capacity Number of entries kept
+   */
+  constructor(capacity: number = 1000) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Keep a batch of entries, dropping the oldest beyond the capacity
+   * @param entries Entries in the order they were logged
+   */
+  async send(entries: LogEntry[]): Promise<void> {
+    this.received.push(...entries);
+    if (this.received.length > this.capacity) {
+      this.received.splice(0, this.received.length - this.capacity);
+    }
+  }
+
+  /**
+   * Get every entry received so far
+   * @returns Entries, oldest first
+   */
+  getReceived(): LogEntry[] {
+    return [...this.received];
+  }
+}
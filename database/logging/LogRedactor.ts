@@ -0,0 +1,71 @@
+/**
+ * Placeholders that replace redacted values
+ */
+export const REDACTED = {
+  email: '[EMAIL]',
+  idNumber: '[ID_NUMBER]',
+  accountNumber: '[ACCOUNT_NUMBER]',
+  amount: '[AMOUNT]',
+  secret: '[REDACTED]',
+} as const;
+
+/**
+ * Patterns applied to free text, in order. Emails go first so their digits are not
+ * mistaken for account numbers; 13 digits is the length of a South African ID number.
+ */
+const TEXT_PATTERNS: [RegExp, string][] = [
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, REDACTED.email],
+  [/\b\d{13}\b/g, REDACTED.idNumber],
+  [/\b\d{4}(?:[ -]\d{4}){2,3}\b/g, REDACTED.accountNumber],
+  [/\b\d{8,19}\b/g, REDACTED.accountNumber],
+  [/(?:\b(?:ZAR|USD|EUR|GBP)\s?|\bR\s?|[$€£]\s?)-?\d(?:[\d,]| (?=\d))*(?:\.\d+)?/g, REDACTED.amount],
+  [/-?\b\d[\d,]*(?:\.\d+)?\s?(?:ZAR|USD|EUR|GBP)\b/g, REDACTED.amount],
+];
+
+/**
+ * Field names whose values are replaced whole, whatever they look like
+ */
+const FIELD_PATTERNS: [RegExp, string][] = [
+  [/password|secret|token|apikey|passphrase|^key$/i, REDACTED.secret],
+  [/email/i, REDACTED.email],
+  [/idnumber|nationalid/i, REDACTED.idNumber],
+  [/account(number|no)?$|iban|cardnumber/i, REDACTED.accountNumber],
+  [/amount|balance|spent|price|salary|income/i, REDACTED.amount],
+];
+
+/**
+ * Nesting depth beyond which values are dropped instead of inspected
+ */
+const MAX_DEPTH = 6;
+
+/**
+ * Remove emails, ID numbers, account numbers and amounts from text
+ * @param text Text to redact
+ * @returns Redacted text
+ */
+export function redactText(text: string): string {
+  return TEXT_PATTERNS.reduce((result, [pattern, placeholder]) => result.replace(pattern, placeholder), text);
+}
+
+/**
+ * Redact a value of any shape: sensitive fields are replaced whole and strings are redacted as text
+ * @param value Value to redact
+ * @param depth Current nesting depth
+ * @returns Redacted copy; the input is not modified
+ */
+export function redactValue(value: any, depth: number = 0): any {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[TRUNCATED]';
+  if (value instanceof Error) return redactText(value.message);
+  if (Array.isArray(value)) return value.map(item => redactValue(item, depth + 1));
+
+  const result: Record<string, any> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const match = field !== null && field !== undefined && typeof field !== 'object' && typeof field !== 'boolean'
+      ? FIELD_PATTERNS.find(([pattern]) => pattern.test(key))
+      : undefined;
+    result[key] = match ? match[1] : redactValue(field, depth + 1);
+  }
+  return result;
+}
@@ -0,0 +1,82 @@
+import { ILogSink, ILogTransport, LogEntry } from '../interfaces/ILogSink';
+import { LogLevel } from './ConsoleLogger';
+import { isAtLeast } from './StructuredLogger';
+
+/**
+ * RemoteLogSink Class
+ * Sends entries at or above a level to a remote transport in batches.
+ * Batches that fail stay queued for the next flush; beyond maxQueued the oldest entries are dropped.
+ */
+export class RemoteLogSink implements ILogSink {
+  private readonly transport: ILogTransport;
+  private readonly minLevel: LogLevel;
+  private readonly batchSize: number;
+  private readonly maxQueued: number;
+  private queue: LogEntry[] = [];
+  private sending: Promise<void> = Promise.resolve();
+
+  /**
+   * RemoteLogSink constructor
+   * @param transport Destination of the entries
+   * @param options Minimum level sent, entries per batch and entries kept while the transport fails
+   */
+  constructor(
+    transport: ILogTransport,
+    options: { minLevel?: LogLevel; batchSize?: number; maxQueued?: number } = {}
+  ) {
+    this.transport = transport;
+    this.minLevel = options.minLevel || LogLevel.WARN;
+    this.batchSize = options.batchSize || 20;
+    this.maxQueued = options.maxQueued || 500;
+  }
+
+  /**
+   * Queue an entry if it is severe enough and send once a batch is full
+   * @param entry Log entry, already redacted
+   */
+  write(entry: LogEntry): void {
+    if (!isAtLeast(entry.level, this.minLevel)) return;
+
+    this.queue.push(entry);
+    if (this.queue.length > this.maxQueued) {
+      this.queue.splice(0, this.queue.length - this.maxQueued);
+    }
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send every queued entry; sends happen one after another
+   */
+  flush(): Promise<void> {
+    this.sending = this.sending.then(() => this.sendQueued());
+    return this.sending;
+  }
+
+  /**
+   * Number of entries waiting to be sent
+   * @returns Queue length
+   */
+  pendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Send the queue in batches, stopping at the first failure
+   */
+  private async sendQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, this.batchSize);
+      try {
+        await this.transport.send(batch);
+      } catch (error) {
+        console.warn(`Could not send logs to ${this.transport.name}`, error);
+        return;
+      }
+      // Entries dropped from the front while the batch was in flight were not part of it
+      const sent = batch.filter(entry => this.queue.includes(entry)).length;
+      this.queue.splice(0, sent);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { ILogSink, LogEntry } from '../interfaces/ILogSink';
+import { LogLevel } from './ConsoleLogger';
+import { isAtLeast } from './StructuredLogger';
+
+/**
+ * RingBufferSink Class
+ * Keeps the most recent entries in memory for the support screen; older entries are dropped
+ */
+export class RingBufferSink implements ILogSink {
+  private readonly capacity: number;
+  private readonly entries: LogEntry[] = [];
+
+  /**
+   * RingBufferSink constructor
+   * @param capacity Number of entries kept
+   */
+  constructor(capacity: number = 500) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  /**
+   * Keep an entry, dropping the oldest when the buffer is full
+   * @param entry Log entry
+   */
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+  }
+
+  /**
+   * Get the kept entries
+   * @param minLevel Only entries at least this severe
+   * @returns Entries, oldest first
+   */
+  getEntries(minLevel: LogLevel = LogLevel.DEBUG): LogEntry[] {
+    return this.entries.filter(entry => isAtLeast(entry.level, minLevel));
+  }
+
+  /**
+   * Forget every kept entry
+   */
+  clear(): void {
+    this.entries.length = 0;
+  }
+
+  /**
+   * Format the kept entries as JSON lines for a support request
+   * @param minLevel Only entries at least this severe
+   * @returns One JSON object per line, oldest first
+   */
+  toText(minLevel: LogLevel = LogLevel.DEBUG): string {
+    return this.getEntries(minLevel).map(entry => JSON.stringify(entry)).join('\n');
+  }
+}
@@ -0,0 +1,137 @@
+import * as FileSystem from 'expo-file-system';
+import { ILogSink, LogEntry } from '../interfaces/ILogSink';
+import { LogLevel } from './ConsoleLogger';
+import { isAtLeast } from './StructuredLogger';
+
+/**
+ * RotatingFileSink Class
+ * Appends entries as JSON lines to a log file in the app's document directory.
+ * When the file would grow past maxBytes it becomes app.1.log, app.1.log becomes app.2.log
+ * and so on; the oldest file beyond maxFiles is deleted.
+ * Entries are buffered and written in batches; warnings and errors are written straight away.
+ */
+export class RotatingFileSink implements ILogSink {
+  private readonly directory: string;
+  private readonly filename: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly batchSize: number;
+  private pending: string[] = [];
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * RotatingFileSink constructor
+   * @param options Directory inside the document directory, file name, size of a file, number of files kept and batch size
+   */
+  constructor(options: {
+    directory?: string;
+    filename?: string;
+    maxBytes?: number;
+    maxFiles?: number;
+    batchSize?: number;
+  } = {}) {
+    this.directory = options.directory || 'logs/';
+    this.filename = options.filename || 'app.log';
+    this.maxBytes = options.maxBytes || 256 * 1024;
+    this.maxFiles = Math.max(1, options.maxFiles || 3);
+    this.batchSize = options.batchSize || 50;
+  }
+
+  /**
+   * Buffer an entry and write the buffer once it is full or the entry is a warning or error
+   * @param entry Log entry
+   */
+  write(entry: LogEntry): void {
+    this.pending.push(JSON.stringify(entry));
+    if (this.pending.length >= this.batchSize || isAtLeast(entry.level, LogLevel.WARN)) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Write the buffered entries; writes happen one after another
+   */
+  flush(): Promise<void> {
+    this.writing = this.writing.then(() => this.writePending());
+    return this.writing;
+  }
+
+  /**
+   * Read every log file
+   * @returns Log lines of all files, oldest first
+   */
+  async read(): Promise<string> {
+    await this.flush();
+    let text = '';
+    for (let index = this.maxFiles - 1; index >= 0; index--) {
+      const uri = this.fileUri(index);
+      if (uri && (await FileSystem.getInfoAsync(uri)).exists) {
+        text += await FileSystem.readAsStringAsync(uri);
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Delete every log file
+   */
+  async clear(): Promise<void> {
+    await this.flush();
+    for (let index = 0; index < this.maxFiles; index++) {
+      const uri = this.fileUri(index);
+      if (uri) await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
+
+  /**
+   * Append the buffered entries to the current file, rotating first if they do not fit
+   */
+  private async writePending(): Promise<void> {
+    const current = this.fileUri(0);
+    if (this.pending.length === 0) return;
+    const lines = `${this.pending.splice(0).join('\n')}\n`;
+    // No file system (tests, web): the entries are dropped
+    if (!current) return;
+
+    try {
+      await FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}${this.directory}`, { intermediates: true });
+      const info = await FileSystem.getInfoAsync(current);
+      let existing = '';
+      if (info.exists) {
+        if (info.size + lines.length > this.maxBytes) {
+          await this.rotate();
+        } else {
+          existing = await FileSystem.readAsStringAsync(current);
+        }
+      }
+      await FileSystem.writeAsStringAsync(current, existing + lines);
+    } catch (error) {
+      // A logger cannot log its own failures; the batch is lost
+      console.warn('Could not write log file', error);
+    }
+  }
+
+  /**
+   * Shift every file one place older and drop the oldest
+   */
+  private async rotate(): Promise<void> {
+    await FileSystem.deleteAsync(this.fileUri(this.maxFiles - 1)!, { idempotent: true });
+    for (let index = this.maxFiles - 2; index >= 0; index--) {
+      const from = this.fileUri(index)!;
+      if ((await FileSystem.getInfoAsync(from)).exists) {
+        await FileSystem.moveAsync({ from, to: this.fileUri(index + 1)! });
+      }
+    }
+  }
+
+  /**
+   * URI of a log file
+   * @param index 0 for the current file, n for the nth oldest rotated file
+   * @returns File URI, or null without a document directory
+   */
+  private fileUri(index: number): string | null {
+    if (!FileSystem.documentDirectory) return null;
+    const name = index === 0 ? this.filename : this.filename.replace(/(\.[^.]*)?$/, `.${index}$1`);
+    return `${FileSystem.documentDirectory}${this.directory}${name}`;
+  }
+}
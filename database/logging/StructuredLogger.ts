@@ -0,0 +1,171 @@
+import { ILogger } from '../interfaces/ILogger';
+import { ILogSink, LogEntry } from '../interfaces/ILogSink';
+import { LogLevel } from './ConsoleLogger';
+import { redactText, redactValue } from './LogRedactor';
+
+/**
+ * Order of the log levels, least severe first
+ */
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  [LogLevel.DEBUG]: 0,
+  [LogLevel.INFO]: 1,
+  [LogLevel.WARN]: 2,
+  [LogLevel.ERROR]: 3,
+};
+
+/**
+ * Whether an entry at one level passes a minimum level
+ * @param level Entry level
+ * @param minimum Minimum level
+ * @returns true if the entry is at least as severe as the minimum
+ */
+export const isAtLeast = (level: LogLevel, minimum: LogLevel): boolean => LEVEL_ORDER[level] >= LEVEL_ORDER[minimum];
+
+/**
+ * LogLevels Interface
+ * Minimum level per module. Modules are matched on dotted prefixes,
+ * so a level for 'Sync' also applies to 'Sync.Engine'.
+ */
+export interface LogLevels {
+  default: LogLevel;
+  modules?: Record<string, LogLevel>;
+}
+
+/**
+ * StructuredLogger Class
+ * ILogger that builds structured entries, redacts them and hands them to a set of sinks.
+ * Emails, ID numbers, account numbers and amounts are removed from messages, fields and
+ * errors before any sink sees them, so nothing sensitive is written or sent.
+ * Child loggers share the sinks and levels of their parent.
+ */
+export class StructuredLogger implements ILogger {
+  private readonly module: string;
+  private readonly sinks: ILogSink[];
+  private readonly levels: LogLevels;
+
+  /**
+   * StructuredLogger constructor
+   * @param options Module name, sinks and levels
+   */
+  constructor(options: { module?: string; sinks: ILogSink[]; levels?: LogLevels }) {
+    this.module = options.module || 'App';
+    this.sinks = options.sinks;
+    this.levels = options.levels || { default: LogLevel.INFO };
+  }
+
+  /**
+   * Create a logger for a module that writes to the same sinks
+   * @param module Module name
+   * @returns Child logger
+   */
+  child(module: string): StructuredLogger {
+    return new StructuredLogger({ module, sinks: this.sinks, levels: this.levels });
+  }
+
+  /**
+   * Change the minimum level of a module, or the default level, for this logger and every related logger
+   * @param level New minimum level
+   * @param module Module name; the default level when omitted
+   */
+  setLevel(level: LogLevel, module?: string): void {
+    if (module) {
+      this.levels.modules = { ...this.levels.modules, [module]: level };
+    } else {
+      this.levels.default = level;
+    }
+  }
+
+  /**
+   * Minimum level in effect for a module
+   * @param module Module name
+   * @returns The level of the module or its closest parent, else the default level
+   */
+  getLevel(module: string = this.module): LogLevel {
+    const modules = this.levels.modules || {};
+    for (let name = module; name; name = name.slice(0, Math.max(name.lastIndexOf('.'), 0))) {
+      if (modules[name]) return modules[name];
+    }
+    return this.levels.default;
+  }
+
+  /**
+   * Log a debug message
+   * @param message Log message
+   * @param context Optional context object
+   */
+  debug(message: string, context?: Record<string, any>): void {
+    this.log(LogLevel.DEBUG, message, context);
+  }
+
+  /**
+   * Log an info message
+   * @param message Log message
+   * @param context Optional context object
+   */
+  info(message: string, context?: Record<string, any>): void {
+    this.log(LogLevel.INFO, message, context);
+  }
+
+  /**
+   * Log a warning message
+   * @param message Log message
+   * @param context Optional context object
+   */
+  warn(message: string, context?: Record<string, any>): void {
+    this.log(LogLevel.WARN, message, context);
+  }
+
+  /**
+   * Log an error message
+   * @param message Log message
+   * @param error Error object
+   * @param context Optional context object
+   */
+  error(message: string, error?: Error, context?: Record<string, any>): void {
+    this.log(LogLevel.ERROR, message, context, error);
+  }
+
+  /**
+   * Write the entries the sinks have buffered
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.flush?.()));
+  }
+
+  /**
+   * Build, redact and dispatch an entry if the module logs at its level
+   * @param level Entry level
+   * @param message Log message
+   * @param context Optional context object
+   * @param error Optional error
+   */
+  private log(level: LogLevel, message: string, context?: Record<string, any>, error?: Error): void {
+    if (!isAtLeast(level, this.getLevel())) return;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      module: this.module,
+      message: redactText(message),
+    };
+    if (context && Object.keys(context).length > 0) {
+      entry.fields = redactValue(context);
+    }
+    if (error) {
+      entry.error = {
+        name: error.name,
+        message: redactText(error.message),
+        stack: error.stack ? redactText(error.stack) : undefined,
+      };
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch (sinkError) {
+        // Logging through this logger could fail the same way again
+        console.warn(`[${this.module}] Log sink failed`, sinkError);
+      }
+    }
+  }
+}
@@ -0,0 +1,425 @@
+import * as FileSystem from 'expo-file-system';
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IReceiptAttachmentRepository } from '../interfaces/Repositories';
+import { ILogger } from '../interfaces/ILogger';
+
+/**
+ * DatabaseMetrics Interface
+ * Size and contents of the database
+ */
+export interface DatabaseMetrics {
+  size: number; // bytes
+  freeBytes: number; // space a vacuum would give back
+  tables: { name: string; rowCount: number }[];
+  version: string; // SQLite version
+}
+
+/**
+ * HealthCheck Type
+ * The checks that make up a health report
+ */
+export type HealthCheck = 'integrity' | 'foreign_keys' | 'orphans' | 'missing_files' | 'invalid_records';
+
+/**
+ * HealthIssue Interface
+ * A problem found by a health check
+ */
+export interface HealthIssue {
+  check: HealthCheck;
+  table: string;
+  count: number;
+  message: string;
+  repairable: boolean; // removed by repair()
+  ids?: number[]; // row IDs, at most ISSUE_ID_LIMIT of them
+}
+
+/**
+ * HealthReport Interface
+ * Outcome of a health check, as shown on the profile screen and attached to support tickets
+ */
+export interface HealthReport {
+  generatedAt: string;
+  status: 'healthy' | 'warning' | 'corrupt';
+  schemaVersion: number;
+  metrics: DatabaseMetrics;
+  issues: HealthIssue[];
+}
+
+/**
+ * RepairResult Interface
+ * What a repair changed
+ */
+export interface RepairResult {
+  orphansRemoved: number;
+  filesDeleted: number;
+}
+
+/**
+ * Most row IDs listed per issue
+ */
+const ISSUE_ID_LIMIT = 20;
+
+/**
+ * Link tables and the records each of their rows needs; rows pointing at a missing record are orphans
+ */
+const ORPHAN_CHECKS: { table: string; parents: { column: string; table: string }[] }[] = [
+  { table: 'expense_tags', parents: [{ column: 'expenseId', table: 'expenses' }, { column: 'tagId', table: 'tags' }] },
+  { table: 'transaction_tags', parents: [{ column: 'transactionId', table: 'transactions' }, { column: 'tagId', table: 'tags' }] },
+  { table: 'expense_splits', parents: [{ column: 'expenseId', table: 'expenses' }] },
+  { table: 'transaction_splits', parents: [{ column: 'transactionId', table: 'transactions' }] },
+  { table: 'receipt_attachments', parents: [{ column: 'receiptId', table: 'receipts' }] },
+];
+
+/**
+ * Amount rules and date columns of the record tables
+ */
+const RECORD_CHECKS: { table: string; invalidAmount?: string; dates: string[] }[] = [
+  { table: 'expenses', invalidAmount: 'amount <= 0', dates: ['date'] },
+  { table: 'receipts', invalidAmount: 'amount < 0', dates: ['date'] },
+  { table: 'transactions', dates: ['date'] },
+  { table: 'financial_goals', invalidAmount: 'targetAmount <= 0 OR currentAmount < 0', dates: ['deadline'] },
+  { table: 'budgets', dates: ['startDate', 'endDate'] },
+];
+
+const AMOUNT_COLUMNS: Record<string, string[]> = {
+  financial_goals: ['targetAmount', 'currentAmount'],
+};
+
+/**
+ * DatabaseMaintenanceService Class
+ * Checks the database for corruption, broken links and invalid records, repairs what
+ * can be repaired safely, and reclaims space. Invalid records are reported, never changed.
+ */
+export class DatabaseMaintenanceService {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly attachments?: IReceiptAttachmentRepository;
+
+  /**
+   * DatabaseMaintenanceService constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   * @param attachments Optional attachment repository; when set, repair also deletes the files of removed attachments
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger, attachments?: IReceiptAttachmentRepository) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+    this.attachments = attachments;
+  }
+
+  /**
+   * Get database metrics for monitoring
+   * @returns Size, free space, row count per table and SQLite version
+   */
+  async getMetrics(): Promise<DatabaseMetrics> {
+    const sizeResult = await this.dbManager.execute<{ size: number; free: number }[]>(
+      'SELECT page_count * page_size AS size, freelist_count * page_size AS free FROM pragma_page_count(), pragma_page_size(), pragma_freelist_count()'
+    );
+    const versionResult = await this.dbManager.execute<{ version: string }[]>('SELECT sqlite_version() AS version');
+
+    const tables: DatabaseMetrics['tables'] = [];
+    for (const name of await this.listTables()) {
+      const countResult = await this.dbManager.execute<{ count: number }[]>(`SELECT COUNT(*) AS count FROM ${name}`);
+      tables.push({ name, rowCount: countResult[0]?.count || 0 });
+    }
+
+    return {
+      size: sizeResult[0]?.size || 0,
+      freeBytes: sizeResult[0]?.free || 0,
+      tables,
+      version: versionResult[0]?.version || 'unknown',
+    };
+  }
+
+  /**
+   * Run every health check
+   * @returns Health report
+   */
+  async checkHealth(): Promise<HealthReport> {
+    this.logger.info('Running database health check');
+    const tables = new Set(await this.listTables());
+
+    const issues = [
+      ...(await this.checkIntegrity()),
+      ...(await this.checkForeignKeys()),
+      ...(await this.findOrphans(tables)),
+      ...(await this.findMissingFiles(tables)),
+      ...(await this.findInvalidRecords(tables)),
+    ];
+
+    const report: HealthReport = {
+      generatedAt: new Date().toISOString(),
+      status: issues.some(issue => issue.check === 'integrity') ? 'corrupt' : issues.length > 0 ? 'warning' : 'healthy',
+      schemaVersion: await this.getSchemaVersion(tables),
+      metrics: await this.getMetrics(),
+      issues,
+    };
+    this.logger.info(`Database health: ${report.status}, ${issues.length} issues`);
+    return report;
+  }
+
+  /**
+   * Remove orphaned link rows and rebuild the indexes.
+   * Files of removed attachments are deleted when an attachment repository is set.
+   * @returns What was changed
+   */
+  async repair(): Promise<RepairResult> {
+    this.logger.info('Repairing database');
+    const tables = new Set(await this.listTables());
+
+    const checks = ORPHAN_CHECKS.filter(check => tables.has(check.table));
+    const results = await this.dbManager.transaction<{ changes: number }>(
+      checks.map(check => ({ query: `DELETE FROM ${check.table} WHERE ${this.orphanCondition(check)}` }))
+    );
+    const orphansRemoved = results.reduce((total, result) => total + (result?.changes || 0), 0);
+
+    await this.rebuildIndexes();
+    const filesDeleted = this.attachments ? await this.attachments.cleanupOrphanedFiles() : 0;
+
+    this.logger.info(`Repair removed ${orphansRemoved} orphaned rows and ${filesDeleted} files`);
+    return { orphansRemoved, filesDeleted };
+  }
+
+  /**
+   * Rebuild every index from its table
+   */
+  async rebuildIndexes(): Promise<void> {
+    this.logger.info('Rebuilding indexes');
+    await this.dbManager.execute('REINDEX');
+  }
+
+  /**
+   * Rewrite the database file without its free pages.
+   * Needs as much free disk space as the database takes, and cannot run inside a transaction.
+   * @returns Bytes reclaimed
+   */
+  async vacuum(): Promise<number> {
+    const before = (await this.getMetrics()).size;
+    this.logger.info('Vacuuming database');
+    await this.dbManager.execute('VACUUM');
+    const reclaimed = Math.max(0, before - (await this.getMetrics()).size);
+
+    this.logger.info(`Vacuum reclaimed ${reclaimed} bytes`);
+    return reclaimed;
+  }
+
+  /**
+   * Run SQLite's page-level integrity check
+   * @returns One issue when the database file is damaged
+   */
+  private async checkIntegrity(): Promise<HealthIssue[]> {
+    const rows = await this.dbManager.execute<{ integrity_check: string }[]>('SELECT * FROM pragma_integrity_check');
+    const problems = rows.map(row => row.integrity_check).filter(message => message !== 'ok');
+    if (problems.length === 0) return [];
+
+    return [{
+      check: 'integrity',
+      table: '*',
+      count: problems.length,
+      message: problems.slice(0, 5).join('; '),
+      repairable: false,
+    }];
+  }
+
+  /**
+   * Find rows whose foreign keys point at missing records
+   * @returns One issue per table with violations
+   */
+  private async checkForeignKeys(): Promise<HealthIssue[]> {
+    const rows = await this.dbManager.execute<{ table: string; rowid: number; parent: string }[]>(
+      'SELECT * FROM pragma_foreign_key_check'
+    );
+
+    const byTable = new Map<string, { ids: number[]; parents: Set<string> }>();
+    for (const row of rows) {
+      const entry = byTable.get(row.table) ?? { ids: [], parents: new Set<string>() };
+      entry.ids.push(row.rowid);
+      entry.parents.add(row.parent);
+      byTable.set(row.table, entry);
+    }
+
+    return [...byTable].map(([table, { ids, parents }]) => ({
+      check: 'foreign_keys' as const,
+      table,
+      count: ids.length,
+      message: `${ids.length} rows refer to missing ${[...parents].join(' or ')} records`,
+      repairable: ORPHAN_CHECKS.some(check => check.table === table),
+      ids: ids.slice(0, ISSUE_ID_LIMIT),
+    }));
+  }
+
+  /**
+   * Find link rows whose records are gone; these can exist when foreign keys were off
+   * @param tables Tables in the database
+   * @returns One issue per link table with orphans
+   */
+  private async findOrphans(tables: Set<string>): Promise<HealthIssue[]> {
+    const issues: HealthIssue[] = [];
+
+    for (const check of ORPHAN_CHECKS) {
+      if (!tables.has(check.table)) continue;
+      const rows = await this.dbManager.execute<{ id: number }[]>(
+        `SELECT rowid AS id FROM ${check.table} WHERE ${this.orphanCondition(check)}`
+      );
+      if (rows.length === 0) continue;
+
+      issues.push({
+        check: 'orphans',
+        table: check.table,
+        count: rows.length,
+        message: `${rows.length} rows belong to ${check.parents.map(parent => parent.table).join(' or ')} that no longer exist`,
+        repairable: true,
+        ids: rows.slice(0, ISSUE_ID_LIMIT).map(row => row.id),
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Find attachments whose file is no longer in storage
+   * @param tables Tables in the database
+   * @returns One issue when files are missing
+   */
+  private async findMissingFiles(tables: Set<string>): Promise<HealthIssue[]> {
+    if (!tables.has('receipt_attachments')) return [];
+
+    const rows = await this.dbManager.execute<{ id: number; uri: string }[]>('SELECT id, uri FROM receipt_attachments');
+    const missing: number[] = [];
+    for (const row of rows) {
+      try {
+        if (!(await FileSystem.getInfoAsync(row.uri)).exists) missing.push(row.id);
+      } catch (error) {
+        missing.push(row.id);
+      }
+    }
+    if (missing.length === 0) return [];
+
+    return [{
+      check: 'missing_files',
+      table: 'receipt_attachments',
+      count: missing.length,
+      message: `${missing.length} attachments have no file in storage`,
+      repairable: false,
+      ids: missing.slice(0, ISSUE_ID_LIMIT),
+    }];
+  }
+
+  /**
+   * Find records with amounts that are not numbers or break the table's rules, and dates that are not real dates
+   * @param tables Tables in the database
+   * @returns One issue per table and kind of problem
+   */
+  private async findInvalidRecords(tables: Set<string>): Promise<HealthIssue[]> {
+    const issues: HealthIssue[] = [];
+
+    for (const check of RECORD_CHECKS) {
+      if (!tables.has(check.table)) continue;
+
+      const amountColumns = AMOUNT_COLUMNS[check.table] ?? ['amount'];
+      const amountCondition = [
+        ...amountColumns.map(column => `typeof(${column}) NOT IN ('integer', 'real')`),
+        ...(check.invalidAmount ? [`(${check.invalidAmount})`] : []),
+      ].join(' OR ');
+      const amounts = await this.dbManager.execute<{ id: number }[]>(
+        `SELECT id FROM ${check.table} WHERE ${amountCondition}`
+      );
+      if (amounts.length > 0) {
+        issues.push({
+          check: 'invalid_records',
+          table: check.table,
+          count: amounts.length,
+          message: `${amounts.length} records have an invalid amount`,
+          repairable: false,
+          ids: amounts.slice(0, ISSUE_ID_LIMIT).map(row => row.id),
+        });
+      }
+
+      // Date arithmetic rolls impossible days like 02-30 over into the next month, so only a real date comes back unchanged
+      const dateCondition = check.dates
+        .map(column => `(${column} IS NOT NULL AND date(substr(${column}, 1, 10), '+0 days') IS NOT substr(${column}, 1, 10))`)
+        .join(' OR ');
+      const dates = await this.dbManager.execute<{ id: number }[]>(
+        `SELECT id FROM ${check.table} WHERE ${dateCondition}`
+      );
+      if (dates.length > 0) {
+        issues.push({
+          check: 'invalid_records',
+          table: check.table,
+          count: dates.length,
+          message: `${dates.length} records have an invalid date`,
+          repairable: false,
+          ids: dates.slice(0, ISSUE_ID_LIMIT).map(row => row.id),
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * SQL condition matching the rows of a link table whose records are missing
+   * @param check Link table and its parents
+   * @returns WHERE clause
+   */
+  private orphanCondition(check: typeof ORPHAN_CHECKS[number]): string {
+    return check.parents
+      .map(parent => `NOT EXISTS (SELECT 1 FROM ${parent.table} p WHERE p.id = ${check.table}.${parent.column})`)
+      .join(' OR ');
+  }
+
+  /**
+   * Get the last migration applied to the database
+   * @param tables Tables in the database
+   * @returns Schema version, 0 if no migration has run
+   */
+  private async getSchemaVersion(tables: Set<string>): Promise<number> {
+    if (!tables.has('migrations')) return 0;
+    const result = await this.dbManager.execute<{ version: number }[]>('SELECT COALESCE(MAX(version), 0) AS version FROM migrations');
+    return result[0]?.version || 0;
+  }
+
+  /**
+   * Get the names of all tables in the database
+   * @returns Table names
+   */
+  private async listTables(): Promise<string[]> {
+    const rows = await this.dbManager.execute<{ name: string }[]>("SELECT name FROM sqlite_master WHERE type = 'table'");
+    return rows.map(row => row.name);
+  }
+}
+
+/**
+ * Format a byte count for people
+ * @param bytes Byte count
+ * @returns e.g. "1.2 MB"
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Plain-text health report to attach to a support ticket.
+ * It holds counts and row IDs only, no amounts, names or other personal data.
+ * @param report Health report
+ * @returns Report text
+ */
+export const formatHealthReport = (report: HealthReport): string => {
+  const lines = [
+    'Blue Bot database health report',
+    `Generated: ${report.generatedAt}`,
+    `Status: ${report.status.toUpperCase()}`,
+    `Schema version: ${report.schemaVersion}, SQLite ${report.metrics.version}`,
+    `Size: ${formatBytes(report.metrics.size)} (${formatBytes(report.metrics.freeBytes)} free)`,
+    '',
+    'Tables:',
+    ...report.metrics.tables.map(table => `  ${table.name}: ${table.rowCount} rows`),
+    '',
+    report.issues.length > 0 ? 'Issues:' : 'No issues found',
+    ...report.issues.map(issue => {
+      const ids = issue.ids && issue.ids.length > 0 ? ` [ids ${issue.ids.join(', ')}]` : '';
+      return `  - ${issue.check} in ${issue.table}: ${issue.message}${issue.repairable ? ' (repairable)' : ''}${ids}`;
+    }),
+  ];
+  return lines.join('\n');
+};
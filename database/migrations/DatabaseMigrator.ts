@@ -1,10 +1,11 @@
 import { ILogger } from '../interfaces/ILogger';
 import { IDatabaseManager } from '../interfaces/IDatabaseManager';
 import { MigrationError } from '../errors/DatabaseErrors';
+import { checksumOf } from '../../utils/checksum';
 
 /**
  * Migration Interface
- * Defines a single database migration
+ * Defines a single database migration; up and down are scripts without parameters
  */
 interface Migration {
   version: number;
@@ -13,6 +14,73 @@ interface Migration {
   down: string;
 }
 
+/**
+ * SchemaObject Interface
+ * One table, index, trigger or view of the database schema
+ */
+export interface SchemaObject {
+  type: string;
+  name: string;
+  tableName: string;
+  sql: string | null;
+  shape: string; // columns (tables, views), indexed columns (indexes) or SQL (triggers)
+}
+
+/**
+ * MigrationStatusEntry Interface
+ * State of a single migration
+ */
+export interface MigrationStatusEntry {
+  version: number;
+  name: string;
+  appliedAt?: string;
+  checksum?: string; // checksum of the migration script
+  appliedChecksum?: string | null; // checksum stored when the migration was applied
+}
+
+/**
+ * MigrationStatus Interface
+ * Applied, pending and drifted migrations of a database
+ */
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: MigrationStatusEntry[];
+  pending: MigrationStatusEntry[];
+  drifted: MigrationStatusEntry[]; // applied, but the script was edited afterwards
+  unknown: MigrationStatusEntry[]; // applied, but no longer among the scripts
+}
+
+/**
+ * MigrationDryRunReport Interface
+ * Outcome of running pending migrations in a rolled-back transaction
+ */
+export interface MigrationDryRunReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  failed: { version: number; error: string } | null;
+  schema: SchemaObject[];
+}
+
+/**
+ * Snapshot of the schema with a structural shape per object, so schemas can be
+ * compared regardless of how their SQL text was written
+ */
+const SCHEMA_QUERY = `
+  SELECT m.type, m.name, m.tbl_name AS tableName, m.sql,
+    CASE
+      WHEN m.type IN ('table', 'view') THEN (
+        SELECT group_concat(p.name || ' ' || p.type || ' ' || p."notnull" || ' ' || COALESCE(p.dflt_value, '') || ' ' || p.pk, ', ')
+        FROM pragma_table_info(m.name) p)
+      WHEN m.type = 'index' THEN (SELECT group_concat(i.name, ', ') FROM pragma_index_info(m.name) i)
+      ELSE m.sql
+    END AS shape
+  FROM sqlite_master m
+  WHERE m.name NOT LIKE 'sqlite_%' AND m.name != 'migrations'
+  ORDER BY m.type, m.name;
+`;
+
 /**
  * DatabaseMigrator Class
  * Handles database schema migrations
@@ -35,7 +103,9 @@ export class DatabaseMigrator {
   }
   
   /**
-   * Initialize the migrations table
+   * Initialize the migrations table.
+   * Databases created before checksums existed get the new columns, and their applied
+   * migrations are trusted and stamped with the current checksums.
    */
   private async initMigrationsTable(): Promise<void> {
     this.logger.info('Initializing migrations table');
@@ -45,9 +115,30 @@ export class DatabaseMigrator {
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         version INTEGER NOT NULL UNIQUE,
         name TEXT NOT NULL,
-        applied_at TEXT NOT NULL
+        applied_at TEXT NOT NULL,
+        checksum TEXT,
+        schema_before TEXT
       );
     `);
+
+    const columns = await this.dbManager.execute<{ name: string }[]>(
+      'SELECT name FROM pragma_table_info(?);',
+      ['migrations']
+    );
+    const names = columns.map(c => c.name);
+    if (!names.includes('checksum')) {
+      await this.dbManager.execute('ALTER TABLE migrations ADD COLUMN checksum TEXT;');
+    }
+    if (!names.includes('schema_before')) {
+      await this.dbManager.execute('ALTER TABLE migrations ADD COLUMN schema_before TEXT;');
+    }
+
+    for (const migration of this.migrations) {
+      await this.dbManager.execute(
+        'UPDATE migrations SET checksum = ? WHERE version = ? AND checksum IS NULL;',
+        [this.checksum(migration), migration.version]
+      );
+    }
   }
   
   /**
@@ -64,10 +155,18 @@ export class DatabaseMigrator {
   /**
    * Apply all pending migrations
    * @returns Number of migrations applied
+   * @throws MigrationError if an applied migration was edited or a migration fails
    */
   async migrateUp(): Promise<number> {
     await this.initMigrationsTable();
     
+    const { drifted } = await this.status();
+    if (drifted.length > 0) {
+      const versions = drifted.map(m => m.version).join(', ');
+      this.logger.error(`Applied migrations were edited: ${versions}`);
+      throw new MigrationError(`Applied migrations were edited after they ran: ${versions}`, drifted[0].version);
+    }
+    
     const currentVersion = await this.getCurrentVersion();
     this.logger.info(`Current database version: ${currentVersion}`);
     
@@ -86,16 +185,17 @@ export class DatabaseMigrator {
       try {
         this.logger.info(`Applying migration ${migration.version}: ${migration.name}`);
         
+        const schemaBefore = await this.getSchemaChecksum();
         await this.dbManager.transaction([
           { 
             query: migration.up 
           },
           { 
             query: `
-              INSERT INTO migrations (version, name, applied_at)
-              VALUES (?, ?, ?);
+              INSERT INTO migrations (version, name, applied_at, checksum, schema_before)
+              VALUES (?, ?, ?, ?, ?);
             `,
-            params: [migration.version, migration.name, new Date().toISOString()]
+            params: [migration.version, migration.name, new Date().toISOString(), this.checksum(migration), schemaBefore]
           }
         ]);
         
@@ -114,15 +214,18 @@ export class DatabaseMigrator {
   }
   
   /**
-   * Rollback the last applied migration
+   * Rollback the last applied migration.
+   * Each rollback is only kept if the schema matches the one recorded before the
+   * migration was applied.
    * @param steps Number of migrations to rollback (default: 1)
    * @returns Number of migrations rolled back
+   * @throws MigrationError if a down script fails or leaves a different schema behind
    */
   async migrateDown(steps: number = 1): Promise<number> {
     await this.initMigrationsTable();
     
-    const appliedMigrations = await this.dbManager.execute<{ version: number, name: string }[]>(
-      'SELECT version, name FROM migrations ORDER BY version DESC LIMIT ?;',
+    const appliedMigrations = await this.dbManager.execute<{ version: number, name: string, schema_before: string | null }[]>(
+      'SELECT version, name, schema_before FROM migrations ORDER BY version DESC LIMIT ?;',
       [steps]
     );
     
@@ -146,15 +249,18 @@ export class DatabaseMigrator {
       try {
         this.logger.info(`Rolling back migration ${migration.version}: ${migration.name}`);
         
-        await this.dbManager.transaction([
-          { 
-            query: migration.down 
-          },
-          { 
-            query: 'DELETE FROM migrations WHERE version = ?;',
-            params: [migration.version]
-          }
-        ]);
+        // A savepoint lets the resulting schema be checked before the rollback is kept
+        await this.dbManager.execute('SAVEPOINT migrate_down;');
+        try {
+          await this.dbManager.execute(migration.down);
+          await this.verifyRestoredSchema(migration, applied.schema_before);
+          await this.dbManager.execute('DELETE FROM migrations WHERE version = ?;', [migration.version]);
+          await this.dbManager.execute('RELEASE migrate_down;');
+        } catch (error) {
+          await this.dbManager.execute('ROLLBACK TO migrate_down;');
+          await this.dbManager.execute('RELEASE migrate_down;');
+          throw error;
+        }
         
         rolledBackCount++;
         this.logger.info(`Successfully rolled back migration ${migration.version}`);
@@ -170,4 +276,141 @@ export class DatabaseMigrator {
     this.logger.info(`Database successfully rolled back to version ${newVersion}`);
     return rolledBackCount;
   }
+  /**
+   * Report applied, pending and drifted migrations
+   * @returns Migration status
+   */
+  async status(): Promise<MigrationStatus> {
+    await this.initMigrationsTable();
+    return this.readStatus();
+  }
+
+  /**
+   * Run all pending migrations in a transaction that is rolled back afterwards
+   * @returns The migrations that would be applied and the resulting schema
+   */
+  async dryRun(): Promise<MigrationDryRunReport> {
+    await this.initMigrationsTable();
+
+    const fromVersion = await this.getCurrentVersion();
+    const pendingMigrations = this.migrations.filter(m => m.version > fromVersion);
+    const report: MigrationDryRunReport = { fromVersion, toVersion: fromVersion, applied: [], failed: null, schema: [] };
+
+    this.logger.info(`Dry run of ${pendingMigrations.length} pending migrations from version ${fromVersion}`);
+
+    await this.dbManager.execute('SAVEPOINT migrate_dry_run;');
+    try {
+      for (const migration of pendingMigrations) {
+        try {
+          await this.dbManager.execute(migration.up);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          report.failed = { version: migration.version, error: errorMessage };
+          this.logger.warn(`Dry run: migration ${migration.version} failed: ${errorMessage}`);
+          break;
+        }
+        report.applied.push(migration.version);
+        report.toVersion = migration.version;
+      }
+      report.schema = await this.getSchema();
+    } finally {
+      await this.dbManager.execute('ROLLBACK TO migrate_dry_run;');
+      await this.dbManager.execute('RELEASE migrate_dry_run;');
+    }
+
+    this.logger.info(`Dry run finished at version ${report.toVersion}`, { applied: report.applied, failed: report.failed });
+    return report;
+  }
+
+  /**
+   * Compare the migrations table with the migration scripts
+   * @returns Migration status
+   */
+  private async readStatus(): Promise<MigrationStatus> {
+    const rows = await this.dbManager.execute<{ version: number; name: string; applied_at: string; checksum: string | null }[]>(
+      'SELECT version, name, applied_at, checksum FROM migrations ORDER BY version;'
+    );
+    const appliedVersions = new Set(rows.map(row => row.version));
+
+    const status: MigrationStatus = {
+      currentVersion: rows.length > 0 ? rows[rows.length - 1].version : 0,
+      latestVersion: this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0,
+      applied: [],
+      pending: [],
+      drifted: [],
+      unknown: [],
+    };
+
+    for (const row of rows) {
+      const migration = this.migrations.find(m => m.version === row.version);
+      const entry: MigrationStatusEntry = {
+        version: row.version,
+        name: row.name,
+        appliedAt: row.applied_at,
+        appliedChecksum: row.checksum,
+      };
+
+      if (!migration) {
+        status.unknown.push(entry);
+        continue;
+      }
+      entry.checksum = this.checksum(migration);
+      status.applied.push(entry);
+      if (row.checksum !== entry.checksum) {
+        status.drifted.push(entry);
+      }
+    }
+
+    for (const migration of this.migrations) {
+      if (!appliedVersions.has(migration.version)) {
+        status.pending.push({ version: migration.version, name: migration.name, checksum: this.checksum(migration) });
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Check that a down script left the schema as it was before the migration was applied
+   * @param migration Migration being rolled back
+   * @param expected Schema checksum recorded before the migration was applied
+   * @throws MigrationError if the schema differs
+   */
+  private async verifyRestoredSchema(migration: Migration, expected: string | null): Promise<void> {
+    if (!expected) {
+      this.logger.warn(`No schema snapshot for migration ${migration.version}, skipping down verification`);
+      return;
+    }
+
+    if ((await this.getSchemaChecksum()) !== expected) {
+      throw new MigrationError(`Down script of migration ${migration.version} did not restore the previous schema`, migration.version);
+    }
+  }
+
+  /**
+   * Read the current schema, excluding the migrations table
+   * @returns Schema objects ordered by type and name
+   */
+  private async getSchema(): Promise<SchemaObject[]> {
+    return this.dbManager.execute<SchemaObject[]>(SCHEMA_QUERY);
+  }
+
+  /**
+   * Checksum of the schema structure; the SQL text is left out because SQLite
+   * rewrites it on ALTER TABLE and RENAME
+   * @returns Schema checksum
+   */
+  private async getSchemaChecksum(): Promise<string> {
+    const schema = await this.getSchema();
+    return checksumOf(schema.map(o => [o.type, o.name, o.tableName, o.shape]));
+  }
+
+  /**
+   * Checksum of a migration script
+   * @param migration Migration
+   * @returns Checksum of its up and down SQL
+   */
+  private checksum(migration: Migration): string {
+    return checksumOf([migration.up, migration.down]);
+  }
 }
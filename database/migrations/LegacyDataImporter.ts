@@ -0,0 +1,388 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ILogger } from '../interfaces/ILogger';
+import { LegacyImportError } from '../errors/DatabaseErrors';
+
+/**
+ * Name of the database the old SQLiteManager (database/sqlite.ts) and EnhancedDatabaseContext kept their data in
+ */
+export const LEGACY_DATABASE_NAME = 'bluebotFinance.db';
+
+/**
+ * Source name recorded for the tables the old DatabaseContext created inside bluebot.db
+ */
+export const LEGACY_CONTEXT_SOURCE = 'bluebot.db:DatabaseContext';
+
+/**
+ * Prefix of the tables the old DatabaseContext created, once moved out of the migrations' way
+ */
+export const STAGED_TABLE_PREFIX = 'legacy_context_';
+
+/**
+ * Course that the modules completed in the old education_progress table are recorded under
+ */
+export const LEGACY_MODULES_COURSE_ID = 'modules';
+
+/**
+ * LegacyTableResult Interface
+ * Rows moved from one legacy table into one table of the migrated schema
+ */
+export interface LegacyTableResult {
+  source: string;
+  target: string;
+  rows: number; // rows read from the source
+  imported: number;
+  skipped: number; // already present in the target
+}
+
+/**
+ * LegacyImportReport Interface
+ * Outcome of moving a legacy database into the migrated schema
+ */
+export interface LegacyImportReport {
+  source: string;
+  importedAt: string;
+  tables: LegacyTableResult[];
+}
+
+/**
+ * PlannedCopy Interface
+ * Rows of a legacy table, converted to the columns of their target table
+ */
+interface PlannedCopy {
+  source: string;
+  target: string;
+  rows: Record<string, any>[];
+}
+
+/**
+ * Tables of the old schemas whose rows carry their own sync state; imported rows are queued for upload again
+ */
+const ENTITY_TABLES = ['expenses', 'receipts', 'financial_goals', 'transactions'];
+
+/**
+ * Tables holding at most one row per key; rows whose key is already present are skipped
+ */
+const KEYED_TABLES: Record<string, string[]> = {
+  educational_progress: ['userId', 'courseId', 'lessonId'],
+  user_achievements: ['userId', 'achievementId'],
+  crypto_wallets: ['userId'],
+};
+
+/**
+ * Tables the old DatabaseContext created in bluebot.db without user or sync columns
+ */
+const CONTEXT_TABLES = ['expenses', 'receipts'];
+
+/**
+ * LegacyDataImporter Class
+ * Moves data kept by the old database code into the schema built by the migrations, once per source.
+ *
+ * Two legacy layouts exist on devices:
+ * - the old DatabaseContext created expenses and receipts tables in bluebot.db itself, without userId or
+ *   sync columns. Those tables are renamed before the migrations run (which would otherwise find them and
+ *   skip creating the real ones), then copied over and dropped.
+ * - the old SQLiteManager and EnhancedDatabaseContext used a separate bluebotFinance.db with their own
+ *   tables, including an education_progress table that kept completed modules as JSON. That file is left
+ *   in place after the copy.
+ *
+ * Copied rows get new IDs, the default user when they had none, and are marked pending without a remote ID
+ * so the sync engine uploads them. Each source is copied in one savepoint; the row counts are checked
+ * before it is released and the source is recorded in legacy_imports.
+ */
+export class LegacyDataImporter {
+  private readonly target: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly defaultUserId: string;
+
+  /**
+   * LegacyDataImporter constructor
+   * @param target Database with the migrated schema
+   * @param logger Logger instance
+   * @param defaultUserId Owner of legacy rows that have no userId
+   */
+  constructor(target: IDatabaseManager, logger: ILogger, defaultUserId: string = 'demo') {
+    this.target = target;
+    this.logger = logger;
+    this.defaultUserId = defaultUserId;
+  }
+
+  /**
+   * Rename the tables the old DatabaseContext created so the migrations can create the real ones.
+   * Must run before the migrations; their indexes are dropped so the migrations can reuse the names.
+   * @returns Names of the renamed tables
+   */
+  async stageUnmigratedTables(): Promise<string[]> {
+    const staged: string[] = [];
+
+    for (const table of CONTEXT_TABLES) {
+      const columns = await this.columnsOf(this.target, table);
+      if (columns.length === 0 || columns.includes('userId')) continue;
+
+      const indexes = await this.target.execute<{ name: string }[]>(
+        "SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL",
+        [table]
+      );
+      for (const index of indexes) {
+        await this.target.execute(`DROP INDEX IF EXISTS "${index.name}"`);
+      }
+      await this.target.execute(`ALTER TABLE ${table} RENAME TO ${STAGED_TABLE_PREFIX}${table}`);
+      staged.push(`${STAGED_TABLE_PREFIX}${table}`);
+    }
+
+    if (staged.length > 0) {
+      this.logger.info(`Staged ${staged.length} legacy tables for import`, { tables: staged });
+    }
+    return staged;
+  }
+
+  /**
+   * Copy the staged DatabaseContext tables into the migrated schema and drop them
+   * @returns Import report, or null if nothing was staged or it was imported before
+   * @throws LegacyImportError if the rows cannot be copied or the copy is incomplete
+   */
+  async importStagedTables(): Promise<LegacyImportReport | null> {
+    const staged: string[] = [];
+    for (const table of CONTEXT_TABLES) {
+      if ((await this.columnsOf(this.target, `${STAGED_TABLE_PREFIX}${table}`)).length > 0) staged.push(table);
+    }
+    if (staged.length === 0) return null;
+
+    let report: LegacyImportReport | null = null;
+    if (!(await this.hasImported(LEGACY_CONTEXT_SOURCE))) {
+      const copies: PlannedCopy[] = [];
+      for (const table of staged) {
+        copies.push(await this.planCopy(this.target, `${STAGED_TABLE_PREFIX}${table}`, table));
+      }
+      report = await this.copy(LEGACY_CONTEXT_SOURCE, copies);
+    }
+
+    // Also reached when a previous run was interrupted after the copy
+    for (const table of staged) {
+      await this.target.execute(`DROP TABLE IF EXISTS ${STAGED_TABLE_PREFIX}${table}`);
+    }
+    return report;
+  }
+
+  /**
+   * Copy the tables of a legacy database into the migrated schema
+   * @param source Open legacy database
+   * @param sourceName Name the import is recorded under
+   * @returns Import report, or null if the source was imported before
+   * @throws LegacyImportError if the rows cannot be copied or the copy is incomplete
+   */
+  async importDatabase(source: IDatabaseManager, sourceName: string = LEGACY_DATABASE_NAME): Promise<LegacyImportReport | null> {
+    if (await this.hasImported(sourceName)) return null;
+
+    const copies: PlannedCopy[] = [];
+    for (const table of [...ENTITY_TABLES, ...Object.keys(KEYED_TABLES)]) {
+      if ((await this.columnsOf(source, table)).length > 0) {
+        copies.push(await this.planCopy(source, table, table));
+      }
+    }
+    if ((await this.columnsOf(source, 'education_progress')).length > 0) {
+      copies.push(...(await this.planEducationCopy(source)));
+    }
+
+    return this.copy(sourceName, copies);
+  }
+
+  /**
+   * Check whether a source was imported
+   * @param sourceName Name the import is recorded under
+   * @returns true if the source was imported
+   */
+  async hasImported(sourceName: string): Promise<boolean> {
+    const rows = await this.target.execute<{ source: string }[]>(
+      'SELECT source FROM legacy_imports WHERE source = ?',
+      [sourceName]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Read a legacy table and convert its rows to the columns of the target table
+   * @param source Database holding the legacy table
+   * @param sourceTable Legacy table
+   * @param targetTable Table of the migrated schema
+   * @returns Planned copy
+   */
+  private async planCopy(source: IDatabaseManager, sourceTable: string, targetTable: string): Promise<PlannedCopy> {
+    const targetColumns = await this.columnsOf(this.target, targetTable);
+    const rows = await source.execute<Record<string, any>[]>(`SELECT * FROM ${sourceTable} ORDER BY id`);
+    const now = new Date().toISOString();
+
+    return {
+      source: sourceTable,
+      target: targetTable,
+      rows: rows.map(row => {
+        const converted: Record<string, any> = {};
+        for (const column of targetColumns) {
+          if (column !== 'id' && row[column] !== undefined) converted[column] = row[column];
+        }
+        if (targetColumns.includes('userId') && !converted.userId) converted.userId = this.defaultUserId;
+        if (targetColumns.includes('createdAt') && !converted.createdAt) converted.createdAt = now;
+        if (targetColumns.includes('updatedAt') && !converted.updatedAt) converted.updatedAt = converted.createdAt;
+        if (ENTITY_TABLES.includes(targetTable)) {
+          // Remote IDs of the old Firebase backend mean nothing to the current remote
+          converted.firebaseId = null;
+          converted.syncStatus = 'pending';
+        }
+        return converted;
+      }),
+    };
+  }
+
+  /**
+   * Convert the old per-user education_progress rows into lesson progress and achievement rows.
+   * The user's XP is spread over the completed modules so the total stays the same.
+   * @param source Database holding the education_progress table
+   * @returns Planned copies for educational_progress and user_achievements
+   */
+  private async planEducationCopy(source: IDatabaseManager): Promise<PlannedCopy[]> {
+    const rows = await source.execute<any[]>('SELECT * FROM education_progress');
+    const lessons: PlannedCopy = { source: 'education_progress', target: 'educational_progress', rows: [] };
+    const achievements: PlannedCopy = { source: 'education_progress', target: 'user_achievements', rows: [] };
+
+    for (const row of rows) {
+      const userId = row.userId || this.defaultUserId;
+      const updatedAt = row.updatedAt || new Date().toISOString();
+      const modules = this.parseList(row.completedModules, userId);
+      const totalXP = Math.max(0, Math.round(row.totalXP || 0));
+      const share = modules.length > 0 ? Math.floor(totalXP / modules.length) : 0;
+
+      modules.forEach((moduleId, index) => lessons.rows.push({
+        userId,
+        courseId: LEGACY_MODULES_COURSE_ID,
+        lessonId: moduleId,
+        completed: 1,
+        score: index === 0 ? totalXP - share * (modules.length - 1) : share,
+        completedAt: row.lastCompletedTimestamp || updatedAt,
+        createdAt: updatedAt,
+      }));
+      for (const achievementId of this.parseList(row.achievements, userId)) {
+        achievements.rows.push({ userId, achievementId, unlockedAt: updatedAt });
+      }
+    }
+
+    return [lessons, achievements];
+  }
+
+  /**
+   * Insert planned rows in a savepoint, check the counts and record the source
+   * @param sourceName Name the import is recorded under
+   * @param copies Planned copies
+   * @returns Import report
+   * @throws LegacyImportError if a row cannot be inserted or the counts do not match
+   */
+  private async copy(sourceName: string, copies: PlannedCopy[]): Promise<LegacyImportReport> {
+    const importedAt = new Date().toISOString();
+    const results: LegacyTableResult[] = [];
+    const expected = new Map<string, { maxId: number; count: number }>();
+
+    await this.target.execute('SAVEPOINT legacy_import;');
+    try {
+      for (const copy of copies) {
+        if (!expected.has(copy.target)) {
+          const [{ maxId }] = await this.target.execute<{ maxId: number }[]>(
+            `SELECT COALESCE(MAX(id), 0) AS maxId FROM ${copy.target}`
+          );
+          expected.set(copy.target, { maxId, count: 0 });
+        }
+
+        const result: LegacyTableResult = { source: copy.source, target: copy.target, rows: copy.rows.length, imported: 0, skipped: 0 };
+        const key = KEYED_TABLES[copy.target];
+        for (const row of copy.rows) {
+          if (key && (await this.isPresent(copy.target, key, row))) {
+            result.skipped++;
+            continue;
+          }
+          const columns = Object.keys(row);
+          try {
+            await this.target.execute(
+              `INSERT INTO ${copy.target} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+              columns.map(column => row[column])
+            );
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new LegacyImportError(`Could not copy a row of ${copy.source}: ${errorMessage}`, sourceName, copy.source);
+          }
+          result.imported++;
+        }
+        expected.get(copy.target)!.count += result.imported;
+        results.push(result);
+      }
+
+      for (const [table, { maxId, count }] of expected) {
+        const [{ count: actual }] = await this.target.execute<{ count: number }[]>(
+          `SELECT COUNT(*) AS count FROM ${table} WHERE id > ?`,
+          [maxId]
+        );
+        if (actual !== count) {
+          throw new LegacyImportError(`Copied ${actual} rows into ${table}, expected ${count}`, sourceName, table);
+        }
+      }
+
+      const rowCounts = Object.fromEntries([...expected].map(([table, { count }]) => [table, count]));
+      await this.target.execute(
+        'INSERT INTO legacy_imports (source, importedAt, rowCounts) VALUES (?, ?, ?)',
+        [sourceName, importedAt, JSON.stringify(rowCounts)]
+      );
+      await this.target.execute('RELEASE legacy_import;');
+    } catch (error) {
+      await this.target.execute('ROLLBACK TO legacy_import;');
+      await this.target.execute('RELEASE legacy_import;');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Legacy import from ${sourceName} failed: ${errorMessage}`, error instanceof Error ? error : undefined);
+      throw error instanceof LegacyImportError
+        ? error
+        : new LegacyImportError(`Legacy import from ${sourceName} failed: ${errorMessage}`, sourceName);
+    }
+
+    const imported = results.reduce((sum, result) => sum + result.imported, 0);
+    this.logger.info(`Imported ${imported} rows from ${sourceName}`, { tables: results });
+    return { source: sourceName, importedAt, tables: results };
+  }
+
+  /**
+   * Check whether a row with the same key is already in a keyed table
+   * @param table Keyed table
+   * @param key Key columns
+   * @param row Row to insert
+   * @returns true if the key is taken
+   */
+  private async isPresent(table: string, key: string[], row: Record<string, any>): Promise<boolean> {
+    const rows = await this.target.execute<{ id: number }[]>(
+      `SELECT id FROM ${table} WHERE ${key.map(column => `${column} = ?`).join(' AND ')} LIMIT 1`,
+      key.map(column => row[column])
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Get the columns of a table
+   * @param db Database holding the table
+   * @param table Table name
+   * @returns Column names; empty if the table does not exist
+   */
+  private async columnsOf(db: IDatabaseManager, table: string): Promise<string[]> {
+    const rows = await db.execute<{ name: string }[]>('SELECT name FROM pragma_table_info(?)', [table]);
+    return rows.map(row => row.name);
+  }
+
+  /**
+   * Parse a JSON list of IDs kept in a legacy column
+   * @param value Column value
+   * @param userId Owner, for the log
+   * @returns IDs; empty if the value is missing or unreadable
+   */
+  private parseList(value: string | null, userId: string): string[] {
+    if (!value) return [];
+    try {
+      const list = JSON.parse(value);
+      return Array.isArray(list) ? [...new Set(list.map(String))] : [];
+    } catch {
+      this.logger.warn('Unreadable legacy education list, skipping it', { userId });
+      return [];
+    }
+  }
+}
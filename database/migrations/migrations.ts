@@ -265,5 +265,527 @@ export const migrations = [
       DROP TABLE IF EXISTS expense_tags;
       DROP TABLE IF EXISTS tags;
     `
+  },
+  {
+    version: 6,
+    name: 'add_transaction_tags_support',
+    up: `
+      -- Remember the account feed ID so re-imported transactions are not duplicated
+      ALTER TABLE transactions ADD COLUMN externalId TEXT;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_external ON transactions(userId, externalId);
+      
+      -- Create transaction-tag relationship table
+      CREATE TABLE IF NOT EXISTS transaction_tags (
+        transactionId INTEGER NOT NULL,
+        tagId INTEGER NOT NULL,
+        PRIMARY KEY (transactionId, tagId),
+        FOREIGN KEY (transactionId) REFERENCES transactions (id) ON DELETE CASCADE,
+        FOREIGN KEY (tagId) REFERENCES tags (id) ON DELETE CASCADE
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag ON transaction_tags(tagId);
+    `,
+    down: `
+      DROP TABLE IF EXISTS transaction_tags;
+      DROP INDEX IF EXISTS idx_transactions_external;
+      ALTER TABLE transactions DROP COLUMN externalId;
+    `
+  },
+  {
+    version: 7,
+    name: 'add_full_text_search',
+    up: `
+      -- Keep the OCR text of receipts so it can be searched
+      ALTER TABLE receipts ADD COLUMN rawText TEXT;
+      
+      -- One FTS5 document per expense or receipt: title (merchant, plus a compacted copy so
+      -- "dischem" finds "Dis-Chem"), body (description, category, OCR text) and lineItems
+      -- (receipt item names)
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        title,
+        body,
+        lineItems,
+        entityType UNINDEXED,
+        entityId UNINDEXED,
+        userId UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+      
+      -- Keep the index in step with expenses
+      CREATE TRIGGER IF NOT EXISTS search_expenses_insert AFTER INSERT ON expenses BEGIN
+        INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+        VALUES (NEW.merchant || ' ' || replace(replace(NEW.merchant, '-', ''), ' ', ''), COALESCE(NEW.description, '') || ' ' || NEW.category, '', 'expense', NEW.id, NEW.userId);
+      END;
+      CREATE TRIGGER IF NOT EXISTS search_expenses_update AFTER UPDATE ON expenses BEGIN
+        DELETE FROM search_index WHERE entityType = 'expense' AND entityId = OLD.id;
+        INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+        VALUES (NEW.merchant || ' ' || replace(replace(NEW.merchant, '-', ''), ' ', ''), COALESCE(NEW.description, '') || ' ' || NEW.category, '', 'expense', NEW.id, NEW.userId);
+      END;
+      CREATE TRIGGER IF NOT EXISTS search_expenses_delete AFTER DELETE ON expenses BEGIN
+        DELETE FROM search_index WHERE entityType = 'expense' AND entityId = OLD.id;
+      END;
+      
+      -- Keep the index in step with receipts (items is a JSON array of { name, price, quantity })
+      CREATE TRIGGER IF NOT EXISTS search_receipts_insert AFTER INSERT ON receipts BEGIN
+        INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+        VALUES (
+          NEW.merchantName || ' ' || replace(replace(NEW.merchantName, '-', ''), ' ', ''),
+          NEW.category || ' ' || COALESCE(NEW.rawText, ''),
+          CASE WHEN json_valid(NEW.items)
+          THEN (SELECT group_concat(CASE WHEN type = 'object' THEN json_extract(value, '$.name') ELSE value END, ' ') FROM json_each(NEW.items))
+          ELSE NEW.items END,
+          'receipt', NEW.id, NEW.userId
+        );
+      END;
+      CREATE TRIGGER IF NOT EXISTS search_receipts_update AFTER UPDATE ON receipts BEGIN
+        DELETE FROM search_index WHERE entityType = 'receipt' AND entityId = OLD.id;
+        INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+        VALUES (
+          NEW.merchantName || ' ' || replace(replace(NEW.merchantName, '-', ''), ' ', ''),
+          NEW.category || ' ' || COALESCE(NEW.rawText, ''),
+          CASE WHEN json_valid(NEW.items)
+          THEN (SELECT group_concat(CASE WHEN type = 'object' THEN json_extract(value, '$.name') ELSE value END, ' ') FROM json_each(NEW.items))
+          ELSE NEW.items END,
+          'receipt', NEW.id, NEW.userId
+        );
+      END;
+      CREATE TRIGGER IF NOT EXISTS search_receipts_delete AFTER DELETE ON receipts BEGIN
+        DELETE FROM search_index WHERE entityType = 'receipt' AND entityId = OLD.id;
+      END;
+      
+      -- Index existing rows
+      INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+      SELECT merchant || ' ' || replace(replace(merchant, '-', ''), ' ', ''), COALESCE(description, '') || ' ' || category, '', 'expense', id, userId FROM expenses;
+      INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+      SELECT merchantName || ' ' || replace(replace(merchantName, '-', ''), ' ', ''), category || ' ' || COALESCE(rawText, ''), CASE WHEN json_valid(items)
+          THEN (SELECT group_concat(CASE WHEN type = 'object' THEN json_extract(value, '$.name') ELSE value END, ' ') FROM json_each(items))
+          ELSE items END, 'receipt', id, userId FROM receipts;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS search_expenses_insert;
+      DROP TRIGGER IF EXISTS search_expenses_update;
+      DROP TRIGGER IF EXISTS search_expenses_delete;
+      DROP TRIGGER IF EXISTS search_receipts_insert;
+      DROP TRIGGER IF EXISTS search_receipts_update;
+      DROP TRIGGER IF EXISTS search_receipts_delete;
+      DROP TABLE IF EXISTS search_index;
+      ALTER TABLE receipts DROP COLUMN rawText;
+    `
+  },
+  {
+    version: 8,
+    name: 'add_change_history',
+    up: `
+      -- Append-only history of changes to financial records, with before and after images
+      CREATE TABLE IF NOT EXISTS change_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entityType TEXT NOT NULL CHECK (entityType IN ('expense', 'receipt', 'goal', 'transaction')),
+        entityId INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        beforeData TEXT,
+        afterData TEXT,
+        userId TEXT,
+        actor TEXT NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('manual', 'chat', 'ocr', 'sync')),
+        revertOf INTEGER REFERENCES change_history (id),
+        createdAt TEXT NOT NULL
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_change_history_entity ON change_history(entityType, entityId);
+      CREATE INDEX IF NOT EXISTS idx_change_history_user ON change_history(userId);
+      -- A change can only be reverted once
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_change_history_revert ON change_history(revertOf) WHERE revertOf IS NOT NULL;
+      
+      CREATE TRIGGER IF NOT EXISTS change_history_no_update BEFORE UPDATE ON change_history BEGIN
+        SELECT RAISE(ABORT, 'change_history is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS change_history_no_delete BEFORE DELETE ON change_history BEGIN
+        SELECT RAISE(ABORT, 'change_history is append-only');
+      END;
+    `,
+    down: `
+      DROP TABLE IF EXISTS change_history;
+    `
+  },
+  {
+    version: 9,
+    name: 'add_soft_delete',
+    up: `
+      -- Deleted records stay in the table as tombstones until the trash is purged
+      ALTER TABLE expenses ADD COLUMN deletedAt TEXT;
+      ALTER TABLE receipts ADD COLUMN deletedAt TEXT;
+      ALTER TABLE financial_goals ADD COLUMN deletedAt TEXT;
+      ALTER TABLE transactions ADD COLUMN deletedAt TEXT;
+      
+      -- The trash view and the purge job only look at deleted rows
+      CREATE INDEX IF NOT EXISTS idx_expenses_deleted ON expenses(deletedAt) WHERE deletedAt IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_receipts_deleted ON receipts(deletedAt) WHERE deletedAt IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_goals_deleted ON financial_goals(deletedAt) WHERE deletedAt IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_transactions_deleted ON transactions(deletedAt) WHERE deletedAt IS NOT NULL;
+    `,
+    down: `
+      -- Rolling back forgets which records were in the trash, so remove them for good
+      DELETE FROM expenses WHERE deletedAt IS NOT NULL;
+      DELETE FROM receipts WHERE deletedAt IS NOT NULL;
+      DELETE FROM financial_goals WHERE deletedAt IS NOT NULL;
+      DELETE FROM transactions WHERE deletedAt IS NOT NULL;
+      
+      DROP INDEX IF EXISTS idx_expenses_deleted;
+      DROP INDEX IF EXISTS idx_receipts_deleted;
+      DROP INDEX IF EXISTS idx_goals_deleted;
+      DROP INDEX IF EXISTS idx_transactions_deleted;
+      
+      ALTER TABLE expenses DROP COLUMN deletedAt;
+      ALTER TABLE receipts DROP COLUMN deletedAt;
+      ALTER TABLE financial_goals DROP COLUMN deletedAt;
+      ALTER TABLE transactions DROP COLUMN deletedAt;
+    `
+  },
+  {
+    version: 10,
+    name: 'add_multi_currency',
+    up: `
+      -- amount stays the ZAR amount every total is based on; the original spend is kept alongside
+      ALTER TABLE expenses ADD COLUMN currency TEXT NOT NULL DEFAULT 'ZAR';
+      ALTER TABLE expenses ADD COLUMN originalAmount REAL;
+      ALTER TABLE expenses ADD COLUMN fxRate REAL NOT NULL DEFAULT 1;
+      UPDATE expenses SET originalAmount = amount WHERE originalAmount IS NULL;
+      
+      ALTER TABLE transactions ADD COLUMN currency TEXT NOT NULL DEFAULT 'ZAR';
+      ALTER TABLE transactions ADD COLUMN originalAmount REAL;
+      UPDATE transactions SET originalAmount = amount WHERE originalAmount IS NULL;
+      
+      -- Rates are ZAR per unit of currency, one per currency and day
+      CREATE TABLE IF NOT EXISTS fx_rates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        currency TEXT NOT NULL CHECK (length(currency) = 3),
+        date TEXT NOT NULL,
+        rate REAL NOT NULL CHECK (rate > 0),
+        source TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        UNIQUE (currency, date)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS fx_rates;
+      
+      -- Foreign spend keeps its converted ZAR amount
+      ALTER TABLE transactions DROP COLUMN originalAmount;
+      ALTER TABLE transactions DROP COLUMN currency;
+      ALTER TABLE expenses DROP COLUMN fxRate;
+      ALTER TABLE expenses DROP COLUMN originalAmount;
+      ALTER TABLE expenses DROP COLUMN currency;
+    `
+  },
+  {
+    version: 11,
+    name: 'create_recurrence_tables',
+    up: `
+      CREATE TABLE IF NOT EXISTS recurrence_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId TEXT NOT NULL,
+        entityType TEXT NOT NULL CHECK (entityType IN ('expense', 'transaction')),
+        name TEXT NOT NULL,
+        amount REAL NOT NULL,
+        category TEXT NOT NULL,
+        merchant TEXT,
+        description TEXT,
+        transactionType TEXT CHECK (transactionType IN ('income', 'expense', 'transfer')),
+        frequency TEXT NOT NULL CHECK (frequency IN ('monthly', 'weekly', 'last_business_day', 'every_n_days')),
+        interval INTEGER NOT NULL DEFAULT 1 CHECK (interval >= 1),
+        dayOfMonth INTEGER CHECK (dayOfMonth BETWEEN 1 AND 31),
+        dayOfWeek INTEGER CHECK (dayOfWeek BETWEEN 0 AND 6),
+        startDate TEXT NOT NULL,
+        endDate TEXT,
+        materializedThrough TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+      
+      CREATE TABLE IF NOT EXISTS recurrence_exceptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ruleId INTEGER NOT NULL REFERENCES recurrence_rules (id) ON DELETE CASCADE,
+        occurrenceDate TEXT NOT NULL,
+        action TEXT NOT NULL CHECK (action IN ('skip', 'modify')),
+        amount REAL,
+        date TEXT,
+        description TEXT,
+        createdAt TEXT NOT NULL,
+        UNIQUE (ruleId, occurrenceDate)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_recurrence_rules_user ON recurrence_rules(userId);
+      
+      -- Generated records point back at their rule; each occurrence is created at most once
+      ALTER TABLE expenses ADD COLUMN recurrenceRuleId INTEGER;
+      ALTER TABLE expenses ADD COLUMN occurrenceDate TEXT;
+      ALTER TABLE transactions ADD COLUMN recurrenceRuleId INTEGER;
+      ALTER TABLE transactions ADD COLUMN occurrenceDate TEXT;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_occurrence
+        ON expenses(recurrenceRuleId, occurrenceDate) WHERE recurrenceRuleId IS NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_occurrence
+        ON transactions(recurrenceRuleId, occurrenceDate) WHERE recurrenceRuleId IS NOT NULL;
+    `,
+    down: `
+      -- Generated records stay, as ordinary expenses and transactions
+      DROP INDEX IF EXISTS idx_expenses_occurrence;
+      DROP INDEX IF EXISTS idx_transactions_occurrence;
+      ALTER TABLE expenses DROP COLUMN occurrenceDate;
+      ALTER TABLE expenses DROP COLUMN recurrenceRuleId;
+      ALTER TABLE transactions DROP COLUMN occurrenceDate;
+      ALTER TABLE transactions DROP COLUMN recurrenceRuleId;
+      
+      DROP TABLE IF EXISTS recurrence_exceptions;
+      DROP TABLE IF EXISTS recurrence_rules;
+    `
+  },
+  {
+    version: 12,
+    name: 'create_budgets_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS budgets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        firebaseId TEXT UNIQUE,
+        userId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        category TEXT,
+        amount REAL NOT NULL CHECK (amount > 0),
+        period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly', 'yearly')),
+        startDate TEXT NOT NULL,
+        endDate TEXT,
+        isActive INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending',
+        deletedAt TEXT
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_budgets_user ON budgets(userId);
+      CREATE INDEX IF NOT EXISTS idx_budgets_deleted ON budgets(deletedAt) WHERE deletedAt IS NOT NULL;
+      -- One budget per category and period; a NULL category is the overall budget
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_category
+        ON budgets(userId, COALESCE(category, ''), period) WHERE deletedAt IS NULL;
+      
+      -- SQLite cannot change a CHECK constraint, so the sync queue is rebuilt to accept budgets
+      CREATE TABLE sync_queue_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entityType TEXT NOT NULL CHECK (entityType IN ('expense', 'receipt', 'goal', 'transaction', 'wallet', 'budget')),
+        entityId INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        data TEXT,
+        priority INTEGER DEFAULT 0,
+        attempts INTEGER DEFAULT 0,
+        lastAttempt TEXT,
+        createdAt TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'in_progress', 'success', 'error')) DEFAULT 'pending',
+        errorMessage TEXT
+      );
+      INSERT INTO sync_queue_new SELECT * FROM sync_queue;
+      DROP TABLE sync_queue;
+      ALTER TABLE sync_queue_new RENAME TO sync_queue;
+      CREATE INDEX IF NOT EXISTS idx_sync_queue_status ON sync_queue(status, priority);
+      CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entityType, entityId);
+    `,
+    down: `
+      DELETE FROM sync_queue WHERE entityType = 'budget';
+      CREATE TABLE sync_queue_old (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entityType TEXT NOT NULL CHECK (entityType IN ('expense', 'receipt', 'goal', 'transaction', 'wallet')),
+        entityId INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        data TEXT,
+        priority INTEGER DEFAULT 0,
+        attempts INTEGER DEFAULT 0,
+        lastAttempt TEXT,
+        createdAt TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'in_progress', 'success', 'error')) DEFAULT 'pending',
+        errorMessage TEXT
+      );
+      INSERT INTO sync_queue_old SELECT * FROM sync_queue;
+      DROP TABLE sync_queue;
+      ALTER TABLE sync_queue_old RENAME TO sync_queue;
+      CREATE INDEX IF NOT EXISTS idx_sync_queue_status ON sync_queue(status, priority);
+      CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entityType, entityId);
+      
+      DROP TABLE IF EXISTS budgets;
+    `
+  },
+  {
+    version: 13,
+    name: 'add_split_allocations',
+    up: `
+      -- A split record counts towards the categories of its splits instead of its own category
+      CREATE TABLE IF NOT EXISTS expense_splits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        expenseId INTEGER NOT NULL,
+        category TEXT NOT NULL,
+        amount REAL NOT NULL,
+        tagId INTEGER,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (expenseId) REFERENCES expenses (id) ON DELETE CASCADE,
+        FOREIGN KEY (tagId) REFERENCES tags (id) ON DELETE SET NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_expense_splits_parent ON expense_splits(expenseId);
+      
+      CREATE TABLE IF NOT EXISTS transaction_splits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transactionId INTEGER NOT NULL,
+        category TEXT NOT NULL,
+        amount REAL NOT NULL,
+        tagId INTEGER,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (transactionId) REFERENCES transactions (id) ON DELETE CASCADE,
+        FOREIGN KEY (tagId) REFERENCES tags (id) ON DELETE SET NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_transaction_splits_parent ON transaction_splits(transactionId);
+      
+      -- A changed amount is spread over the splits in proportion, so they keep adding up to it;
+      -- the largest split absorbs the rounding difference
+      CREATE TRIGGER IF NOT EXISTS expense_splits_rescale AFTER UPDATE OF amount ON expenses
+      WHEN OLD.amount <> NEW.amount AND OLD.amount <> 0 BEGIN
+        UPDATE expense_splits SET amount = ROUND(amount * NEW.amount / OLD.amount, 2) WHERE expenseId = NEW.id;
+        UPDATE expense_splits
+          SET amount = ROUND(amount + NEW.amount - (SELECT SUM(amount) FROM expense_splits WHERE expenseId = NEW.id), 2)
+          WHERE id = (SELECT id FROM expense_splits WHERE expenseId = NEW.id ORDER BY ABS(amount) DESC, id LIMIT 1);
+      END;
+      CREATE TRIGGER IF NOT EXISTS transaction_splits_rescale AFTER UPDATE OF amount ON transactions
+      WHEN OLD.amount <> NEW.amount AND OLD.amount <> 0 BEGIN
+        UPDATE transaction_splits SET amount = ROUND(amount * NEW.amount / OLD.amount, 2) WHERE transactionId = NEW.id;
+        UPDATE transaction_splits
+          SET amount = ROUND(amount + NEW.amount - (SELECT SUM(amount) FROM transaction_splits WHERE transactionId = NEW.id), 2)
+          WHERE id = (SELECT id FROM transaction_splits WHERE transactionId = NEW.id ORDER BY ABS(amount) DESC, id LIMIT 1);
+      END;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS expense_splits_rescale;
+      DROP TRIGGER IF EXISTS transaction_splits_rescale;
+      DROP TABLE IF EXISTS expense_splits;
+      DROP TABLE IF EXISTS transaction_splits;
+    `
+  },
+  {
+    version: 14,
+    name: 'extend_receipt_attachments',
+    up: `
+      -- Attachments keep their file type, a checksum to detect damaged files, and their page order
+      ALTER TABLE receipt_attachments ADD COLUMN mimeType TEXT;
+      ALTER TABLE receipt_attachments ADD COLUMN checksum TEXT;
+      ALTER TABLE receipt_attachments ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+      UPDATE receipt_attachments SET position = (
+        SELECT COUNT(*) FROM receipt_attachments earlier
+        WHERE earlier.receiptId = receipt_attachments.receiptId AND earlier.id < receipt_attachments.id
+      );
+      CREATE INDEX IF NOT EXISTS idx_receipt_attachments_position ON receipt_attachments(receiptId, position);
+      
+      -- Files of removed receipts and attachments wait here until they are deleted from storage.
+      -- The triggers also catch rows removed by the trash purge cascading from receipts.
+      CREATE TABLE IF NOT EXISTS orphaned_files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        uri TEXT NOT NULL,
+        createdAt TEXT NOT NULL
+      );
+      CREATE TRIGGER IF NOT EXISTS receipt_attachments_orphan_file AFTER DELETE ON receipt_attachments BEGIN
+        INSERT INTO orphaned_files (uri, createdAt) VALUES (OLD.uri, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+      END;
+      CREATE TRIGGER IF NOT EXISTS receipts_orphan_file AFTER DELETE ON receipts
+      WHEN OLD.imageUri IS NOT NULL AND OLD.imageUri <> '' BEGIN
+        INSERT INTO orphaned_files (uri, createdAt) VALUES (OLD.imageUri, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+      END;
+    `,
+    down: `
+      DROP TRIGGER IF EXISTS receipts_orphan_file;
+      DROP TRIGGER IF EXISTS receipt_attachments_orphan_file;
+      DROP TABLE IF EXISTS orphaned_files;
+      DROP INDEX IF EXISTS idx_receipt_attachments_position;
+      ALTER TABLE receipt_attachments DROP COLUMN position;
+      ALTER TABLE receipt_attachments DROP COLUMN checksum;
+      ALTER TABLE receipt_attachments DROP COLUMN mimeType;
+    `
+  },
+  {
+    version: 15,
+    name: 'add_legacy_imports',
+    up: `
+      -- One row per legacy database whose data has been moved into this schema, so it is moved only once
+      CREATE TABLE IF NOT EXISTS legacy_imports (
+        source TEXT PRIMARY KEY,
+        importedAt TEXT NOT NULL,
+        rowCounts TEXT NOT NULL
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS legacy_imports;
+    `
+  },
+  {
+    version: 16,
+    name: 'extend_change_history',
+    up: `
+      -- Budgets join the change history, and changes made by one action, such as moving money
+      -- between two budgets, share a batch so they are undone together.
+      -- SQLite cannot change a CHECK constraint, so the table is rebuilt; the rename points
+      -- revertOf back at change_history.
+      CREATE TABLE change_history_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entityType TEXT NOT NULL CHECK (entityType IN ('expense', 'receipt', 'goal', 'transaction', 'budget')),
+        entityId INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        beforeData TEXT,
+        afterData TEXT,
+        userId TEXT,
+        actor TEXT NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('manual', 'chat', 'ocr', 'sync')),
+        revertOf INTEGER REFERENCES change_history_new (id),
+        batchId TEXT,
+        createdAt TEXT NOT NULL
+      );
+      INSERT INTO change_history_new (
+        id, entityType, entityId, operation, beforeData, afterData, userId, actor, source, revertOf, createdAt
+      ) SELECT id, entityType, entityId, operation, beforeData, afterData, userId, actor, source, revertOf, createdAt
+      FROM change_history;
+      DROP TABLE change_history;
+      ALTER TABLE change_history_new RENAME TO change_history;
+      CREATE INDEX IF NOT EXISTS idx_change_history_entity ON change_history(entityType, entityId);
+      CREATE INDEX IF NOT EXISTS idx_change_history_user ON change_history(userId);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_change_history_revert ON change_history(revertOf) WHERE revertOf IS NOT NULL;
+      CREATE TRIGGER IF NOT EXISTS change_history_no_update BEFORE UPDATE ON change_history BEGIN
+        SELECT RAISE(ABORT, 'change_history is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS change_history_no_delete BEFORE DELETE ON change_history BEGIN
+        SELECT RAISE(ABORT, 'change_history is append-only');
+      END;
+      CREATE INDEX IF NOT EXISTS idx_change_history_batch ON change_history(batchId) WHERE batchId IS NOT NULL;
+    `,
+    down: `
+      CREATE TABLE change_history_old (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entityType TEXT NOT NULL CHECK (entityType IN ('expense', 'receipt', 'goal', 'transaction')),
+        entityId INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        beforeData TEXT,
+        afterData TEXT,
+        userId TEXT,
+        actor TEXT NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('manual', 'chat', 'ocr', 'sync')),
+        revertOf INTEGER REFERENCES change_history_old (id),
+        createdAt TEXT NOT NULL
+      );
+      INSERT INTO change_history_old
+      SELECT id, entityType, entityId, operation, beforeData, afterData, userId, actor, source, revertOf, createdAt
+      FROM change_history WHERE entityType != 'budget';
+      DROP TABLE change_history;
+      ALTER TABLE change_history_old RENAME TO change_history;
+      CREATE INDEX IF NOT EXISTS idx_change_history_entity ON change_history(entityType, entityId);
+      CREATE INDEX IF NOT EXISTS idx_change_history_user ON change_history(userId);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_change_history_revert ON change_history(revertOf) WHERE revertOf IS NOT NULL;
+      CREATE TRIGGER IF NOT EXISTS change_history_no_update BEFORE UPDATE ON change_history BEGIN
+        SELECT RAISE(ABORT, 'change_history is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS change_history_no_delete BEFORE DELETE ON change_history BEGIN
+        SELECT RAISE(ABORT, 'change_history is append-only');
+      END;
+    `
   }
 ];
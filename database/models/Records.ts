@@ -20,6 +20,7 @@ export interface BaseRecord {
   createdAt: string;
   updatedAt: string;
   syncStatus: SyncStatus;
+  deletedAt?: string | null; // set while the record is in the trash
 }
 
 /**
@@ -27,13 +28,18 @@ export interface BaseRecord {
  * Represents an expense entry
  */
 export interface ExpenseRecord extends BaseRecord {
-  amount: number;
+  amount: number; // in ZAR, converted from originalAmount for foreign spend
   category: string;
   merchant: string;
   description: string;
   date: string;
   receiptUrl?: string;
   isRecurring: boolean;
+  currency?: string; // ISO 4217 code the expense was paid in, ZAR when omitted
+  originalAmount?: number; // amount in that currency
+  fxRate?: number; // ZAR per unit of that currency used for the conversion
+  recurrenceRuleId?: number | null; // rule that generated the expense
+  occurrenceDate?: string | null; // scheduled date of that occurrence
 }
 
 /**
@@ -49,6 +55,31 @@ export interface ReceiptRecord extends BaseRecord {
   category: string;
   processed: boolean;
   ocrConfidence: number;
+  rawText?: string; // Full OCR text, indexed for search
+}
+
+/**
+ * ReceiptAttachmentType Type
+ * Kind of file attached to a receipt
+ */
+export type ReceiptAttachmentType = 'image' | 'pdf' | 'other';
+
+/**
+ * ReceiptAttachmentRecord Interface
+ * A file attached to a receipt, such as a page of a long slip or a PDF invoice
+ */
+export interface ReceiptAttachmentRecord {
+  id?: number;
+  receiptId: number;
+  type: ReceiptAttachmentType;
+  uri: string; // local copy in the app's document directory
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+  checksum: string; // CRC-32 of the base64 file content
+  position: number; // page order, from 0
+  createdAt: string;
+  syncStatus: SyncStatus;
 }
 
 /**
@@ -65,6 +96,47 @@ export interface FinancialGoalRecord extends BaseRecord {
   isActive: boolean;
 }
 
+/**
+ * SplitParentType Type
+ * Kind of record that can be split across categories
+ */
+export type SplitParentType = 'expense' | 'transaction';
+
+/**
+ * SplitRecord Interface
+ * The part of a split expense or transaction that goes to one category.
+ * The splits of a record add up to its amount.
+ */
+export interface SplitRecord {
+  id?: number;
+  parentType: SplitParentType;
+  parentId: number;
+  category: string;
+  amount: number; // in ZAR, like the amount of the parent
+  tagId?: number | null;
+  createdAt: string;
+}
+
+/**
+ * BudgetPeriod Type
+ * How often a budget's limit resets
+ */
+export type BudgetPeriod = 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * BudgetRecord Interface
+ * A spending limit for one category, or for all spending, that resets every period
+ */
+export interface BudgetRecord extends BaseRecord {
+  name: string;
+  category: string | null; // null for an overall budget across every category
+  amount: number; // limit per period, in ZAR
+  period: BudgetPeriod;
+  startDate: string; // YYYY-MM-DD; periods repeat from this day
+  endDate?: string | null; // last day the budget applies
+  isActive: boolean;
+}
+
 /**
  * TransactionType Type
  * Represents the type of financial transaction
@@ -83,6 +155,105 @@ export interface TransactionRecord extends BaseRecord {
   date: string;
   fromAccount?: string;
   toAccount?: string;
+  externalId?: string; // ID of the transaction in the account feed it was imported from
+  currency?: string; // currency of the underlying card spend; amount is always the settled ZAR amount
+  originalAmount?: number; // amount in that currency
+  recurrenceRuleId?: number | null; // rule that generated the transaction
+  occurrenceDate?: string | null; // scheduled date of that occurrence
+}
+
+/**
+ * RecurrenceFrequency Type
+ * How a recurrence rule repeats:
+ * - monthly: on dayOfMonth every interval months, on the last day of shorter months
+ * - weekly: on dayOfWeek every interval weeks
+ * - last_business_day: on the last weekday of every interval months
+ * - every_n_days: every interval days from the start date
+ */
+export type RecurrenceFrequency = 'monthly' | 'weekly' | 'last_business_day' | 'every_n_days';
+
+/**
+ * RecurrenceEntityType Type
+ * Kind of record a recurrence rule generates
+ */
+export type RecurrenceEntityType = 'expense' | 'transaction';
+
+/**
+ * RecurrenceRuleRecord Interface
+ * A repeating expense or transaction and the template its occurrences are created from
+ */
+export interface RecurrenceRuleRecord {
+  id?: number;
+  userId: string;
+  entityType: RecurrenceEntityType;
+  name: string;
+  amount: number; // in ZAR
+  category: string;
+  merchant?: string;
+  description?: string;
+  transactionType?: TransactionType; // transactions only
+  frequency: RecurrenceFrequency;
+  interval: number;
+  dayOfMonth?: number | null; // 1-31, monthly rules; defaults to the day of the start date
+  dayOfWeek?: number | null; // 0 (Sunday) - 6, weekly rules; defaults to the weekday of the start date
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null; // last day an occurrence may fall on
+  materializedThrough?: string | null; // occurrences up to this day have been created as records
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * RecurrenceExceptionAction Type
+ * What happens to a single occurrence of a rule
+ */
+export type RecurrenceExceptionAction = 'skip' | 'modify';
+
+/**
+ * RecurrenceExceptionRecord Interface
+ * A skipped or changed occurrence of a recurrence rule
+ */
+export interface RecurrenceExceptionRecord {
+  id?: number;
+  ruleId: number;
+  occurrenceDate: string; // scheduled date of the occurrence
+  action: RecurrenceExceptionAction;
+  amount?: number | null; // replaces the rule amount
+  date?: string | null; // the occurrence was moved to this day
+  description?: string | null;
+  createdAt: string;
+}
+
+/**
+ * RecurrenceOccurrence Interface
+ * One occurrence of a rule, with its exception applied
+ */
+export interface RecurrenceOccurrence {
+  ruleId: number;
+  entityType: RecurrenceEntityType;
+  transactionType?: TransactionType;
+  name: string;
+  category: string;
+  description: string;
+  amount: number;
+  occurrenceDate: string; // scheduled date
+  date: string; // day it falls on after any move
+  modified: boolean;
+}
+
+/**
+ * FxRateRecord Interface
+ * Exchange rate of a currency against ZAR on a given day
+ */
+export interface FxRateRecord {
+  id?: number;
+  currency: string;
+  date: string; // YYYY-MM-DD
+  rate: number; // ZAR per unit of currency
+  source: string; // where the rate came from, e.g. the imported file name
+  createdAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -111,4 +282,141 @@ export interface UserAchievementRecord {
   unlockedAt: string;
 }
 
+/**
+ * SyncEntityType Type
+ * Entity types that can be queued for cloud synchronization
+ */
+export type SyncEntityType = 'expense' | 'receipt' | 'goal' | 'transaction' | 'budget';
+
+/**
+ * SyncOperation Type
+ * Mutation kinds recorded in the sync queue
+ */
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+/**
+ * SyncQueueStatus Type
+ * Processing state of a sync queue entry
+ */
+export type SyncQueueStatus = 'pending' | 'in_progress' | 'success' | 'error';
+
+/**
+ * SyncQueueRecord Interface
+ * Represents a pending change waiting to be pushed to the remote store
+ */
+export interface SyncQueueRecord {
+  id?: number;
+  entityType: SyncEntityType;
+  entityId: number;
+  operation: SyncOperation;
+  data: string | null; // JSON snapshot of the record at enqueue time
+  priority: number;
+  attempts: number;
+  lastAttempt?: string;
+  createdAt: string;
+  status: SyncQueueStatus;
+  errorMessage?: string;
+}
+
+/**
+ * TagRecord Interface
+ * Represents a user-defined label that can be attached to expenses and transactions
+ */
+export interface TagRecord {
+  id?: number;
+  userId: string;
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * TagMatchMode Type
+ * How multiple tags combine in a query: 'any' (OR) or 'all' (AND)
+ */
+export type TagMatchMode = 'any' | 'all';
+
+/**
+ * SearchEntityType Type
+ * Record kinds covered by the full-text search index
+ */
+export type SearchEntityType = 'expense' | 'receipt';
+
+/**
+ * SearchFilters Interface
+ * Optional constraints applied on top of a full-text query
+ */
+export interface SearchFilters {
+  entityTypes?: SearchEntityType[];
+  category?: string;
+  startDate?: string;
+  endDate?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  limit?: number;
+}
+
+/**
+ * SearchResult Interface
+ * A ranked full-text search hit
+ */
+export interface SearchResult {
+  entityType: SearchEntityType;
+  entityId: number;
+  title: string;
+  amount: number;
+  date: string;
+  category: string;
+  snippet: string; // Matched terms wrapped in SNIPPET_MARK_START / SNIPPET_MARK_END
+  rank: number; // bm25 score, lower is better
+}
+
+/**
+ * ChangeEntityType Type
+ * Record kinds whose changes are kept in the change history
+ */
+export type ChangeEntityType = 'expense' | 'receipt' | 'goal' | 'transaction' | 'budget';
+
+/**
+ * ChangeOperation Type
+ * Mutation kinds recorded in the change history
+ */
+export type ChangeOperation = 'create' | 'update' | 'delete';
+
+/**
+ * ChangeSource Type
+ * Where a change came from
+ */
+export type ChangeSource = 'manual' | 'chat' | 'ocr' | 'sync';
+
+/**
+ * ChangeContext Interface
+ * Who made a change and through which feature; defaults to the record owner, manually
+ */
+export interface ChangeContext {
+  actor?: string;
+  source?: ChangeSource;
+  batchId?: string; // changes made by one action share a batch and are undone together
+}
+
+/**
+ * ChangeRecord Interface
+ * One entry of the append-only change history
+ */
+export interface ChangeRecord {
+  id?: number;
+  entityType: ChangeEntityType;
+  entityId: number;
+  operation: ChangeOperation;
+  before: Record<string, any> | null; // raw row before the change; null for creates
+  after: Record<string, any> | null; // raw row after the change; null for deletes
+  userId: string | null;
+  actor: string;
+  source: ChangeSource;
+  revertOf: number | null; // the change this entry reverted
+  batchId: string | null;
+  createdAt: string;
+}
+
 // Crypto wallet feature removed
@@ -0,0 +1,201 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { QueryFilter, QuerySpec, SortSpec, Page } from '../interfaces/IRepository';
+import { QueryError } from '../errors/DatabaseErrors';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * TableQueryConfig Interface
+ * Describes which columns of a table can be filtered and sorted.
+ * Only listed columns are accepted, so filter keys are never interpolated unchecked.
+ */
+export interface TableQueryConfig<T> {
+  table: string;
+  filterable: (keyof T & string)[];
+  sortable: (keyof T & string)[]; // NOT NULL columns only; keyset pagination cannot compare NULLs
+  booleanColumns?: (keyof T & string)[]; // stored as 0/1
+  softDelete?: boolean; // rows with a deletedAt are in the trash and never match
+  defaultSort: SortSpec<T>[];
+}
+
+type Operators = { eq?: any; ne?: any; in?: any[]; gt?: any; gte?: any; lt?: any; lte?: any; contains?: string };
+
+const OPERATOR_SQL: Record<Exclude<keyof Operators, 'in' | 'contains'>, string> = {
+  eq: '=',
+  ne: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+/**
+ * Build a WHERE clause from a typed filter
+ * @param config Table configuration
+ * @param filter Filter spec
+ * @returns SQL conditions (without WHERE) and their parameters
+ * @throws QueryError if the filter references a column that is not filterable
+ */
+export function buildConditions<T>(config: TableQueryConfig<T>, filter?: QueryFilter<T>): { conditions: string[]; params: any[] } {
+  const conditions: string[] = config.softDelete ? ['deletedAt IS NULL'] : [];
+  const params: any[] = [];
+  if (!filter) return { conditions, params };
+
+  const toDb = (column: string, value: any) =>
+    config.booleanColumns?.includes(column as keyof T & string) && typeof value === 'boolean' ? (value ? 1 : 0) : value;
+
+  for (const [column, raw] of Object.entries(filter) as [string, any][]) {
+    if (raw === undefined) continue;
+    if (column !== 'id' && !config.filterable.includes(column as keyof T & string)) {
+      throw new QueryError(`Cannot filter ${config.table} by ${column}`);
+    }
+
+    if (raw === null) {
+      conditions.push(`${column} IS NULL`);
+      continue;
+    }
+    if (typeof raw !== 'object') {
+      conditions.push(`${column} = ?`);
+      params.push(toDb(column, raw));
+      continue;
+    }
+
+    const ops = raw as Operators;
+    (Object.keys(OPERATOR_SQL) as (keyof typeof OPERATOR_SQL)[]).forEach(op => {
+      if (ops[op] !== undefined) {
+        conditions.push(`${column} ${OPERATOR_SQL[op]} ?`);
+        params.push(toDb(column, ops[op]));
+      }
+    });
+    if (ops.in !== undefined) {
+      conditions.push(ops.in.length ? `${column} IN (${ops.in.map(() => '?').join(',')})` : '0');
+      params.push(...ops.in.map(v => toDb(column, v)));
+    }
+    if (ops.contains !== undefined) {
+      conditions.push(`${column} LIKE ? ESCAPE '\\'`);
+      params.push(`%${ops.contains.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+    }
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * Encode cursor values as an opaque, URL-safe string
+ * @param signature Sort signature the cursor belongs to
+ * @param values Sort key values of the last row, followed by its ID
+ * @returns Cursor string
+ */
+export function encodeCursor(signature: string, values: any[]): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ s: signature, v: values }));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @param cursor Cursor string
+ * @param signature Sort signature of the current query
+ * @returns Sort key values followed by the row ID
+ * @throws QueryError if the cursor is malformed or was created for a different sort
+ */
+export function decodeCursor(cursor: string, signature: string): any[] {
+  let decoded: { s?: string; v?: any[] };
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    decoded = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+  } catch {
+    throw new QueryError('Invalid cursor');
+  }
+
+  if (decoded.s !== signature || !Array.isArray(decoded.v)) {
+    throw new QueryError('Cursor does not belong to this query');
+  }
+  return decoded.v;
+}
+
+/**
+ * Run a keyset-paginated query
+ * @param dbManager Database manager instance
+ * @param config Table configuration
+ * @param spec Filter, sort, page size and cursor
+ * @param mapRow Row mapper of the repository
+ * @returns Page of mapped records
+ * @throws QueryError if the spec is invalid
+ */
+export async function runPagedQuery<T>(
+  dbManager: IDatabaseManager,
+  config: TableQueryConfig<T>,
+  spec: QuerySpec<T> = {},
+  mapRow: (row: any) => T
+): Promise<Page<T>> {
+  const sort = (spec.sort && spec.sort.length > 0 ? spec.sort : config.defaultSort).map(s => {
+    if (!config.sortable.includes(s.field)) {
+      throw new QueryError(`Cannot sort ${config.table} by ${s.field}`);
+    }
+    return { field: s.field as string, direction: s.direction === 'asc' ? 'asc' : 'desc' };
+  });
+  // The ID makes every sort key unique, so no row is skipped or repeated between pages
+  sort.push({ field: 'id', direction: sort[sort.length - 1]?.direction || 'desc' });
+
+  const signature = sort.map(s => `${s.field}:${s.direction}`).join(',');
+  const limit = Math.min(Math.max(1, spec.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const { conditions, params } = buildConditions(config, spec.filter);
+
+  if (spec.cursor) {
+    const values = decodeCursor(spec.cursor, signature);
+    if (values.length !== sort.length) {
+      throw new QueryError('Cursor does not belong to this query');
+    }
+
+    // (a, b, id) after (x, y, z): a > x OR (a = x AND b > y) OR (a = x AND b = y AND id > z)
+    const branches = sort.map((s, i) => {
+      const equalities = sort.slice(0, i).map(prev => `${prev.field} = ?`);
+      return `(${[...equalities, `${s.field} ${s.direction === 'asc' ? '>' : '<'} ?`].join(' AND ')})`;
+    });
+    conditions.push(`(${branches.join(' OR ')})`);
+    sort.forEach((_, i) => params.push(...values.slice(0, i + 1)));
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const orderBy = sort.map(s => `${s.field} ${s.direction.toUpperCase()}`).join(', ');
+
+  const rows = await dbManager.execute<any[]>(
+    `SELECT * FROM ${config.table} ${where} ORDER BY ${orderBy} LIMIT ?`,
+    [...params, limit + 1]
+  );
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items: pageRows.map(mapRow),
+    nextCursor: hasMore && last ? encodeCursor(signature, sort.map(s => last[s.field])) : null,
+    hasMore,
+  };
+}
+
+/**
+ * Count rows matching a filter
+ * @param dbManager Database manager instance
+ * @param config Table configuration
+ * @param filter Filter spec
+ * @returns Number of matching rows
+ */
+export async function runCount<T>(
+  dbManager: IDatabaseManager,
+  config: TableQueryConfig<T>,
+  filter?: QueryFilter<T>
+): Promise<number> {
+  const { conditions, params } = buildConditions(config, filter);
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const result = await dbManager.execute<{ count: number }[]>(
+    `SELECT COUNT(*) as count FROM ${config.table} ${where}`,
+    params
+  );
+  return result[0]?.count || 0;
+}
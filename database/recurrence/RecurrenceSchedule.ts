@@ -0,0 +1,188 @@
+import {
+  RecurrenceExceptionRecord,
+  RecurrenceOccurrence,
+  RecurrenceRuleRecord,
+} from '../models/Records';
+import { DatabaseError } from '../errors/DatabaseErrors';
+
+/**
+ * Rule fields that decide when occurrences fall
+ */
+export type RecurrenceSchedule = Pick<
+  RecurrenceRuleRecord,
+  'frequency' | 'interval' | 'dayOfMonth' | 'dayOfWeek' | 'startDate' | 'endDate'
+>;
+
+/**
+ * Projected spend of a set of occurrences
+ */
+export interface ProjectedSpend {
+  total: number;
+  byCategory: Record<string, number>;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// All schedule arithmetic is done on UTC midnights, so occurrences do not drift with time zones
+const parseDay = (day: string): Date => new Date(`${day.slice(0, 10)}T00:00:00.000Z`);
+const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+
+/**
+ * Move a day forwards or backwards
+ * @param day YYYY-MM-DD
+ * @param days Number of days to add (negative to go back)
+ * @returns YYYY-MM-DD
+ */
+export function addDays(day: string, days: number): string {
+  const date = parseDay(day);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDay(date);
+}
+
+/**
+ * Check a rule's schedule before it is stored
+ * @param rule Schedule fields of the rule
+ * @throws DatabaseError if a field is out of range or the end date is before the start date
+ */
+export function validateSchedule(rule: RecurrenceSchedule): void {
+  if (!DAY.test(rule.startDate) || isNaN(parseDay(rule.startDate).getTime())) {
+    throw new DatabaseError(`Invalid start date: ${rule.startDate}`);
+  }
+  if (rule.endDate && (!DAY.test(rule.endDate) || rule.endDate < rule.startDate)) {
+    throw new DatabaseError(`Invalid end date: ${rule.endDate}`);
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    throw new DatabaseError(`Invalid interval: ${rule.interval}`);
+  }
+  if (rule.dayOfMonth != null && (!Number.isInteger(rule.dayOfMonth) || rule.dayOfMonth < 1 || rule.dayOfMonth > 31)) {
+    throw new DatabaseError(`Invalid day of month: ${rule.dayOfMonth}`);
+  }
+  if (rule.dayOfWeek != null && (!Number.isInteger(rule.dayOfWeek) || rule.dayOfWeek < 0 || rule.dayOfWeek > 6)) {
+    throw new DatabaseError(`Invalid day of week: ${rule.dayOfWeek}`);
+  }
+}
+
+/**
+ * Day of an occurrence in the month that is `offset` months after the start date
+ * @param rule Schedule fields of a monthly or last business day rule
+ * @param offset Months since the start month
+ * @returns YYYY-MM-DD
+ */
+function dayInMonth(rule: RecurrenceSchedule, offset: number): string {
+  const start = parseDay(rule.startDate);
+  const month = start.getUTCMonth() + offset;
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), month + 1, 0));
+
+  if (rule.frequency === 'last_business_day') {
+    // Saturday and Sunday move back to Friday
+    const weekday = lastDay.getUTCDay();
+    if (weekday === 6) lastDay.setUTCDate(lastDay.getUTCDate() - 1);
+    if (weekday === 0) lastDay.setUTCDate(lastDay.getUTCDate() - 2);
+    return formatDay(lastDay);
+  }
+
+  const day = Math.min(rule.dayOfMonth ?? start.getUTCDate(), lastDay.getUTCDate());
+  return formatDay(new Date(Date.UTC(start.getUTCFullYear(), month, day)));
+}
+
+/**
+ * List the scheduled dates of a rule within a window
+ * @param rule Schedule fields of the rule
+ * @param from First day of the window (YYYY-MM-DD)
+ * @param to Last day of the window (YYYY-MM-DD)
+ * @returns Scheduled dates in ascending order
+ */
+export function occurrenceDates(rule: RecurrenceSchedule, from: string, to: string): string[] {
+  const first = from > rule.startDate ? from : rule.startDate;
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  const dates: string[] = [];
+  if (first > last) return dates;
+
+  if (rule.frequency === 'monthly' || rule.frequency === 'last_business_day') {
+    const start = parseDay(rule.startDate);
+    const firstDay = parseDay(first);
+    const monthsToFirst = (firstDay.getUTCFullYear() - start.getUTCFullYear()) * 12
+      + firstDay.getUTCMonth() - start.getUTCMonth();
+
+    // Start at the last scheduled month on or before the month of `first`; its occurrence may still fall before `first`
+    for (let offset = Math.floor(monthsToFirst / rule.interval) * rule.interval; ; offset += rule.interval) {
+      const date = dayInMonth(rule, offset);
+      if (date > last) break;
+      if (date >= first) dates.push(date);
+    }
+    return dates;
+  }
+
+  // Weekly and every-N-days rules step a fixed number of days from their first occurrence
+  const step = rule.frequency === 'weekly' ? 7 * rule.interval : rule.interval;
+  let anchor = rule.startDate;
+  if (rule.frequency === 'weekly' && rule.dayOfWeek != null) {
+    anchor = addDays(rule.startDate, (rule.dayOfWeek - parseDay(rule.startDate).getUTCDay() + 7) % 7);
+  }
+
+  const skipped = Math.max(0, Math.ceil(daysBetween(anchor, first) / step));
+  for (let date = addDays(anchor, skipped * step); date <= last; date = addDays(date, step)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * List the occurrences of a rule within a window, with skipped occurrences left out and
+ * modified ones changed. The window applies to scheduled dates, not to moved ones.
+ * @param rule Recurrence rule
+ * @param exceptions Exceptions of the rule
+ * @param from First day of the window (YYYY-MM-DD)
+ * @param to Last day of the window (YYYY-MM-DD)
+ * @returns Occurrences ordered by the day they fall on
+ */
+export function projectOccurrences(
+  rule: RecurrenceRuleRecord,
+  exceptions: RecurrenceExceptionRecord[],
+  from: string,
+  to: string
+): RecurrenceOccurrence[] {
+  const byDate = new Map(exceptions.map(exception => [exception.occurrenceDate, exception]));
+  const occurrences: RecurrenceOccurrence[] = [];
+
+  for (const occurrenceDate of occurrenceDates(rule, from, to)) {
+    const exception = byDate.get(occurrenceDate);
+    if (exception?.action === 'skip') continue;
+
+    const modified = exception?.action === 'modify';
+    occurrences.push({
+      ruleId: rule.id!,
+      entityType: rule.entityType,
+      transactionType: rule.transactionType,
+      name: rule.name,
+      category: rule.category,
+      description: (modified && exception!.description) || rule.description || rule.name,
+      amount: modified && exception!.amount != null ? exception!.amount : rule.amount,
+      occurrenceDate,
+      date: (modified && exception!.date) || occurrenceDate,
+      modified,
+    });
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Add up the spend of occurrences; income and transfers do not count
+ * @param occurrences Occurrences to add up
+ * @returns Total and per-category spend
+ */
+export function projectedSpend(occurrences: RecurrenceOccurrence[]): ProjectedSpend {
+  const result: ProjectedSpend = { total: 0, byCategory: {} };
+
+  for (const occurrence of occurrences) {
+    if (occurrence.entityType === 'transaction' && occurrence.transactionType !== 'expense') continue;
+    result.total += occurrence.amount;
+    result.byCategory[occurrence.category] = (result.byCategory[occurrence.category] || 0) + occurrence.amount;
+  }
+
+  return result;
+}
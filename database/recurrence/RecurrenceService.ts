@@ -0,0 +1,295 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import {
+  IExpenseRepository,
+  IRecurrenceRuleRepository,
+  ITransactionRepository,
+} from '../interfaces/Repositories';
+import { ILogger } from '../interfaces/ILogger';
+import {
+  ChangeContext,
+  RecurrenceOccurrence,
+  RecurrenceRuleRecord,
+} from '../models/Records';
+import { DatabaseError, RecordNotFoundError } from '../errors/DatabaseErrors';
+import { addDays, occurrenceDates, projectOccurrences, projectedSpend, ProjectedSpend } from './RecurrenceSchedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records created for due occurrences are attributed to the scheduler
+ */
+const RECURRENCE_CONTEXT: ChangeContext = { actor: 'recurrence' };
+
+/**
+ * Changes to a single occurrence
+ */
+export interface OccurrenceChanges {
+  amount?: number;
+  date?: string; // move the occurrence to this day
+  description?: string;
+}
+
+/**
+ * RecurrenceService Class
+ * Creates expenses and transactions for recurrence rules as their occurrences come due,
+ * lists and projects upcoming occurrences, and skips or changes single occurrences
+ */
+export class RecurrenceService {
+  private readonly dbManager: IDatabaseManager;
+  private readonly rules: IRecurrenceRuleRepository;
+  private readonly expenses: IExpenseRepository;
+  private readonly transactions: ITransactionRepository;
+  private readonly logger: ILogger;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * RecurrenceService constructor
+   * @param dbManager Database manager instance
+   * @param rules Recurrence rule repository
+   * @param expenses Expense repository, for occurrences of expense rules
+   * @param transactions Transaction repository, for occurrences of transaction rules
+   * @param logger Logger instance
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    rules: IRecurrenceRuleRepository,
+    expenses: IExpenseRepository,
+    transactions: ITransactionRepository,
+    logger: ILogger
+  ) {
+    this.dbManager = dbManager;
+    this.rules = rules;
+    this.expenses = expenses;
+    this.transactions = transactions;
+    this.logger = logger;
+  }
+
+  /**
+   * Create records for every occurrence of an active rule that has come due.
+   * Occurrences are due on their scheduled date, and keep a moved date when they were changed.
+   * @param now Reference time
+   * @returns Number of records created
+   */
+  async materializeDue(now: Date = new Date()): Promise<number> {
+    const today = now.toISOString().slice(0, 10);
+    let created = 0;
+
+    for (const rule of await this.rules.getActive()) {
+      const from = this.nextUnmaterialized(rule);
+      if (from > today) continue;
+
+      const occurrences = projectOccurrences(rule, await this.rules.getExceptions(rule.id!), from, today);
+      for (const occurrence of occurrences) {
+        // An earlier run may have stopped between creating a record and moving the watermark
+        if (await this.findInstance(rule, occurrence.occurrenceDate) !== null) continue;
+        await this.createInstance(rule, occurrence);
+        created++;
+      }
+      await this.rules.setMaterializedThrough(rule.id!, today);
+    }
+
+    if (created > 0) {
+      this.logger.info(`Created ${created} recurring records`);
+    }
+    return created;
+  }
+
+  /**
+   * Get a user's occurrences that have not been created as records yet
+   * @param userId User ID
+   * @param days How many days ahead to look
+   * @param now Reference time
+   * @returns Occurrences ordered by the day they fall on
+   */
+  async getUpcoming(userId: string, days: number = 30, now: Date = new Date()): Promise<RecurrenceOccurrence[]> {
+    const today = now.toISOString().slice(0, 10);
+    return this.project(userId, today, addDays(today, days));
+  }
+
+  /**
+   * Add up a user's recurring spend that is still to come within a period,
+   * for budgets and spending forecasts
+   * @param userId User ID
+   * @param from First day of the period (YYYY-MM-DD)
+   * @param to Last day of the period (YYYY-MM-DD)
+   * @returns Total and per-category projected spend
+   */
+  async getProjectedSpend(userId: string, from: string, to: string): Promise<ProjectedSpend> {
+    return projectedSpend(await this.project(userId, from, to));
+  }
+
+  /**
+   * Skip one occurrence of a rule. If its record was already created, the record is deleted.
+   * @param ruleId Rule ID
+   * @param occurrenceDate Scheduled date of the occurrence
+   * @param context Who made the change and how
+   * @throws RecordNotFoundError if the rule does not exist
+   * @throws DatabaseError if the rule has no occurrence on that date
+   */
+  async skipOccurrence(ruleId: number, occurrenceDate: string, context?: ChangeContext): Promise<void> {
+    const rule = await this.getScheduledRule(ruleId, occurrenceDate);
+    await this.rules.saveException({ ruleId, occurrenceDate, action: 'skip' });
+
+    const instanceId = await this.findInstance(rule, occurrenceDate);
+    if (instanceId !== null) {
+      await this.repositoryFor(rule).delete(instanceId, context);
+    }
+    this.logger.info(`Skipped occurrence ${occurrenceDate} of recurrence rule ${ruleId}`);
+  }
+
+  /**
+   * Change the amount, day or description of one occurrence of a rule.
+   * If its record was already created, the record is updated as well.
+   * @param ruleId Rule ID
+   * @param occurrenceDate Scheduled date of the occurrence
+   * @param changes New amount, day and/or description
+   * @param context Who made the change and how
+   * @throws RecordNotFoundError if the rule does not exist
+   * @throws DatabaseError if the rule has no occurrence on that date
+   */
+  async modifyOccurrence(
+    ruleId: number,
+    occurrenceDate: string,
+    changes: OccurrenceChanges,
+    context?: ChangeContext
+  ): Promise<void> {
+    const rule = await this.getScheduledRule(ruleId, occurrenceDate);
+    await this.rules.saveException({ ruleId, occurrenceDate, action: 'modify', ...changes });
+
+    const instanceId = await this.findInstance(rule, occurrenceDate);
+    if (instanceId !== null) {
+      const updates = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+      if (Object.keys(updates).length > 0) {
+        await this.repositoryFor(rule).update(instanceId, updates, context);
+      }
+    }
+    this.logger.info(`Changed occurrence ${occurrenceDate} of recurrence rule ${ruleId}`);
+  }
+
+  /**
+   * Create due occurrences periodically
+   * @param intervalMs Interval between runs
+   */
+  start(intervalMs: number = DAY_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.materializeDue().catch(error => {
+        this.logger.error('Scheduled recurrence run failed', error instanceof Error ? error : undefined);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop creating due occurrences periodically
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Occurrences of a user's active rules in a window that have no record yet
+   * @param userId User ID
+   * @param from First day of the window
+   * @param to Last day of the window
+   * @returns Occurrences ordered by the day they fall on
+   */
+  private async project(userId: string, from: string, to: string): Promise<RecurrenceOccurrence[]> {
+    const occurrences: RecurrenceOccurrence[] = [];
+
+    for (const rule of await this.rules.getByUserId(userId, true)) {
+      const start = this.nextUnmaterialized(rule);
+      const exceptions = await this.rules.getExceptions(rule.id!);
+      occurrences.push(...projectOccurrences(rule, exceptions, start > from ? start : from, to));
+    }
+
+    return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * First scheduled day that may not have a record yet
+   * @param rule Recurrence rule
+   * @returns YYYY-MM-DD
+   */
+  private nextUnmaterialized(rule: RecurrenceRuleRecord): string {
+    return rule.materializedThrough ? addDays(rule.materializedThrough, 1) : rule.startDate;
+  }
+
+  /**
+   * Load a rule and check it has an occurrence on a date
+   * @param ruleId Rule ID
+   * @param occurrenceDate Scheduled date of the occurrence
+   * @returns Rule record
+   * @throws RecordNotFoundError if the rule does not exist
+   * @throws DatabaseError if the rule has no occurrence on that date
+   */
+  private async getScheduledRule(ruleId: number, occurrenceDate: string): Promise<RecurrenceRuleRecord> {
+    const rule = await this.rules.getById(ruleId);
+    if (!rule) {
+      throw new RecordNotFoundError(`Recurrence rule ${ruleId} not found`, 'recurrence_rules', ruleId);
+    }
+    if (occurrenceDates(rule, occurrenceDate, occurrenceDate).length === 0) {
+      throw new DatabaseError(`Recurrence rule ${ruleId} has no occurrence on ${occurrenceDate}`);
+    }
+    return rule;
+  }
+
+  /**
+   * Find the record created for an occurrence, including one in the trash
+   * @param rule Recurrence rule
+   * @param occurrenceDate Scheduled date of the occurrence
+   * @returns Record ID or null if none was created
+   */
+  private async findInstance(rule: RecurrenceRuleRecord, occurrenceDate: string): Promise<number | null> {
+    const table = rule.entityType === 'expense' ? 'expenses' : 'transactions';
+    const results = await this.dbManager.execute<{ id: number }[]>(
+      `SELECT id FROM ${table} WHERE recurrenceRuleId = ? AND occurrenceDate = ?`,
+      [rule.id, occurrenceDate]
+    );
+    return results.length > 0 ? results[0].id : null;
+  }
+
+  /**
+   * Create the expense or transaction of an occurrence
+   * @param rule Recurrence rule
+   * @param occurrence Due occurrence
+   * @returns Created record ID
+   */
+  private async createInstance(rule: RecurrenceRuleRecord, occurrence: RecurrenceOccurrence): Promise<number> {
+    const now = new Date().toISOString();
+    const common = {
+      amount: occurrence.amount,
+      category: occurrence.category,
+      description: occurrence.description,
+      date: occurrence.date,
+      recurrenceRuleId: rule.id!,
+      occurrenceDate: occurrence.occurrenceDate,
+      userId: rule.userId,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending' as const,
+    };
+
+    if (rule.entityType === 'expense') {
+      return this.expenses.create(
+        { ...common, merchant: rule.merchant || rule.name, isRecurring: true },
+        RECURRENCE_CONTEXT
+      );
+    }
+    return this.transactions.create(
+      { ...common, type: rule.transactionType || 'expense' },
+      RECURRENCE_CONTEXT
+    );
+  }
+
+  /**
+   * Repository holding the records of a rule
+   * @param rule Recurrence rule
+   * @returns Expense or transaction repository
+   */
+  private repositoryFor(rule: RecurrenceRuleRecord): IExpenseRepository | ITransactionRepository {
+    return rule.entityType === 'expense' ? this.expenses : this.transactions;
+  }
+}
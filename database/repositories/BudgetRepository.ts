@@ -0,0 +1,592 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IBudgetRepository, ISyncQueueRepository, IChangeHistoryRepository } from '../interfaces/Repositories';
+import { BudgetPeriod, BudgetRecord, SyncOperation, ChangeContext } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { QuerySpec, QueryFilter, Page } from '../interfaces/IRepository';
+import { runPagedQuery, runCount, TableQueryConfig } from '../query/PagedQuery';
+import { DatabaseError, RecordNotFoundError } from '../errors/DatabaseErrors';
+import { budgetWindow } from '../budgets/BudgetPeriod';
+import { addDays } from '../recurrence/RecurrenceSchedule';
+import { Budget } from '../../types/finance';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Filterable and sortable columns of the budgets table
+ */
+const BUDGET_QUERY_CONFIG: TableQueryConfig<BudgetRecord> = {
+  table: 'budgets',
+  filterable: [
+    'name', 'category', 'amount', 'period', 'startDate', 'endDate', 'isActive',
+    'userId', 'firebaseId', 'createdAt', 'updatedAt', 'syncStatus',
+  ],
+  sortable: ['name', 'category', 'amount', 'startDate', 'createdAt', 'updatedAt'],
+  booleanColumns: ['isActive'],
+  softDelete: true,
+  defaultSort: [{ field: 'name', direction: 'asc' }],
+};
+
+const PERIODS: BudgetPeriod[] = ['weekly', 'monthly', 'yearly'];
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * BudgetRepository Class
+ * Implements the IBudgetRepository interface for budget database operations.
+ * Spending is not stored with a budget; it is added up from the expenses of the current period.
+ */
+export class BudgetRepository implements IBudgetRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly syncQueue?: ISyncQueueRepository;
+  private readonly history?: IChangeHistoryRepository;
+
+  /**
+   * BudgetRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   * @param syncQueue Optional sync queue; when set, every change is queued for cloud sync
+   * @param history Optional change history; when set, every change is recorded with before and after images
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    logger: ILogger,
+    syncQueue?: ISyncQueueRepository,
+    history?: IChangeHistoryRepository
+  ) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+    this.syncQueue = syncQueue;
+    this.history = history;
+  }
+
+  /**
+   * Create a new budget record
+   * @param budget Budget data to create
+   * @param context Who made the change and how
+   * @returns Created budget ID
+   * @throws DatabaseError if the amount, period or dates are invalid
+   */
+  async create(budget: Omit<BudgetRecord, 'id'>, context?: ChangeContext): Promise<number> {
+    this.logger.debug('Creating budget record', { budget });
+    this.validate(budget);
+
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      `INSERT INTO budgets (
+        firebaseId, userId, name, category, amount, period, startDate, endDate,
+        isActive, createdAt, updatedAt, syncStatus
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        budget.firebaseId || null,
+        budget.userId,
+        budget.name,
+        budget.category ?? null,
+        budget.amount,
+        budget.period,
+        budget.startDate,
+        budget.endDate || null,
+        budget.isActive ? 1 : 0,
+        budget.createdAt || now,
+        budget.updatedAt || now,
+        budget.syncStatus
+      ]
+    );
+
+    this.logger.info(`Budget created with ID: ${result.lastInsertRowId}`);
+    await this.queueSync(result.lastInsertRowId, 'create');
+    await this.recordChange(result.lastInsertRowId, 'create', null, context);
+    changeEvents.emit({ entity: 'budget', operation: 'create', ids: [result.lastInsertRowId] });
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get a budget record by ID
+   * @param id Budget ID
+   * @param includeDeleted Also return the record while it is in the trash
+   * @returns Budget record or null if not found
+   */
+  async getById(id: number, includeDeleted: boolean = false): Promise<BudgetRecord | null> {
+    this.logger.debug(`Getting budget by ID: ${id}`);
+
+    const results = await this.dbManager.execute<BudgetRecord[]>(
+      includeDeleted
+        ? 'SELECT * FROM budgets WHERE id = ?'
+        : 'SELECT * FROM budgets WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (results.length === 0) {
+      this.logger.debug(`No budget found with ID: ${id}`);
+      return null;
+    }
+
+    return this.mapBudgetResult(results[0]);
+  }
+
+  /**
+   * Update an existing budget record
+   * @param id Budget ID
+   * @param updates Budget data to update
+   * @param context Who made the change and how
+   * @returns true if update successful
+   * @throws DatabaseError if the amount, period or dates are invalid
+   */
+  async update(id: number, updates: Partial<BudgetRecord>, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Updating budget with ID: ${id}`, { updates });
+    this.validate(updates);
+    const before = this.history ? await this.history.snapshot('budget', id) : null;
+
+    // Local edits need to reach the cloud again unless the caller manages syncStatus itself
+    const changes: Partial<BudgetRecord> = this.syncQueue && updates.syncStatus === undefined
+      ? { ...updates, syncStatus: 'pending' }
+      : updates;
+
+    const updateFields = Object.keys(changes).filter(key => key !== 'id' && key !== 'updatedAt');
+
+    if (updateFields.length === 0) {
+      this.logger.warn('No fields to update');
+      return false;
+    }
+
+    const setClause = updateFields.map(field => `${field} = ?`).join(', ');
+    const values = updateFields.map(field =>
+      field === 'isActive'
+        ? changes.isActive ? 1 : 0
+        : changes[field as keyof BudgetRecord]
+    );
+
+    const now = new Date().toISOString();
+    values.push(now);
+    values.push(id);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE budgets SET ${setClause}, updatedAt = ? WHERE id = ? AND deletedAt IS NULL`,
+      values
+    );
+
+    this.logger.info(`Updated budget ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'update');
+      await this.recordChange(id, 'update', before, context);
+      changeEvents.emit({ entity: 'budget', operation: 'update', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Move a budget record to the trash
+   * @param id Budget ID
+   * @param context Who made the change and how
+   * @returns true if the budget was deleted
+   */
+  async delete(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Deleting budget with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('budget', id) : null;
+
+    // The row stays behind as a tombstone until the deletion has synced and the trash is purged
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE budgets SET deletedAt = ?, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NULL`,
+      [now, now, id]
+    );
+
+    this.logger.info(`Deleted budget ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'delete');
+      await this.recordChange(id, 'delete', before, context);
+      changeEvents.emit({ entity: 'budget', operation: 'delete', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Take a budget record out of the trash
+   * @param id Budget ID
+   * @param context Who made the change and how
+   * @returns true if the budget was in the trash and has been restored
+   */
+  async restore(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Restoring budget with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('budget', id) : null;
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE budgets SET deletedAt = NULL, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NOT NULL`,
+      [new Date().toISOString(), id]
+    );
+
+    this.logger.info(`Restored budget ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      // Once the deletion has synced the remote copy is gone and has to be created again
+      const restored = await this.getById(id);
+      await this.queueSync(id, restored?.firebaseId ? 'update' : 'create', restored);
+      await this.recordChange(id, 'create', before, context);
+      changeEvents.emit({ entity: 'budget', operation: 'restore', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Get a user's budgets that are in the trash
+   * @param userId User ID
+   * @returns Array of deleted budget records, most recently deleted first
+   */
+  async getDeleted(userId: string): Promise<BudgetRecord[]> {
+    this.logger.debug(`Getting deleted budgets for user: ${userId}`);
+
+    const results = await this.dbManager.execute<BudgetRecord[]>(
+      'SELECT * FROM budgets WHERE userId = ? AND deletedAt IS NOT NULL ORDER BY deletedAt DESC',
+      [userId]
+    );
+
+    return results.map(this.mapBudgetResult);
+  }
+
+  /**
+   * Get budget records with optional filtering
+   * @param filter Filter criteria
+   * @param limit Maximum number of records to return
+   * @param offset Number of records to skip
+   * @returns Array of budget records
+   */
+  async getMany(
+    filter?: Partial<BudgetRecord>,
+    limit?: number,
+    offset: number = 0
+  ): Promise<BudgetRecord[]> {
+    let whereClause = 'WHERE deletedAt IS NULL';
+    const params: any[] = [];
+
+    if (filter && Object.keys(filter).length > 0) {
+      const conditions = Object.keys(filter).map(key => {
+        params.push(
+          key === 'isActive'
+            ? filter.isActive ? 1 : 0
+            : filter[key as keyof BudgetRecord]
+        );
+        return `${key} = ?`;
+      });
+      whereClause += ` AND ${conditions.join(' AND ')}`;
+    }
+
+    if (limit !== undefined) {
+      params.push(limit);
+      params.push(offset);
+    }
+
+    const query = `
+      SELECT * FROM budgets
+      ${whereClause}
+      ORDER BY name ASC
+      ${limit !== undefined ? 'LIMIT ? OFFSET ?' : ''}
+    `;
+
+    this.logger.debug(`Getting budgets with filter`, { filter, limit, offset });
+
+    const results = await this.dbManager.execute<BudgetRecord[]>(query, params);
+    return results.map(this.mapBudgetResult);
+  }
+
+  /**
+   * Get one page of budgets matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  async query(spec: QuerySpec<BudgetRecord> = {}): Promise<Page<BudgetRecord>> {
+    this.logger.debug('Querying budgets', { filter: spec.filter, sort: spec.sort, limit: spec.limit });
+    return runPagedQuery(this.dbManager, BUDGET_QUERY_CONFIG, spec, this.mapBudgetResult);
+  }
+
+  /**
+   * Count budgets matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  async count(filter?: QueryFilter<BudgetRecord>): Promise<number> {
+    return runCount(this.dbManager, BUDGET_QUERY_CONFIG, filter);
+  }
+
+  /**
+   * Get budgets for a specific user
+   * @param userId User ID
+   * @param activeOnly Whether to only return active budgets
+   * @returns Array of budget records
+   */
+  async getByUserId(userId: string, activeOnly: boolean = false): Promise<BudgetRecord[]> {
+    this.logger.debug(`Getting budgets for user: ${userId}`, { activeOnly });
+
+    const query = activeOnly
+      ? 'SELECT * FROM budgets WHERE userId = ? AND deletedAt IS NULL AND isActive = 1 ORDER BY name ASC'
+      : 'SELECT * FROM budgets WHERE userId = ? AND deletedAt IS NULL ORDER BY name ASC';
+
+    const results = await this.dbManager.execute<BudgetRecord[]>(query, [userId]);
+    return results.map(this.mapBudgetResult);
+  }
+
+  /**
+   * Set the limit of a user's budget for a category and period, creating the budget if needed.
+   * A new budget starts on the first day of the current month.
+   * @param userId User ID
+   * @param category Category, or null for the overall budget
+   * @param amount Limit per period in ZAR
+   * @param period How often the limit resets
+   * @param context Who made the change and how
+   * @returns Budget ID
+   * @throws DatabaseError if the amount is not positive
+   */
+  async setLimit(
+    userId: string,
+    category: string | null,
+    amount: number,
+    period: BudgetPeriod = 'monthly',
+    context?: ChangeContext
+  ): Promise<number> {
+    const existing = await this.dbManager.execute<{ id: number }[]>(
+      `SELECT id FROM budgets
+       WHERE userId = ? AND COALESCE(category, '') = ? AND period = ? AND deletedAt IS NULL`,
+      [userId, category ?? '', period]
+    );
+
+    if (existing.length > 0) {
+      await this.update(existing[0].id, { amount, isActive: true }, context);
+      return existing[0].id;
+    }
+
+    const now = new Date().toISOString();
+    return this.create({
+      userId,
+      name: category ?? 'Overall',
+      category,
+      amount,
+      period,
+      startDate: `${now.slice(0, 7)}-01`,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending',
+    }, context);
+  }
+
+  /**
+   * Move part of one category budget's limit to another, creating the receiving budget if needed.
+   * Both limits change in one transaction, so money is never lost or counted twice, and
+   * both changes are recorded as one batch, so an undo puts both limits back.
+   * @param userId User ID
+   * @param fromCategory Category giving up the amount
+   * @param toCategory Category receiving it
+   * @param amount Amount in ZAR
+   * @param period Period of both budgets
+   * @param context Who made the change and how
+   * @returns IDs of the budget moved from and the budget moved to
+   * @throws RecordNotFoundError if there is no budget to move from
+   * @throws DatabaseError if the amount is not positive, would leave nothing in the budget it comes from, or the categories are the same
+   */
+  async transferLimit(
+    userId: string,
+    fromCategory: string,
+    toCategory: string,
+    amount: number,
+    period: BudgetPeriod = 'monthly',
+    context?: ChangeContext
+  ): Promise<{ fromId: number; toId: number }> {
+    if (!isFinite(amount) || amount <= 0) {
+      throw new DatabaseError(`Invalid transfer amount: ${amount}`);
+    }
+    if (fromCategory === toCategory) {
+      throw new DatabaseError('Cannot move money within the same budget');
+    }
+
+    const find = async (category: string) => (await this.dbManager.execute<BudgetRecord[]>(
+      'SELECT * FROM budgets WHERE userId = ? AND category = ? AND period = ? AND deletedAt IS NULL',
+      [userId, category, period]
+    )).map(this.mapBudgetResult)[0];
+
+    const from = await find(fromCategory);
+    if (!from) {
+      throw new RecordNotFoundError(`No ${period} ${fromCategory} budget to move money from`, 'budgets');
+    }
+    // A limit can't be zero; remove the budget instead
+    if (from.amount <= amount) {
+      throw new DatabaseError(`The ${fromCategory} budget is ${from.amount.toFixed(2)}; moving ${amount.toFixed(2)} would leave nothing`);
+    }
+    const to = await find(toCategory);
+    const fromBefore = this.history ? await this.history.snapshot('budget', from.id!) : null;
+    const toBefore = this.history && to ? await this.history.snapshot('budget', to.id!) : null;
+
+    const now = new Date().toISOString();
+    const cents = (value: number) => Math.round(value * 100) / 100;
+    const receive = to
+      ? {
+        query: 'UPDATE budgets SET amount = ?, isActive = 1, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        params: [cents(to.amount + amount), now, 'pending', to.id],
+      }
+      : {
+        query: `INSERT INTO budgets (userId, name, category, amount, period, startDate, isActive, createdAt, updatedAt, syncStatus)
+          VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?)`,
+        params: [userId, toCategory, toCategory, cents(amount), period, `${now.slice(0, 7)}-01`, now, now, 'pending'],
+      };
+    const results = await this.dbManager.transaction<{ lastInsertRowId: number }>([
+      {
+        query: 'UPDATE budgets SET amount = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        params: [cents(from.amount - amount), now, 'pending', from.id],
+      },
+      receive,
+    ]);
+
+    const toId = to ? to.id! : results[1].lastInsertRowId;
+    this.logger.info(`Moved ${amount} from budget ${from.id} to budget ${toId}`);
+    await this.queueSync(from.id!, 'update');
+    await this.queueSync(toId, to ? 'update' : 'create');
+    const batch = { ...context, batchId: context?.batchId ?? `budget-transfer:${from.id}:${toId}:${now}` };
+    await this.recordChange(from.id!, 'update', fromBefore, batch);
+    await this.recordChange(toId, to ? 'update' : 'create', toBefore, batch);
+    changeEvents.emit({ entity: 'budget', operation: 'update', ids: to ? [from.id!, toId] : [from.id!] });
+    if (!to) changeEvents.emit({ entity: 'budget', operation: 'create', ids: [toId] });
+    return { fromId: from.id!, toId };
+  }
+
+  /**
+   * Add up the expenses counting against a budget in the period that contains a day.
+   * An overall budget counts expenses of every category; a category budget counts
+   * the splits of split expenses that went to its category.
+   * @param budget Budget record
+   * @param date Day within the period (YYYY-MM-DD), today when omitted
+   * @returns Spent amount in ZAR
+   */
+  async getSpent(budget: BudgetRecord, date: string = new Date().toISOString().slice(0, 10)): Promise<number> {
+    const window = budgetWindow(budget, date);
+    // Expense dates may carry a time, so compare against the start of the day after the window
+    const params: any[] = [budget.userId, window.start, addDays(window.end, 1)];
+    let query = `SELECT COALESCE(SUM(amount), 0) AS spent FROM expenses
+       WHERE userId = ? AND deletedAt IS NULL AND date >= ? AND date < ?`;
+
+    if (budget.category) {
+      // Only the part of a split expense that went to the category counts
+      query = `SELECT COALESCE(SUM(COALESCE(s.amount, e.amount)), 0) AS spent
+       FROM expenses e LEFT JOIN expense_splits s ON s.expenseId = e.id
+       WHERE e.userId = ? AND e.deletedAt IS NULL AND e.date >= ? AND e.date < ?
+       AND COALESCE(s.category, e.category) = ?`;
+      params.push(budget.category);
+    }
+
+    const results = await this.dbManager.execute<{ spent: number }[]>(query, params);
+    return results[0]?.spent ?? 0;
+  }
+
+  /**
+   * Get a user's active budgets with their spending in the current period
+   * @param userId User ID
+   * @param date Day within the period (YYYY-MM-DD), today when omitted
+   * @returns Budgets with the window of the current period
+   */
+  async getBudgets(userId: string, date: string = new Date().toISOString().slice(0, 10)): Promise<Budget[]> {
+    const budgets: Budget[] = [];
+
+    for (const record of await this.getByUserId(userId, true)) {
+      // Budgets that have not started yet or have ended do not apply
+      if (record.startDate > date || (record.endDate && record.endDate < date)) continue;
+
+      const window = budgetWindow(record, date);
+      budgets.push({
+        id: String(record.id),
+        category: record.category ?? record.name,
+        limit: record.amount,
+        spent: await this.getSpent(record, date),
+        period: record.period,
+        startDate: window.start,
+        endDate: window.end,
+      });
+    }
+
+    return budgets;
+  }
+
+  /**
+   * Check the amount, period and dates of a budget before they are stored
+   * @param budget Budget fields being written
+   * @throws DatabaseError if a field is invalid
+   */
+  private validate(budget: Partial<BudgetRecord>): void {
+    if (budget.amount !== undefined && (!isFinite(budget.amount) || budget.amount <= 0)) {
+      throw new DatabaseError(`Invalid budget amount: ${budget.amount}`);
+    }
+    if (budget.period !== undefined && !PERIODS.includes(budget.period)) {
+      throw new DatabaseError(`Invalid budget period: ${budget.period}`);
+    }
+    if (budget.startDate !== undefined && !DAY.test(budget.startDate)) {
+      throw new DatabaseError(`Invalid start date: ${budget.startDate}`);
+    }
+    if (budget.endDate && (!DAY.test(budget.endDate) || (budget.startDate && budget.endDate < budget.startDate))) {
+      throw new DatabaseError(`Invalid end date: ${budget.endDate}`);
+    }
+  }
+
+  /**
+   * Queue a change for cloud sync when a sync queue is configured.
+   * Failures are logged, not thrown: the local write has already succeeded, and
+   * SyncEngine.enqueueUntracked() re-queues records still marked as pending.
+   * @param id Budget ID
+   * @param operation Mutation that was applied
+   * @param snapshot Record snapshot (loaded from the database when omitted)
+   */
+  private async queueSync(id: number, operation: SyncOperation, snapshot?: BudgetRecord | null): Promise<void> {
+    if (!this.syncQueue) return;
+
+    try {
+      const data = snapshot ?? await this.getById(id, true);
+      await this.syncQueue.enqueue('budget', id, operation, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to queue budget ${id} for sync: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Append a change to the change history, if one is configured.
+   * Failures are logged, not thrown: the local write has already succeeded.
+   * @param id Budget ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change
+   * @param context Who made the change and how
+   */
+  private async recordChange(
+    id: number,
+    operation: SyncOperation,
+    before: Record<string, any> | null,
+    context?: ChangeContext
+  ): Promise<void> {
+    if (!this.history) return;
+
+    try {
+      await this.history.record('budget', id, operation, before, context);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record change to budget ${id}: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Map a raw budget result to BudgetRecord type
+   * @param row Raw database row
+   * @returns Formatted BudgetRecord
+   */
+  private mapBudgetResult(row: any): BudgetRecord {
+    return {
+      id: row.id,
+      firebaseId: row.firebaseId,
+      userId: row.userId,
+      name: row.name,
+      category: row.category ?? null,
+      amount: row.amount,
+      period: row.period as BudgetPeriod,
+      startDate: row.startDate,
+      endDate: row.endDate ?? null,
+      isActive: Boolean(row.isActive),
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
+      deletedAt: row.deletedAt ?? null
+    };
+  }
+}
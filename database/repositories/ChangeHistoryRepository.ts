@@ -0,0 +1,408 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IChangeHistoryRepository, ISyncQueueRepository } from '../interfaces/Repositories';
+import { ChangeContext, ChangeEntityType, ChangeOperation, ChangeRecord, ChangeSource } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { DatabaseError, RecordNotFoundError } from '../errors/DatabaseErrors';
+import { changeEvents } from '../events/ChangeEventBus';
+import { ChangeEventOperation } from '../interfaces/IChangeEventBus';
+
+/**
+ * Tables holding each entity type
+ */
+const ENTITY_TABLES: Record<ChangeEntityType, string> = {
+  expense: 'expenses',
+  receipt: 'receipts',
+  goal: 'financial_goals',
+  transaction: 'transactions',
+  budget: 'budgets',
+};
+
+/**
+ * Columns ignored when checking whether a record was modified after a change:
+ * sync bookkeeping, and the trash marker, which revert checks on its own
+ */
+const BOOKKEEPING_COLUMNS = ['syncStatus', 'firebaseId', 'updatedAt', 'deletedAt'];
+
+const COLUMN_NAME = /^\w+$/;
+
+/**
+ * RevertPlan Interface
+ * Statements that revert one change, and what to sync and announce once they are committed
+ */
+interface RevertPlan {
+  entityType: ChangeEntityType;
+  entityId: number;
+  mutation: { query: string; params: any[] };
+  entry: { query: string; params: any[] };
+  syncOperation: ChangeOperation;
+  syncData: Record<string, any> | null;
+  eventOperation: ChangeEventOperation;
+}
+
+/**
+ * ChangeHistoryRepository Class
+ * Implements the IChangeHistoryRepository interface on the append-only change_history table
+ */
+export class ChangeHistoryRepository implements IChangeHistoryRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly syncQueue?: ISyncQueueRepository;
+
+  /**
+   * ChangeHistoryRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   * @param syncQueue Optional sync queue; when set, reverts are queued for cloud sync
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger, syncQueue?: ISyncQueueRepository) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+    this.syncQueue = syncQueue;
+  }
+
+  /**
+   * Read the raw row of a record, for use as the "before" image of a change
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @returns Raw row or null if the record does not exist
+   */
+  async snapshot(entityType: ChangeEntityType, entityId: number): Promise<Record<string, any> | null> {
+    const rows = await this.dbManager.execute<Record<string, any>[]>(
+      `SELECT * FROM ${ENTITY_TABLES[entityType]} WHERE id = ?`,
+      [entityId]
+    );
+    return rows[0] ? { ...rows[0] } : null;
+  }
+
+  /**
+   * Append a change; the "after" image is read from the database
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change (null for creates)
+   * @param context Who made the change and how
+   * @returns Change ID
+   */
+  async record(
+    entityType: ChangeEntityType,
+    entityId: number,
+    operation: ChangeOperation,
+    before: Record<string, any> | null,
+    context: ChangeContext = {}
+  ): Promise<number> {
+    const after = operation === 'delete' ? null : await this.snapshot(entityType, entityId);
+    const { query, params } = this.insertQuery(entityType, entityId, operation, before, after, context, null);
+
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(query, params);
+    this.logger.debug(`Recorded ${operation} of ${entityType} ${entityId} as change ${result.lastInsertRowId}`);
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get a change by ID
+   * @param id Change ID
+   * @returns Change or null if not found
+   */
+  async getById(id: number): Promise<ChangeRecord | null> {
+    const results = await this.dbManager.execute<any[]>(
+      'SELECT * FROM change_history WHERE id = ?',
+      [id]
+    );
+    return results.length > 0 ? this.mapChangeResult(results[0]) : null;
+  }
+
+  /**
+   * Get all changes of a record, newest first
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @returns Array of changes
+   */
+  async getHistory(entityType: ChangeEntityType, entityId: number): Promise<ChangeRecord[]> {
+    this.logger.debug(`Getting change history of ${entityType} ${entityId}`);
+
+    const results = await this.dbManager.execute<any[]>(
+      'SELECT * FROM change_history WHERE entityType = ? AND entityId = ? ORDER BY id DESC',
+      [entityType, entityId]
+    );
+    return results.map(this.mapChangeResult);
+  }
+
+  /**
+   * Get a user's most recent changes, newest first
+   * @param userId User ID
+   * @param limit Maximum number of changes to return
+   * @returns Array of changes
+   */
+  async getRecent(userId: string, limit: number = 20): Promise<ChangeRecord[]> {
+    const results = await this.dbManager.execute<any[]>(
+      'SELECT * FROM change_history WHERE userId = ? ORDER BY id DESC LIMIT ?',
+      [userId, limit]
+    );
+    return results.map(this.mapChangeResult);
+  }
+
+  /**
+   * Put a record back the way it was before a change.
+   * The record is restored and the revert is recorded in one transaction.
+   * @param changeId Change to revert
+   * @param context Who requested the revert and how
+   * @returns The change that performed the revert
+   * @throws RecordNotFoundError if the change does not exist
+   * @throws DatabaseError if the change was already reverted or the record was modified since
+   */
+  async revert(changeId: number, context: ChangeContext = {}): Promise<ChangeRecord> {
+    this.logger.info(`Reverting change ${changeId}`);
+
+    const change = await this.getById(changeId);
+    if (!change) {
+      throw new RecordNotFoundError(`Change ${changeId} not found`, 'change_history', changeId);
+    }
+
+    const [revertChange] = await this.revertAll([change], context);
+    this.logger.info(`Reverted change ${changeId} with change ${revertChange.id}`);
+    return revertChange;
+  }
+
+  /**
+   * Revert the user's most recent change that has not been reverted yet, together with
+   * the other changes of its batch.
+   * Reverts themselves are skipped, so repeated undos keep stepping back.
+   * @param userId User ID
+   * @param context Who requested the undo and how
+   * @returns The change that reverted the most recent change, or null if there is nothing to undo
+   * @throws DatabaseError if a record of the batch was modified since; nothing is reverted then
+   */
+  async undoLatest(userId: string, context: ChangeContext = {}): Promise<ChangeRecord | null> {
+    const unreverted = `c.userId = ? AND c.revertOf IS NULL
+         AND NOT EXISTS (SELECT 1 FROM change_history r WHERE r.revertOf = c.id)`;
+    const results = await this.dbManager.execute<any[]>(
+      `SELECT c.* FROM change_history c
+       WHERE ${unreverted}
+       ORDER BY c.id DESC
+       LIMIT 1`,
+      [userId]
+    );
+
+    if (results.length === 0) {
+      this.logger.info(`Nothing to undo for user: ${userId}`);
+      return null;
+    }
+
+    const latest = this.mapChangeResult(results[0]);
+    const batch = latest.batchId
+      ? (await this.dbManager.execute<any[]>(
+        `SELECT c.* FROM change_history c
+         WHERE ${unreverted} AND c.batchId = ?
+         ORDER BY c.id DESC`,
+        [userId, latest.batchId]
+      )).map(this.mapChangeResult)
+      : [latest];
+
+    this.logger.info(`Undoing changes ${batch.map(change => change.id).join(', ')} for user: ${userId}`);
+    const [revertChange] = await this.revertAll(batch, context);
+    return revertChange;
+  }
+
+  /**
+   * Put records back the way they were before some changes, newest change first.
+   * Every change is checked before anything is written, then all records are restored and
+   * the reverts recorded in one transaction.
+   * @param changes Changes to revert, newest first
+   * @param context Who requested the revert and how
+   * @returns The changes that performed the reverts, in the same order
+   * @throws DatabaseError if a change was already reverted or its record was modified since
+   */
+  private async revertAll(changes: ChangeRecord[], context: ChangeContext): Promise<ChangeRecord[]> {
+    const plans: RevertPlan[] = [];
+    for (const change of changes) {
+      plans.push(await this.planRevert(change, context));
+    }
+
+    const results = await this.dbManager.transaction<{ lastInsertRowId: number }>(
+      plans.flatMap(plan => [plan.mutation, plan.entry])
+    );
+
+    const reverts: ChangeRecord[] = [];
+    for (const [index, plan] of plans.entries()) {
+      await this.queueSync(plan.entityType, plan.entityId, plan.syncOperation, plan.syncData);
+      changeEvents.emit({ entity: plan.entityType, operation: plan.eventOperation, ids: [plan.entityId] });
+      reverts.push((await this.getById(results[index * 2 + 1].lastInsertRowId))!);
+    }
+    return reverts;
+  }
+
+  /**
+   * Check that a change can be reverted and build the statements that revert it
+   * @param change Change to revert
+   * @param context Who requested the revert and how
+   * @returns Statements restoring the record and recording the revert, and what to sync and announce afterwards
+   * @throws DatabaseError if the change was already reverted or the record was modified since
+   */
+  private async planRevert(change: ChangeRecord, context: ChangeContext): Promise<RevertPlan> {
+    const changeId = change.id!;
+    const reverted = await this.dbManager.execute<{ id: number }[]>(
+      'SELECT id FROM change_history WHERE revertOf = ?',
+      [changeId]
+    );
+    if (reverted.length > 0) {
+      throw new DatabaseError(`Change ${changeId} was already reverted by change ${reverted[0].id}`);
+    }
+
+    const { entityType, entityId } = change;
+    const table = ENTITY_TABLES[entityType];
+    const current = await this.snapshot(entityType, entityId);
+    // A record in the trash counts as deleted
+    const live = current && !current.deletedAt ? current : null;
+    if (!this.sameContent(live, change.after)) {
+      throw new DatabaseError(`The ${entityType} was modified after change ${changeId}; revert the later changes first`);
+    }
+
+    const now = new Date().toISOString();
+    let operation: ChangeOperation;
+    let mutation: { query: string; params: any[] };
+    let restored: Record<string, any> | null = null;
+
+    if (change.operation === 'create') {
+      operation = 'delete';
+      mutation = {
+        query: `UPDATE ${table} SET deletedAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?`,
+        params: [now, now, 'pending', entityId],
+      };
+    } else {
+      // The remote ID belongs to the current row: the remote copy may have been created or removed since
+      const { firebaseId, ...before } = change.before!;
+      restored = { ...before, id: entityId, updatedAt: now, syncStatus: 'pending', deletedAt: null };
+      const columns = Object.keys(restored);
+      if (columns.some(column => !COLUMN_NAME.test(column))) {
+        throw new DatabaseError(`Change ${changeId} holds an invalid column name`);
+      }
+
+      operation = change.operation === 'delete' ? 'create' : 'update';
+      if (current) {
+        const updated = columns.filter(column => column !== 'id');
+        mutation = {
+          query: `UPDATE ${table} SET ${updated.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+          params: [...updated.map(column => restored![column]), entityId],
+        };
+      } else {
+        // Purged from the trash since
+        mutation = {
+          query: `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+          params: columns.map(column => restored![column]),
+        };
+      }
+      restored.firebaseId = current?.firebaseId ?? null;
+    }
+
+    return {
+      entityType,
+      entityId,
+      mutation,
+      entry: this.insertQuery(entityType, entityId, operation, live, restored, context, changeId),
+      syncOperation: operation === 'create' && restored?.firebaseId ? 'update' : operation,
+      syncData: restored ?? { ...current, deletedAt: now },
+      eventOperation: operation === 'create' ? 'restore' : operation,
+    };
+  }
+
+  /**
+   * Build the INSERT for a change entry
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change
+   * @param after Raw row after the change
+   * @param context Who made the change and how
+   * @param revertOf Change reverted by this entry
+   * @returns Query and parameters
+   */
+  private insertQuery(
+    entityType: ChangeEntityType,
+    entityId: number,
+    operation: ChangeOperation,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+    context: ChangeContext,
+    revertOf: number | null
+  ): { query: string; params: any[] } {
+    const userId = (after ?? before)?.userId ?? null;
+    return {
+      query: `INSERT INTO change_history (
+        entityType, entityId, operation, beforeData, afterData, userId, actor, source, revertOf, batchId, createdAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      params: [
+        entityType,
+        entityId,
+        operation,
+        before ? JSON.stringify(before) : null,
+        after ? JSON.stringify(after) : null,
+        userId,
+        context.actor || userId || 'system',
+        context.source || 'manual',
+        revertOf,
+        context.batchId ?? null,
+        new Date().toISOString(),
+      ],
+    };
+  }
+
+  /**
+   * Compare two raw rows, ignoring bookkeeping columns
+   * @param a First row
+   * @param b Second row
+   * @returns true if both hold the same user data
+   */
+  private sameContent(a: Record<string, any> | null, b: Record<string, any> | null): boolean {
+    if (!a || !b) return a === b;
+    const strip = (row: Record<string, any>) =>
+      JSON.stringify(Object.keys(row).filter(key => !BOOKKEEPING_COLUMNS.includes(key)).sort().map(key => [key, row[key]]));
+    return strip(a) === strip(b);
+  }
+
+  /**
+   * Queue a reverted record for cloud sync.
+   * Failures are logged, not thrown: the revert has already been committed.
+   * @param entityType Entity type
+   * @param entityId Record ID
+   * @param operation Mutation that the revert applied
+   * @param data Row after the revert (before it, for deletes)
+   */
+  private async queueSync(
+    entityType: ChangeEntityType,
+    entityId: number,
+    operation: ChangeOperation,
+    data: Record<string, any> | null
+  ): Promise<void> {
+    if (!this.syncQueue) return;
+
+    try {
+      await this.syncQueue.enqueue(entityType, entityId, operation, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to queue reverted ${entityType} ${entityId} for sync: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Map a raw change_history row to ChangeRecord type
+   * @param row Raw database row
+   * @returns Formatted ChangeRecord
+   */
+  private mapChangeResult(row: any): ChangeRecord {
+    return {
+      id: row.id,
+      entityType: row.entityType as ChangeEntityType,
+      entityId: row.entityId,
+      operation: row.operation as ChangeOperation,
+      before: row.beforeData ? JSON.parse(row.beforeData) : null,
+      after: row.afterData ? JSON.parse(row.afterData) : null,
+      userId: row.userId ?? null,
+      actor: row.actor,
+      source: row.source as ChangeSource,
+      revertOf: row.revertOf ?? null,
+      batchId: row.batchId ?? null,
+      createdAt: row.createdAt,
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IEducationRepository } from '../interfaces/Repositories';
+import { EducationalProgressRecord, UserAchievementRecord } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { DatabaseError } from '../errors/DatabaseErrors';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * EducationRepository Class
+ * Implements the IEducationRepository interface for the educational_progress and user_achievements tables.
+ * Both hold at most one row per user and lesson or achievement.
+ */
+export class EducationRepository implements IEducationRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * EducationRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Get a user's lesson progress
+   * @param userId User ID
+   * @param courseId Only lessons of this course when given
+   * @returns Progress records, most recently completed first
+   */
+  async getProgress(userId: string, courseId?: string): Promise<EducationalProgressRecord[]> {
+    this.logger.debug(`Getting lesson progress for user: ${userId}`, { courseId });
+
+    const rows = await this.dbManager.execute<any[]>(
+      `SELECT * FROM educational_progress
+       WHERE userId = ?${courseId ? ' AND courseId = ?' : ''}
+       ORDER BY COALESCE(completedAt, createdAt) DESC, id DESC`,
+      courseId ? [userId, courseId] : [userId]
+    );
+    return rows.map(row => this.mapProgress(row));
+  }
+
+  /**
+   * Mark a lesson completed; completing it again keeps the best score
+   * @param userId User ID
+   * @param courseId Course ID
+   * @param lessonId Lesson ID
+   * @param score Score (XP) earned
+   * @returns Stored progress record
+   * @throws DatabaseError if the score is negative or not a number
+   */
+  async completeLesson(userId: string, courseId: string, lessonId: string, score: number): Promise<EducationalProgressRecord> {
+    if (!Number.isFinite(score) || score < 0) {
+      throw new DatabaseError(`Invalid lesson score: ${score}`);
+    }
+    this.logger.debug(`Completing lesson ${courseId}/${lessonId} for user: ${userId}`, { score });
+
+    const now = new Date().toISOString();
+    await this.dbManager.execute(
+      `INSERT INTO educational_progress (userId, courseId, lessonId, completed, score, completedAt, createdAt)
+       VALUES (?, ?, ?, 1, ?, ?, ?)
+       ON CONFLICT (userId, courseId, lessonId) DO UPDATE SET
+         completed = 1,
+         score = MAX(score, excluded.score),
+         completedAt = COALESCE(completedAt, excluded.completedAt)`,
+      [userId, courseId, lessonId, Math.round(score), now, now]
+    );
+
+    const rows = await this.dbManager.execute<any[]>(
+      'SELECT * FROM educational_progress WHERE userId = ? AND courseId = ? AND lessonId = ?',
+      [userId, courseId, lessonId]
+    );
+    const record = this.mapProgress(rows[0]);
+    changeEvents.emit({ entity: 'education', operation: 'update', ids: [record.id!] });
+    return record;
+  }
+
+  /**
+   * Get a user's unlocked achievements
+   * @param userId User ID
+   * @returns Achievements, oldest first
+   */
+  async getAchievements(userId: string): Promise<UserAchievementRecord[]> {
+    this.logger.debug(`Getting achievements for user: ${userId}`);
+
+    return this.dbManager.execute<UserAchievementRecord[]>(
+      'SELECT * FROM user_achievements WHERE userId = ? ORDER BY unlockedAt, id',
+      [userId]
+    );
+  }
+
+  /**
+   * Unlock an achievement
+   * @param userId User ID
+   * @param achievementId Achievement ID
+   * @returns true if the achievement was newly unlocked
+   */
+  async unlockAchievement(userId: string, achievementId: string): Promise<boolean> {
+    this.logger.debug(`Unlocking achievement ${achievementId} for user: ${userId}`);
+
+    const result = await this.dbManager.execute<{ changes: number; lastInsertRowId: number }>(
+      'INSERT OR IGNORE INTO user_achievements (userId, achievementId, unlockedAt) VALUES (?, ?, ?)',
+      [userId, achievementId, new Date().toISOString()]
+    );
+    if (result.changes === 0) return false;
+
+    changeEvents.emit({ entity: 'education', operation: 'create', ids: [result.lastInsertRowId] });
+    return true;
+  }
+
+  /**
+   * Map a database row to a progress record
+   * @param row Database row
+   * @returns Progress record
+   */
+  private mapProgress(row: any): EducationalProgressRecord {
+    return {
+      ...row,
+      completed: Boolean(row.completed),
+      completedAt: row.completedAt ?? undefined,
+    };
+  }
+}
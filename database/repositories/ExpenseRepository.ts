@@ -1,8 +1,37 @@
 import { IDatabaseManager } from '../interfaces/IDatabaseManager';
-import { IExpenseRepository } from '../interfaces/Repositories';
-import { ExpenseRecord } from '../models/Records';
+import {
+  IExpenseRepository,
+  ISyncQueueRepository,
+  IChangeHistoryRepository,
+  IFxRateRepository,
+} from '../interfaces/Repositories';
+import { ExpenseRecord, SyncOperation, ChangeContext, TagMatchMode } from '../models/Records';
 import { ILogger } from '../interfaces/ILogger';
-import { QueryError } from '../errors/DatabaseErrors';
+import { QuerySpec, QueryFilter, Page } from '../interfaces/IRepository';
+import { runPagedQuery, runCount, TableQueryConfig } from '../query/PagedQuery';
+import { QueryError, FxRateNotFoundError } from '../errors/DatabaseErrors';
+import { BASE_CURRENCY, convertToBaseCurrency } from '../../utils/currency';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Filterable and sortable columns of the expenses table
+ */
+const EXPENSE_QUERY_CONFIG: TableQueryConfig<ExpenseRecord> = {
+  table: 'expenses',
+  filterable: [
+    'amount', 'category', 'merchant', 'description', 'date', 'receiptUrl', 'isRecurring',
+    'currency', 'originalAmount', 'recurrenceRuleId', 'occurrenceDate', 'userId', 'firebaseId', 'createdAt', 'updatedAt', 'syncStatus',
+  ],
+  sortable: ['date', 'amount', 'category', 'merchant', 'createdAt', 'updatedAt'],
+  booleanColumns: ['isRecurring'],
+  softDelete: true,
+  defaultSort: [{ field: 'date', direction: 'desc' }, { field: 'createdAt', direction: 'desc' }],
+};
+
+/**
+ * Fields that change how much an expense is worth in ZAR
+ */
+const MONEY_FIELDS = ['amount', 'date', 'currency', 'originalAmount', 'fxRate'] as const;
 
 /**
  * ExpenseRepository Class
@@ -11,40 +40,66 @@ import { QueryError } from '../errors/DatabaseErrors';
 export class ExpenseRepository implements IExpenseRepository {
   private readonly dbManager: IDatabaseManager;
   private readonly logger: ILogger;
+  private readonly syncQueue?: ISyncQueueRepository;
+  private readonly history?: IChangeHistoryRepository;
+  private readonly fxRates?: IFxRateRepository;
   
   /**
    * ExpenseRepository constructor
    * @param dbManager Database manager instance
    * @param logger Logger instance
+   * @param syncQueue Optional sync queue; when set, every change is queued for cloud sync
+   * @param history Optional change history; when set, every change is recorded with before and after images
+   * @param fxRates Optional exchange rates; needed to convert foreign spend that comes without a rate
    */
-  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+  constructor(
+    dbManager: IDatabaseManager,
+    logger: ILogger,
+    syncQueue?: ISyncQueueRepository,
+    history?: IChangeHistoryRepository,
+    fxRates?: IFxRateRepository
+  ) {
     this.dbManager = dbManager;
     this.logger = logger;
+    this.syncQueue = syncQueue;
+    this.history = history;
+    this.fxRates = fxRates;
   }
   
   /**
-   * Create a new expense record
+   * Create a new expense record.
+   * Foreign spend is converted to ZAR: originalAmount (or amount when it is missing) is taken
+   * in the expense currency and converted at fxRate, or at the stored rate for the expense date.
    * @param expense Expense data to create
+   * @param context Who made the change and how
    * @returns Created expense ID
+   * @throws FxRateNotFoundError if a foreign expense has no rate and none is stored
    */
-  async create(expense: Omit<ExpenseRecord, 'id'>): Promise<number> {
+  async create(expense: Omit<ExpenseRecord, 'id'>, context?: ChangeContext): Promise<number> {
     this.logger.debug('Creating expense record', { expense });
+    const money = await this.convertAmount(expense);
     
     const now = new Date().toISOString();
     const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
       `INSERT INTO expenses (
         firebaseId, amount, category, merchant, description, date, 
-        receiptUrl, isRecurring, userId, createdAt, updatedAt, syncStatus
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        receiptUrl, isRecurring, currency, originalAmount, fxRate,
+        recurrenceRuleId, occurrenceDate, userId, createdAt, updatedAt, syncStatus
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         expense.firebaseId || null,
-        expense.amount,
+        money.amount,
         expense.category,
         expense.merchant,
         expense.description,
         expense.date,
         expense.receiptUrl || null,
         expense.isRecurring ? 1 : 0,
+        money.currency,
+        money.originalAmount,
+        money.fxRate,
+        expense.recurrenceRuleId ?? null,
+        expense.occurrenceDate ?? null,
         expense.userId,
         expense.createdAt || now,
         expense.updatedAt || now,
@@ -53,19 +108,25 @@ export class ExpenseRepository implements IExpenseRepository {
     );
     
     this.logger.info(`Expense created with ID: ${result.lastInsertRowId}`);
+    await this.queueSync(result.lastInsertRowId, 'create');
+    await this.recordChange(result.lastInsertRowId, 'create', null, context);
+    changeEvents.emit({ entity: 'expense', operation: 'create', ids: [result.lastInsertRowId] });
     return result.lastInsertRowId;
   }
   
   /**
    * Get an expense record by ID
    * @param id Expense ID
+   * @param includeDeleted Also return the record while it is in the trash
    * @returns Expense record or null if not found
    */
-  async getById(id: number): Promise<ExpenseRecord | null> {
+  async getById(id: number, includeDeleted: boolean = false): Promise<ExpenseRecord | null> {
     this.logger.debug(`Getting expense by ID: ${id}`);
     
     const results = await this.dbManager.execute<ExpenseRecord[]>(
-      'SELECT * FROM expenses WHERE id = ?',
+      includeDeleted
+        ? 'SELECT * FROM expenses WHERE id = ?'
+        : 'SELECT * FROM expenses WHERE id = ? AND deletedAt IS NULL',
       [id]
     );
     
@@ -81,13 +142,37 @@ export class ExpenseRepository implements IExpenseRepository {
    * Update an existing expense record
    * @param id Expense ID
    * @param updates Expense data to update
+   * @param context Who made the change and how
    * @returns true if update successful
+   * @throws FxRateNotFoundError if the update makes the expense foreign spend without a rate
    */
-  async update(id: number, updates: Partial<ExpenseRecord>): Promise<boolean> {
+  async update(id: number, updates: Partial<ExpenseRecord>, context?: ChangeContext): Promise<boolean> {
     this.logger.debug(`Updating expense with ID: ${id}`, { updates });
+    const before = this.history ? await this.history.snapshot('expense', id) : null;
     
+    // Local edits need to reach the cloud again unless the caller manages syncStatus itself
+    const changes: Partial<ExpenseRecord> = this.syncQueue && updates.syncStatus === undefined
+      ? { ...updates, syncStatus: 'pending' }
+      : { ...updates };
+
+    // Keep the ZAR amount in step with the original spend
+    if (MONEY_FIELDS.some(field => updates[field] !== undefined)) {
+      const current = await this.getById(id);
+      if (current) {
+        Object.assign(changes, await this.convertAmount({
+          amount: updates.amount ?? current.amount,
+          date: updates.date ?? current.date,
+          currency: updates.currency ?? current.currency,
+          // A new amount without an original amount is the amount in the expense currency
+          originalAmount: updates.originalAmount ?? (updates.amount !== undefined ? undefined : current.originalAmount),
+          // Moving the expense to another currency or day needs that day's rate
+          fxRate: updates.fxRate ?? (updates.currency !== undefined || updates.date !== undefined ? undefined : current.fxRate),
+        }));
+      }
+    }
+
     // Filter out id field and create update fields
-    const updateFields = Object.keys(updates).filter(key => key !== 'id');
+    const updateFields = Object.keys(changes).filter(key => key !== 'id');
     
     if (updateFields.length === 0) {
       this.logger.warn('No fields to update');
@@ -97,8 +182,8 @@ export class ExpenseRepository implements IExpenseRepository {
     const setClause = updateFields.map(field => `${field} = ?`).join(', ');
     const values = updateFields.map(field => 
       field === 'isRecurring' 
-        ? updates.isRecurring ? 1 : 0 
-        : updates[field as keyof ExpenseRecord]
+        ? changes.isRecurring ? 1 : 0 
+        : changes[field as keyof ExpenseRecord]
     );
     
     // Add updatedAt and id to parameters
@@ -107,31 +192,87 @@ export class ExpenseRepository implements IExpenseRepository {
     values.push(id);
     
     const result = await this.dbManager.execute<{ changes: number }>(
-      `UPDATE expenses SET ${setClause}, updatedAt = ? WHERE id = ?`,
+      `UPDATE expenses SET ${setClause}, updatedAt = ? WHERE id = ? AND deletedAt IS NULL`,
       values
     );
     
     this.logger.info(`Updated expense ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'update');
+      await this.recordChange(id, 'update', before, context);
+      changeEvents.emit({ entity: 'expense', operation: 'update', ids: [id] });
+    }
     return result.changes > 0;
   }
   
   /**
-   * Delete an expense record
+   * Move an expense record to the trash
    * @param id Expense ID
-   * @returns true if deletion successful
+   * @param context Who made the change and how
+   * @returns true if the expense was deleted
    */
-  async delete(id: number): Promise<boolean> {
+  async delete(id: number, context?: ChangeContext): Promise<boolean> {
     this.logger.debug(`Deleting expense with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('expense', id) : null;
     
+    // The row stays behind as a tombstone until the deletion has synced and the trash is purged
+    const now = new Date().toISOString();
     const result = await this.dbManager.execute<{ changes: number }>(
-      'DELETE FROM expenses WHERE id = ?',
-      [id]
+      `UPDATE expenses SET deletedAt = ?, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NULL`,
+      [now, now, id]
     );
     
     this.logger.info(`Deleted expense ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'delete');
+      await this.recordChange(id, 'delete', before, context);
+      changeEvents.emit({ entity: 'expense', operation: 'delete', ids: [id] });
+    }
     return result.changes > 0;
   }
   
+  /**
+   * Take an expense record out of the trash
+   * @param id Expense ID
+   * @param context Who made the change and how
+   * @returns true if the expense was in the trash and has been restored
+   */
+  async restore(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Restoring expense with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('expense', id) : null;
+    
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE expenses SET deletedAt = NULL, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NOT NULL`,
+      [new Date().toISOString(), id]
+    );
+    
+    this.logger.info(`Restored expense ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      // Once the deletion has synced the remote copy is gone and has to be created again
+      const restored = await this.getById(id);
+      await this.queueSync(id, restored?.firebaseId ? 'update' : 'create', restored);
+      await this.recordChange(id, 'create', before, context);
+      changeEvents.emit({ entity: 'expense', operation: 'restore', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+  
+  /**
+   * Get a user's expenses that are in the trash
+   * @param userId User ID
+   * @returns Array of deleted expense records, most recently deleted first
+   */
+  async getDeleted(userId: string): Promise<ExpenseRecord[]> {
+    this.logger.debug(`Getting deleted expenses for user: ${userId}`);
+    
+    const results = await this.dbManager.execute<ExpenseRecord[]>(
+      'SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NOT NULL ORDER BY deletedAt DESC',
+      [userId]
+    );
+    
+    return results.map(this.mapExpenseResult);
+  }
+  
   /**
    * Get expense records with optional filtering
    * @param filter Filter criteria
@@ -145,7 +286,7 @@ export class ExpenseRepository implements IExpenseRepository {
     offset: number = 0
   ): Promise<ExpenseRecord[]> {
     // Build WHERE clause from filter
-    let whereClause = '';
+    let whereClause = 'WHERE deletedAt IS NULL';
     const params: any[] = [];
     
     if (filter && Object.keys(filter).length > 0) {
@@ -157,7 +298,7 @@ export class ExpenseRepository implements IExpenseRepository {
         );
         return `${key} = ?`;
       });
-      whereClause = `WHERE ${conditions.join(' AND ')}`;
+      whereClause += ` AND ${conditions.join(' AND ')}`;
     }
     
     // Add pagination parameters
@@ -179,6 +320,26 @@ export class ExpenseRepository implements IExpenseRepository {
     return results.map(this.mapExpenseResult);
   }
   
+  /**
+   * Get one page of expenses matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  async query(spec: QuerySpec<ExpenseRecord> = {}): Promise<Page<ExpenseRecord>> {
+    this.logger.debug('Querying expenses', { filter: spec.filter, sort: spec.sort, limit: spec.limit });
+    return runPagedQuery(this.dbManager, EXPENSE_QUERY_CONFIG, spec, this.mapExpenseResult);
+  }
+
+  /**
+   * Count expenses matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  async count(filter?: QueryFilter<ExpenseRecord>): Promise<number> {
+    return runCount(this.dbManager, EXPENSE_QUERY_CONFIG, filter);
+  }
+
   /**
    * Get expenses for a specific user
    * @param userId User ID
@@ -189,8 +350,8 @@ export class ExpenseRepository implements IExpenseRepository {
     this.logger.debug(`Getting expenses for user: ${userId}`, { limit });
     
     const query = limit 
-      ? 'SELECT * FROM expenses WHERE userId = ? ORDER BY date DESC, createdAt DESC LIMIT ?'
-      : 'SELECT * FROM expenses WHERE userId = ? ORDER BY date DESC, createdAt DESC';
+      ? 'SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC, createdAt DESC LIMIT ?'
+      : 'SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC, createdAt DESC';
     
     const params = limit ? [userId, limit] : [userId];
     const results = await this.dbManager.execute<ExpenseRecord[]>(query, params);
@@ -209,8 +370,8 @@ export class ExpenseRepository implements IExpenseRepository {
     this.logger.debug(`Getting expenses for user ${userId} in category: ${category}`, { limit });
     
     const query = limit 
-      ? 'SELECT * FROM expenses WHERE userId = ? AND category = ? ORDER BY date DESC, createdAt DESC LIMIT ?'
-      : 'SELECT * FROM expenses WHERE userId = ? AND category = ? ORDER BY date DESC, createdAt DESC';
+      ? 'SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NULL AND category = ? ORDER BY date DESC, createdAt DESC LIMIT ?'
+      : 'SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NULL AND category = ? ORDER BY date DESC, createdAt DESC';
     
     const params = limit ? [userId, category, limit] : [userId, category];
     const results = await this.dbManager.execute<ExpenseRecord[]>(query, params);
@@ -229,7 +390,7 @@ export class ExpenseRepository implements IExpenseRepository {
     this.logger.debug(`Getting expenses for user ${userId} between ${startDate} and ${endDate}`);
     
     const results = await this.dbManager.execute<ExpenseRecord[]>(
-      'SELECT * FROM expenses WHERE userId = ? AND date >= ? AND date <= ? ORDER BY date DESC, createdAt DESC',
+      'SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NULL AND date >= ? AND date <= ? ORDER BY date DESC, createdAt DESC',
       [userId, startDate, endDate]
     );
     
@@ -278,6 +439,42 @@ export class ExpenseRepository implements IExpenseRepository {
     return result.changes;
   }
   
+  /**
+   * Get expenses carrying the given tags
+   * @param userId User ID
+   * @param tagIds Tag IDs to match
+   * @param mode 'any' returns expenses with at least one tag, 'all' only those with every tag
+   * @returns Array of expense records
+   */
+  async getByTags(userId: string, tagIds: number[], mode: TagMatchMode = 'any'): Promise<ExpenseRecord[]> {
+    if (tagIds.length === 0) {
+      return [];
+    }
+    
+    this.logger.debug(`Getting expenses for user ${userId} tagged with ${mode} of: ${tagIds.join(', ')}`);
+    
+    const uniqueIds = Array.from(new Set(tagIds));
+    const placeholders = uniqueIds.map(() => '?').join(',');
+    
+    // 'all' keeps only expenses linked to every requested tag
+    const having = mode === 'all' ? 'HAVING COUNT(DISTINCT et.tagId) = ?' : '';
+    const params: any[] = mode === 'all'
+      ? [userId, ...uniqueIds, uniqueIds.length]
+      : [userId, ...uniqueIds];
+    
+    const results = await this.dbManager.execute<ExpenseRecord[]>(
+      `SELECT e.* FROM expenses e
+       JOIN expense_tags et ON et.expenseId = e.id
+       WHERE e.userId = ? AND e.deletedAt IS NULL AND et.tagId IN (${placeholders})
+       GROUP BY e.id
+       ${having}
+       ORDER BY e.date DESC, e.createdAt DESC`,
+      params
+    );
+    
+    return results.map(this.mapExpenseResult);
+  }
+  
   /**
    * Get expense statistics for analysis
    * @param userId User ID
@@ -317,14 +514,17 @@ export class ExpenseRepository implements IExpenseRepository {
     try {
       // Get total expenses
       const totalResult = await this.dbManager.execute<{ total: number }[]>(
-        'SELECT SUM(amount) as total FROM expenses WHERE userId = ? AND date >= ?',
+        'SELECT SUM(amount) as total FROM expenses WHERE userId = ? AND deletedAt IS NULL AND date >= ?',
         [userId, startDateStr]
       );
       const total = totalResult[0]?.total || 0;
       
-      // Get expenses by category
+      // Get expenses by category; split expenses count towards the categories of their splits
       const categoriesResult = await this.dbManager.execute<{ category: string; total: number }[]>(
-        'SELECT category, SUM(amount) as total FROM expenses WHERE userId = ? AND date >= ? GROUP BY category ORDER BY total DESC',
+        `SELECT COALESCE(s.category, e.category) AS category, SUM(COALESCE(s.amount, e.amount)) AS total
+         FROM expenses e LEFT JOIN expense_splits s ON s.expenseId = e.id
+         WHERE e.userId = ? AND e.deletedAt IS NULL AND e.date >= ?
+         GROUP BY COALESCE(s.category, e.category) ORDER BY total DESC`,
         [userId, startDateStr]
       );
       
@@ -336,7 +536,7 @@ export class ExpenseRepository implements IExpenseRepository {
       
       // Get most expensive transaction
       const expensiveResult = await this.dbManager.execute<ExpenseRecord[]>(
-        'SELECT * FROM expenses WHERE userId = ? AND date >= ? ORDER BY amount DESC LIMIT 1',
+        'SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NULL AND date >= ? ORDER BY amount DESC LIMIT 1',
         [userId, startDateStr]
       );
       
@@ -362,6 +562,79 @@ export class ExpenseRepository implements IExpenseRepository {
     }
   }
   
+  /**
+   * Queue a change for cloud sync when a sync queue is configured.
+   * Failures are logged, not thrown: the local write has already succeeded, and
+   * SyncEngine.enqueueUntracked() re-queues records still marked as pending.
+   * @param id Expense ID
+   * @param operation Mutation that was applied
+   * @param snapshot Record snapshot (loaded from the database when omitted)
+   */
+  private async queueSync(id: number, operation: SyncOperation, snapshot?: ExpenseRecord | null): Promise<void> {
+    if (!this.syncQueue) return;
+
+    try {
+      const data = snapshot ?? await this.getById(id, true);
+      await this.syncQueue.enqueue('expense', id, operation, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to queue expense ${id} for sync: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Append a change to the change history, if one is configured.
+   * Failures are logged, not thrown: the local write has already succeeded.
+   * @param id Expense ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change
+   * @param context Who made the change and how
+   */
+  private async recordChange(
+    id: number,
+    operation: SyncOperation,
+    before: Record<string, any> | null,
+    context?: ChangeContext
+  ): Promise<void> {
+    if (!this.history) return;
+
+    try {
+      await this.history.record('expense', id, operation, before, context);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record change to expense ${id}: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Work out the ZAR amount of an expense from the amount it was paid in
+   * @param expense Amount, date and currency fields of the expense
+   * @returns Money columns to store
+   * @throws FxRateNotFoundError if foreign spend has no rate and none is stored
+   */
+  private async convertAmount(
+    expense: Pick<ExpenseRecord, 'amount' | 'date' | 'currency' | 'originalAmount' | 'fxRate'>
+  ): Promise<{ amount: number; currency: string; originalAmount: number; fxRate: number }> {
+    const currency = (expense.currency || BASE_CURRENCY).toUpperCase();
+    const originalAmount = expense.originalAmount ?? expense.amount;
+
+    if (currency === BASE_CURRENCY) {
+      return { amount: originalAmount, currency, originalAmount, fxRate: 1 };
+    }
+    // A rate given with the expense, e.g. from a card statement, wins over the rate table
+    if (expense.fxRate) {
+      return { amount: convertToBaseCurrency(originalAmount, expense.fxRate), currency, originalAmount, fxRate: expense.fxRate };
+    }
+    if (!this.fxRates) {
+      throw new FxRateNotFoundError(`No exchange rates available to convert ${currency}`, currency, expense.date);
+    }
+
+    const converted = await this.fxRates.convert(originalAmount, currency, expense.date);
+    return { amount: converted.amount, currency, originalAmount, fxRate: converted.rate };
+  }
+
   /**
    * Map a raw expense result to ExpenseRecord type
    * @param row Raw database row
@@ -381,7 +654,13 @@ export class ExpenseRepository implements IExpenseRepository {
       userId: row.userId,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
-      syncStatus: row.syncStatus as 'synced' | 'pending' | 'error'
+      syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
+      deletedAt: row.deletedAt ?? null,
+      currency: row.currency || BASE_CURRENCY,
+      originalAmount: row.originalAmount ?? row.amount,
+      fxRate: row.fxRate ?? 1,
+      recurrenceRuleId: row.recurrenceRuleId ?? null,
+      occurrenceDate: row.occurrenceDate ?? null
     };
   }
 }
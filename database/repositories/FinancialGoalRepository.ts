@@ -0,0 +1,461 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IFinancialGoalRepository, ISyncQueueRepository, IChangeHistoryRepository } from '../interfaces/Repositories';
+import { FinancialGoalRecord, SyncOperation, ChangeContext } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { QuerySpec, QueryFilter, Page } from '../interfaces/IRepository';
+import { runPagedQuery, runCount, TableQueryConfig } from '../query/PagedQuery';
+import { DatabaseError, RecordNotFoundError } from '../errors/DatabaseErrors';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Filterable and sortable columns of the financial_goals table
+ */
+const FINANCIAL_GOAL_QUERY_CONFIG: TableQueryConfig<FinancialGoalRecord> = {
+  table: 'financial_goals',
+  filterable: [
+    'title', 'targetAmount', 'currentAmount', 'deadline', 'category', 'isActive',
+    'userId', 'firebaseId', 'createdAt', 'updatedAt', 'syncStatus',
+  ],
+  sortable: ['deadline', 'title', 'targetAmount', 'createdAt', 'updatedAt'],
+  booleanColumns: ['isActive'],
+  softDelete: true,
+  defaultSort: [{ field: 'deadline', direction: 'asc' }, { field: 'createdAt', direction: 'desc' }],
+};
+
+/**
+ * FinancialGoalRepository Class
+ * Implements the IFinancialGoalRepository interface for savings goal database operations
+ */
+export class FinancialGoalRepository implements IFinancialGoalRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly syncQueue?: ISyncQueueRepository;
+  private readonly history?: IChangeHistoryRepository;
+
+  /**
+   * FinancialGoalRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   * @param syncQueue Optional sync queue; when set, every change is queued for cloud sync
+   * @param history Optional change history; when set, every change is recorded with before and after images
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    logger: ILogger,
+    syncQueue?: ISyncQueueRepository,
+    history?: IChangeHistoryRepository
+  ) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+    this.syncQueue = syncQueue;
+    this.history = history;
+  }
+
+  /**
+   * Create a new financial goal record
+   * @param goal Goal data to create
+   * @param context Who made the change and how
+   * @returns Created goal ID
+   */
+  async create(goal: Omit<FinancialGoalRecord, 'id'>, context?: ChangeContext): Promise<number> {
+    this.logger.debug('Creating financial goal record', { goal });
+
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      `INSERT INTO financial_goals (
+        firebaseId, title, description, targetAmount, currentAmount, deadline,
+        category, userId, isActive, createdAt, updatedAt, syncStatus
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        goal.firebaseId || null,
+        goal.title,
+        goal.description,
+        goal.targetAmount,
+        goal.currentAmount || 0,
+        goal.deadline,
+        goal.category,
+        goal.userId,
+        goal.isActive ? 1 : 0,
+        goal.createdAt || now,
+        goal.updatedAt || now,
+        goal.syncStatus
+      ]
+    );
+
+    this.logger.info(`Financial goal created with ID: ${result.lastInsertRowId}`);
+    await this.queueSync(result.lastInsertRowId, 'create');
+    await this.recordChange(result.lastInsertRowId, 'create', null, context);
+    changeEvents.emit({ entity: 'goal', operation: 'create', ids: [result.lastInsertRowId] });
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get a financial goal record by ID
+   * @param id Goal ID
+   * @param includeDeleted Also return the record while it is in the trash
+   * @returns Goal record or null if not found
+   */
+  async getById(id: number, includeDeleted: boolean = false): Promise<FinancialGoalRecord | null> {
+    this.logger.debug(`Getting financial goal by ID: ${id}`);
+
+    const results = await this.dbManager.execute<FinancialGoalRecord[]>(
+      includeDeleted
+        ? 'SELECT * FROM financial_goals WHERE id = ?'
+        : 'SELECT * FROM financial_goals WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (results.length === 0) {
+      this.logger.debug(`No financial goal found with ID: ${id}`);
+      return null;
+    }
+
+    return this.mapGoalResult(results[0]);
+  }
+
+  /**
+   * Update an existing financial goal record
+   * @param id Goal ID
+   * @param updates Goal data to update
+   * @param context Who made the change and how
+   * @returns true if update successful
+   */
+  async update(id: number, updates: Partial<FinancialGoalRecord>, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Updating financial goal with ID: ${id}`, { updates });
+    const before = this.history ? await this.history.snapshot('goal', id) : null;
+
+    // Local edits need to reach the cloud again unless the caller manages syncStatus itself
+    const changes: Partial<FinancialGoalRecord> = this.syncQueue && updates.syncStatus === undefined
+      ? { ...updates, syncStatus: 'pending' }
+      : updates;
+
+    // Filter out id field and create update fields
+    const updateFields = Object.keys(changes).filter(key => key !== 'id' && key !== 'updatedAt');
+
+    if (updateFields.length === 0) {
+      this.logger.warn('No fields to update');
+      return false;
+    }
+
+    const setClause = updateFields.map(field => `${field} = ?`).join(', ');
+    const values = updateFields.map(field =>
+      field === 'isActive'
+        ? changes.isActive ? 1 : 0
+        : changes[field as keyof FinancialGoalRecord]
+    );
+
+    // Add updatedAt and id to parameters
+    const now = new Date().toISOString();
+    values.push(now);
+    values.push(id);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE financial_goals SET ${setClause}, updatedAt = ? WHERE id = ? AND deletedAt IS NULL`,
+      values
+    );
+
+    this.logger.info(`Updated financial goal ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'update');
+      await this.recordChange(id, 'update', before, context);
+      changeEvents.emit({ entity: 'goal', operation: 'update', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Move a financial goal record to the trash
+   * @param id Goal ID
+   * @param context Who made the change and how
+   * @returns true if the financial goal was deleted
+   */
+  async delete(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Deleting financial goal with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('goal', id) : null;
+
+    // The row stays behind as a tombstone until the deletion has synced and the trash is purged
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE financial_goals SET deletedAt = ?, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NULL`,
+      [now, now, id]
+    );
+
+    this.logger.info(`Deleted financial goal ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'delete');
+      await this.recordChange(id, 'delete', before, context);
+      changeEvents.emit({ entity: 'goal', operation: 'delete', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Take a financial goal record out of the trash
+   * @param id Goal ID
+   * @param context Who made the change and how
+   * @returns true if the financial goal was in the trash and has been restored
+   */
+  async restore(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Restoring financial goal with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('goal', id) : null;
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE financial_goals SET deletedAt = NULL, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NOT NULL`,
+      [new Date().toISOString(), id]
+    );
+
+    this.logger.info(`Restored financial goal ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      // Once the deletion has synced the remote copy is gone and has to be created again
+      const restored = await this.getById(id);
+      await this.queueSync(id, restored?.firebaseId ? 'update' : 'create', restored);
+      await this.recordChange(id, 'create', before, context);
+      changeEvents.emit({ entity: 'goal', operation: 'restore', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Get a user's financial goals that are in the trash
+   * @param userId User ID
+   * @returns Array of deleted financial goal records, most recently deleted first
+   */
+  async getDeleted(userId: string): Promise<FinancialGoalRecord[]> {
+    this.logger.debug(`Getting deleted financial goals for user: ${userId}`);
+
+    const results = await this.dbManager.execute<FinancialGoalRecord[]>(
+      'SELECT * FROM financial_goals WHERE userId = ? AND deletedAt IS NOT NULL ORDER BY deletedAt DESC',
+      [userId]
+    );
+
+    return results.map(this.mapGoalResult);
+  }
+
+  /**
+   * Get financial goal records with optional filtering
+   * @param filter Filter criteria
+   * @param limit Maximum number of records to return
+   * @param offset Number of records to skip
+   * @returns Array of goal records
+   */
+  async getMany(
+    filter?: Partial<FinancialGoalRecord>,
+    limit?: number,
+    offset: number = 0
+  ): Promise<FinancialGoalRecord[]> {
+    // Build WHERE clause from filter
+    let whereClause = 'WHERE deletedAt IS NULL';
+    const params: any[] = [];
+
+    if (filter && Object.keys(filter).length > 0) {
+      const conditions = Object.keys(filter).map(key => {
+        params.push(
+          key === 'isActive'
+            ? filter.isActive ? 1 : 0
+            : filter[key as keyof FinancialGoalRecord]
+        );
+        return `${key} = ?`;
+      });
+      whereClause += ` AND ${conditions.join(' AND ')}`;
+    }
+
+    // Add pagination parameters
+    if (limit !== undefined) {
+      params.push(limit);
+      params.push(offset);
+    }
+
+    const query = `
+      SELECT * FROM financial_goals
+      ${whereClause}
+      ORDER BY deadline ASC, createdAt DESC
+      ${limit !== undefined ? 'LIMIT ? OFFSET ?' : ''}
+    `;
+
+    this.logger.debug(`Getting financial goals with filter`, { filter, limit, offset });
+
+    const results = await this.dbManager.execute<FinancialGoalRecord[]>(query, params);
+    return results.map(this.mapGoalResult);
+  }
+
+  /**
+   * Get one page of financial goals matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  async query(spec: QuerySpec<FinancialGoalRecord> = {}): Promise<Page<FinancialGoalRecord>> {
+    this.logger.debug('Querying financial goals', { filter: spec.filter, sort: spec.sort, limit: spec.limit });
+    return runPagedQuery(this.dbManager, FINANCIAL_GOAL_QUERY_CONFIG, spec, this.mapGoalResult);
+  }
+
+  /**
+   * Count financial goals matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  async count(filter?: QueryFilter<FinancialGoalRecord>): Promise<number> {
+    return runCount(this.dbManager, FINANCIAL_GOAL_QUERY_CONFIG, filter);
+  }
+
+  /**
+   * Get financial goals for a specific user
+   * @param userId User ID
+   * @param activeOnly Whether to only return active goals
+   * @returns Array of goal records
+   */
+  async getByUserId(userId: string, activeOnly: boolean = false): Promise<FinancialGoalRecord[]> {
+    this.logger.debug(`Getting financial goals for user: ${userId}`, { activeOnly });
+
+    const query = activeOnly
+      ? 'SELECT * FROM financial_goals WHERE userId = ? AND deletedAt IS NULL AND isActive = 1 ORDER BY deadline ASC, createdAt DESC'
+      : 'SELECT * FROM financial_goals WHERE userId = ? AND deletedAt IS NULL ORDER BY deadline ASC, createdAt DESC';
+
+    const results = await this.dbManager.execute<FinancialGoalRecord[]>(query, [userId]);
+
+    return results.map(this.mapGoalResult);
+  }
+
+  /**
+   * Get goals by category
+   * @param userId User ID
+   * @param category Goal category
+   * @returns Array of goal records
+   */
+  async getByCategory(userId: string, category: string): Promise<FinancialGoalRecord[]> {
+    this.logger.debug(`Getting financial goals for user ${userId} in category: ${category}`);
+
+    const results = await this.dbManager.execute<FinancialGoalRecord[]>(
+      'SELECT * FROM financial_goals WHERE userId = ? AND deletedAt IS NULL AND category = ? ORDER BY deadline ASC, createdAt DESC',
+      [userId, category]
+    );
+
+    return results.map(this.mapGoalResult);
+  }
+
+  /**
+   * Update goal progress
+   * Marks the goal as pending sync so the new amount is pushed on the next sync run.
+   * @param id Goal ID
+   * @param currentAmount New current amount
+   * @param context Who made the change and how
+   * @returns Updated goal record
+   * @throws RecordNotFoundError if the goal does not exist
+   */
+  async updateProgress(id: number, currentAmount: number, context?: ChangeContext): Promise<FinancialGoalRecord> {
+    this.logger.debug(`Updating progress for financial goal ${id}`, { currentAmount });
+
+    if (!isFinite(currentAmount) || currentAmount < 0) {
+      throw new DatabaseError(`Invalid goal amount: ${currentAmount}`);
+    }
+
+    const before = this.history ? await this.history.snapshot('goal', id) : null;
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ changes: number }>(
+      'UPDATE financial_goals SET currentAmount = ?, syncStatus = ?, updatedAt = ? WHERE id = ? AND deletedAt IS NULL',
+      [currentAmount, 'pending', now, id]
+    );
+
+    if (result.changes === 0) {
+      this.logger.warn(`No financial goal found with ID: ${id}`);
+      throw new RecordNotFoundError(`Financial goal ${id} not found`, 'financial_goals', id);
+    }
+
+    const updated = await this.getById(id);
+    if (!updated) {
+      throw new RecordNotFoundError(`Financial goal ${id} not found`, 'financial_goals', id);
+    }
+
+    this.logger.info(`Updated progress for financial goal ID ${id}: ${updated.currentAmount}/${updated.targetAmount}`);
+    await this.queueSync(id, 'update', updated);
+    await this.recordChange(id, 'update', before, context);
+    changeEvents.emit({ entity: 'goal', operation: 'update', ids: [id] });
+    return updated;
+  }
+
+  /**
+   * Get pending goals for sync
+   * @param userId User ID
+   * @returns Array of goal records pending synchronization
+   */
+  async getPendingSync(userId: string): Promise<FinancialGoalRecord[]> {
+    this.logger.debug(`Getting pending sync financial goals for user: ${userId}`);
+
+    const results = await this.dbManager.execute<FinancialGoalRecord[]>(
+      'SELECT * FROM financial_goals WHERE userId = ? AND syncStatus = ? ORDER BY createdAt ASC',
+      [userId, 'pending']
+    );
+
+    return results.map(this.mapGoalResult);
+  }
+
+  /**
+   * Queue a change for cloud sync when a sync queue is configured.
+   * Failures are logged, not thrown: the local write has already succeeded, and
+   * SyncEngine.enqueueUntracked() re-queues records still marked as pending.
+   * @param id Goal ID
+   * @param operation Mutation that was applied
+   * @param snapshot Record snapshot (loaded from the database when omitted)
+   */
+  private async queueSync(id: number, operation: SyncOperation, snapshot?: FinancialGoalRecord | null): Promise<void> {
+    if (!this.syncQueue) return;
+
+    try {
+      const data = snapshot ?? await this.getById(id, true);
+      await this.syncQueue.enqueue('goal', id, operation, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to queue financial goal ${id} for sync: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Append a change to the change history, if one is configured.
+   * Failures are logged, not thrown: the local write has already succeeded.
+   * @param id Financial goal ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change
+   * @param context Who made the change and how
+   */
+  private async recordChange(
+    id: number,
+    operation: SyncOperation,
+    before: Record<string, any> | null,
+    context?: ChangeContext
+  ): Promise<void> {
+    if (!this.history) return;
+
+    try {
+      await this.history.record('goal', id, operation, before, context);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record change to financial goal ${id}: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Map a raw goal result to FinancialGoalRecord type
+   * @param row Raw database row
+   * @returns Formatted FinancialGoalRecord
+   */
+  private mapGoalResult(row: any): FinancialGoalRecord {
+    return {
+      id: row.id,
+      firebaseId: row.firebaseId,
+      title: row.title,
+      description: row.description,
+      targetAmount: row.targetAmount,
+      currentAmount: row.currentAmount,
+      deadline: row.deadline,
+      category: row.category,
+      isActive: Boolean(row.isActive),
+      userId: row.userId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
+      deletedAt: row.deletedAt ?? null
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { FxConversion, IFxRateRepository } from '../interfaces/Repositories';
+import { FxRateRecord } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { DatabaseError, FxRateNotFoundError } from '../errors/DatabaseErrors';
+import { BASE_CURRENCY, convertToBaseCurrency } from '../../utils/currency';
+import { changeEvents } from '../events/ChangeEventBus';
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * FxRateRepository Class
+ * Implements the IFxRateRepository interface for the fx_rates table.
+ * Rates are stored as ZAR per unit of currency, at most one per currency and day.
+ */
+export class FxRateRepository implements IFxRateRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * FxRateRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Store rates, replacing any rate already stored for the same currency and day
+   * @param rates Rates to store
+   * @returns Number of rates stored
+   * @throws DatabaseError if a currency code, day or rate is invalid
+   */
+  async save(rates: Omit<FxRateRecord, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<number> {
+    if (rates.length === 0) return 0;
+    this.logger.debug(`Saving ${rates.length} exchange rates`);
+
+    const now = new Date().toISOString();
+    const queries = rates.map(rate => {
+      const currency = this.normalizeCurrency(rate.currency);
+      if (currency === BASE_CURRENCY) {
+        throw new DatabaseError(`${BASE_CURRENCY} is the base currency and has no exchange rate`);
+      }
+      if (!Number.isFinite(rate.rate) || rate.rate <= 0) {
+        throw new DatabaseError(`Invalid exchange rate for ${currency}: ${rate.rate}`);
+      }
+
+      return {
+        query: `INSERT INTO fx_rates (currency, date, rate, source, createdAt, updatedAt)
+                VALUES (?, ?, ?, ?, ?, ?)
+                ON CONFLICT (currency, date) DO UPDATE SET
+                  rate = excluded.rate, source = excluded.source, updatedAt = excluded.updatedAt`,
+        params: [currency, this.normalizeDay(rate.date), rate.rate, rate.source, now, now],
+      };
+    });
+
+    await this.dbManager.transaction(queries);
+    this.logger.info(`Saved ${queries.length} exchange rates`);
+    // Upserts do not report the IDs they touched
+    changeEvents.emit({ entity: 'fx_rate', operation: 'update', ids: [] });
+    return queries.length;
+  }
+
+  /**
+   * Get the rate in effect on a day: the most recent rate on or before it
+   * @param currency Currency code
+   * @param date Day (YYYY-MM-DD or ISO timestamp)
+   * @returns Rate record or null if no rate is stored for that day or earlier
+   */
+  async getRate(currency: string, date: string): Promise<FxRateRecord | null> {
+    const code = this.normalizeCurrency(currency);
+    const day = this.normalizeDay(date);
+    this.logger.debug(`Getting ${code} rate for ${day}`);
+
+    const results = await this.dbManager.execute<FxRateRecord[]>(
+      'SELECT * FROM fx_rates WHERE currency = ? AND date <= ? ORDER BY date DESC LIMIT 1',
+      [code, day]
+    );
+
+    return results.length > 0 ? this.mapFxRateResult(results[0]) : null;
+  }
+
+  /**
+   * Get all stored rates of a currency, newest first
+   * @param currency Currency code
+   * @returns Array of rate records
+   */
+  async getRates(currency: string): Promise<FxRateRecord[]> {
+    const results = await this.dbManager.execute<FxRateRecord[]>(
+      'SELECT * FROM fx_rates WHERE currency = ? ORDER BY date DESC',
+      [this.normalizeCurrency(currency)]
+    );
+
+    return results.map(row => this.mapFxRateResult(row));
+  }
+
+  /**
+   * Get the currencies that have at least one stored rate
+   * @returns Currency codes in alphabetical order
+   */
+  async getCurrencies(): Promise<string[]> {
+    const results = await this.dbManager.execute<{ currency: string }[]>(
+      'SELECT DISTINCT currency FROM fx_rates ORDER BY currency'
+    );
+
+    return results.map(row => row.currency);
+  }
+
+  /**
+   * Convert an amount to ZAR at the rate in effect on a day
+   * @param amount Amount in the given currency
+   * @param currency Currency code
+   * @param date Day of the spend
+   * @returns ZAR amount rounded to the cent, and the rate used
+   * @throws FxRateNotFoundError if no rate is stored for that day or earlier
+   */
+  async convert(amount: number, currency: string, date: string): Promise<FxConversion> {
+    const code = this.normalizeCurrency(currency);
+    if (code === BASE_CURRENCY) {
+      return { amount, rate: 1 };
+    }
+
+    const rate = await this.getRate(code, date);
+    if (!rate) {
+      const day = this.normalizeDay(date);
+      throw new FxRateNotFoundError(`No ${code} exchange rate stored for ${day} or earlier`, code, day);
+    }
+
+    return { amount: convertToBaseCurrency(amount, rate.rate), rate: rate.rate };
+  }
+
+  /**
+   * Upper-case and validate a currency code
+   * @param currency Raw currency code
+   * @returns ISO 4217 code
+   * @throws DatabaseError if the code is not three letters
+   */
+  private normalizeCurrency(currency: string): string {
+    const code = (currency || '').trim().toUpperCase();
+    if (!CURRENCY_CODE.test(code)) {
+      throw new DatabaseError(`Invalid currency code: ${currency}`);
+    }
+    return code;
+  }
+
+  /**
+   * Reduce a date or timestamp to its day
+   * @param date YYYY-MM-DD or ISO timestamp
+   * @returns YYYY-MM-DD
+   * @throws DatabaseError if the date is not a valid day
+   */
+  private normalizeDay(date: string): string {
+    const day = (date || '').slice(0, 10);
+    if (!DAY.test(day) || isNaN(Date.parse(day))) {
+      throw new DatabaseError(`Invalid date: ${date}`);
+    }
+    return day;
+  }
+
+  /**
+   * Map a raw rate result to FxRateRecord type
+   * @param row Raw database row
+   * @returns Formatted FxRateRecord
+   */
+  private mapFxRateResult(row: any): FxRateRecord {
+    return {
+      id: row.id,
+      currency: row.currency,
+      date: row.date,
+      rate: row.rate,
+      source: row.source,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
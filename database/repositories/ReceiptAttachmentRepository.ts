@@ -0,0 +1,262 @@
+import * as FileSystem from 'expo-file-system';
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IReceiptAttachmentRepository, ReceiptAttachmentInput } from '../interfaces/Repositories';
+import { ReceiptAttachmentRecord, ReceiptAttachmentType } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { DatabaseError, RecordNotFoundError } from '../errors/DatabaseErrors';
+import { crc32 } from '../../utils/checksum';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Largest file that can be attached to a receipt, in bytes
+ */
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Directory inside the app's document directory that holds attachment files
+ */
+const ATTACHMENT_DIRECTORY = 'receipt-attachments/';
+
+/**
+ * MIME types of the file extensions receipts usually come in
+ */
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Guess the MIME type of a file from its extension
+ * @param filename File name
+ * @returns MIME type, application/octet-stream when unknown
+ */
+export const mimeTypeOf = (filename: string): string => {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+};
+
+/**
+ * Kind of attachment stored for a MIME type
+ * @param mimeType MIME type
+ * @returns Attachment type
+ */
+export const attachmentTypeOf = (mimeType: string): ReceiptAttachmentType => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return 'other';
+};
+
+/**
+ * ReceiptAttachmentRepository Class
+ * Implements the IReceiptAttachmentRepository interface for the pages and documents attached to receipts.
+ * Files are copied into app storage; files of removed rows are deleted by cleanupOrphanedFiles.
+ */
+export class ReceiptAttachmentRepository implements IReceiptAttachmentRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * ReceiptAttachmentRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Copy a file into app storage and attach it after the receipt's other attachments
+   * @param receiptId Receipt ID
+   * @param file File to attach
+   * @returns Stored attachment
+   * @throws RecordNotFoundError if the receipt does not exist or is in the trash
+   * @throws DatabaseError if the file does not exist or is too large
+   */
+  async add(receiptId: number, file: ReceiptAttachmentInput): Promise<ReceiptAttachmentRecord> {
+    this.logger.debug(`Attaching ${file.uri} to receipt ${receiptId}`);
+
+    const receipts = await this.dbManager.execute<{ id: number }[]>(
+      'SELECT id FROM receipts WHERE id = ? AND deletedAt IS NULL',
+      [receiptId]
+    );
+    if (receipts.length === 0) {
+      throw new RecordNotFoundError(`receipt ${receiptId} not found`, 'receipts', receiptId);
+    }
+
+    const info = await FileSystem.getInfoAsync(file.uri);
+    if (!info.exists || info.isDirectory) {
+      throw new DatabaseError(`Attachment file not found: ${file.uri}`);
+    }
+    if (info.size > MAX_ATTACHMENT_BYTES) {
+      throw new DatabaseError(`Attachment is ${info.size} bytes; the limit is ${MAX_ATTACHMENT_BYTES}`);
+    }
+
+    const filename = file.filename || decodeURIComponent(file.uri.split('/').pop()?.split('?')[0] || '') || 'attachment';
+    const mimeType = file.mimeType || mimeTypeOf(filename);
+    const checksum = crc32(await FileSystem.readAsStringAsync(file.uri, { encoding: FileSystem.EncodingType.Base64 }));
+
+    const directory = `${FileSystem.documentDirectory}${ATTACHMENT_DIRECTORY}`;
+    const uri = `${directory}${receiptId}-${Date.now()}-${filename.replace(/[^\w.-]+/g, '_')}`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    await FileSystem.copyAsync({ from: file.uri, to: uri });
+
+    try {
+      const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+        `INSERT INTO receipt_attachments (receiptId, type, uri, filename, mimeType, size, checksum, position, createdAt, syncStatus)
+         VALUES (?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM receipt_attachments WHERE receiptId = ?), ?, 'pending')`,
+        [receiptId, attachmentTypeOf(mimeType), uri, filename, mimeType, info.size, checksum, receiptId, new Date().toISOString()]
+      );
+
+      this.logger.info(`Attached ${filename} to receipt ${receiptId}`);
+      changeEvents.emit({ entity: 'receipt', operation: 'update', ids: [receiptId] });
+      return (await this.getById(result.lastInsertRowId))!;
+    } catch (error) {
+      // Nothing refers to the copy without its row
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an attachment by ID
+   * @param id Attachment ID
+   * @returns Attachment or null if not found
+   */
+  async getById(id: number): Promise<ReceiptAttachmentRecord | null> {
+    const results = await this.dbManager.execute<any[]>(
+      'SELECT * FROM receipt_attachments WHERE id = ?',
+      [id]
+    );
+
+    return results.length > 0 ? this.mapAttachmentResult(results[0]) : null;
+  }
+
+  /**
+   * Get the attachments of a receipt
+   * @param receiptId Receipt ID
+   * @returns Attachments in page order
+   */
+  async getByReceiptId(receiptId: number): Promise<ReceiptAttachmentRecord[]> {
+    const results = await this.dbManager.execute<any[]>(
+      'SELECT * FROM receipt_attachments WHERE receiptId = ? ORDER BY position ASC, id ASC',
+      [receiptId]
+    );
+
+    return results.map(this.mapAttachmentResult);
+  }
+
+  /**
+   * Put the attachments of a receipt in a new order
+   * @param receiptId Receipt ID
+   * @param attachmentIds Every attachment ID of the receipt, in the new order
+   * @throws DatabaseError if the IDs are not exactly the receipt's attachments
+   */
+  async reorder(receiptId: number, attachmentIds: number[]): Promise<void> {
+    this.logger.debug(`Reordering attachments of receipt ${receiptId}`, { attachmentIds });
+
+    const current = (await this.getByReceiptId(receiptId)).map(attachment => attachment.id!);
+    const sameSet = attachmentIds.length === current.length
+      && new Set(attachmentIds).size === current.length
+      && attachmentIds.every(id => current.includes(id));
+    if (!sameSet) {
+      throw new DatabaseError(`Reorder must list each attachment of receipt ${receiptId} once`);
+    }
+
+    await this.dbManager.transaction(
+      attachmentIds.map((id, position) => ({
+        query: 'UPDATE receipt_attachments SET position = ? WHERE id = ? AND receiptId = ?',
+        params: [position, id, receiptId],
+      }))
+    );
+    changeEvents.emit({ entity: 'receipt', operation: 'update', ids: [receiptId] });
+  }
+
+  /**
+   * Remove an attachment and its file; the attachments after it move up a place
+   * @param id Attachment ID
+   * @returns true if the attachment was removed
+   */
+  async delete(id: number): Promise<boolean> {
+    this.logger.debug(`Deleting attachment with ID: ${id}`);
+
+    const attachment = await this.getById(id);
+    if (!attachment) {
+      return false;
+    }
+
+    await this.dbManager.transaction([
+      { query: 'DELETE FROM receipt_attachments WHERE id = ?', params: [id] },
+      {
+        query: 'UPDATE receipt_attachments SET position = position - 1 WHERE receiptId = ? AND position > ?',
+        params: [attachment.receiptId, attachment.position],
+      },
+    ]);
+
+    this.logger.info(`Deleted attachment ID ${id} of receipt ${attachment.receiptId}`);
+    changeEvents.emit({ entity: 'receipt', operation: 'update', ids: [attachment.receiptId] });
+    await this.cleanupOrphanedFiles();
+    return true;
+  }
+
+  /**
+   * Delete the files of removed receipts and attachments from storage.
+   * Files that are still referenced, for example after a backup restore, and files
+   * outside the app's document directory are left alone.
+   * @returns Number of files deleted
+   */
+  async cleanupOrphanedFiles(): Promise<number> {
+    const orphans = await this.dbManager.execute<{ id: number; uri: string; inUse: number }[]>(
+      `SELECT o.id, o.uri,
+         EXISTS (SELECT 1 FROM receipt_attachments a WHERE a.uri = o.uri)
+         OR EXISTS (SELECT 1 FROM receipts r WHERE r.imageUri = o.uri) AS inUse
+       FROM orphaned_files o ORDER BY o.id`
+    );
+
+    const deleted = new Set<string>();
+    for (const orphan of orphans) {
+      const ownFile = !!FileSystem.documentDirectory && orphan.uri.startsWith(FileSystem.documentDirectory);
+      if (!orphan.inUse && ownFile && !deleted.has(orphan.uri)) {
+        try {
+          await FileSystem.deleteAsync(orphan.uri, { idempotent: true });
+          deleted.add(orphan.uri);
+        } catch (error) {
+          // Kept in the list, so the next cleanup tries again
+          this.logger.warn(`Could not delete orphaned file ${orphan.uri}`);
+          continue;
+        }
+      }
+      await this.dbManager.execute('DELETE FROM orphaned_files WHERE id = ?', [orphan.id]);
+    }
+
+    if (deleted.size > 0) {
+      this.logger.info(`Deleted ${deleted.size} orphaned files`);
+    }
+    return deleted.size;
+  }
+
+  /**
+   * Map a raw attachment row to ReceiptAttachmentRecord type
+   * @param row Raw database row
+   * @returns Formatted ReceiptAttachmentRecord
+   */
+  private mapAttachmentResult(row: any): ReceiptAttachmentRecord {
+    return {
+      id: row.id,
+      receiptId: row.receiptId,
+      type: row.type,
+      uri: row.uri,
+      filename: row.filename,
+      mimeType: row.mimeType ?? mimeTypeOf(row.filename),
+      size: row.size ?? 0,
+      checksum: row.checksum ?? '',
+      position: row.position ?? 0,
+      createdAt: row.createdAt,
+      syncStatus: row.syncStatus
+    };
+  }
+}
@@ -0,0 +1,443 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IReceiptRepository, ISyncQueueRepository, IChangeHistoryRepository } from '../interfaces/Repositories';
+import { ReceiptRecord, SyncOperation, ChangeContext } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { QuerySpec, QueryFilter, Page } from '../interfaces/IRepository';
+import { runPagedQuery, runCount, TableQueryConfig } from '../query/PagedQuery';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Filterable and sortable columns of the receipts table
+ */
+const RECEIPT_QUERY_CONFIG: TableQueryConfig<ReceiptRecord> = {
+  table: 'receipts',
+  filterable: [
+    'merchantName', 'amount', 'date', 'category', 'processed', 'ocrConfidence',
+    'userId', 'firebaseId', 'createdAt', 'updatedAt', 'syncStatus',
+  ],
+  sortable: ['date', 'amount', 'merchantName', 'createdAt', 'updatedAt'],
+  booleanColumns: ['processed'],
+  softDelete: true,
+  defaultSort: [{ field: 'date', direction: 'desc' }, { field: 'createdAt', direction: 'desc' }],
+};
+
+/**
+ * ReceiptRepository Class
+ * Implements the IReceiptRepository interface for receipt-related database operations
+ */
+export class ReceiptRepository implements IReceiptRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly syncQueue?: ISyncQueueRepository;
+  private readonly history?: IChangeHistoryRepository;
+
+  /**
+   * ReceiptRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   * @param syncQueue Optional sync queue; when set, every change is queued for cloud sync
+   * @param history Optional change history; when set, every change is recorded with before and after images
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    logger: ILogger,
+    syncQueue?: ISyncQueueRepository,
+    history?: IChangeHistoryRepository
+  ) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+    this.syncQueue = syncQueue;
+    this.history = history;
+  }
+
+  /**
+   * Create a new receipt record
+   * @param receipt Receipt data to create
+   * @param context Who made the change and how
+   * @returns Created receipt ID
+   */
+  async create(receipt: Omit<ReceiptRecord, 'id'>, context?: ChangeContext): Promise<number> {
+    this.logger.debug('Creating receipt record', { merchantName: receipt.merchantName, amount: receipt.amount });
+
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      `INSERT INTO receipts (
+        firebaseId, imageUri, merchantName, amount, date, items, category,
+        processed, ocrConfidence, rawText, userId, createdAt, updatedAt, syncStatus
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        receipt.firebaseId || null,
+        receipt.imageUri,
+        receipt.merchantName,
+        receipt.amount,
+        receipt.date,
+        receipt.items || null,
+        receipt.category,
+        receipt.processed ? 1 : 0,
+        receipt.ocrConfidence || 0,
+        receipt.rawText || null,
+        receipt.userId,
+        receipt.createdAt || now,
+        receipt.updatedAt || now,
+        receipt.syncStatus
+      ]
+    );
+
+    this.logger.info(`Receipt created with ID: ${result.lastInsertRowId}`);
+    await this.queueSync(result.lastInsertRowId, 'create');
+    await this.recordChange(result.lastInsertRowId, 'create', null, context);
+    changeEvents.emit({ entity: 'receipt', operation: 'create', ids: [result.lastInsertRowId] });
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get a receipt record by ID
+   * @param id Receipt ID
+   * @param includeDeleted Also return the record while it is in the trash
+   * @returns Receipt record or null if not found
+   */
+  async getById(id: number, includeDeleted: boolean = false): Promise<ReceiptRecord | null> {
+    this.logger.debug(`Getting receipt by ID: ${id}`);
+
+    const results = await this.dbManager.execute<ReceiptRecord[]>(
+      includeDeleted
+        ? 'SELECT * FROM receipts WHERE id = ?'
+        : 'SELECT * FROM receipts WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (results.length === 0) {
+      this.logger.debug(`No receipt found with ID: ${id}`);
+      return null;
+    }
+
+    return this.mapReceiptResult(results[0]);
+  }
+
+  /**
+   * Update an existing receipt record
+   * @param id Receipt ID
+   * @param updates Receipt data to update
+   * @param context Who made the change and how
+   * @returns true if update successful
+   */
+  async update(id: number, updates: Partial<ReceiptRecord>, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Updating receipt with ID: ${id}`, { fields: Object.keys(updates) });
+    const before = this.history ? await this.history.snapshot('receipt', id) : null;
+
+    // Local edits need to reach the cloud again unless the caller manages syncStatus itself
+    const changes: Partial<ReceiptRecord> = this.syncQueue && updates.syncStatus === undefined
+      ? { ...updates, syncStatus: 'pending' }
+      : updates;
+
+    // Filter out id field and create update fields
+    const updateFields = Object.keys(changes).filter(key => key !== 'id' && key !== 'updatedAt');
+
+    if (updateFields.length === 0) {
+      this.logger.warn('No fields to update');
+      return false;
+    }
+
+    const setClause = updateFields.map(field => `${field} = ?`).join(', ');
+    const values = updateFields.map(field =>
+      field === 'processed'
+        ? changes.processed ? 1 : 0
+        : changes[field as keyof ReceiptRecord]
+    );
+
+    // Add updatedAt and id to parameters
+    const now = new Date().toISOString();
+    values.push(now);
+    values.push(id);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE receipts SET ${setClause}, updatedAt = ? WHERE id = ? AND deletedAt IS NULL`,
+      values
+    );
+
+    this.logger.info(`Updated receipt ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'update');
+      await this.recordChange(id, 'update', before, context);
+      changeEvents.emit({ entity: 'receipt', operation: 'update', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Move a receipt record to the trash
+   * @param id Receipt ID
+   * @param context Who made the change and how
+   * @returns true if the receipt was deleted
+   */
+  async delete(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Deleting receipt with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('receipt', id) : null;
+
+    // The row stays behind as a tombstone until the deletion has synced and the trash is purged
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE receipts SET deletedAt = ?, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NULL`,
+      [now, now, id]
+    );
+
+    this.logger.info(`Deleted receipt ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'delete');
+      await this.recordChange(id, 'delete', before, context);
+      changeEvents.emit({ entity: 'receipt', operation: 'delete', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Take a receipt record out of the trash
+   * @param id Receipt ID
+   * @param context Who made the change and how
+   * @returns true if the receipt was in the trash and has been restored
+   */
+  async restore(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Restoring receipt with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('receipt', id) : null;
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE receipts SET deletedAt = NULL, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NOT NULL`,
+      [new Date().toISOString(), id]
+    );
+
+    this.logger.info(`Restored receipt ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      // Once the deletion has synced the remote copy is gone and has to be created again
+      const restored = await this.getById(id);
+      await this.queueSync(id, restored?.firebaseId ? 'update' : 'create', restored);
+      await this.recordChange(id, 'create', before, context);
+      changeEvents.emit({ entity: 'receipt', operation: 'restore', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Get a user's receipts that are in the trash
+   * @param userId User ID
+   * @returns Array of deleted receipt records, most recently deleted first
+   */
+  async getDeleted(userId: string): Promise<ReceiptRecord[]> {
+    this.logger.debug(`Getting deleted receipts for user: ${userId}`);
+
+    const results = await this.dbManager.execute<ReceiptRecord[]>(
+      'SELECT * FROM receipts WHERE userId = ? AND deletedAt IS NOT NULL ORDER BY deletedAt DESC',
+      [userId]
+    );
+
+    return results.map(this.mapReceiptResult);
+  }
+
+  /**
+   * Get receipt records with optional filtering
+   * @param filter Filter criteria
+   * @param limit Maximum number of records to return
+   * @param offset Number of records to skip
+   * @returns Array of receipt records
+   */
+  async getMany(
+    filter?: Partial<ReceiptRecord>,
+    limit?: number,
+    offset: number = 0
+  ): Promise<ReceiptRecord[]> {
+    // Build WHERE clause from filter
+    let whereClause = 'WHERE deletedAt IS NULL';
+    const params: any[] = [];
+
+    if (filter && Object.keys(filter).length > 0) {
+      const conditions = Object.keys(filter).map(key => {
+        params.push(
+          key === 'processed'
+            ? filter.processed ? 1 : 0
+            : filter[key as keyof ReceiptRecord]
+        );
+        return `${key} = ?`;
+      });
+      whereClause += ` AND ${conditions.join(' AND ')}`;
+    }
+
+    // Add pagination parameters
+    if (limit !== undefined) {
+      params.push(limit);
+      params.push(offset);
+    }
+
+    const query = `
+      SELECT * FROM receipts
+      ${whereClause}
+      ORDER BY date DESC, createdAt DESC
+      ${limit !== undefined ? 'LIMIT ? OFFSET ?' : ''}
+    `;
+
+    this.logger.debug(`Getting receipts with filter`, { filter, limit, offset });
+
+    const results = await this.dbManager.execute<ReceiptRecord[]>(query, params);
+    return results.map(this.mapReceiptResult);
+  }
+
+  /**
+   * Get one page of receipts matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  async query(spec: QuerySpec<ReceiptRecord> = {}): Promise<Page<ReceiptRecord>> {
+    this.logger.debug('Querying receipts', { filter: spec.filter, sort: spec.sort, limit: spec.limit });
+    return runPagedQuery(this.dbManager, RECEIPT_QUERY_CONFIG, spec, this.mapReceiptResult);
+  }
+
+  /**
+   * Count receipts matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  async count(filter?: QueryFilter<ReceiptRecord>): Promise<number> {
+    return runCount(this.dbManager, RECEIPT_QUERY_CONFIG, filter);
+  }
+
+  /**
+   * Get receipts for a specific user
+   * @param userId User ID
+   * @param limit Maximum number of records to return
+   * @returns Array of receipt records
+   */
+  async getByUserId(userId: string, limit?: number): Promise<ReceiptRecord[]> {
+    this.logger.debug(`Getting receipts for user: ${userId}`, { limit });
+
+    const query = limit
+      ? 'SELECT * FROM receipts WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC, createdAt DESC LIMIT ?'
+      : 'SELECT * FROM receipts WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC, createdAt DESC';
+
+    const params = limit ? [userId, limit] : [userId];
+    const results = await this.dbManager.execute<ReceiptRecord[]>(query, params);
+
+    return results.map(this.mapReceiptResult);
+  }
+
+  /**
+   * Get receipts by merchant name (case-insensitive)
+   * @param userId User ID
+   * @param merchantName Merchant name
+   * @returns Array of receipt records
+   */
+  async getByMerchant(userId: string, merchantName: string): Promise<ReceiptRecord[]> {
+    this.logger.debug(`Getting receipts for user ${userId} from merchant: ${merchantName}`);
+
+    const results = await this.dbManager.execute<ReceiptRecord[]>(
+      'SELECT * FROM receipts WHERE userId = ? AND deletedAt IS NULL AND merchantName = ? COLLATE NOCASE ORDER BY date DESC, createdAt DESC',
+      [userId, merchantName]
+    );
+
+    return results.map(this.mapReceiptResult);
+  }
+
+  /**
+   * Get receipts within a date range
+   * @param userId User ID
+   * @param startDate Start date (ISO string)
+   * @param endDate End date (ISO string)
+   * @returns Array of receipt records
+   */
+  async getByDateRange(userId: string, startDate: string, endDate: string): Promise<ReceiptRecord[]> {
+    this.logger.debug(`Getting receipts for user ${userId} between ${startDate} and ${endDate}`);
+
+    const results = await this.dbManager.execute<ReceiptRecord[]>(
+      'SELECT * FROM receipts WHERE userId = ? AND deletedAt IS NULL AND date >= ? AND date <= ? ORDER BY date DESC, createdAt DESC',
+      [userId, startDate, endDate]
+    );
+
+    return results.map(this.mapReceiptResult);
+  }
+
+  /**
+   * Get pending receipts for sync
+   * @param userId User ID
+   * @returns Array of receipt records pending synchronization
+   */
+  async getPendingSync(userId: string): Promise<ReceiptRecord[]> {
+    this.logger.debug(`Getting pending sync receipts for user: ${userId}`);
+
+    const results = await this.dbManager.execute<ReceiptRecord[]>(
+      'SELECT * FROM receipts WHERE userId = ? AND syncStatus = ? ORDER BY createdAt ASC',
+      [userId, 'pending']
+    );
+
+    return results.map(this.mapReceiptResult);
+  }
+
+  /**
+   * Queue a change for cloud sync when a sync queue is configured.
+   * Failures are logged, not thrown: the local write has already succeeded, and
+   * SyncEngine.enqueueUntracked() re-queues records still marked as pending.
+   * @param id Receipt ID
+   * @param operation Mutation that was applied
+   * @param snapshot Record snapshot (loaded from the database when omitted)
+   */
+  private async queueSync(id: number, operation: SyncOperation, snapshot?: ReceiptRecord | null): Promise<void> {
+    if (!this.syncQueue) return;
+
+    try {
+      const data = snapshot ?? await this.getById(id, true);
+      await this.syncQueue.enqueue('receipt', id, operation, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to queue receipt ${id} for sync: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Append a change to the change history, if one is configured.
+   * Failures are logged, not thrown: the local write has already succeeded.
+   * @param id Receipt ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change
+   * @param context Who made the change and how
+   */
+  private async recordChange(
+    id: number,
+    operation: SyncOperation,
+    before: Record<string, any> | null,
+    context?: ChangeContext
+  ): Promise<void> {
+    if (!this.history) return;
+
+    try {
+      await this.history.record('receipt', id, operation, before, context);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record change to receipt ${id}: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Map a raw receipt result to ReceiptRecord type
+   * @param row Raw database row
+   * @returns Formatted ReceiptRecord
+   */
+  private mapReceiptResult(row: any): ReceiptRecord {
+    return {
+      id: row.id,
+      firebaseId: row.firebaseId,
+      imageUri: row.imageUri,
+      merchantName: row.merchantName,
+      amount: row.amount,
+      date: row.date,
+      items: row.items || '[]',
+      category: row.category,
+      processed: Boolean(row.processed),
+      ocrConfidence: row.ocrConfidence,
+      rawText: row.rawText || undefined,
+      userId: row.userId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
+      deletedAt: row.deletedAt ?? null
+    };
+  }
+}
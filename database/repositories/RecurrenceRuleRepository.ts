@@ -0,0 +1,403 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { IRecurrenceRuleRepository } from '../interfaces/Repositories';
+import { RecurrenceExceptionRecord, RecurrenceRuleRecord } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { QuerySpec, QueryFilter, Page } from '../interfaces/IRepository';
+import { runPagedQuery, runCount, TableQueryConfig } from '../query/PagedQuery';
+import { DatabaseError } from '../errors/DatabaseErrors';
+import { validateSchedule } from '../recurrence/RecurrenceSchedule';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Filterable and sortable columns of the recurrence_rules table
+ */
+const RECURRENCE_RULE_QUERY_CONFIG: TableQueryConfig<RecurrenceRuleRecord> = {
+  table: 'recurrence_rules',
+  filterable: [
+    'userId', 'entityType', 'name', 'amount', 'category', 'merchant', 'transactionType', 'frequency',
+    'startDate', 'endDate', 'active', 'createdAt', 'updatedAt',
+  ],
+  sortable: ['name', 'amount', 'category', 'startDate', 'createdAt', 'updatedAt'],
+  booleanColumns: ['active'],
+  defaultSort: [{ field: 'name', direction: 'asc' }],
+};
+
+/**
+ * Columns a caller may change with update()
+ */
+const UPDATABLE_FIELDS: (keyof RecurrenceRuleRecord)[] = [
+  'name', 'amount', 'category', 'merchant', 'description', 'transactionType', 'frequency',
+  'interval', 'dayOfMonth', 'dayOfWeek', 'startDate', 'endDate', 'active',
+];
+
+/**
+ * RecurrenceRuleRepository Class
+ * Implements the IRecurrenceRuleRepository interface for recurrence rules and their exceptions
+ */
+export class RecurrenceRuleRepository implements IRecurrenceRuleRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * RecurrenceRuleRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Create a new recurrence rule
+   * @param rule Rule data to create
+   * @returns Created rule ID
+   * @throws DatabaseError if the schedule or amount is invalid
+   */
+  async create(rule: Omit<RecurrenceRuleRecord, 'id'>): Promise<number> {
+    this.validateRule(rule);
+    this.logger.debug('Creating recurrence rule', { name: rule.name, frequency: rule.frequency });
+
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      `INSERT INTO recurrence_rules (
+        userId, entityType, name, amount, category, merchant, description, transactionType,
+        frequency, interval, dayOfMonth, dayOfWeek, startDate, endDate, materializedThrough,
+        active, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        rule.userId,
+        rule.entityType,
+        rule.name,
+        rule.amount,
+        rule.category,
+        rule.merchant || null,
+        rule.description || null,
+        rule.entityType === 'transaction' ? rule.transactionType || 'expense' : null,
+        rule.frequency,
+        rule.interval,
+        rule.dayOfMonth ?? null,
+        rule.dayOfWeek ?? null,
+        rule.startDate,
+        rule.endDate || null,
+        rule.materializedThrough || null,
+        rule.active ? 1 : 0,
+        rule.createdAt || now,
+        rule.updatedAt || now,
+      ]
+    );
+
+    this.logger.info(`Recurrence rule created with ID: ${result.lastInsertRowId}`);
+    changeEvents.emit({ entity: 'recurrence_rule', operation: 'create', ids: [result.lastInsertRowId] });
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get a recurrence rule by ID
+   * @param id Rule ID
+   * @returns Rule record or null if not found
+   */
+  async getById(id: number): Promise<RecurrenceRuleRecord | null> {
+    this.logger.debug(`Getting recurrence rule by ID: ${id}`);
+
+    const results = await this.dbManager.execute<RecurrenceRuleRecord[]>(
+      'SELECT * FROM recurrence_rules WHERE id = ?',
+      [id]
+    );
+
+    if (results.length === 0) {
+      this.logger.debug(`No recurrence rule found with ID: ${id}`);
+      return null;
+    }
+
+    return this.mapRuleResult(results[0]);
+  }
+
+  /**
+   * Update a recurrence rule. Occurrences that were already created are left as they are.
+   * @param id Rule ID
+   * @param updates Rule data to update
+   * @returns true if update successful
+   * @throws DatabaseError if the resulting schedule or amount is invalid
+   */
+  async update(id: number, updates: Partial<RecurrenceRuleRecord>): Promise<boolean> {
+    this.logger.debug(`Updating recurrence rule with ID: ${id}`, { updates });
+
+    const fields = UPDATABLE_FIELDS.filter(field => updates[field] !== undefined);
+    if (fields.length === 0) {
+      this.logger.warn('No fields to update');
+      return false;
+    }
+
+    const current = await this.getById(id);
+    if (!current) return false;
+    this.validateRule({ ...current, ...updates });
+
+    const values = fields.map(field => field === 'active' ? (updates.active ? 1 : 0) : updates[field]);
+    values.push(new Date().toISOString());
+    values.push(id);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE recurrence_rules SET ${fields.map(field => `${field} = ?`).join(', ')}, updatedAt = ? WHERE id = ?`,
+      values
+    );
+
+    this.logger.info(`Updated recurrence rule ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      changeEvents.emit({ entity: 'recurrence_rule', operation: 'update', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete a recurrence rule. Its exceptions are removed by the cascade; records it
+   * generated stay as ordinary expenses and transactions.
+   * @param id Rule ID
+   * @returns true if deletion successful
+   */
+  async delete(id: number): Promise<boolean> {
+    this.logger.debug(`Deleting recurrence rule with ID: ${id}`);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      'DELETE FROM recurrence_rules WHERE id = ?',
+      [id]
+    );
+
+    this.logger.info(`Deleted recurrence rule ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      changeEvents.emit({ entity: 'recurrence_rule', operation: 'delete', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Get recurrence rules with optional filtering
+   * @param filter Filter criteria
+   * @param limit Maximum number of records to return
+   * @param offset Number of records to skip
+   * @returns Array of rule records
+   */
+  async getMany(filter?: Partial<RecurrenceRuleRecord>, limit?: number, offset: number = 0): Promise<RecurrenceRuleRecord[]> {
+    let whereClause = '';
+    const params: any[] = [];
+
+    if (filter && Object.keys(filter).length > 0) {
+      const conditions = Object.keys(filter).map(key => {
+        const value = filter[key as keyof RecurrenceRuleRecord];
+        params.push(key === 'active' ? (value ? 1 : 0) : value);
+        return `${key} = ?`;
+      });
+      whereClause = `WHERE ${conditions.join(' AND ')}`;
+    }
+
+    if (limit !== undefined) {
+      params.push(limit);
+      params.push(offset);
+    }
+
+    const query = `
+      SELECT * FROM recurrence_rules
+      ${whereClause}
+      ORDER BY name COLLATE NOCASE ASC
+      ${limit !== undefined ? 'LIMIT ? OFFSET ?' : ''}
+    `;
+
+    this.logger.debug(`Getting recurrence rules with filter`, { filter, limit, offset });
+
+    const results = await this.dbManager.execute<RecurrenceRuleRecord[]>(query, params);
+    return results.map(this.mapRuleResult);
+  }
+
+  /**
+   * Get one page of recurrence rules matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  async query(spec: QuerySpec<RecurrenceRuleRecord> = {}): Promise<Page<RecurrenceRuleRecord>> {
+    this.logger.debug('Querying recurrence rules', { filter: spec.filter, sort: spec.sort, limit: spec.limit });
+    return runPagedQuery(this.dbManager, RECURRENCE_RULE_QUERY_CONFIG, spec, this.mapRuleResult);
+  }
+
+  /**
+   * Count recurrence rules matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  async count(filter?: QueryFilter<RecurrenceRuleRecord>): Promise<number> {
+    return runCount(this.dbManager, RECURRENCE_RULE_QUERY_CONFIG, filter);
+  }
+
+  /**
+   * Get all rules of a user, ordered by name
+   * @param userId User ID
+   * @param activeOnly Leave out paused rules
+   * @returns Array of rule records
+   */
+  async getByUserId(userId: string, activeOnly: boolean = false): Promise<RecurrenceRuleRecord[]> {
+    this.logger.debug(`Getting recurrence rules for user: ${userId}`);
+
+    const results = await this.dbManager.execute<RecurrenceRuleRecord[]>(
+      `SELECT * FROM recurrence_rules WHERE userId = ? ${activeOnly ? 'AND active = 1' : ''}
+       ORDER BY name COLLATE NOCASE ASC`,
+      [userId]
+    );
+
+    return results.map(this.mapRuleResult);
+  }
+
+  /**
+   * Get the active rules of every user, for generating due occurrences
+   * @returns Array of rule records
+   */
+  async getActive(): Promise<RecurrenceRuleRecord[]> {
+    const results = await this.dbManager.execute<RecurrenceRuleRecord[]>(
+      'SELECT * FROM recurrence_rules WHERE active = 1 ORDER BY id'
+    );
+
+    return results.map(this.mapRuleResult);
+  }
+
+  /**
+   * Record that occurrences up to a day have been created as records
+   * @param id Rule ID
+   * @param date Last day covered (YYYY-MM-DD)
+   * @returns true if the rule exists
+   */
+  async setMaterializedThrough(id: number, date: string): Promise<boolean> {
+    const result = await this.dbManager.execute<{ changes: number }>(
+      'UPDATE recurrence_rules SET materializedThrough = ?, updatedAt = ? WHERE id = ?',
+      [date, new Date().toISOString(), id]
+    );
+
+    // The rule's upcoming occurrences start after the new date
+    if (result.changes > 0) {
+      changeEvents.emit({ entity: 'recurrence_rule', operation: 'update', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Get the exceptions of a rule, ordered by occurrence date
+   * @param ruleId Rule ID
+   * @returns Array of exception records
+   */
+  async getExceptions(ruleId: number): Promise<RecurrenceExceptionRecord[]> {
+    const results = await this.dbManager.execute<RecurrenceExceptionRecord[]>(
+      'SELECT * FROM recurrence_exceptions WHERE ruleId = ? ORDER BY occurrenceDate',
+      [ruleId]
+    );
+
+    return results.map(this.mapExceptionResult);
+  }
+
+  /**
+   * Skip or change one occurrence, replacing an earlier exception for the same occurrence
+   * @param exception Exception to store
+   * @returns Exception ID
+   * @throws DatabaseError if a changed occurrence has a negative amount
+   */
+  async saveException(exception: Omit<RecurrenceExceptionRecord, 'id' | 'createdAt'>): Promise<number> {
+    if (exception.amount != null && (!Number.isFinite(exception.amount) || exception.amount < 0)) {
+      throw new DatabaseError(`Invalid amount: ${exception.amount}`);
+    }
+    this.logger.debug(`Saving ${exception.action} exception for rule ${exception.ruleId} on ${exception.occurrenceDate}`);
+
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      `INSERT OR REPLACE INTO recurrence_exceptions (ruleId, occurrenceDate, action, amount, date, description, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        exception.ruleId,
+        exception.occurrenceDate,
+        exception.action,
+        exception.action === 'modify' ? exception.amount ?? null : null,
+        exception.action === 'modify' ? exception.date || null : null,
+        exception.action === 'modify' ? exception.description || null : null,
+        new Date().toISOString(),
+      ]
+    );
+
+    changeEvents.emit({ entity: 'recurrence_rule', operation: 'update', ids: [exception.ruleId] });
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Put an occurrence back on the rule's schedule
+   * @param ruleId Rule ID
+   * @param occurrenceDate Scheduled date of the occurrence
+   * @returns true if the occurrence had an exception
+   */
+  async deleteException(ruleId: number, occurrenceDate: string): Promise<boolean> {
+    const result = await this.dbManager.execute<{ changes: number }>(
+      'DELETE FROM recurrence_exceptions WHERE ruleId = ? AND occurrenceDate = ?',
+      [ruleId, occurrenceDate]
+    );
+
+    if (result.changes > 0) {
+      changeEvents.emit({ entity: 'recurrence_rule', operation: 'update', ids: [ruleId] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Check a rule before it is stored
+   * @param rule Rule data
+   * @throws DatabaseError if the name is empty, the amount is negative or the schedule is invalid
+   */
+  private validateRule(rule: Omit<RecurrenceRuleRecord, 'id'>): void {
+    if (!(rule.name || '').trim()) {
+      throw new DatabaseError('Recurrence rule name cannot be empty');
+    }
+    if (!Number.isFinite(rule.amount) || rule.amount < 0) {
+      throw new DatabaseError(`Invalid amount: ${rule.amount}`);
+    }
+    validateSchedule(rule);
+  }
+
+  /**
+   * Map a raw rule result to RecurrenceRuleRecord type
+   * @param row Raw database row
+   * @returns Formatted RecurrenceRuleRecord
+   */
+  private mapRuleResult(row: any): RecurrenceRuleRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      entityType: row.entityType,
+      name: row.name,
+      amount: row.amount,
+      category: row.category,
+      merchant: row.merchant || undefined,
+      description: row.description || undefined,
+      transactionType: row.transactionType || undefined,
+      frequency: row.frequency,
+      interval: row.interval,
+      dayOfMonth: row.dayOfMonth ?? null,
+      dayOfWeek: row.dayOfWeek ?? null,
+      startDate: row.startDate,
+      endDate: row.endDate ?? null,
+      materializedThrough: row.materializedThrough ?? null,
+      active: Boolean(row.active),
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Map a raw exception result to RecurrenceExceptionRecord type
+   * @param row Raw database row
+   * @returns Formatted RecurrenceExceptionRecord
+   */
+  private mapExceptionResult(row: any): RecurrenceExceptionRecord {
+    return {
+      id: row.id,
+      ruleId: row.ruleId,
+      occurrenceDate: row.occurrenceDate,
+      action: row.action,
+      amount: row.amount ?? null,
+      date: row.date ?? null,
+      description: row.description ?? null,
+      createdAt: row.createdAt,
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ISearchRepository } from '../interfaces/Repositories';
+import { SearchFilters, SearchResult, SearchEntityType } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+
+/**
+ * Markers wrapped around matched terms in SearchResult.snippet.
+ * Control characters never occur in indexed text, so they cannot be confused with content.
+ */
+export const SNIPPET_MARK_START = '\u0001';
+export const SNIPPET_MARK_END = '\u0002';
+
+/**
+ * Words that carry no meaning for matching ("that Dischem slip with sunscreen")
+ */
+const NOISE_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'for', 'from', 'i', 'in', 'my', 'of', 'on', 'or',
+  'that', 'the', 'this', 'to', 'with', 'slip', 'receipt', 'till',
+]);
+
+/**
+ * bm25 column weights: title (merchant) > body (description/category/OCR text) > line items
+ */
+const RANK_EXPRESSION = 'bm25(search_index, 10.0, 5.0, 2.0)';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Split a snippet into plain and highlighted segments for rendering
+ * @param snippet Snippet returned by SearchRepository.search
+ * @returns Ordered text segments
+ */
+export function splitSnippet(snippet: string): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  const pattern = new RegExp(`${SNIPPET_MARK_START}([^${SNIPPET_MARK_END}]*)${SNIPPET_MARK_END}`, 'g');
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > last) segments.push({ text: snippet.slice(last, match.index), highlighted: false });
+    segments.push({ text: match[1], highlighted: true });
+    last = match.index + match[0].length;
+  }
+  if (last < snippet.length) segments.push({ text: snippet.slice(last), highlighted: false });
+
+  return segments;
+}
+
+/**
+ * SearchRepository Class
+ * Implements the ISearchRepository interface on the FTS5 search_index table.
+ * The index is maintained by triggers on expenses and receipts (migration 7).
+ */
+export class SearchRepository implements ISearchRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * SearchRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Search a user's expenses and receipts.
+   * All terms must match (prefix matching, so "sun" finds "sunscreen"); when that finds
+   * nothing, records matching any term are returned instead, best matches first.
+   * @param userId User ID
+   * @param query Free-text query as typed by the user
+   * @param filters Optional constraints on type, category, date and amount
+   * @returns Hits ordered by relevance
+   */
+  async search(userId: string, query: string, filters: SearchFilters = {}): Promise<SearchResult[]> {
+    const terms = this.tokenize(query);
+    this.logger.debug(`Searching for user ${userId}`, { terms, filters });
+
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const results = await this.runQuery(userId, terms.join(' '), filters);
+    if (results.length > 0 || terms.length === 1) {
+      return results;
+    }
+
+    this.logger.debug('No records match every term, falling back to any term');
+    return this.runQuery(userId, terms.join(' OR '), filters);
+  }
+
+  /**
+   * Rebuild the search index from the source tables
+   */
+  async rebuildIndex(): Promise<void> {
+    this.logger.info('Rebuilding search index');
+
+    await this.dbManager.transaction([
+      { query: 'DELETE FROM search_index' },
+      {
+        query: `INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+                SELECT merchant || ' ' || replace(replace(merchant, '-', ''), ' ', ''), COALESCE(description, '') || ' ' || category, '', 'expense', id, userId
+                FROM expenses`,
+      },
+      {
+        query: `INSERT INTO search_index (title, body, lineItems, entityType, entityId, userId)
+                SELECT merchantName || ' ' || replace(replace(merchantName, '-', ''), ' ', ''), category || ' ' || COALESCE(rawText, ''),
+                  CASE WHEN json_valid(items)
+                  THEN (SELECT group_concat(CASE WHEN type = 'object' THEN json_extract(value, '$.name') ELSE value END, ' ') FROM json_each(items))
+                  ELSE items END,
+                  'receipt', id, userId
+                FROM receipts`,
+      },
+    ]);
+
+    this.logger.info('Search index rebuilt');
+  }
+
+  /**
+   * Run an FTS5 match joined back to the source tables
+   * @param userId User ID
+   * @param match FTS5 match expression
+   * @param filters Constraints on the source records
+   * @returns Hits ordered by relevance
+   */
+  private async runQuery(userId: string, match: string, filters: SearchFilters): Promise<SearchResult[]> {
+    const conditions = ['search_index MATCH ?', 's.userId = ?', 'COALESCE(e.deletedAt, r.deletedAt) IS NULL'];
+    const params: any[] = [match, userId];
+
+    if (filters.entityTypes && filters.entityTypes.length > 0) {
+      conditions.push(`s.entityType IN (${filters.entityTypes.map(() => '?').join(',')})`);
+      params.push(...filters.entityTypes);
+    }
+    if (filters.category) {
+      conditions.push('COALESCE(e.category, r.category) = ? COLLATE NOCASE');
+      params.push(filters.category);
+    }
+    if (filters.startDate) {
+      conditions.push('COALESCE(e.date, r.date) >= ?');
+      params.push(filters.startDate);
+    }
+    if (filters.endDate) {
+      conditions.push('COALESCE(e.date, r.date) <= ?');
+      params.push(filters.endDate);
+    }
+    if (filters.minAmount !== undefined) {
+      conditions.push('COALESCE(e.amount, r.amount) >= ?');
+      params.push(filters.minAmount);
+    }
+    if (filters.maxAmount !== undefined) {
+      conditions.push('COALESCE(e.amount, r.amount) <= ?');
+      params.push(filters.maxAmount);
+    }
+    params.push(filters.limit || DEFAULT_LIMIT);
+
+    const rows = await this.dbManager.execute<any[]>(
+      `SELECT s.entityType, s.entityId,
+         ${RANK_EXPRESSION} AS rank,
+         snippet(search_index, -1, '${SNIPPET_MARK_START}', '${SNIPPET_MARK_END}', '…', 12) AS snippet,
+         COALESCE(e.merchant, r.merchantName) AS title,
+         COALESCE(e.amount, r.amount) AS amount,
+         COALESCE(e.date, r.date) AS date,
+         COALESCE(e.category, r.category) AS category
+       FROM search_index s
+       LEFT JOIN expenses e ON s.entityType = 'expense' AND e.id = s.entityId
+       LEFT JOIN receipts r ON s.entityType = 'receipt' AND r.id = s.entityId
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY rank ASC, date DESC
+       LIMIT ?`,
+      params
+    );
+
+    return rows.map(row => ({
+      entityType: row.entityType as SearchEntityType,
+      entityId: Number(row.entityId),
+      title: row.title || '',
+      amount: row.amount || 0,
+      date: row.date || '',
+      category: row.category || '',
+      snippet: row.snippet || '',
+      rank: row.rank,
+    }));
+  }
+
+  /**
+   * Turn user input into quoted FTS5 prefix terms, dropping noise words and
+   * characters that have a meaning in FTS5 query syntax
+   * @param query Raw query
+   * @returns FTS5 terms
+   */
+  private tokenize(query: string): string[] {
+    const words = (query || '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+    const meaningful = words.filter(w => !NOISE_WORDS.has(w));
+
+    // A query made only of noise words ("receipt") is still searched as typed
+    return Array.from(new Set(meaningful.length > 0 ? meaningful : words)).map(w => `"${w}"*`);
+  }
+}
@@ -0,0 +1,166 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ISplitRepository, SplitAllocationInput } from '../interfaces/Repositories';
+import { SplitParentType, SplitRecord } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { DatabaseError, RecordNotFoundError, SplitMismatchError } from '../errors/DatabaseErrors';
+import { splitsMatch } from '../../utils/splits';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Tables holding the splits of each kind of record, and the record tables they belong to
+ */
+const SPLIT_TABLES = {
+  expense: { table: 'expense_splits', column: 'expenseId', parentTable: 'expenses' },
+  transaction: { table: 'transaction_splits', column: 'transactionId', parentTable: 'transactions' },
+} as const;
+
+/**
+ * SplitRepository Class
+ * Implements the ISplitRepository interface for splitting expenses and transactions across categories
+ */
+export class SplitRepository implements ISplitRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * SplitRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Get the splits of a record
+   * @param parentType Expense or transaction
+   * @param parentId Record ID
+   * @returns Splits, largest first; empty if the record is not split
+   */
+  async getSplits(parentType: SplitParentType, parentId: number): Promise<SplitRecord[]> {
+    const { table, column } = SPLIT_TABLES[parentType];
+
+    const results = await this.dbManager.execute<any[]>(
+      `SELECT *, ${column} AS parentId FROM ${table} WHERE ${column} = ? ORDER BY amount DESC, id ASC`,
+      [parentId]
+    );
+
+    return results.map(row => this.mapSplitResult(parentType, row));
+  }
+
+  /**
+   * Get the splits of several records in one query
+   * @param parentType Expense or transaction
+   * @param parentIds Record IDs
+   * @returns Splits keyed by record ID; records that are not split are left out
+   */
+  async getSplitsFor(parentType: SplitParentType, parentIds: number[]): Promise<Record<number, SplitRecord[]>> {
+    const byParent: Record<number, SplitRecord[]> = {};
+    if (parentIds.length === 0) {
+      return byParent;
+    }
+
+    const { table, column } = SPLIT_TABLES[parentType];
+    const rows = await this.dbManager.execute<any[]>(
+      `SELECT *, ${column} AS parentId FROM ${table}
+       WHERE ${column} IN (${parentIds.map(() => '?').join(',')})
+       ORDER BY amount DESC, id ASC`,
+      parentIds
+    );
+
+    rows.forEach(row => {
+      (byParent[row.parentId] = byParent[row.parentId] || []).push(this.mapSplitResult(parentType, row));
+    });
+    return byParent;
+  }
+
+  /**
+   * Attach their splits to records loaded elsewhere, so totals can count each part in its own category
+   * @param parentType Expense or transaction
+   * @param records Stored records
+   * @returns The records with their splits; splits is left undefined on records that are not split
+   */
+  async withSplits<T extends { id?: number }>(parentType: SplitParentType, records: T[]): Promise<(T & { splits?: SplitRecord[] })[]> {
+    const byParent = await this.getSplitsFor(parentType, records.filter(record => record.id !== undefined).map(record => record.id!));
+    return records.map(record => ({ ...record, splits: record.id !== undefined ? byParent[record.id] : undefined }));
+  }
+
+  /**
+   * Split a record across categories, replacing any earlier splits.
+   * The splits are in ZAR and must add up to the record amount to the cent.
+   * @param parentType Expense or transaction
+   * @param parentId Record ID
+   * @param splits At least two splits that add up to the record amount; empty to undo the split
+   * @returns Stored splits
+   * @throws RecordNotFoundError if the record does not exist
+   * @throws DatabaseError if there is a single split, or a split has no category or a non-positive amount
+   * @throws SplitMismatchError if the splits do not add up to the record amount
+   */
+  async setSplits(parentType: SplitParentType, parentId: number, splits: SplitAllocationInput[]): Promise<SplitRecord[]> {
+    const { table, column, parentTable } = SPLIT_TABLES[parentType];
+    this.logger.debug(`Setting splits of ${parentType} ${parentId}`, { splits });
+
+    const parents = await this.dbManager.execute<{ amount: number }[]>(
+      `SELECT amount FROM ${parentTable} WHERE id = ? AND deletedAt IS NULL`,
+      [parentId]
+    );
+    if (parents.length === 0) {
+      throw new RecordNotFoundError(`${parentType} ${parentId} not found`, parentTable, parentId);
+    }
+
+    if (splits.length === 1) {
+      throw new DatabaseError('A split needs at least two parts; change the category instead');
+    }
+    for (const split of splits) {
+      if (!(split.category || '').trim()) {
+        throw new DatabaseError('Split category cannot be empty');
+      }
+      if (!isFinite(split.amount) || split.amount <= 0) {
+        throw new DatabaseError(`Invalid split amount: ${split.amount}`);
+      }
+    }
+    const amount = Math.abs(parents[0].amount);
+    if (splits.length > 0 && !splitsMatch(amount, splits)) {
+      const total = splits.reduce((sum, split) => sum + split.amount, 0);
+      throw new SplitMismatchError(
+        `Splits add up to ${total.toFixed(2)} but the ${parentType} is ${amount.toFixed(2)}`,
+        amount,
+        total
+      );
+    }
+
+    const now = new Date().toISOString();
+    await this.dbManager.transaction([
+      { query: `DELETE FROM ${table} WHERE ${column} = ?`, params: [parentId] },
+      ...splits.map(split => ({
+        query: `INSERT INTO ${table} (${column}, category, amount, tagId, createdAt) VALUES (?, ?, ?, ?, ?)`,
+        params: [parentId, split.category.trim(), split.amount, split.tagId ?? null, now],
+      })),
+    ]);
+
+    this.logger.info(splits.length > 0
+      ? `Split ${parentType} ${parentId} into ${splits.length} parts`
+      : `Removed the splits of ${parentType} ${parentId}`);
+    changeEvents.emit({ entity: parentType, operation: 'update', ids: [parentId] });
+    return this.getSplits(parentType, parentId);
+  }
+
+  /**
+   * Map a raw split row to SplitRecord type
+   * @param parentType Kind of record the split belongs to
+   * @param row Raw database row
+   * @returns Formatted SplitRecord
+   */
+  private mapSplitResult(parentType: SplitParentType, row: any): SplitRecord {
+    return {
+      id: row.id,
+      parentType,
+      parentId: row.parentId,
+      category: row.category,
+      amount: row.amount,
+      tagId: row.tagId ?? null,
+      createdAt: row.createdAt
+    };
+  }
+}
@@ -0,0 +1,257 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ISyncQueueRepository } from '../interfaces/Repositories';
+import { SyncQueueRecord, SyncEntityType, SyncOperation, SyncQueueStatus } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+
+/**
+ * Default queue priority per entity type (higher is sent first).
+ * Money movements go before goals, and image-heavy receipts go last.
+ */
+export const DEFAULT_SYNC_PRIORITY: Record<SyncEntityType, number> = {
+  transaction: 30,
+  expense: 30,
+  goal: 20,
+  budget: 20,
+  receipt: 10,
+};
+
+/**
+ * SyncQueueRepository Class
+ * Persists local changes in the sync_queue table until the SyncEngine pushes them
+ */
+export class SyncQueueRepository implements ISyncQueueRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * SyncQueueRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Queue a change for synchronization.
+   * Unsent changes for the same record are merged so the remote only sees the latest state:
+   * an update folds into a pending create/update, a delete of a never-sent create drops both,
+   * and restoring a record replaces its unsent delete.
+   * @param entityType Entity type of the changed record
+   * @param entityId Local ID of the changed record
+   * @param operation Mutation that was applied locally
+   * @param data Snapshot of the record
+   * @param priority Optional priority override
+   * @returns Queue entry ID, or null when nothing needs to be sent
+   */
+  async enqueue(
+    entityType: SyncEntityType,
+    entityId: number,
+    operation: SyncOperation,
+    data: Record<string, any> | null = null,
+    priority: number = DEFAULT_SYNC_PRIORITY[entityType]
+  ): Promise<number | null> {
+    const payload = data ? JSON.stringify(data) : null;
+
+    const existing = await this.dbManager.execute<SyncQueueRecord[]>(
+      `SELECT * FROM sync_queue
+       WHERE entityType = ? AND entityId = ? AND status IN ('pending', 'error')
+       ORDER BY id DESC LIMIT 1`,
+      [entityType, entityId]
+    );
+
+    if (existing.length > 0) {
+      const entry = existing[0];
+
+      if (operation === 'delete' && entry.operation === 'create') {
+        this.logger.debug(`Dropping unsent create for ${entityType} ${entityId} after local delete`);
+        await this.dbManager.execute('DELETE FROM sync_queue WHERE id = ?', [entry.id]);
+        return null;
+      }
+
+      // An update keeps the original operation (a pending create stays a create),
+      // unless the record came back from the trash before its deletion was sent
+      const mergedOperation = operation === 'update' && entry.operation !== 'delete' ? entry.operation : operation;
+      await this.dbManager.execute(
+        `UPDATE sync_queue
+         SET operation = ?, data = ?, priority = MAX(priority, ?), attempts = 0,
+             status = 'pending', errorMessage = NULL, lastAttempt = NULL
+         WHERE id = ?`,
+        [mergedOperation, payload, priority, entry.id]
+      );
+
+      this.logger.debug(`Coalesced ${operation} for ${entityType} ${entityId} into queue entry ${entry.id}`);
+      return entry.id!;
+    }
+
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      `INSERT INTO sync_queue (entityType, entityId, operation, data, priority, attempts, createdAt, status)
+       VALUES (?, ?, ?, ?, ?, 0, ?, 'pending')`,
+      [entityType, entityId, operation, payload, priority, new Date().toISOString()]
+    );
+
+    this.logger.debug(`Queued ${operation} for ${entityType} ${entityId} as entry ${result.lastInsertRowId}`);
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get queue entries that are waiting to be sent, highest priority first
+   * @param maxAttempts Entries with this many attempts or more are excluded
+   * @param limit Maximum number of entries to return
+   * @returns Array of queue entries
+   */
+  async getProcessable(maxAttempts: number, limit: number = 50): Promise<SyncQueueRecord[]> {
+    const results = await this.dbManager.execute<SyncQueueRecord[]>(
+      `SELECT * FROM sync_queue
+       WHERE status IN ('pending', 'error') AND attempts < ?
+       ORDER BY priority DESC, id ASC
+       LIMIT ?`,
+      [maxAttempts, limit]
+    );
+
+    return results.map(this.mapQueueResult);
+  }
+
+  /**
+   * Check whether a record still has unsent changes queued
+   * @param entityType Entity type
+   * @param entityId Local record ID
+   * @param excludeId Queue entry to ignore
+   * @returns true if another unsent entry exists
+   */
+  async hasPending(entityType: SyncEntityType, entityId: number, excludeId: number = -1): Promise<boolean> {
+    const results = await this.dbManager.execute<{ count: number }[]>(
+      `SELECT COUNT(*) as count FROM sync_queue
+       WHERE entityType = ? AND entityId = ? AND id != ? AND status IN ('pending', 'error', 'in_progress')`,
+      [entityType, entityId, excludeId]
+    );
+    return (results[0]?.count || 0) > 0;
+  }
+
+  /**
+   * Mark a queue entry as being processed
+   * @param id Queue entry ID
+   */
+  async markInProgress(id: number): Promise<void> {
+    await this.dbManager.execute(
+      `UPDATE sync_queue SET status = 'in_progress', lastAttempt = ? WHERE id = ?`,
+      [new Date().toISOString(), id]
+    );
+  }
+
+  /**
+   * Return entries left in progress by an interrupted run to the pending state
+   * @returns Number of entries reset
+   */
+  async resetInProgress(): Promise<number> {
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE sync_queue SET status = 'pending' WHERE status = 'in_progress'`
+    );
+    if (result.changes > 0) {
+      this.logger.warn(`Reset ${result.changes} interrupted sync queue entries`);
+    }
+    return result.changes;
+  }
+
+  /**
+   * Mark a queue entry as successfully synchronized
+   * @param id Queue entry ID
+   */
+  async markSuccess(id: number): Promise<void> {
+    await this.dbManager.execute(
+      `UPDATE sync_queue SET status = 'success', errorMessage = NULL WHERE id = ?`,
+      [id]
+    );
+  }
+
+  /**
+   * Record a failed attempt for a queue entry
+   * @param id Queue entry ID
+   * @param errorMessage Failure reason
+   * @param attempts Attempt count to store
+   */
+  async markError(id: number, errorMessage: string, attempts: number): Promise<void> {
+    await this.dbManager.execute(
+      `UPDATE sync_queue SET status = 'error', errorMessage = ?, attempts = ?, lastAttempt = ? WHERE id = ?`,
+      [errorMessage, attempts, new Date().toISOString(), id]
+    );
+  }
+
+  /**
+   * Store the remote ID on unsent entries of a record that was just created remotely,
+   * so a queued update or delete can address the remote copy
+   * @param entityType Entity type
+   * @param entityId Local record ID
+   * @param remoteId Remote identifier returned by the create
+   */
+  async assignRemoteId(entityType: SyncEntityType, entityId: number, remoteId: string): Promise<void> {
+    const pending = await this.dbManager.execute<SyncQueueRecord[]>(
+      `SELECT * FROM sync_queue WHERE entityType = ? AND entityId = ? AND status IN ('pending', 'error')`,
+      [entityType, entityId]
+    );
+
+    for (const entry of pending) {
+      const data = entry.data ? JSON.parse(entry.data) : {};
+      data.firebaseId = remoteId;
+      await this.dbManager.execute(
+        'UPDATE sync_queue SET data = ? WHERE id = ?',
+        [JSON.stringify(data), entry.id]
+      );
+    }
+  }
+
+  /**
+   * Remove successfully synchronized entries
+   * @param olderThan Only purge entries created before this ISO timestamp
+   * @returns Number of entries removed
+   */
+  async purgeCompleted(olderThan?: string): Promise<number> {
+    const result = olderThan
+      ? await this.dbManager.execute<{ changes: number }>(
+          `DELETE FROM sync_queue WHERE status = 'success' AND createdAt < ?`,
+          [olderThan]
+        )
+      : await this.dbManager.execute<{ changes: number }>(
+          `DELETE FROM sync_queue WHERE status = 'success'`
+        );
+
+    this.logger.info(`Purged ${result.changes} completed sync queue entries`);
+    return result.changes;
+  }
+
+  /**
+   * Count queue entries by status
+   * @returns Counts keyed by status
+   */
+  async getStats(): Promise<Record<SyncQueueStatus, number>> {
+    const rows = await this.dbManager.execute<{ status: SyncQueueStatus; count: number }[]>(
+      'SELECT status, COUNT(*) as count FROM sync_queue GROUP BY status'
+    );
+
+    const stats: Record<SyncQueueStatus, number> = { pending: 0, in_progress: 0, success: 0, error: 0 };
+    rows.forEach(row => { stats[row.status] = row.count; });
+    return stats;
+  }
+
+  /**
+   * Map a raw queue row to SyncQueueRecord type
+   * @param row Raw database row
+   * @returns Formatted SyncQueueRecord
+   */
+  private mapQueueResult(row: any): SyncQueueRecord {
+    return {
+      id: row.id,
+      entityType: row.entityType as SyncEntityType,
+      entityId: row.entityId,
+      operation: row.operation as SyncOperation,
+      data: row.data ?? null,
+      priority: row.priority ?? 0,
+      attempts: row.attempts ?? 0,
+      lastAttempt: row.lastAttempt || undefined,
+      createdAt: row.createdAt,
+      status: row.status as SyncQueueStatus,
+      errorMessage: row.errorMessage || undefined,
+    };
+  }
+}
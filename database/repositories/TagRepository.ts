@@ -0,0 +1,500 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ITagRepository } from '../interfaces/Repositories';
+import { TagRecord } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { QuerySpec, QueryFilter, Page } from '../interfaces/IRepository';
+import { runPagedQuery, runCount, TableQueryConfig } from '../query/PagedQuery';
+import { DatabaseError, RecordNotFoundError } from '../errors/DatabaseErrors';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Colours offered for tags. New tags without an explicit colour get one
+ * derived from their name, so the same tag looks the same on every device.
+ */
+export const TAG_COLORS = [
+  '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4',
+  '#F7DC6F', '#A29BFE', '#81ECEC', '#FAB1A0',
+];
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+/**
+ * Pick the default colour for a tag name
+ * @param name Tag name
+ * @returns Hex colour from TAG_COLORS
+ */
+export function defaultTagColor(name: string): string {
+  const hash = name.toLowerCase().split('').reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+/**
+ * Link tables joining tags to the records they label
+ */
+const LINK_TABLES = {
+  expense: { table: 'expense_tags', column: 'expenseId' },
+  transaction: { table: 'transaction_tags', column: 'transactionId' },
+} as const;
+
+type TagTarget = keyof typeof LINK_TABLES;
+
+/**
+ * Filterable and sortable columns of the tags table
+ */
+const TAG_QUERY_CONFIG: TableQueryConfig<TagRecord> = {
+  table: 'tags',
+  filterable: [
+    'userId', 'name', 'color', 'createdAt', 'updatedAt',
+  ],
+  sortable: ['name', 'createdAt', 'updatedAt'],
+  defaultSort: [{ field: 'name', direction: 'asc' }],
+};
+
+/**
+ * TagRepository Class
+ * Implements the ITagRepository interface for tags and their expense/transaction links
+ */
+export class TagRepository implements ITagRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+
+  /**
+   * TagRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   */
+  constructor(dbManager: IDatabaseManager, logger: ILogger) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+  }
+
+  /**
+   * Create a new tag
+   * @param tag Tag data to create
+   * @returns Created tag ID
+   * @throws DatabaseError if the name is empty or the colour is not a hex colour
+   */
+  async create(tag: Omit<TagRecord, 'id'>): Promise<number> {
+    const name = this.normalizeName(tag.name);
+    const color = this.validateColor(tag.color || defaultTagColor(name));
+    this.logger.debug('Creating tag', { name, color });
+
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      'INSERT INTO tags (userId, name, color, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+      [tag.userId, name, color, tag.createdAt || now, tag.updatedAt || now]
+    );
+
+    this.logger.info(`Tag created with ID: ${result.lastInsertRowId}`);
+    changeEvents.emit({ entity: 'tag', operation: 'create', ids: [result.lastInsertRowId] });
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get a tag by ID
+   * @param id Tag ID
+   * @returns Tag record or null if not found
+   */
+  async getById(id: number): Promise<TagRecord | null> {
+    this.logger.debug(`Getting tag by ID: ${id}`);
+
+    const results = await this.dbManager.execute<TagRecord[]>(
+      'SELECT * FROM tags WHERE id = ?',
+      [id]
+    );
+
+    if (results.length === 0) {
+      this.logger.debug(`No tag found with ID: ${id}`);
+      return null;
+    }
+
+    return this.mapTagResult(results[0]);
+  }
+
+  /**
+   * Rename or recolour a tag
+   * @param id Tag ID
+   * @param updates Tag data to update (name and/or color)
+   * @returns true if update successful
+   * @throws DatabaseError if the new name or colour is invalid
+   */
+  async update(id: number, updates: Partial<TagRecord>): Promise<boolean> {
+    this.logger.debug(`Updating tag with ID: ${id}`, { updates });
+
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(this.normalizeName(updates.name));
+    }
+    if (updates.color !== undefined) {
+      fields.push('color = ?');
+      values.push(this.validateColor(updates.color));
+    }
+
+    if (fields.length === 0) {
+      this.logger.warn('No fields to update');
+      return false;
+    }
+
+    values.push(new Date().toISOString());
+    values.push(id);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE tags SET ${fields.join(', ')}, updatedAt = ? WHERE id = ?`,
+      values
+    );
+
+    this.logger.info(`Updated tag ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      changeEvents.emit({ entity: 'tag', operation: 'update', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete a tag. Its expense and transaction links are removed by the cascade.
+   * @param id Tag ID
+   * @returns true if deletion successful
+   */
+  async delete(id: number): Promise<boolean> {
+    this.logger.debug(`Deleting tag with ID: ${id}`);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      'DELETE FROM tags WHERE id = ?',
+      [id]
+    );
+
+    this.logger.info(`Deleted tag ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      changeEvents.emit({ entity: 'tag', operation: 'delete', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Get tags with optional filtering
+   * @param filter Filter criteria
+   * @param limit Maximum number of records to return
+   * @param offset Number of records to skip
+   * @returns Array of tag records
+   */
+  async getMany(filter?: Partial<TagRecord>, limit?: number, offset: number = 0): Promise<TagRecord[]> {
+    let whereClause = '';
+    const params: any[] = [];
+
+    if (filter && Object.keys(filter).length > 0) {
+      const conditions = Object.keys(filter).map(key => {
+        params.push(filter[key as keyof TagRecord]);
+        return `${key} = ?`;
+      });
+      whereClause = `WHERE ${conditions.join(' AND ')}`;
+    }
+
+    if (limit !== undefined) {
+      params.push(limit);
+      params.push(offset);
+    }
+
+    const query = `
+      SELECT * FROM tags
+      ${whereClause}
+      ORDER BY name COLLATE NOCASE ASC
+      ${limit !== undefined ? 'LIMIT ? OFFSET ?' : ''}
+    `;
+
+    this.logger.debug(`Getting tags with filter`, { filter, limit, offset });
+
+    const results = await this.dbManager.execute<TagRecord[]>(query, params);
+    return results.map(this.mapTagResult);
+  }
+
+  /**
+   * Get one page of tags matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  async query(spec: QuerySpec<TagRecord> = {}): Promise<Page<TagRecord>> {
+    this.logger.debug('Querying tags', { filter: spec.filter, sort: spec.sort, limit: spec.limit });
+    return runPagedQuery(this.dbManager, TAG_QUERY_CONFIG, spec, this.mapTagResult);
+  }
+
+  /**
+   * Count tags matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  async count(filter?: QueryFilter<TagRecord>): Promise<number> {
+    return runCount(this.dbManager, TAG_QUERY_CONFIG, filter);
+  }
+
+  /**
+   * Get all tags of a user, ordered by name
+   * @param userId User ID
+   * @returns Array of tag records
+   */
+  async getByUserId(userId: string): Promise<TagRecord[]> {
+    this.logger.debug(`Getting tags for user: ${userId}`);
+
+    const results = await this.dbManager.execute<TagRecord[]>(
+      'SELECT * FROM tags WHERE userId = ? ORDER BY name COLLATE NOCASE ASC',
+      [userId]
+    );
+
+    return results.map(this.mapTagResult);
+  }
+
+  /**
+   * Get a tag by name (case-insensitive)
+   * @param userId User ID
+   * @param name Tag name
+   * @returns Tag record or null if not found
+   */
+  async getByName(userId: string, name: string): Promise<TagRecord | null> {
+    const results = await this.dbManager.execute<TagRecord[]>(
+      'SELECT * FROM tags WHERE userId = ? AND name = ? COLLATE NOCASE LIMIT 1',
+      [userId, name.trim()]
+    );
+
+    return results.length > 0 ? this.mapTagResult(results[0]) : null;
+  }
+
+  /**
+   * Get a tag by name, creating it when it does not exist yet
+   * @param userId User ID
+   * @param name Tag name
+   * @param color Colour for a newly created tag
+   * @returns Existing or created tag record
+   */
+  async findOrCreate(userId: string, name: string, color?: string): Promise<TagRecord> {
+    const existing = await this.getByName(userId, name);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const id = await this.create({ userId, name, color: color || '', createdAt: now, updatedAt: now });
+    const created = await this.getById(id);
+    if (!created) {
+      throw new RecordNotFoundError(`Tag ${id} not found after create`, 'tags', id);
+    }
+    return created;
+  }
+
+  /**
+   * Attach tags to an expense (already attached tags are ignored)
+   * @param expenseId Expense ID
+   * @param tagIds Tag IDs to attach
+   * @returns Number of links added
+   */
+  async attachToExpense(expenseId: number, tagIds: number[]): Promise<number> {
+    return this.attach('expense', expenseId, tagIds);
+  }
+
+  /**
+   * Detach tags from an expense
+   * @param expenseId Expense ID
+   * @param tagIds Tag IDs to detach (all tags when omitted)
+   * @returns Number of links removed
+   */
+  async detachFromExpense(expenseId: number, tagIds?: number[]): Promise<number> {
+    const { table, column } = LINK_TABLES.expense;
+    this.logger.debug(`Detaching tags from expense ${expenseId}`, { tagIds });
+
+    if (tagIds && tagIds.length === 0) {
+      return 0;
+    }
+
+    const result = tagIds
+      ? await this.dbManager.execute<{ changes: number }>(
+          `DELETE FROM ${table} WHERE ${column} = ? AND tagId IN (${tagIds.map(() => '?').join(',')})`,
+          [expenseId, ...tagIds]
+        )
+      : await this.dbManager.execute<{ changes: number }>(
+          `DELETE FROM ${table} WHERE ${column} = ?`,
+          [expenseId]
+        );
+
+    if (result.changes > 0) {
+      changeEvents.emit({ entity: 'expense', operation: 'update', ids: [expenseId] });
+    }
+    return result.changes;
+  }
+
+  /**
+   * Replace the tags of an expense
+   * @param expenseId Expense ID
+   * @param tagIds Complete set of tag IDs
+   */
+  async setExpenseTags(expenseId: number, tagIds: number[]): Promise<void> {
+    await this.replaceLinks('expense', expenseId, tagIds);
+  }
+
+  /**
+   * Get the tags attached to an expense
+   * @param expenseId Expense ID
+   * @returns Array of tag records
+   */
+  async getExpenseTags(expenseId: number): Promise<TagRecord[]> {
+    return this.getLinkedTags('expense', expenseId);
+  }
+
+  /**
+   * Get the tags of several expenses in one query
+   * @param expenseIds Expense IDs
+   * @returns Tags keyed by expense ID
+   */
+  async getTagsForExpenses(expenseIds: number[]): Promise<Record<number, TagRecord[]>> {
+    const byExpense: Record<number, TagRecord[]> = {};
+    if (expenseIds.length === 0) {
+      return byExpense;
+    }
+
+    const rows = await this.dbManager.execute<any[]>(
+      `SELECT t.*, et.expenseId AS linkedId FROM tags t
+       JOIN expense_tags et ON et.tagId = t.id
+       WHERE et.expenseId IN (${expenseIds.map(() => '?').join(',')})
+       ORDER BY t.name COLLATE NOCASE ASC`,
+      expenseIds
+    );
+
+    rows.forEach(row => {
+      (byExpense[row.linkedId] = byExpense[row.linkedId] || []).push(this.mapTagResult(row));
+    });
+    return byExpense;
+  }
+
+  /**
+   * Replace the tags of a transaction
+   * @param transactionId Transaction ID
+   * @param tagIds Complete set of tag IDs
+   */
+  async setTransactionTags(transactionId: number, tagIds: number[]): Promise<void> {
+    await this.replaceLinks('transaction', transactionId, tagIds);
+  }
+
+  /**
+   * Get the tags attached to a transaction
+   * @param transactionId Transaction ID
+   * @returns Array of tag records
+   */
+  async getTransactionTags(transactionId: number): Promise<TagRecord[]> {
+    return this.getLinkedTags('transaction', transactionId);
+  }
+
+  /**
+   * Insert links between a record and tags, skipping existing ones
+   * @param target Kind of record being tagged
+   * @param entityId Record ID
+   * @param tagIds Tag IDs to link
+   * @returns Number of links added
+   */
+  private async attach(target: TagTarget, entityId: number, tagIds: number[]): Promise<number> {
+    const { table, column } = LINK_TABLES[target];
+    const uniqueIds = Array.from(new Set(tagIds));
+    this.logger.debug(`Attaching tags to ${target} ${entityId}`, { tagIds: uniqueIds });
+
+    if (uniqueIds.length === 0) {
+      return 0;
+    }
+
+    const results = await this.dbManager.transaction<{ changes: number }>(
+      uniqueIds.map(tagId => ({
+        query: `INSERT OR IGNORE INTO ${table} (${column}, tagId) VALUES (?, ?)`,
+        params: [entityId, tagId],
+      }))
+    );
+
+    const added = results.reduce((sum, r) => sum + (r?.changes || 0), 0);
+    if (added > 0) {
+      changeEvents.emit({ entity: target, operation: 'update', ids: [entityId] });
+    }
+    return added;
+  }
+
+  /**
+   * Atomically replace every tag link of a record
+   * @param target Kind of record being tagged
+   * @param entityId Record ID
+   * @param tagIds Complete set of tag IDs
+   */
+  private async replaceLinks(target: TagTarget, entityId: number, tagIds: number[]): Promise<void> {
+    const { table, column } = LINK_TABLES[target];
+    const uniqueIds = Array.from(new Set(tagIds));
+    this.logger.debug(`Setting tags of ${target} ${entityId}`, { tagIds: uniqueIds });
+
+    await this.dbManager.transaction([
+      { query: `DELETE FROM ${table} WHERE ${column} = ?`, params: [entityId] },
+      ...uniqueIds.map(tagId => ({
+        query: `INSERT INTO ${table} (${column}, tagId) VALUES (?, ?)`,
+        params: [entityId, tagId],
+      })),
+    ]);
+    changeEvents.emit({ entity: target, operation: 'update', ids: [entityId] });
+  }
+
+  /**
+   * Get the tags linked to a record
+   * @param target Kind of record
+   * @param entityId Record ID
+   * @returns Array of tag records
+   */
+  private async getLinkedTags(target: TagTarget, entityId: number): Promise<TagRecord[]> {
+    const { table, column } = LINK_TABLES[target];
+
+    const results = await this.dbManager.execute<TagRecord[]>(
+      `SELECT t.* FROM tags t
+       JOIN ${table} l ON l.tagId = t.id
+       WHERE l.${column} = ?
+       ORDER BY t.name COLLATE NOCASE ASC`,
+      [entityId]
+    );
+
+    return results.map(this.mapTagResult);
+  }
+
+  /**
+   * Trim and validate a tag name
+   * @param name Raw tag name
+   * @returns Normalized name
+   * @throws DatabaseError if the name is empty
+   */
+  private normalizeName(name: string): string {
+    const trimmed = (name || '').trim();
+    if (!trimmed) {
+      throw new DatabaseError('Tag name cannot be empty');
+    }
+    return trimmed;
+  }
+
+  /**
+   * Validate a tag colour
+   * @param color Hex colour (#RRGGBB)
+   * @returns Upper-cased colour
+   * @throws DatabaseError if the colour is not a hex colour
+   */
+  private validateColor(color: string): string {
+    if (!HEX_COLOR.test(color)) {
+      throw new DatabaseError(`Invalid tag colour: ${color}`);
+    }
+    return color.toUpperCase();
+  }
+
+  /**
+   * Map a raw tag row to TagRecord type
+   * @param row Raw database row
+   * @returns Formatted TagRecord
+   */
+  private mapTagResult(row: any): TagRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      name: row.name,
+      color: row.color || defaultTagColor(row.name || ''),
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,463 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ITransactionRepository, ISyncQueueRepository, IChangeHistoryRepository } from '../interfaces/Repositories';
+import { TransactionRecord, TransactionType, SyncOperation, ChangeContext } from '../models/Records';
+import { ILogger } from '../interfaces/ILogger';
+import { QuerySpec, QueryFilter, Page } from '../interfaces/IRepository';
+import { runPagedQuery, runCount, TableQueryConfig } from '../query/PagedQuery';
+import { BASE_CURRENCY } from '../../utils/currency';
+import { changeEvents } from '../events/ChangeEventBus';
+
+/**
+ * Filterable and sortable columns of the transactions table
+ */
+const TRANSACTION_QUERY_CONFIG: TableQueryConfig<TransactionRecord> = {
+  table: 'transactions',
+  filterable: [
+    'type', 'amount', 'description', 'category', 'date', 'fromAccount', 'toAccount', 'externalId',
+    'currency', 'originalAmount', 'recurrenceRuleId', 'occurrenceDate', 'userId', 'firebaseId', 'createdAt', 'updatedAt', 'syncStatus',
+  ],
+  sortable: ['date', 'amount', 'category', 'createdAt', 'updatedAt'],
+  softDelete: true,
+  defaultSort: [{ field: 'date', direction: 'desc' }, { field: 'createdAt', direction: 'desc' }],
+};
+
+/**
+ * TransactionRepository Class
+ * Implements the ITransactionRepository interface for transaction-related database operations
+ */
+export class TransactionRepository implements ITransactionRepository {
+  private readonly dbManager: IDatabaseManager;
+  private readonly logger: ILogger;
+  private readonly syncQueue?: ISyncQueueRepository;
+  private readonly history?: IChangeHistoryRepository;
+
+  /**
+   * TransactionRepository constructor
+   * @param dbManager Database manager instance
+   * @param logger Logger instance
+   * @param syncQueue Optional sync queue; when set, every change is queued for cloud sync
+   * @param history Optional change history; when set, every change is recorded with before and after images
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    logger: ILogger,
+    syncQueue?: ISyncQueueRepository,
+    history?: IChangeHistoryRepository
+  ) {
+    this.dbManager = dbManager;
+    this.logger = logger;
+    this.syncQueue = syncQueue;
+    this.history = history;
+  }
+
+  /**
+   * Create a new transaction record
+   * @param transaction Transaction data to create
+   * @param context Who made the change and how
+   * @returns Created transaction ID
+   */
+  async create(transaction: Omit<TransactionRecord, 'id'>, context?: ChangeContext): Promise<number> {
+    this.logger.debug('Creating transaction record', { type: transaction.type, amount: transaction.amount });
+
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ lastInsertRowId: number }>(
+      `INSERT INTO transactions (
+        firebaseId, type, amount, description, category, date,
+        fromAccount, toAccount, externalId, currency, originalAmount,
+        recurrenceRuleId, occurrenceDate, userId, createdAt, updatedAt, syncStatus
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        transaction.firebaseId || null,
+        transaction.type,
+        transaction.amount,
+        transaction.description,
+        transaction.category,
+        transaction.date,
+        transaction.fromAccount || null,
+        transaction.toAccount || null,
+        transaction.externalId || null,
+        (transaction.currency || BASE_CURRENCY).toUpperCase(),
+        transaction.originalAmount ?? transaction.amount,
+        transaction.recurrenceRuleId ?? null,
+        transaction.occurrenceDate ?? null,
+        transaction.userId,
+        transaction.createdAt || now,
+        transaction.updatedAt || now,
+        transaction.syncStatus
+      ]
+    );
+
+    this.logger.info(`Transaction created with ID: ${result.lastInsertRowId}`);
+    await this.queueSync(result.lastInsertRowId, 'create');
+    await this.recordChange(result.lastInsertRowId, 'create', null, context);
+    changeEvents.emit({ entity: 'transaction', operation: 'create', ids: [result.lastInsertRowId] });
+    return result.lastInsertRowId;
+  }
+
+  /**
+   * Get a transaction record by ID
+   * @param id Transaction ID
+   * @param includeDeleted Also return the record while it is in the trash
+   * @returns Transaction record or null if not found
+   */
+  async getById(id: number, includeDeleted: boolean = false): Promise<TransactionRecord | null> {
+    this.logger.debug(`Getting transaction by ID: ${id}`);
+
+    const results = await this.dbManager.execute<TransactionRecord[]>(
+      includeDeleted
+        ? 'SELECT * FROM transactions WHERE id = ?'
+        : 'SELECT * FROM transactions WHERE id = ? AND deletedAt IS NULL',
+      [id]
+    );
+
+    if (results.length === 0) {
+      this.logger.debug(`No transaction found with ID: ${id}`);
+      return null;
+    }
+
+    return this.mapTransactionResult(results[0]);
+  }
+
+  /**
+   * Update an existing transaction record
+   * @param id Transaction ID
+   * @param updates Transaction data to update
+   * @param context Who made the change and how
+   * @returns true if update successful
+   */
+  async update(id: number, updates: Partial<TransactionRecord>, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Updating transaction with ID: ${id}`, { fields: Object.keys(updates) });
+    const before = this.history ? await this.history.snapshot('transaction', id) : null;
+
+    // Local edits need to reach the cloud again unless the caller manages syncStatus itself
+    const changes: Partial<TransactionRecord> = this.syncQueue && updates.syncStatus === undefined
+      ? { ...updates, syncStatus: 'pending' }
+      : updates;
+
+    // Filter out id field and create update fields
+    const updateFields = Object.keys(changes).filter(key => key !== 'id' && key !== 'updatedAt');
+
+    if (updateFields.length === 0) {
+      this.logger.warn('No fields to update');
+      return false;
+    }
+
+    const setClause = updateFields.map(field => `${field} = ?`).join(', ');
+    const values = updateFields.map(field => changes[field as keyof TransactionRecord]);
+
+    // Add updatedAt and id to parameters
+    const now = new Date().toISOString();
+    values.push(now);
+    values.push(id);
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE transactions SET ${setClause}, updatedAt = ? WHERE id = ? AND deletedAt IS NULL`,
+      values
+    );
+
+    this.logger.info(`Updated transaction ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'update');
+      await this.recordChange(id, 'update', before, context);
+      changeEvents.emit({ entity: 'transaction', operation: 'update', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Move a transaction record to the trash
+   * @param id Transaction ID
+   * @param context Who made the change and how
+   * @returns true if the transaction was deleted
+   */
+  async delete(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Deleting transaction with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('transaction', id) : null;
+
+    // The row stays behind as a tombstone until the deletion has synced and the trash is purged
+    const now = new Date().toISOString();
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE transactions SET deletedAt = ?, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NULL`,
+      [now, now, id]
+    );
+
+    this.logger.info(`Deleted transaction ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      await this.queueSync(id, 'delete');
+      await this.recordChange(id, 'delete', before, context);
+      changeEvents.emit({ entity: 'transaction', operation: 'delete', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Take a transaction record out of the trash
+   * @param id Transaction ID
+   * @param context Who made the change and how
+   * @returns true if the transaction was in the trash and has been restored
+   */
+  async restore(id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.debug(`Restoring transaction with ID: ${id}`);
+    const before = this.history ? await this.history.snapshot('transaction', id) : null;
+
+    const result = await this.dbManager.execute<{ changes: number }>(
+      `UPDATE transactions SET deletedAt = NULL, updatedAt = ?, syncStatus = 'pending' WHERE id = ? AND deletedAt IS NOT NULL`,
+      [new Date().toISOString(), id]
+    );
+
+    this.logger.info(`Restored transaction ID ${id}, rows affected: ${result.changes}`);
+    if (result.changes > 0) {
+      // Once the deletion has synced the remote copy is gone and has to be created again
+      const restored = await this.getById(id);
+      await this.queueSync(id, restored?.firebaseId ? 'update' : 'create', restored);
+      await this.recordChange(id, 'create', before, context);
+      changeEvents.emit({ entity: 'transaction', operation: 'restore', ids: [id] });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Get a user's transactions that are in the trash
+   * @param userId User ID
+   * @returns Array of deleted transaction records, most recently deleted first
+   */
+  async getDeleted(userId: string): Promise<TransactionRecord[]> {
+    this.logger.debug(`Getting deleted transactions for user: ${userId}`);
+
+    const results = await this.dbManager.execute<TransactionRecord[]>(
+      'SELECT * FROM transactions WHERE userId = ? AND deletedAt IS NOT NULL ORDER BY deletedAt DESC',
+      [userId]
+    );
+
+    return results.map(this.mapTransactionResult);
+  }
+
+  /**
+   * Get transaction records with optional filtering
+   * @param filter Filter criteria
+   * @param limit Maximum number of records to return
+   * @param offset Number of records to skip
+   * @returns Array of transaction records
+   */
+  async getMany(
+    filter?: Partial<TransactionRecord>,
+    limit?: number,
+    offset: number = 0
+  ): Promise<TransactionRecord[]> {
+    // Build WHERE clause from filter
+    let whereClause = 'WHERE deletedAt IS NULL';
+    const params: any[] = [];
+
+    if (filter && Object.keys(filter).length > 0) {
+      const conditions = Object.keys(filter).map(key => {
+        params.push(filter[key as keyof TransactionRecord]);
+        return `${key} = ?`;
+      });
+      whereClause += ` AND ${conditions.join(' AND ')}`;
+    }
+
+    // Add pagination parameters
+    if (limit !== undefined) {
+      params.push(limit);
+      params.push(offset);
+    }
+
+    const query = `
+      SELECT * FROM transactions
+      ${whereClause}
+      ORDER BY date DESC, createdAt DESC
+      ${limit !== undefined ? 'LIMIT ? OFFSET ?' : ''}
+    `;
+
+    this.logger.debug(`Getting transactions with filter`, { filter, limit, offset });
+
+    const results = await this.dbManager.execute<TransactionRecord[]>(query, params);
+    return results.map(this.mapTransactionResult);
+  }
+
+  /**
+   * Get one page of transactions matching a filter and sort spec
+   * @param spec Filter, sort, page size and cursor
+   * @returns Page of records with the cursor for the next page
+   * @throws QueryError if the spec references unknown fields or the cursor is invalid
+   */
+  async query(spec: QuerySpec<TransactionRecord> = {}): Promise<Page<TransactionRecord>> {
+    this.logger.debug('Querying transactions', { filter: spec.filter, sort: spec.sort, limit: spec.limit });
+    return runPagedQuery(this.dbManager, TRANSACTION_QUERY_CONFIG, spec, this.mapTransactionResult);
+  }
+
+  /**
+   * Count transactions matching a filter
+   * @param filter Filter criteria
+   * @returns Number of matching records
+   */
+  async count(filter?: QueryFilter<TransactionRecord>): Promise<number> {
+    return runCount(this.dbManager, TRANSACTION_QUERY_CONFIG, filter);
+  }
+
+  /**
+   * Get transactions for a specific user
+   * @param userId User ID
+   * @param limit Maximum number of records to return
+   * @returns Array of transaction records
+   */
+  async getByUserId(userId: string, limit?: number): Promise<TransactionRecord[]> {
+    this.logger.debug(`Getting transactions for user: ${userId}`, { limit });
+
+    const query = limit
+      ? 'SELECT * FROM transactions WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC, createdAt DESC LIMIT ?'
+      : 'SELECT * FROM transactions WHERE userId = ? AND deletedAt IS NULL ORDER BY date DESC, createdAt DESC';
+
+    const params = limit ? [userId, limit] : [userId];
+    const results = await this.dbManager.execute<TransactionRecord[]>(query, params);
+
+    return results.map(this.mapTransactionResult);
+  }
+
+  /**
+   * Get transactions by type
+   * @param userId User ID
+   * @param type Transaction type
+   * @param limit Maximum number of records to return
+   * @returns Array of transaction records
+   */
+  async getByType(userId: string, type: TransactionType, limit?: number): Promise<TransactionRecord[]> {
+    this.logger.debug(`Getting ${type} transactions for user: ${userId}`, { limit });
+
+    const query = limit
+      ? 'SELECT * FROM transactions WHERE userId = ? AND deletedAt IS NULL AND type = ? ORDER BY date DESC, createdAt DESC LIMIT ?'
+      : 'SELECT * FROM transactions WHERE userId = ? AND deletedAt IS NULL AND type = ? ORDER BY date DESC, createdAt DESC';
+
+    const params = limit ? [userId, type, limit] : [userId, type];
+    const results = await this.dbManager.execute<TransactionRecord[]>(query, params);
+
+    return results.map(this.mapTransactionResult);
+  }
+
+  /**
+   * Get transactions within a date range
+   * @param userId User ID
+   * @param startDate Start date (ISO string)
+   * @param endDate End date (ISO string)
+   * @returns Array of transaction records
+   */
+  async getByDateRange(userId: string, startDate: string, endDate: string): Promise<TransactionRecord[]> {
+    this.logger.debug(`Getting transactions for user ${userId} between ${startDate} and ${endDate}`);
+
+    const results = await this.dbManager.execute<TransactionRecord[]>(
+      'SELECT * FROM transactions WHERE userId = ? AND deletedAt IS NULL AND date >= ? AND date <= ? ORDER BY date DESC, createdAt DESC',
+      [userId, startDate, endDate]
+    );
+
+    return results.map(this.mapTransactionResult);
+  }
+
+  /**
+   * Get a transaction by the ID it has in the account feed.
+   * Transactions in the trash are included, so importing the feed again does not bring them back.
+   * @param userId User ID
+   * @param externalId Account feed transaction ID
+   * @returns Transaction record or null if not imported yet
+   */
+  async getByExternalId(userId: string, externalId: string): Promise<TransactionRecord | null> {
+    this.logger.debug(`Getting transaction for user ${userId} by external ID: ${externalId}`);
+
+    const results = await this.dbManager.execute<TransactionRecord[]>(
+      'SELECT * FROM transactions WHERE userId = ? AND externalId = ?',
+      [userId, externalId]
+    );
+
+    return results.length > 0 ? this.mapTransactionResult(results[0]) : null;
+  }
+
+  /**
+   * Get pending transactions for sync
+   * @param userId User ID
+   * @returns Array of transaction records pending synchronization
+   */
+  async getPendingSync(userId: string): Promise<TransactionRecord[]> {
+    this.logger.debug(`Getting pending sync transactions for user: ${userId}`);
+
+    const results = await this.dbManager.execute<TransactionRecord[]>(
+      'SELECT * FROM transactions WHERE userId = ? AND syncStatus = ? ORDER BY createdAt ASC',
+      [userId, 'pending']
+    );
+
+    return results.map(this.mapTransactionResult);
+  }
+
+  /**
+   * Queue a change for cloud sync when a sync queue is configured.
+   * Failures are logged, not thrown: the local write has already succeeded, and
+   * SyncEngine.enqueueUntracked() re-queues records still marked as pending.
+   * @param id Transaction ID
+   * @param operation Mutation that was applied
+   * @param snapshot Record snapshot (loaded from the database when omitted)
+   */
+  private async queueSync(id: number, operation: SyncOperation, snapshot?: TransactionRecord | null): Promise<void> {
+    if (!this.syncQueue) return;
+
+    try {
+      const data = snapshot ?? await this.getById(id, true);
+      await this.syncQueue.enqueue('transaction', id, operation, data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to queue transaction ${id} for sync: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Append a change to the change history, if one is configured.
+   * Failures are logged, not thrown: the local write has already succeeded.
+   * @param id Transaction ID
+   * @param operation Mutation that was applied
+   * @param before Raw row before the change
+   * @param context Who made the change and how
+   */
+  private async recordChange(
+    id: number,
+    operation: SyncOperation,
+    before: Record<string, any> | null,
+    context?: ChangeContext
+  ): Promise<void> {
+    if (!this.history) return;
+
+    try {
+      await this.history.record('transaction', id, operation, before, context);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record change to transaction ${id}: ${errorMessage}`,
+        error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Map a raw transaction result to TransactionRecord type
+   * @param row Raw database row
+   * @returns Formatted TransactionRecord
+   */
+  private mapTransactionResult(row: any): TransactionRecord {
+    return {
+      id: row.id,
+      firebaseId: row.firebaseId,
+      type: row.type as TransactionType,
+      amount: row.amount,
+      description: row.description,
+      category: row.category,
+      date: row.date,
+      fromAccount: row.fromAccount || undefined,
+      toAccount: row.toAccount || undefined,
+      externalId: row.externalId || undefined,
+      userId: row.userId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      syncStatus: row.syncStatus as 'synced' | 'pending' | 'error',
+      deletedAt: row.deletedAt ?? null,
+      currency: row.currency || BASE_CURRENCY,
+      originalAmount: row.originalAmount ?? row.amount,
+      recurrenceRuleId: row.recurrenceRuleId ?? null,
+      occurrenceDate: row.occurrenceDate ?? null
+    };
+  }
+}
@@ -0,0 +1,233 @@
+import * as SQLite from 'expo-sqlite';
+import * as FileSystem from 'expo-file-system';
+import { IDatabaseKeyStore } from '../interfaces/IDatabaseKeyStore';
+import { ILogger } from '../interfaces/ILogger';
+import { EncryptionError } from '../errors/DatabaseErrors';
+
+const HEX_KEY = /^[0-9a-f]{64}$/i;
+
+/**
+ * Build the SQLCipher raw key literal. PRAGMA key cannot take bound parameters,
+ * so the key is validated before it is interpolated.
+ * @param key Hex key
+ * @returns Raw key literal
+ */
+function rawKey(key: string): string {
+  if (!HEX_KEY.test(key)) {
+    throw new EncryptionError('Encryption key must be 64 hex characters');
+  }
+  return `"x'${key}'"`;
+}
+
+/**
+ * Convert a database path to a file URI for expo-file-system
+ * @param path Absolute path
+ * @returns File URI
+ */
+function toUri(path: string): string {
+  return path.startsWith('file://') ? path : `file://${path}`;
+}
+
+/**
+ * DatabaseEncryption Class
+ * Opens SQLCipher-encrypted databases with a key from an IDatabaseKeyStore.
+ * Handles first-run key creation, upgrading existing plaintext databases and key rotation.
+ * Requires the expo-sqlite config plugin with `useSQLCipher: true`.
+ */
+export class DatabaseEncryption {
+  private readonly keyStore: IDatabaseKeyStore;
+  private readonly logger: ILogger;
+  private readonly directory: string;
+
+  /**
+   * DatabaseEncryption constructor
+   * @param keyStore Key storage
+   * @param logger Logger instance
+   * @param directory Database directory (defaults to the expo-sqlite directory)
+   */
+  constructor(keyStore: IDatabaseKeyStore, logger: ILogger, directory: string = SQLite.defaultDatabaseDirectory) {
+    this.keyStore = keyStore;
+    this.logger = logger;
+    this.directory = directory;
+  }
+
+  /**
+   * Open and unlock an encrypted database.
+   * A plaintext database from an earlier version is encrypted in place first, and a
+   * key rotation interrupted by a crash is completed.
+   * @param databaseName Database file name
+   * @returns Unlocked database connection
+   * @throws EncryptionError if no known key unlocks the database
+   */
+  async open(databaseName: string): Promise<SQLite.SQLiteDatabase> {
+    let key = await this.keyStore.getKey();
+    const pendingKey = await this.keyStore.getPendingKey();
+
+    if (!key) {
+      this.logger.info('No database key found, generating a new one');
+      key = this.keyStore.generateKey();
+      await this.keyStore.setKey(key);
+    }
+
+    const db = await this.tryOpen(databaseName, key);
+    if (db) {
+      if (pendingKey) {
+        // The rotation never reached the database; the current key is still valid
+        await this.keyStore.setPendingKey(null);
+      }
+      await this.warnIfUnencrypted(db);
+      return db;
+    }
+
+    if (pendingKey) {
+      const rotated = await this.tryOpen(databaseName, pendingKey);
+      if (rotated) {
+        this.logger.info('Completing interrupted key rotation');
+        await this.keyStore.setKey(pendingKey);
+        await this.keyStore.setPendingKey(null);
+        return rotated;
+      }
+    }
+
+    const plaintext = await this.tryOpen(databaseName, null);
+    if (plaintext) {
+      await plaintext.closeAsync();
+      await this.encryptPlaintextDatabase(databaseName, key);
+
+      const encrypted = await this.tryOpen(databaseName, key);
+      if (encrypted) {
+        return encrypted;
+      }
+    }
+
+    this.logger.error(`Unable to unlock database: ${databaseName}`);
+    throw new EncryptionError(`Unable to unlock database ${databaseName}`);
+  }
+
+  /**
+   * Re-encrypt an open database with a freshly generated key.
+   * The new key is stored as pending before the database is re-keyed, so a crash
+   * in between is recovered by open().
+   * @param db Unlocked database connection
+   * @throws EncryptionError if re-keying fails
+   */
+  async rotateKey(db: SQLite.SQLiteDatabase): Promise<void> {
+    const newKey = this.keyStore.generateKey();
+    this.logger.info('Rotating database encryption key');
+
+    await this.keyStore.setPendingKey(newKey);
+
+    try {
+      // SQLCipher cannot re-key a database in WAL mode
+      await db.execAsync('PRAGMA journal_mode = DELETE;');
+      await db.execAsync(`PRAGMA rekey = ${rawKey(newKey)};`);
+    } catch (error) {
+      await this.keyStore.setPendingKey(null);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Key rotation failed: ${errorMessage}`, error instanceof Error ? error : undefined);
+      throw new EncryptionError(`Key rotation failed: ${errorMessage}`);
+    } finally {
+      await db.execAsync('PRAGMA journal_mode = WAL;');
+    }
+
+    await this.keyStore.setKey(newKey);
+    await this.keyStore.setPendingKey(null);
+    this.logger.info('Database encryption key rotated');
+  }
+
+  /**
+   * Check whether the native SQLite build includes SQLCipher
+   * @param db Open database connection
+   * @returns true if data written through this connection is encrypted
+   */
+  async isCipherAvailable(db: SQLite.SQLiteDatabase): Promise<boolean> {
+    try {
+      const row = await db.getFirstAsync<{ cipher_version?: string }>('PRAGMA cipher_version;');
+      return !!row?.cipher_version;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Open a database and verify that the key (or lack of one) can read it
+   * @param databaseName Database file name
+   * @param key Hex key, or null to open without a key
+   * @returns Connection, or null if the database could not be read
+   */
+  private async tryOpen(databaseName: string, key: string | null): Promise<SQLite.SQLiteDatabase | null> {
+    const db = await SQLite.openDatabaseAsync(databaseName, undefined, this.directory);
+
+    try {
+      if (key) {
+        // Must be the first statement on the connection
+        await db.execAsync(`PRAGMA key = ${rawKey(key)};`);
+      }
+      await db.getFirstAsync('SELECT count(*) AS count FROM sqlite_master;');
+      return db;
+    } catch (error) {
+      await db.closeAsync().catch(() => undefined);
+      return null;
+    }
+  }
+
+  /**
+   * Copy a plaintext database into an encrypted file and swap it into place.
+   * The plaintext file is only removed after the copy has been checked.
+   * @param databaseName Database file name
+   * @param key Hex key for the encrypted copy
+   * @throws EncryptionError if the export fails or the copy is incomplete
+   */
+  private async encryptPlaintextDatabase(databaseName: string, key: string): Promise<void> {
+    this.logger.info(`Encrypting existing plaintext database: ${databaseName}`);
+
+    const path = `${this.directory}/${databaseName}`;
+    const tempPath = `${path}.encrypting`;
+    await FileSystem.deleteAsync(toUri(tempPath), { idempotent: true });
+
+    const plaintext = await SQLite.openDatabaseAsync(databaseName, undefined, this.directory);
+    try {
+      await plaintext.execAsync('PRAGMA wal_checkpoint(TRUNCATE);');
+      const version = await plaintext.getFirstAsync<{ user_version: number }>('PRAGMA user_version;');
+
+      await plaintext.runAsync(`ATTACH DATABASE ? AS encrypted KEY ${rawKey(key)};`, [tempPath]);
+      await plaintext.execAsync(`
+        SELECT sqlcipher_export('encrypted');
+        PRAGMA encrypted.user_version = ${Number(version?.user_version) || 0};
+      `);
+
+      const source = await plaintext.getFirstAsync<{ count: number }>('SELECT count(*) AS count FROM main.sqlite_master;');
+      const copy = await plaintext.getFirstAsync<{ count: number }>('SELECT count(*) AS count FROM encrypted.sqlite_master;');
+      await plaintext.execAsync('DETACH DATABASE encrypted;');
+
+      if ((source?.count || 0) !== (copy?.count || 0)) {
+        throw new EncryptionError(`Encrypted copy has ${copy?.count} schema objects, expected ${source?.count}`);
+      }
+    } catch (error) {
+      await FileSystem.deleteAsync(toUri(tempPath), { idempotent: true });
+      if (error instanceof EncryptionError) throw error;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to encrypt database: ${errorMessage}`, error instanceof Error ? error : undefined);
+      throw new EncryptionError(`Failed to encrypt database: ${errorMessage}`);
+    } finally {
+      await plaintext.closeAsync();
+    }
+
+    for (const suffix of ['', '-wal', '-shm']) {
+      await FileSystem.deleteAsync(toUri(`${path}${suffix}`), { idempotent: true });
+    }
+    await FileSystem.moveAsync({ from: toUri(tempPath), to: toUri(path) });
+
+    this.logger.info(`Database ${databaseName} is now encrypted`);
+  }
+
+  /**
+   * Log a warning when encryption was requested but the native build lacks SQLCipher
+   * @param db Open database connection
+   */
+  private async warnIfUnencrypted(db: SQLite.SQLiteDatabase): Promise<void> {
+    if (!(await this.isCipherAvailable(db))) {
+      this.logger.warn('SQLCipher is not available in this build; the database is stored unencrypted');
+    }
+  }
+}
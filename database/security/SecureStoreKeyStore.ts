@@ -0,0 +1,66 @@
+import 'react-native-get-random-values';
+import * as SecureStore from 'expo-secure-store';
+import { IDatabaseKeyStore } from '../interfaces/IDatabaseKeyStore';
+
+const KEY_NAME = 'bluebot_db_key';
+const PENDING_KEY_NAME = 'bluebot_db_key_pending';
+
+/**
+ * Keys never leave the device: they are excluded from iCloud/Google backups
+ * and only readable while the device is unlocked.
+ */
+const STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+/**
+ * SecureStoreKeyStore Class
+ * Keeps the database encryption key in the platform keychain/keystore via expo-secure-store
+ */
+export class SecureStoreKeyStore implements IDatabaseKeyStore {
+  /**
+   * Get the active encryption key
+   * @returns Key or null if none has been stored yet
+   */
+  async getKey(): Promise<string | null> {
+    return SecureStore.getItemAsync(KEY_NAME, STORE_OPTIONS);
+  }
+
+  /**
+   * Store the active encryption key
+   * @param key Hex key
+   */
+  async setKey(key: string): Promise<void> {
+    await SecureStore.setItemAsync(KEY_NAME, key, STORE_OPTIONS);
+  }
+
+  /**
+   * Get the key of a rotation that has not been confirmed yet
+   * @returns Key or null if no rotation is in progress
+   */
+  async getPendingKey(): Promise<string | null> {
+    return SecureStore.getItemAsync(PENDING_KEY_NAME, STORE_OPTIONS);
+  }
+
+  /**
+   * Store or clear the key of a rotation in progress
+   * @param key Hex key, or null to clear
+   */
+  async setPendingKey(key: string | null): Promise<void> {
+    if (key === null) {
+      await SecureStore.deleteItemAsync(PENDING_KEY_NAME, STORE_OPTIONS);
+    } else {
+      await SecureStore.setItemAsync(PENDING_KEY_NAME, key, STORE_OPTIONS);
+    }
+  }
+
+  /**
+   * Generate a new random 256-bit key
+   * @returns Hex key
+   */
+  generateKey(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  }
+}
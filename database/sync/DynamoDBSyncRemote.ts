@@ -0,0 +1,173 @@
+import { ISyncRemote, SyncChange, SyncPushResult } from '../interfaces/ISyncRemote';
+import { SyncError } from '../errors/DatabaseErrors';
+import { AWSDynamoDBService } from '../../services/AWSDynamoDBService';
+
+/**
+ * DynamoDBSyncRemote Class
+ * Pushes queued local changes to DynamoDB through AWSDynamoDBService.
+ * Operations the cloud API does not offer yet fail with a non-retryable SyncError.
+ */
+export class DynamoDBSyncRemote implements ISyncRemote {
+  readonly name = 'dynamodb';
+  private readonly service: AWSDynamoDBService;
+
+  /**
+   * DynamoDBSyncRemote constructor
+   * @param service DynamoDB service instance
+   */
+  constructor(service: AWSDynamoDBService) {
+    this.service = service;
+  }
+
+  /**
+   * Push a change to DynamoDB
+   * @param change Change to apply remotely
+   * @returns Push result
+   */
+  async push(change: SyncChange): Promise<SyncPushResult> {
+    try {
+      switch (change.entityType) {
+        case 'expense':
+          return await this.pushExpense(change);
+        case 'receipt':
+          return await this.pushReceipt(change);
+        case 'transaction':
+          return await this.pushTransaction(change);
+        case 'budget':
+          return await this.pushBudget(change);
+        default:
+          throw new SyncError(`DynamoDB sync does not support ${change.entityType} records`, false);
+      }
+    } catch (error) {
+      if (error instanceof SyncError) throw error;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new SyncError(`DynamoDB push failed: ${errorMessage}`);
+    }
+  }
+
+  private async pushExpense(change: SyncChange): Promise<SyncPushResult> {
+    const { data } = change;
+
+    if (change.operation === 'delete') {
+      // Never reached the cloud, nothing to remove
+      if (!change.remoteId) return {};
+      await this.service.deleteExpense(change.remoteId, data.userId);
+      return {};
+    }
+
+    const fields = {
+      userId: data.userId,
+      amount: data.amount,
+      currency: 'ZAR',
+      category: data.category,
+      description: data.description || data.merchant || '',
+      date: data.date,
+      receiptUrl: data.receiptUrl || undefined,
+      isRecurring: Boolean(data.isRecurring),
+    };
+
+    if (change.operation === 'update' && change.remoteId) {
+      await this.service.updateExpense(change.remoteId, fields);
+      return {};
+    }
+
+    const created = await this.service.createExpense(fields);
+    return { remoteId: created.expenseId };
+  }
+
+  private async pushReceipt(change: SyncChange): Promise<SyncPushResult> {
+    const { data } = change;
+
+    if (change.operation === 'delete') {
+      if (!change.remoteId) return {};
+      await this.service.deleteReceipt(change.remoteId);
+      return {};
+    }
+
+    const extractedData = {
+      merchant: data.merchantName,
+      total: data.amount,
+      currency: 'ZAR',
+      date: data.date,
+      items: this.parseItems(data.items),
+    };
+    const ocrStatus = data.processed ? 'completed' : 'pending';
+
+    if (change.operation === 'update' && change.remoteId) {
+      await this.service.updateReceiptOCRStatus(change.remoteId, ocrStatus, extractedData);
+      return {};
+    }
+
+    const created = await this.service.createReceipt({
+      userId: data.userId,
+      imageUrl: data.imageUri,
+      extractedData,
+      ocrStatus,
+    });
+    return { remoteId: created.receiptId };
+  }
+
+  private async pushTransaction(change: SyncChange): Promise<SyncPushResult> {
+    const { data } = change;
+
+    if (change.operation === 'delete') {
+      if (!change.remoteId) return {};
+      await this.service.deleteTransaction(change.remoteId);
+      return {};
+    }
+    if (change.operation === 'update' && change.remoteId) {
+      throw new SyncError('DynamoDB sync does not support updating transactions', false);
+    }
+
+    const created = await this.service.createTransaction({
+      userId: data.userId,
+      type: data.type,
+      amount: data.amount,
+      currency: 'ZAR',
+      category: data.category,
+      description: data.description,
+      date: data.date,
+      accountFrom: data.fromAccount || undefined,
+      accountTo: data.toAccount || undefined,
+      status: 'completed',
+    });
+    return { remoteId: created.transactionId };
+  }
+
+  private async pushBudget(change: SyncChange): Promise<SyncPushResult> {
+    const { data } = change;
+
+    if (change.operation === 'delete') {
+      if (!change.remoteId) return {};
+      throw new SyncError('DynamoDB sync does not support deleting budgets', false);
+    }
+    if (change.operation === 'update' && change.remoteId) {
+      throw new SyncError('DynamoDB sync does not support updating budgets', false);
+    }
+
+    const created = await this.service.createBudget({
+      userId: data.userId,
+      name: data.name,
+      totalAmount: data.amount,
+      // Spending is derived from the synced expenses, not stored with the budget
+      spentAmount: 0,
+      currency: 'ZAR',
+      category: data.category || undefined,
+      period: data.period,
+      startDate: data.startDate,
+      endDate: data.endDate || '',
+      isActive: Boolean(data.isActive),
+    });
+    return { remoteId: created.budgetId };
+  }
+
+  private parseItems(items: unknown): Array<{ name: string; price: number; quantity?: number }> {
+    if (typeof items !== 'string' || !items) return [];
+    try {
+      const parsed = JSON.parse(items);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+}
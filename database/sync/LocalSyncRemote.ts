@@ -0,0 +1,53 @@
+import { ISyncRemote, SyncChange, SyncPushResult } from '../interfaces/ISyncRemote';
+import { SyncEntityType } from '../models/Records';
+
+/**
+ * LocalSyncRemote Class
+ * In-memory stand-in for the cloud store, used in demo mode and tests
+ */
+export class LocalSyncRemote implements ISyncRemote {
+  readonly name = 'local';
+  private readonly store = new Map<string, Record<string, any>>();
+  private counter = 0;
+
+  /**
+   * Apply a change to the in-memory store
+   * @param change Change to apply
+   * @returns Push result with the remote ID for creates
+   */
+  async push(change: SyncChange): Promise<SyncPushResult> {
+    switch (change.operation) {
+      case 'create': {
+        const remoteId = `${change.entityType}_${++this.counter}`;
+        this.store.set(this.key(change.entityType, remoteId), { ...change.data, firebaseId: remoteId });
+        return { remoteId };
+      }
+      case 'update': {
+        const remoteId = change.remoteId || `${change.entityType}_${++this.counter}`;
+        this.store.set(this.key(change.entityType, remoteId), { ...change.data, firebaseId: remoteId });
+        return change.remoteId ? {} : { remoteId };
+      }
+      case 'delete':
+        if (change.remoteId) {
+          this.store.delete(this.key(change.entityType, change.remoteId));
+        }
+        return {};
+    }
+  }
+
+  /**
+   * Get all records stored for an entity type
+   * @param entityType Entity type
+   * @returns Stored record snapshots
+   */
+  getRecords(entityType: SyncEntityType): Record<string, any>[] {
+    const prefix = `${entityType}:`;
+    return [...this.store.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, value]) => value);
+  }
+
+  private key(entityType: SyncEntityType, remoteId: string): string {
+    return `${entityType}:${remoteId}`;
+  }
+}
@@ -0,0 +1,301 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ISyncQueueRepository } from '../interfaces/Repositories';
+import { ISyncRemote, SyncChange } from '../interfaces/ISyncRemote';
+import { ILogger } from '../interfaces/ILogger';
+import { SyncEntityType, SyncQueueRecord, SyncStatus } from '../models/Records';
+import { SyncError } from '../errors/DatabaseErrors';
+
+/**
+ * Local table backing each syncable entity type
+ */
+export const SYNC_ENTITY_TABLES: Record<SyncEntityType, string> = {
+  expense: 'expenses',
+  receipt: 'receipts',
+  goal: 'financial_goals',
+  transaction: 'transactions',
+  budget: 'budgets',
+};
+
+/**
+ * SyncEngineOptions Interface
+ * Tuning knobs for queue processing
+ */
+export interface SyncEngineOptions {
+  /** Attempts before an entry is given up on and its record marked as 'error' */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles with every further attempt */
+  baseDelayMs?: number;
+  /** Upper bound for the retry delay */
+  maxDelayMs?: number;
+  /** Maximum number of entries pushed per run */
+  batchSize?: number;
+}
+
+/**
+ * SyncRunResult Interface
+ * Summary of a single queue processing run
+ */
+export interface SyncRunResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  /** Entries that were skipped because their retry delay has not elapsed */
+  deferred: number;
+}
+
+/**
+ * SyncEngine Class
+ * Drains the sync_queue table to a pluggable remote in priority order,
+ * retrying failures with exponential backoff and keeping record syncStatus up to date
+ */
+export class SyncEngine {
+  private readonly dbManager: IDatabaseManager;
+  private readonly queue: ISyncQueueRepository;
+  private readonly logger: ILogger;
+  private readonly options: Required<SyncEngineOptions>;
+  private remote: ISyncRemote;
+  private running: boolean = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * SyncEngine constructor
+   * @param dbManager Database manager instance
+   * @param queue Sync queue repository
+   * @param remote Remote store that receives the changes
+   * @param logger Logger instance
+   * @param options Processing options
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    queue: ISyncQueueRepository,
+    remote: ISyncRemote,
+    logger: ILogger,
+    options: SyncEngineOptions = {}
+  ) {
+    this.dbManager = dbManager;
+    this.queue = queue;
+    this.remote = remote;
+    this.logger = logger;
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      baseDelayMs: options.baseDelayMs ?? 30_000,
+      maxDelayMs: options.maxDelayMs ?? 60 * 60 * 1000,
+      batchSize: options.batchSize ?? 25,
+    };
+  }
+
+  /**
+   * Replace the remote store (e.g. switch from the local stand-in to DynamoDB after sign-in)
+   * @param remote New remote store
+   */
+  setRemote(remote: ISyncRemote): void {
+    this.remote = remote;
+  }
+
+  /**
+   * Retry delay for an entry that has failed the given number of times
+   * @param attempts Number of failed attempts so far
+   * @returns Delay in milliseconds
+   */
+  getRetryDelay(attempts: number): number {
+    if (attempts <= 0) return 0;
+    return Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempts - 1));
+  }
+
+  /**
+   * Check whether an entry's retry delay has elapsed
+   * @param entry Queue entry
+   * @param now Current time in milliseconds
+   */
+  private isDue(entry: SyncQueueRecord, now: number): boolean {
+    if (entry.attempts === 0 || !entry.lastAttempt) return true;
+    return new Date(entry.lastAttempt).getTime() + this.getRetryDelay(entry.attempts) <= now;
+  }
+
+  /**
+   * Queue records that are marked pending but have no queue entry,
+   * e.g. rows written before the queue existed or whose enqueue failed.
+   * Deleted records are queued as deletes so they are not recreated remotely;
+   * those that never reached the remote have nothing to send.
+   * @returns Number of entries queued
+   */
+  async enqueueUntracked(): Promise<number> {
+    let queued = 0;
+
+    for (const [entityType, table] of Object.entries(SYNC_ENTITY_TABLES) as [SyncEntityType, string][]) {
+      const rows = await this.dbManager.execute<any[]>(
+        `SELECT * FROM ${table} t
+         WHERE t.syncStatus = 'pending'
+         AND (t.deletedAt IS NULL OR t.firebaseId IS NOT NULL)
+         AND NOT EXISTS (
+           SELECT 1 FROM sync_queue q
+           WHERE q.entityType = ? AND q.entityId = t.id AND q.status IN ('pending', 'in_progress', 'error')
+         )`,
+        [entityType]
+      );
+
+      for (const row of rows) {
+        const operation = row.deletedAt ? 'delete' : row.firebaseId ? 'update' : 'create';
+        await this.queue.enqueue(entityType, row.id, operation, row);
+        queued++;
+      }
+    }
+
+    if (queued > 0) {
+      this.logger.info(`Queued ${queued} untracked pending records for sync`);
+    }
+    return queued;
+  }
+
+  /**
+   * Push due queue entries to the remote store
+   * @returns Run summary
+   */
+  async processQueue(): Promise<SyncRunResult> {
+    const result: SyncRunResult = { processed: 0, succeeded: 0, failed: 0, deferred: 0 };
+
+    if (this.running) {
+      this.logger.debug('Sync already running, skipping');
+      return result;
+    }
+
+    this.running = true;
+    try {
+      await this.queue.resetInProgress();
+
+      const now = Date.now();
+      const candidates = await this.queue.getProcessable(this.options.maxAttempts, this.options.batchSize * 4);
+      const due = candidates.filter(entry => this.isDue(entry, now));
+      result.deferred = candidates.length - due.length;
+
+      this.logger.info(`Syncing ${Math.min(due.length, this.options.batchSize)} queued changes to ${this.remote.name}`);
+
+      for (const entry of due.slice(0, this.options.batchSize)) {
+        result.processed++;
+        if (await this.processEntry(entry)) {
+          result.succeeded++;
+        } else {
+          result.failed++;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    this.logger.info('Sync run finished', result);
+    return result;
+  }
+
+  /**
+   * Push a single entry and record the outcome
+   * @param entry Queue entry
+   * @returns true if the remote accepted the change
+   */
+  private async processEntry(entry: SyncQueueRecord): Promise<boolean> {
+    const id = entry.id!;
+    await this.queue.markInProgress(id);
+
+    const data = entry.data ? JSON.parse(entry.data) : {};
+    const change: SyncChange = {
+      queueId: id,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      operation: entry.operation,
+      remoteId: data.firebaseId || (await this.lookupRemoteId(entry)) || undefined,
+      data,
+    };
+
+    try {
+      const pushResult = await this.remote.push(change);
+      await this.queue.markSuccess(id);
+
+      if (entry.operation === 'create' && pushResult.remoteId) {
+        await this.dbManager.execute(
+          `UPDATE ${SYNC_ENTITY_TABLES[entry.entityType]} SET firebaseId = ? WHERE id = ?`,
+          [pushResult.remoteId, entry.entityId]
+        );
+        await this.queue.assignRemoteId(entry.entityType, entry.entityId, pushResult.remoteId);
+      }
+
+      // The remote copy is gone; a record restored from the trash later has to be created again
+      if (entry.operation === 'delete') {
+        await this.dbManager.execute(
+          `UPDATE ${SYNC_ENTITY_TABLES[entry.entityType]} SET firebaseId = NULL WHERE id = ? AND deletedAt IS NOT NULL`,
+          [entry.entityId]
+        );
+      }
+
+      if (!(await this.queue.hasPending(entry.entityType, entry.entityId, id))) {
+        await this.setRecordStatus(entry, 'synced');
+      }
+
+      this.logger.debug(`Synced ${entry.operation} for ${entry.entityType} ${entry.entityId}`);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const retryable = !(error instanceof SyncError) || error.retryable;
+      const attempts = retryable ? entry.attempts + 1 : this.options.maxAttempts;
+
+      await this.queue.markError(id, errorMessage, attempts);
+
+      if (attempts >= this.options.maxAttempts) {
+        this.logger.error(`Giving up on ${entry.operation} for ${entry.entityType} ${entry.entityId}: ${errorMessage}`,
+          error instanceof Error ? error : undefined);
+        await this.setRecordStatus(entry, 'error');
+      } else {
+        this.logger.warn(`Sync attempt ${attempts} failed for ${entry.entityType} ${entry.entityId}, retrying in ${this.getRetryDelay(attempts)}ms`, {
+          error: errorMessage,
+        });
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Read the remote ID stored on the local record
+   * @param entry Queue entry
+   * @returns Remote ID or null
+   */
+  private async lookupRemoteId(entry: SyncQueueRecord): Promise<string | null> {
+    const rows = await this.dbManager.execute<{ firebaseId: string | null }[]>(
+      `SELECT firebaseId FROM ${SYNC_ENTITY_TABLES[entry.entityType]} WHERE id = ?`,
+      [entry.entityId]
+    );
+    return rows[0]?.firebaseId || null;
+  }
+
+  /**
+   * Update the syncStatus column of the local record behind a queue entry
+   * @param entry Queue entry
+   * @param status New sync status
+   */
+  private async setRecordStatus(entry: SyncQueueRecord, status: SyncStatus): Promise<void> {
+    await this.dbManager.execute(
+      `UPDATE ${SYNC_ENTITY_TABLES[entry.entityType]} SET syncStatus = ? WHERE id = ?`,
+      [status, entry.entityId]
+    );
+  }
+
+  /**
+   * Process the queue periodically
+   * @param intervalMs Interval between runs
+   */
+  start(intervalMs: number = 60_000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processQueue().catch(error => {
+        this.logger.error('Scheduled sync run failed', error instanceof Error ? error : undefined);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop periodic processing
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
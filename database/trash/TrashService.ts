@@ -0,0 +1,207 @@
+import { IDatabaseManager } from '../interfaces/IDatabaseManager';
+import { ITrashableRepository } from '../interfaces/IRepository';
+import { ILogger } from '../interfaces/ILogger';
+import { IReceiptAttachmentRepository } from '../interfaces/Repositories';
+import {
+  BudgetRecord,
+  ChangeContext,
+  ExpenseRecord,
+  FinancialGoalRecord,
+  ReceiptRecord,
+  SyncEntityType,
+  TransactionRecord,
+} from '../models/Records';
+import { SYNC_ENTITY_TABLES } from '../sync/SyncEngine';
+import { changeEvents } from '../events/ChangeEventBus';
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * TrashRepositories Type
+ * The repository behind each entity type that can be in the trash
+ */
+export type TrashRepositories = {
+  expense: ITrashableRepository<ExpenseRecord>;
+  receipt: ITrashableRepository<ReceiptRecord>;
+  goal: ITrashableRepository<FinancialGoalRecord>;
+  transaction: ITrashableRepository<TransactionRecord>;
+  budget: ITrashableRepository<BudgetRecord>;
+};
+
+/**
+ * TrashOptions Interface
+ * Retention settings for deleted records
+ */
+export interface TrashOptions {
+  /** Days a deleted record stays restorable before the purge job removes it for good */
+  retentionDays?: number;
+}
+
+/**
+ * TrashItem Interface
+ * A deleted record as shown in the trash view
+ */
+export interface TrashItem {
+  entityType: SyncEntityType;
+  record: ExpenseRecord | ReceiptRecord | FinancialGoalRecord | TransactionRecord | BudgetRecord;
+  deletedAt: string;
+  /** When the purge job removes the record for good */
+  purgeAt: string;
+}
+
+/**
+ * TrashService Class
+ * Lists and restores soft-deleted records, and permanently removes them once
+ * the retention period has passed and their deletion has reached the remote store
+ */
+export class TrashService {
+  private readonly dbManager: IDatabaseManager;
+  private readonly repositories: TrashRepositories;
+  private readonly logger: ILogger;
+  private readonly attachments?: IReceiptAttachmentRepository;
+  private retentionDays: number = DEFAULT_RETENTION_DAYS;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * TrashService constructor
+   * @param dbManager Database manager instance
+   * @param repositories Repository behind each entity type
+   * @param logger Logger instance
+   * @param options Retention settings
+   * @param attachments Optional attachment repository; when set, the files of purged receipts are deleted
+   */
+  constructor(
+    dbManager: IDatabaseManager,
+    repositories: TrashRepositories,
+    logger: ILogger,
+    options: TrashOptions = {},
+    attachments?: IReceiptAttachmentRepository
+  ) {
+    this.dbManager = dbManager;
+    this.repositories = repositories;
+    this.logger = logger;
+    this.attachments = attachments;
+    this.setRetentionDays(options.retentionDays ?? DEFAULT_RETENTION_DAYS);
+  }
+
+  /**
+   * Get the number of days deleted records are kept
+   * @returns Retention period in days
+   */
+  getRetentionDays(): number {
+    return this.retentionDays;
+  }
+
+  /**
+   * Change the number of days deleted records are kept
+   * @param days Retention period in days (0 purges on the next run)
+   * @throws RangeError if days is negative or not a number
+   */
+  setRetentionDays(days: number): void {
+    if (!Number.isFinite(days) || days < 0) {
+      throw new RangeError(`Invalid retention period: ${days} days`);
+    }
+    this.retentionDays = days;
+  }
+
+  /**
+   * Get a user's deleted records, most recently deleted first
+   * @param userId User ID
+   * @param entityTypes Only list these entity types
+   * @returns Trash items
+   */
+  async list(userId: string, entityTypes?: SyncEntityType[]): Promise<TrashItem[]> {
+    const types = entityTypes ?? (Object.keys(this.repositories) as SyncEntityType[]);
+    const items: TrashItem[] = [];
+
+    for (const entityType of types) {
+      const records = await this.repositories[entityType].getDeleted(userId);
+      for (const record of records) {
+        items.push({
+          entityType,
+          record,
+          deletedAt: record.deletedAt!,
+          purgeAt: new Date(new Date(record.deletedAt!).getTime() + this.retentionDays * DAY_MS).toISOString(),
+        });
+      }
+    }
+
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Take a record out of the trash
+   * @param entityType Entity type
+   * @param id Record ID
+   * @param context Who made the change and how
+   * @returns true if the record was in the trash and has been restored
+   */
+  async restore(entityType: SyncEntityType, id: number, context?: ChangeContext): Promise<boolean> {
+    this.logger.info(`Restoring ${entityType} ${id} from the trash`);
+    return this.repositories[entityType].restore(id, context);
+  }
+
+  /**
+   * Permanently remove records deleted before the retention period.
+   * Records whose deletion has not reached the remote store yet are kept, so the
+   * tombstone is still there to send and the remote copy cannot come back.
+   * @param now Reference time
+   * @returns Number of records removed
+   */
+  async purge(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.retentionDays * DAY_MS).toISOString();
+    this.logger.info(`Purging records deleted before ${cutoff}`);
+
+    const entries = Object.entries(SYNC_ENTITY_TABLES) as [SyncEntityType, string][];
+    const results = await this.dbManager.transaction<{ changes: number }>(
+      entries.map(([entityType, table]) => ({
+        query: `DELETE FROM ${table}
+                WHERE deletedAt IS NOT NULL AND deletedAt <= ? AND firebaseId IS NULL
+                AND NOT EXISTS (
+                  SELECT 1 FROM sync_queue q
+                  WHERE q.entityType = ? AND q.entityId = ${table}.id AND q.status IN ('pending', 'in_progress', 'error')
+                )`,
+        params: [cutoff, entityType],
+      }))
+    );
+
+    const purged = results.reduce((total, result) => total + (result?.changes || 0), 0);
+    this.logger.info(`Purged ${purged} deleted records`);
+    entries.forEach(([entityType], index) => {
+      if (results[index]?.changes > 0) {
+        changeEvents.emit({ entity: entityType, operation: 'delete', ids: [] });
+      }
+    });
+
+    // Purged receipts take their attachment rows with them; their files go now
+    if (purged > 0 && this.attachments) {
+      await this.attachments.cleanupOrphanedFiles();
+    }
+    return purged;
+  }
+
+  /**
+   * Purge the trash periodically
+   * @param intervalMs Interval between runs
+   */
+  start(intervalMs: number = DAY_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.purge().catch(error => {
+        this.logger.error('Scheduled trash purge failed', error instanceof Error ? error : undefined);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop periodic purging
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { LiveQuery, LiveQueryState } from '@/database/events/LiveQuery';
+import { ChangeEventEntity } from '@/database/interfaces/IChangeEventBus';
+
+export interface LiveQueryResult<T> extends LiveQueryState<T> {
+  /** Run the query now, for example on pull-to-refresh */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Run a query and re-run it whenever the repositories change records of the given kinds.
+ * The query restarts when an entry of deps changes; the previous result stays visible until the new one arrives.
+ * @param query Query to run
+ * @param entities Kinds of records the query reads
+ * @param deps Values the query depends on
+ */
+export function useLiveQuery<T>(
+  query: () => Promise<T>,
+  entities: ChangeEventEntity[],
+  deps: React.DependencyList = []
+): LiveQueryResult<T> {
+  const [state, setState] = React.useState<LiveQueryState<T>>({ data: undefined, loading: true, error: null });
+  const live = React.useRef<LiveQuery<T> | null>(null);
+
+  React.useEffect(() => {
+    const liveQuery = new LiveQuery(query, entities, setState);
+    live.current = liveQuery;
+    setState(previous => (previous.loading ? previous : { ...previous, loading: true }));
+    liveQuery.start();
+    return () => liveQuery.stop();
+    // query is recreated every render; deps says when it actually changes
+  }, [entities.join(','), ...deps]);
+
+  const refresh = React.useCallback(() => live.current?.refresh() ?? Promise.resolve(), []);
+
+  return { ...state, refresh };
+}
@@ -462,6 +462,21 @@ export class AWSDynamoDBService {
     }
   }
 
+  async deleteReceipt(receiptId: string): Promise<void> {
+    try {
+      if (!this.documentClient) {
+        console.log('Deleting receipt (no AWS client):', receiptId);
+        return;
+      }
+      const TableName = TABLE_NAMES.RECEIPTS;
+      const { DeleteCommand } = this.lib;
+      await this.documentClient.send(new DeleteCommand({ TableName, Key: { receiptId } }));
+    } catch (error) {
+      console.error('Error deleting receipt:', error);
+      throw error;
+    }
+  }
+
   // Transaction Operations
   async createTransaction(transaction: Omit<DynamoDBTransaction, 'transactionId' | 'createdAt' | 'updatedAt'>): Promise<DynamoDBTransaction> {
     const transactionId = this.generateId();
@@ -484,6 +499,21 @@ export class AWSDynamoDBService {
     }
   }
 
+  async deleteTransaction(transactionId: string): Promise<void> {
+    try {
+      if (!this.documentClient) {
+        console.log('Deleting transaction (no AWS client):', transactionId);
+        return;
+      }
+      const TableName = TABLE_NAMES.TRANSACTIONS;
+      const { DeleteCommand } = this.lib;
+      await this.documentClient.send(new DeleteCommand({ TableName, Key: { transactionId } }));
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+      throw error;
+    }
+  }
+
   async getTransactionsByUserId(userId: string, limit?: number): Promise<DynamoDBTransaction[]> {
     try {
       // DynamoDB query operation
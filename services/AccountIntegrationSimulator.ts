@@ -1,6 +1,7 @@
 // Simulated bank account + transactions feed to replace direct expenses reliance.
 // Provides deterministic pseudo-random generation for demo/testing.
 import { BankAccount, Transaction } from '../types/finance';
+import { RecurrenceRuleRecord } from '../database/models/Records';
 
 export interface AccountFeedState {
   accounts: BankAccount[];
@@ -11,6 +12,13 @@ export interface AccountFeedState {
 export class AccountIntegrationSimulator {
   private static categories = ['Food','Transport','Utilities','Entertainment','Health','Shopping','Savings','Income'];
   private static merchants = ['Pick n Pay','Checkers','Woolworths','Uber','Takealot','Dischem','Clicks','Nedbank','Standard Bank','Spar'];
+  // Demo tags so tag filters have something to work with; real feeds carry user-assigned tags
+  private static merchantTags: Record<string, string[]> = {
+    'Uber': ['work-trip'],
+    'Takealot': ['online'],
+    'Dischem': ['medical'],
+    'Clicks': ['medical'],
+  };
 
   static generate(seed: string = 'demo', months: number = 2, avgTxPerDay: number = 3): AccountFeedState {
     const rng = this.prng(seed);
@@ -47,7 +55,7 @@ export class AccountIntegrationSimulator {
           type: isIncome ? 'income' : 'expense',
           merchant: description,
           recurring: !isIncome && rng() < 0.15, // ~15% flagged recurring
-          tags: []
+          tags: isIncome ? [] : [...(this.merchantTags[description] || [])]
         });
       }
       day.setDate(day.getDate() + 1);
@@ -69,7 +77,41 @@ export class AccountIntegrationSimulator {
       amount: Math.abs(t.amount),
       category: t.category,
       date: t.date,
-      isRecurring: t.recurring
+      isRecurring: t.recurring,
+      tags: t.tags || [],
+      splits: t.splits?.map(s => ({ ...s, amount: Math.abs(s.amount) }))
+    }));
+  }
+
+  static toRecurrenceRules(transactions: Transaction[], userId: string = 'demo'): RecurrenceRuleRecord[] {
+    // Debits flagged recurring become monthly rules per merchant, repeating on the day and amount of the latest debit
+    const byMerchant = new Map<string, { first: Transaction; last: Transaction }>();
+    for (const t of transactions) {
+      if (t.type !== 'expense' || !t.recurring) continue;
+      const key = t.merchant || t.description;
+      const entry = byMerchant.get(key);
+      if (!entry) byMerchant.set(key, { first: t, last: t });
+      else {
+        if (t.date < entry.first.date) entry.first = t;
+        if (t.date > entry.last.date) entry.last = t;
+      }
+    }
+    return [...byMerchant.entries()].map(([name, { first, last }], idx) => ({
+      id: idx + 1,
+      userId,
+      entityType: 'expense',
+      name,
+      amount: Math.abs(last.amount),
+      category: last.category,
+      merchant: last.merchant,
+      frequency: 'monthly',
+      interval: 1,
+      dayOfMonth: new Date(last.date).getUTCDate(),
+      startDate: first.date.slice(0,10),
+      materializedThrough: last.date.slice(0,10),
+      active: true,
+      createdAt: first.date,
+      updatedAt: last.date
     }));
   }
 
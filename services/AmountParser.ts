@@ -0,0 +1,255 @@
+// Finds amounts in chat messages: digits in South African formats ("R 2 500,50", "R1.5k", "50c")
+// and spelled-out numbers ("two hundred and fifty rand", "half a bar"). Every number found is
+// classified, so a date ("10 Aug") or a quantity ("2 coffees", "500ml") is not mistaken for money.
+// A minus sign ("R-5") is kept in the value, so a negative amount is never taken as money spent.
+
+import { activeLexicons, englishLexicon, IntentLexicon, numberWordValue } from './IntentLexicons';
+import { monthIndex } from './DateParser';
+
+export type AmountKind = 'money' | 'date' | 'quantity'; // dates include times of day
+
+export interface AmountMatch {
+  value: number; // negative when written with a minus sign
+  kind: AmountKind;
+  confidence: number; // 0-1, how sure the parser is of the kind
+  start: number; // span in the original text
+  end: number;
+  text: string;
+}
+
+// Slang and shorthand for thousands: "R1.5k", "two grand", "half a bar"
+const THOUSAND_WORDS = ['k', 'grand', 'bar', 'bars'];
+const MILLION_WORDS = ['mil', 'million', 'miljoen'];
+
+const QUANTITY_UNITS = [
+  'x', 'kg', 'g', 'mg', 'l', 'ml', 'm', 'km', '%', 'item', 'items', 'pc', 'pcs', 'piece', 'pieces', 'pack', 'packs',
+  'bottle', 'bottles', 'litre', 'litres', 'liter', 'liters', 'kilo', 'kilos', 'people', 'kids', 'times',
+  'hour', 'hours', 'hr', 'hrs', 'min', 'mins', 'minute', 'minutes', 'day', 'days', 'week', 'weeks',
+  'month', 'months', 'year', 'years',
+];
+
+// A bare number after these is a price: "2 coffees for 60", "two beers at 45"
+const PRICE_BEFORE = /\b(?:for|at)\s+$/i;
+
+// Words ending in "s" that follow a number without counting anything: "paid 2000 towards rent"
+const NOT_PLURALS = ['towards', 'afterwards', 'always', 'besides', 'perhaps', 'whereas'];
+
+// "coffees", "beers", "tickets": a bare number before a plural counts things
+function isPlural(word: string): boolean {
+  const lower = word.toLowerCase();
+  return lower.length > 3 && /[^su]s$/.test(lower) && !NOT_PLURALS.includes(lower);
+}
+
+function isMonth(word: string): boolean {
+  return monthIndex(word) !== undefined;
+}
+
+// Whether a token names the currency or cents, as written or inflected ("amarandi")
+function currencyWord(token: string, lexicons: IntentLexicon[]): boolean {
+  const lower = token.toLowerCase();
+  return lexicons.some(l => l.affixed ? l.currencyWords.some(w => lower.includes(w)) : l.currencyWords.includes(lower));
+}
+
+function centWord(token: string, lexicons: IntentLexicon[]): boolean {
+  const lower = token.toLowerCase();
+  return lexicons.some(l => l.affixed ? l.centWords.some(w => lower.includes(w)) : l.centWords.includes(lower));
+}
+
+// "2 500,50", "2,500.50" and "1.5": a lone separator followed by three digits groups thousands,
+// any other lone separator is the decimal point; with both, the last one is
+function digitsValue(raw: string): number {
+  const s = raw.replace(/[ \u00a0]/g, '');
+  const decimalAt = Math.max(s.lastIndexOf(','), s.lastIndexOf('.'));
+  if (decimalAt < 0) return parseFloat(s);
+  const separators = s.match(/[.,]/g)!;
+  const mixed = new Set(separators).size > 1;
+  const decimals = s.length - decimalAt - 1;
+  if (!mixed && (separators.length > 1 || decimals === 3)) return parseFloat(s.replace(/[.,]/g, ''));
+  return parseFloat(s.slice(0, decimalAt).replace(/[.,]/g, '') + '.' + s.slice(decimalAt + 1));
+}
+
+interface Span { start: number; end: number }
+
+function overlaps(spans: Span[], start: number, end: number): boolean {
+  return spans.some(s => start < s.end && end > s.start);
+}
+
+// Written dates and times: "2025-08-10", "10/08/2025", "10:30", "3pm"
+function findDates(text: string): AmountMatch[] {
+  const found: AmountMatch[] = [];
+  const patterns: [RegExp, (m: RegExpExecArray) => number][] = [
+    [/\b(?:19|20)\d{2}-\d{2}-(\d{2})\b/g, m => parseInt(m[1], 10)],
+    [/\b(\d{1,2})\/\d{1,2}(?:\/\d{2,4})?\b/g, m => parseInt(m[1], 10)],
+    [/\b(\d{1,2})[:h]\d{2}\b/g, m => parseInt(m[1], 10)],
+    [/\b(\d{1,2})\s?(?:am|pm)\b/gi, m => parseInt(m[1], 10)],
+  ];
+  for (const [pattern, value] of patterns) {
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text))) {
+      if (overlaps(found, m.index, m.index + m[0].length)) continue;
+      found.push({ value: value(m), kind: 'date', confidence: 0.9, start: m.index, end: m.index + m[0].length, text: m[0] });
+    }
+  }
+  return found;
+}
+
+function findDigitAmounts(text: string, lexicons: IntentLexicon[], taken: Span[]): AmountMatch[] {
+  const found: AmountMatch[] = [];
+  const pattern = /(^|[^A-Za-z0-9])(-?)(R\s?)?(-?)(\d{1,3}(?:[ \u00a0]\d{3})+(?:[.,]\d{1,2})?(?![\d.,])|\d+(?:[.,]\d+)*)/gi;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(text))) {
+    const [, , signBefore, rand, signAfter, digits] = m;
+    const start = m.index + m[1].length;
+    let end = start + signBefore.length + (rand || '').length + signAfter.length + digits.length;
+    if (overlaps(taken, start, end)) continue;
+
+    let value = digitsValue(digits);
+    let kind: AmountKind = 'money';
+    const before = text.slice(0, start);
+    let after = text.slice(end);
+    const price = PRICE_BEFORE.test(before);
+    let confidence = rand ? 0.95 : /[.,]\d{2}$/.test(digits) ? (price ? 0.8 : 0.7) : price ? 0.7 : 0.6;
+
+    // Multiplier words: "R1.5k", "2 grand", "5 thousand", and "m" straight after a rand amount
+    // ("R2.5m"), where a bare "500m" is metres
+    const scale = after.match(/^\s?([a-z]+)\b/i);
+    const scaleWord = scale?.[1].toLowerCase();
+    const lexiconScale = scaleWord ? lexicons.map(l => numberWordValue(scaleWord, l)).find(v => v !== undefined && v >= 100) : undefined;
+    const millions = !!scaleWord && (MILLION_WORDS.includes(scaleWord) || (scaleWord === 'm' && !!rand && scale![0] === 'm'));
+    if (scaleWord && (THOUSAND_WORDS.includes(scaleWord) || millions || lexiconScale)) {
+      value *= lexiconScale ?? (millions ? 1000000 : 1000);
+      if (THOUSAND_WORDS.includes(scaleWord) || millions) confidence = Math.max(confidence, 0.9);
+      end += scale![0].length;
+      after = text.slice(end);
+    }
+
+    const next = after.match(/^\s*([a-z%]+)/i);
+    const nextWord = next?.[1] ?? '';
+    if (next && centWord(nextWord, lexicons) && (nextWord.length > 1 || !/^\s/.test(after))) {
+      value /= 100;
+      confidence = 0.95;
+      end += next[0].length;
+    } else if (next && currencyWord(nextWord, lexicons)) {
+      confidence = 0.95;
+      end += next[0].length;
+    } else if (!rand) {
+      // Without an R, the words around the number tell what it counts
+      const ordinal = /^(?:st|nd|rd|th)\b/i.test(after);
+      const monthAfter = after.match(/^(?:st|nd|rd|th)?\s+([a-z]+)/i);
+      const monthBefore = before.match(/([a-z]+)\.?\s+$/i);
+      const unit = after.match(/^\s?([a-z%]+)/i);
+      if (ordinal || (monthAfter && isMonth(monthAfter[1])) || (monthBefore && isMonth(monthBefore[1]))) {
+        kind = 'date';
+        confidence = ordinal ? 0.85 : 0.9;
+      } else if ((unit && (QUANTITY_UNITS.includes(unit[1].toLowerCase()) || isPlural(unit[1]))) || /x\s?$/i.test(before)) {
+        kind = 'quantity';
+        confidence = 0.9;
+      }
+    }
+
+    if (signBefore || signAfter) value = -value;
+    if (!isNaN(value)) found.push({ value, kind, confidence, start, end, text: text.slice(start, end) });
+  }
+  return found;
+}
+
+// "two hundred and fifty", "vyf-en-twintig", "amakhulu amabili", "half a bar"
+function findWordAmounts(text: string, lexicon: IntentLexicon, lexicons: IntentLexicon[], taken: Span[]): AmountMatch[] {
+  const found: AmountMatch[] = [];
+  const tokens = [...text.matchAll(/[a-z]+/gi)].map(t => ({ word: t[0].toLowerCase(), start: t.index!, end: t.index! + t[0].length }));
+
+  let i = 0;
+  while (i < tokens.length) {
+    let total = 0;
+    let current = 0;
+    let multiplier = 0;
+    let slang = false;
+    let first = -1;
+    let last = -1;
+    let j = i;
+    for (; j < tokens.length; j++) {
+      const { word, start, end } = tokens[j];
+      if (overlaps(taken, start, end)) break;
+      const fraction = Object.prototype.hasOwnProperty.call(lexicon.fractions, word) ? lexicon.fractions[word] : undefined;
+      // Slang only counts after a number: "the coffee bar" is not R1000
+      const thousand = first >= 0 && word !== 'k' && THOUSAND_WORDS.includes(word);
+      const value = fraction ?? (thousand ? 1000 : numberWordValue(word, lexicon));
+      if (value === undefined) {
+        if (first >= 0 && lexicon.numberJoiners.includes(word)) continue;
+        break;
+      }
+      if (first < 0) first = j;
+      last = j;
+      slang = slang || thousand;
+      if (fraction !== undefined) {
+        // "two and a half" adds, "half a bar" scales what follows
+        current = current ? current + fraction : fraction;
+      } else if (lexicon.countAfterMultiplier && multiplier && value < 10) {
+        // isiZulu and isiXhosa count after the unit: "amakhulu amabili" is two hundred
+        current += multiplier * (value - 1);
+        multiplier = 0;
+      } else if (value >= 1000) {
+        total += (current || 1) * value;
+        current = 0;
+        multiplier = value;
+      } else if (value >= 100 || (value === 10 && lexicon.countAfterMultiplier)) {
+        current = value === 10 ? current + value : (current || 1) * value;
+        multiplier = value;
+      } else {
+        current += value;
+      }
+    }
+    if (first < 0) {
+      i = j + 1;
+      continue;
+    }
+
+    let value = total + current;
+    let end = tokens[last].end;
+    const next = tokens[last + 1];
+    const adjacent = next && /^\s*$/.test(text.slice(end, next.start));
+    let kind: AmountKind = 'money';
+    let confidence: number;
+    if (adjacent && centWord(next.word, lexicons)) {
+      value /= 100;
+      confidence = 0.9;
+      end = next.end;
+    } else if (adjacent && currencyWord(next.word, lexicons)) {
+      confidence = 0.9;
+      end = next.end;
+    } else if (slang) {
+      confidence = 0.9;
+    } else if (adjacent && (QUANTITY_UNITS.includes(next.word) || isMonth(next.word)) && value < 100) {
+      kind = isMonth(next.word) ? 'date' : 'quantity';
+      confidence = 0.8;
+    } else if (value < 10) {
+      // A lone small number word counts things: "the last one", "two coffees"
+      kind = 'quantity';
+      confidence = 0.5;
+    } else {
+      confidence = 0.6;
+    }
+    const start = tokens[first].start;
+    found.push({ value, kind, confidence, start, end, text: text.slice(start, end) });
+    i = last + 1;
+  }
+  return found;
+}
+
+// Every number in the text with what it most likely is, in text order
+export function findAmounts(text: string, lexicon: IntentLexicon = englishLexicon): AmountMatch[] {
+  const lexicons = activeLexicons(lexicon);
+  const found = findDates(text || '');
+  found.push(...findDigitAmounts(text || '', lexicons, found));
+  for (const l of lexicons) {
+    found.push(...findWordAmounts(text || '', l, lexicons, found));
+  }
+  return found.sort((a, b) => a.start - b.start);
+}
+
+// The amount of money the text most likely names: the most certain match, then the first
+export function findAmount(text: string, lexicon: IntentLexicon = englishLexicon): AmountMatch | undefined {
+  return findAmounts(text, lexicon)
+    .filter(a => a.kind === 'money' && a.value > 0)
+    .sort((a, b) => b.confidence - a.confidence || a.start - b.start)[0];
+}
@@ -3,7 +3,10 @@
  * Generates baseline recommended category allocations based on last 30 days spending
  * and simple heuristics (cap concentration, boost savings if surplus).
  */
-export interface ExpenseInput { amount: number; category?: string; date?: string; }
+import { SplitAllocation } from '../types/finance';
+import { allocationsOf } from '../utils/splits';
+
+export interface ExpenseInput { amount: number; category?: string; date?: string; splits?: SplitAllocation[]; }
 export interface BudgetRecommendation { category: string; suggested: number; basis: string; confidence: number; }
 export interface BudgetPlanResult { totalSuggested: number; recommendations: BudgetRecommendation[]; generatedAt: string; note?: string; }
 
@@ -16,7 +19,8 @@ export class BudgetRecommendationService {
       if(!e.date) return true; const d=new Date(e.date); return now.getTime()-d.getTime() <= 1000*60*60*24*30; });
     const catTotals: Record<string, number> = {};
     let sum = 0;
-    last30.forEach(e => { const amt = e.amount||0; sum += amt; const k = e.category || 'Other'; catTotals[k]=(catTotals[k]||0)+amt; });
+    // Split expenses count towards the categories of their splits
+    last30.forEach(e => { sum += e.amount||0; allocationsOf({ ...e, amount: e.amount||0 }).forEach(a => { catTotals[a.category]=(catTotals[a.category]||0)+a.amount; }); });
 
     // If no spending data, provide a generic scaffold
     if (sum === 0) {
@@ -0,0 +1,293 @@
+// Works out which day or days a chat message refers to: relative days and weeks, weekdays, "3 days ago",
+// "the 25th", "between 1 and 15 March", "since payday", weekends, DD/MM/YYYY and month end.
+// Expenses lie in the past, so a date given without a year or month is its most recent occurrence,
+// and "since" any of these ("since Friday", "since the 5th") runs from that date up to today.
+// When the text fits more than one date, or no date at all ("31/02"), a clarification question is
+// returned instead of a guess.
+
+import { DateRange } from './NLIntents';
+import { activeLexicons, englishLexicon, findTerm, IntentLexicon, numberWordValue, RelativeDay } from './IntentLexicons';
+
+export interface DateOptions {
+  lexicon?: IntentLexicon;
+  now?: Date;
+  payday?: number; // day of the month the user is paid, see BalanceContext
+}
+
+export interface DateSpan {
+  start: number;
+  end: number;
+}
+
+export interface ParsedDate {
+  date?: string; // YYYY-MM-DD
+  range?: DateRange;
+  clarification?: string;
+  span?: DateSpan; // where the date is written in the text, with a leading "on" or "since"
+}
+
+// English and Afrikaans month names and abbreviations, by month index
+const MONTH_NAMES: Record<string, number> = {
+  january: 0, february: 1, march: 2, april: 3, may: 4, june: 5, july: 6, august: 7, september: 8, october: 9, november: 10, december: 11,
+  januarie: 0, februarie: 1, maart: 2, mei: 4, junie: 5, julie: 6, augustus: 7, oktober: 9, desember: 11,
+  jan: 0, feb: 1, mar: 2, mrt: 2, apr: 3, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, okt: 9, nov: 10, dec: 11, des: 11,
+};
+
+// English and Afrikaans weekday names, by Date.getDay()
+const WEEKDAY_NAMES: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  sondag: 0, maandag: 1, dinsdag: 2, woensdag: 3, donderdag: 4, vrydag: 5, saterdag: 6,
+};
+
+const MONTH_LABELS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const MONTH = `(${Object.keys(MONTH_NAMES).join('|')})\\.?`;
+const ORDINAL = '(?:st|nd|rd|th|ste|de)?';
+// Words that introduce a date: "on the 10th", "since Friday", "op 10 Aug"
+const DATE_LEAD = '(?:on|by|since|due|from|until|till|op|teen|sedert|sinds|tot)';
+const SINCE = /^(?:since|sedert|sinds)\b/;
+
+export function monthIndex(word: string): number | undefined {
+  const key = word.toLowerCase().replace(/\.$/, '');
+  return Object.prototype.hasOwnProperty.call(MONTH_NAMES, key) ? MONTH_NAMES[key] : undefined;
+}
+
+function formatDay(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// A date's span, widened to the word that introduces it
+function spanAt(lower: string, start: number, end: number): DateSpan {
+  const lead = lower.slice(0, start).match(new RegExp(`\\b${DATE_LEAD}\\s+$`));
+  return { start: lead ? start - lead[0].length : start, end };
+}
+
+function spanOf(lower: string, m: RegExpMatchArray): DateSpan {
+  return spanAt(lower, m.index! + (m[0].length - m[0].trimStart().length), m.index! + m[0].length);
+}
+
+function describe(d: Date): string {
+  return `${d.getDate()} ${MONTH_LABELS[d.getMonth()]} ${d.getFullYear()}`;
+}
+
+// Asked when a day and month name no date: "31/02/2026", "30 Feb"
+function noSuchDate(month: number, day: number, year?: number): string {
+  return `There is no ${day} ${MONTH_LABELS[month]}${year ? ` ${year}` : ''}. Which date did you mean?`;
+}
+
+// A day and month without a year: this year's, or last year's when that is still to come
+function recentDate(today: Date, month: number, day: number, year?: number): Date | undefined {
+  const y = year ?? today.getFullYear();
+  if (day < 1 || day > daysInMonth(y, month)) return undefined;
+  const d = new Date(y, month, day);
+  return year === undefined && d > today ? recentDate(today, month, day, y - 1) : d;
+}
+
+// "the 25th": this month's, or the latest earlier month that has that day
+function recentDayOfMonth(today: Date, day: number): Date | undefined {
+  if (day < 1 || day > 31) return undefined;
+  for (let back = 0; back < 12; back++) {
+    const first = new Date(today.getFullYear(), today.getMonth() - back, 1);
+    if (day > daysInMonth(first.getFullYear(), first.getMonth())) continue;
+    const d = new Date(first.getFullYear(), first.getMonth(), day);
+    if (d <= today) return d;
+  }
+  return undefined;
+}
+
+// Salaries due on a weekend are paid the Friday before; a payday past the end of a short month falls on its last day
+function paydayIn(year: number, month: number, payday: number): Date {
+  const d = new Date(year, month, Math.min(payday, daysInMonth(year, month)));
+  const dow = d.getDay();
+  return dow === 6 ? addDays(d, -1) : dow === 0 ? addDays(d, -2) : d;
+}
+
+function lastPayday(today: Date, payday: number): Date {
+  const thisMonth = paydayIn(today.getFullYear(), today.getMonth(), payday);
+  return thisMonth <= today ? thisMonth : paydayIn(today.getFullYear(), today.getMonth() - 1, payday);
+}
+
+function countValue(word: string, lexicons: IntentLexicon[]): number | undefined {
+  if (/^\d+$/.test(word)) return parseInt(word, 10);
+  if (/^(?:a|an|'n)$/.test(word)) return 1;
+  return lexicons.map(l => numberWordValue(word, l)).find(v => v !== undefined);
+}
+
+// DD/MM/YYYY, DD/MM and DD.MM.YYYY; 03/04 reads as 3 April or March 4, so it is asked about,
+// as is a day the month does not have
+function numericDate(lower: string, today: Date): ParsedDate | undefined {
+  const m = lower.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/) || lower.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/);
+  if (!m) return undefined;
+  const span = spanOf(lower, m);
+  const a = parseInt(m[1], 10);
+  const b = parseInt(m[2], 10);
+  const year = m[3] ? (m[3].length === 2 ? 2000 + parseInt(m[3], 10) : parseInt(m[3], 10)) : undefined;
+  const dayFirst = b <= 12 ? recentDate(today, b - 1, a, year) : undefined;
+  const monthFirst = a <= 12 ? recentDate(today, a - 1, b, year) : undefined;
+  if (dayFirst && monthFirst && a !== b) {
+    return { clarification: `Did you mean ${describe(dayFirst)} or ${describe(monthFirst)}?`, span };
+  }
+  const d = dayFirst ?? monthFirst;
+  if (d) return { date: formatDay(d), span };
+  if (a >= 1 && a <= 31 && b >= 1 && b <= 12) return { clarification: noSuchDate(b - 1, a, year), span };
+  return undefined;
+}
+
+// "between 1 and 15 March", "from the 1st to the 15th", "1-15 March"
+function dayRange(lower: string, today: Date): ParsedDate | undefined {
+  const m = lower.match(new RegExp(`\\b(?:between|from|tussen|van)\\s+(?:the\\s+|die\\s+)?(\\d{1,2})${ORDINAL}(?:\\s+(?:of\\s+)?${MONTH})?\\s+(?:and|to|until|till|en|tot)\\s+(?:the\\s+|die\\s+)?(\\d{1,2})${ORDINAL}(?:\\s+(?:of\\s+)?${MONTH})?(?:\\s+(\\d{4}))?`))
+    || lower.match(new RegExp(`\\b(\\d{1,2})${ORDINAL}()\\s?-\\s?(\\d{1,2})${ORDINAL}\\s+${MONTH}(?:\\s+(\\d{4}))?`));
+  if (!m) return undefined;
+  const [startDay, endDay] = [parseInt(m[1], 10), parseInt(m[3], 10)];
+  const year = m[5] ? parseInt(m[5], 10) : undefined;
+  const endMonth = m[4] ? monthIndex(m[4])! : m[2] ? monthIndex(m[2])! : undefined;
+
+  let end: Date | undefined;
+  if (endMonth === undefined) {
+    end = recentDayOfMonth(today, endDay);
+  } else {
+    end = recentDate(today, endMonth, endDay, year);
+  }
+  if (!end) return undefined;
+  // A start after the end lies in the month before: "between the 25th and the 5th"
+  let startMonth = m[2] ? monthIndex(m[2])! : end.getMonth();
+  let startYear = end.getFullYear();
+  if (!m[2] && startDay > endDay) startMonth -= 1;
+  if (m[2] && startMonth > end.getMonth()) startYear -= 1;
+  const start = new Date(startYear, startMonth, startDay);
+  return { range: { start: formatDay(start), end: formatDay(end) }, span: spanOf(lower, m) };
+}
+
+export function parseDateExpression(text: string, options: DateOptions = {}): ParsedDate {
+  const lower = (text || '').toLowerCase();
+  const now = options.now ?? new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const parsed = findDate(lower, today, options);
+  const start = parsed.date ?? parsed.range?.start;
+  if (!start || !parsed.span || !SINCE.test(lower.slice(parsed.span.start))) return parsed;
+  return { range: { start, end: formatDay(today) }, span: parsed.span };
+}
+
+function findDate(lower: string, today: Date, options: DateOptions): ParsedDate {
+  const lexicons = activeLexicons(options.lexicon ?? englishLexicon);
+  // Where a relative day is named, spanning the whole word it is part of ("ngizolo")
+  const says = (day: RelativeDay): DateSpan | undefined => {
+    for (const l of lexicons) {
+      const term = findTerm(lower, l.dates[day], l);
+      if (term === undefined) continue;
+      const at = lower.indexOf(term);
+      const before = lower.slice(0, at).match(/\S*$/)![0];
+      const after = lower.slice(at + term.length).match(/^\S*/)![0];
+      return spanAt(lower, at - before.length, at + term.length + after.length);
+    }
+    return undefined;
+  };
+
+  const iso = lower.match(/\b((?:19|20)\d{2}-\d{2}-\d{2})\b/);
+  if (iso) return { date: iso[1], span: spanOf(lower, iso) };
+
+  const numeric = numericDate(lower, today);
+  if (numeric) return numeric;
+
+  const range = dayRange(lower, today);
+  if (range) return range;
+
+  const sincePayday = lower.match(/\b(?:since|sedert|sinds)\s+(?:my\s+|the\s+|last\s+|die\s+|laaste\s+)?(?:pay\s?day|salary\s+day|betaaldag)\b/)
+    || lower.match(/\b(?:this|current)\s+pay\s+(?:cycle|period)\b/);
+  if (sincePayday) {
+    const span = spanOf(lower, sincePayday);
+    if (!options.payday) return { clarification: 'Which day of the month are you paid?', span };
+    return { range: { start: formatDay(lastPayday(today, options.payday)), end: formatDay(today) }, span };
+  }
+
+  const weekend = lower.match(/\b(last|past|verlede|laas)?\s*(?:the\s+)?(?:weekend|naweek)\b/);
+  if (weekend) {
+    const dow = today.getDay();
+    let saturday = addDays(today, -((dow + 1) % 7));
+    if (weekend[1] && (dow === 6 || dow === 0)) saturday = addDays(saturday, -7);
+    const sunday = addDays(saturday, 1);
+    return { range: { start: formatDay(saturday), end: formatDay(sunday > today ? today : sunday) }, span: spanOf(lower, weekend) };
+  }
+
+  const monthEnd = lower.match(/\b(?:month[\s-]?end|end\s+of\s+(?:the\s+|last\s+)?month|maandeinde|einde\s+van\s+die\s+maand)\b/);
+  if (monthEnd) {
+    const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+    const date = formatDay(lastDay.getTime() === today.getTime() ? today : new Date(today.getFullYear(), today.getMonth(), 0));
+    return { date, span: spanOf(lower, monthEnd) };
+  }
+
+  const ago = lower.match(/\b(\d+|[a-z']+)\s+(days?|dae|dag|weeks?|weke|months?|maande|maand)\s+(?:ago|gelede)\b/);
+  const count = ago ? countValue(ago[1], lexicons) : undefined;
+  if (ago && count !== undefined) {
+    const unit = ago[2];
+    const span = spanOf(lower, ago);
+    if (/^(?:day|dae|dag)/.test(unit)) return { date: formatDay(addDays(today, -count)), span };
+    if (/^(?:week|weke)/.test(unit)) return { date: formatDay(addDays(today, -7 * count)), span };
+    return { date: formatDay(new Date(today.getFullYear(), today.getMonth() - count, today.getDate())), span };
+  }
+
+  const weekday = lower.match(new RegExp(`\\b(?:(last|past|this|verlede|laas|hierdie)\\s+)?(${Object.keys(WEEKDAY_NAMES).join('|')})\\b`));
+  if (weekday) {
+    let back = (today.getDay() - WEEKDAY_NAMES[weekday[2]] + 7) % 7;
+    const span = spanOf(lower, weekday);
+    if (back === 0 && !weekday[1]) {
+      const name = weekday[2][0].toUpperCase() + weekday[2].slice(1);
+      return { clarification: `Do you mean today or last ${name}, ${describe(addDays(today, -7))}?`, span };
+    }
+    if (back === 0 && weekday[1] && !/^(?:this|hierdie)$/.test(weekday[1])) back = 7;
+    return { date: formatDay(addDays(today, -back)), span };
+  }
+
+  // Checked in this order: "today" before "this week", "last week" before "last month"
+  const weekStart = addDays(today, -today.getDay());
+  const relative: Record<RelativeDay, ParsedDate> = {
+    today: { date: formatDay(today) },
+    yesterday: { date: formatDay(addDays(today, -1)) },
+    lastWeek: { range: { start: formatDay(addDays(weekStart, -7)), end: formatDay(weekStart) } },
+    thisWeek: { range: { start: formatDay(weekStart), end: formatDay(today) } },
+    lastMonth: {
+      range: {
+        start: formatDay(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        end: formatDay(new Date(today.getFullYear(), today.getMonth(), 0)),
+      },
+    },
+    thisMonth: { range: { start: formatDay(new Date(today.getFullYear(), today.getMonth(), 1)), end: formatDay(today) } },
+  };
+  for (const day of Object.keys(relative) as RelativeDay[]) {
+    const span = says(day);
+    if (span) return { ...relative[day], span };
+  }
+
+  // 10 Aug, 10th of August 2025, August 10
+  const dayMonth = lower.match(new RegExp(`\\b(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${MONTH}(?:\\s+(\\d{4}))?\\b`));
+  const monthDay = lower.match(new RegExp(`\\b${MONTH}\\s+(\\d{1,2})${ORDINAL}\\b(?:,?\\s+(\\d{4}))?`));
+  if (dayMonth || monthDay) {
+    const [day, month, year] = dayMonth
+      ? [dayMonth[1], dayMonth[2], dayMonth[3]]
+      : [monthDay![2], monthDay![1], monthDay![3]];
+    const [d, m, y] = [parseInt(day, 10), monthIndex(month)!, year ? parseInt(year, 10) : undefined];
+    const span = spanOf(lower, (dayMonth ?? monthDay)!);
+    const date = recentDate(today, m, d, y);
+    if (date) return { date: formatDay(date), span };
+    if (d >= 1 && d <= 31) return { clarification: noSuchDate(m, d, y), span };
+  }
+
+  // "the 24th" alone is a date only when the words around it say so: "on the 24th" or
+  // "the 24th of the month", but not "at the 24th street market"
+  const dayOnly = lower.match(new RegExp(`\\b${DATE_LEAD}\\s+(?:the|die)\\s+(\\d{1,2})(?:st|nd|rd|th|ste|de)\\b`))
+    || lower.match(/\b(?:the|die)\s+(\d{1,2})(?:st|nd|rd|th|ste|de)\s+(?:of\s+the\s+month|van\s+die\s+maand)\b/);
+  if (dayOnly) {
+    const d = recentDayOfMonth(today, parseInt(dayOnly[1], 10));
+    if (d) return { date: formatDay(d), span: spanOf(lower, dayOnly) };
+  }
+
+  return {};
+}
@@ -1,4 +1,8 @@
-import { ExpenseIntent } from './NLIntents';
+import { BudgetIntent, ChatIntent, ExpenseIntent, GoalIntent } from './NLIntents';
+import { BudgetPlanResult } from './BudgetRecommendationService';
+import { budgetSpent } from '../utils/budgets';
+import { IChangeHistoryRepository } from '../database/interfaces/Repositories';
+import { ChangeRecord } from '../database/models/Records';
 
 // Minimal Expense shape for targeting and summaries
 export interface SimpleExpense {
@@ -59,7 +63,11 @@ export function disambiguationMessage(candidates: SimpleExpense[], max = 3): str
     top.map((e, i) => `${i + 1}) ${summarizeExpense(e)}`).join('\n');
 }
 
-export function buildActionSummary(intent: ExpenseIntent): string {
+export function buildActionSummary(intent: ChatIntent): string {
+  if (intent.domain === 'goal') return buildGoalActionSummary(intent);
+  if (intent.domain === 'budget') return buildBudgetActionSummary(intent);
+  // An ambiguous date is settled before anything else is confirmed
+  if (intent.clarification) return intent.clarification;
   switch (intent.type) {
     case 'create': {
       const amt = intent.amount ? `R${intent.amount.toFixed(2)}` : 'an expense';
@@ -77,8 +85,296 @@ export function buildActionSummary(intent: ExpenseIntent): string {
     }
     case 'delete':
       return 'Delete the selected expense?';
+    case 'undo':
+      return 'Undo your last change?';
     case 'read':
     default:
       return 'Show requested spending?';
   }
 }
+
+// Minimal Goal shape, as kept by GoalsContext
+export interface SimpleGoal {
+  id: string;
+  title: string;
+  category: string;
+  current: number;
+  target: number;
+  deadline?: string; // YYYY-MM-DD
+}
+
+// The GoalsContext actions goal intents run through
+export interface GoalActions {
+  goals: SimpleGoal[];
+  addGoal: (goal: Omit<SimpleGoal, 'id'>) => Promise<void>;
+  updateGoalProgress: (id: string, newCurrent: number) => Promise<void>;
+}
+
+const GOAL_NAME_FILLER = new Set(['goal', 'fund', 'savings', 'saving', 'for', 'new', 'my']);
+
+function nameWords(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 1 && !GOAL_NAME_FILLER.has(w));
+}
+
+// How well a goal matches a typed name: exact title, then containment, then shared words, then category
+function goalMatchScore(g: SimpleGoal, typed: string): number {
+  const name = typed.toLowerCase().trim();
+  const title = g.title.toLowerCase();
+  if (title === name) return 4;
+  if (title.includes(name) || name.includes(title)) return 3;
+  const titleWords = nameWords(title);
+  if (nameWords(name).some(w => titleWords.includes(w))) return 2;
+  if (g.category.toLowerCase() === name) return 1;
+  return 0;
+}
+
+export function selectGoalTargets(goals: SimpleGoal[], intent: GoalIntent): SimpleGoal[] {
+  if (!intent.goalName) return [...goals];
+  const name = intent.goalName;
+  return goals
+    .map(g => ({ g, score: goalMatchScore(g, name) }))
+    .filter(x => x.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(x => x.g);
+}
+
+export function summarizeGoal(g: SimpleGoal): string {
+  const pct = g.target > 0 ? Math.round((g.current / g.target) * 100) : 0;
+  const remaining = g.target - g.current;
+  const by = g.deadline ? ` by ${g.deadline}` : '';
+  if (remaining > 0) {
+    return `${g.title} - R${g.current.toFixed(2)} of R${g.target.toFixed(2)} (${pct}%), R${remaining.toFixed(2)} to go${by}`;
+  }
+  return remaining < 0
+    ? `${g.title} - R${g.target.toFixed(2)} reached, R${(-remaining).toFixed(2)} over`
+    : `${g.title} - R${g.target.toFixed(2)} reached`;
+}
+
+export function goalDisambiguationMessage(candidates: SimpleGoal[], max = 3): string {
+  const top = candidates.slice(0, max);
+  return `I found multiple goals. Please pick one:\n` +
+    top.map((g, i) => `${i + 1}) ${summarizeGoal(g)}`).join('\n');
+}
+
+function buildGoalActionSummary(intent: GoalIntent): string {
+  const name = intent.goalName || 'your goal';
+  switch (intent.type) {
+    case 'create': {
+      const amt = intent.amount ? ` of R${intent.amount.toFixed(2)}` : '';
+      const dt = intent.deadline ? ` by ${intent.deadline}` : '';
+      return `Create a savings goal for ${name}${amt}${dt}?`;
+    }
+    case 'update': {
+      const amt = intent.amount ? `R${intent.amount.toFixed(2)}` : 'money';
+      return `Add ${amt} to ${name}?`;
+    }
+    case 'read':
+    default:
+      return intent.goalName ? `Show progress on ${name}?` : 'Show progress on your goals?';
+  }
+}
+
+// Run a confirmed goal intent and describe the outcome; nothing changes when the target is unclear
+export async function executeGoalIntent(intent: GoalIntent, actions: GoalActions): Promise<string> {
+  if (intent.type === 'create') {
+    if (!intent.amount || !intent.goalName) {
+      return 'Tell me how much you want to save and what for, e.g. "save R5000 for a holiday by December".';
+    }
+    await actions.addGoal({
+      title: intent.goalName,
+      category: intent.category || 'savings',
+      current: 0,
+      target: intent.amount,
+      deadline: intent.deadline,
+    });
+    return `Created ${intent.goalName}: saving R${intent.amount.toFixed(2)}${intent.deadline ? ` by ${intent.deadline}` : ''}.`;
+  }
+
+  const candidates = selectGoalTargets(actions.goals, intent);
+  if (candidates.length === 0) {
+    return intent.goalName
+      ? `I couldn't find a goal matching "${intent.goalName}".`
+      : 'You have no savings goals yet.';
+  }
+
+  if (intent.type === 'read') {
+    // Without a name every goal is reported; with one, the best match
+    const shown = intent.goalName ? candidates.slice(0, 1) : candidates;
+    return shown.map(summarizeGoal).join('\n');
+  }
+
+  if (!intent.amount || intent.amount <= 0) {
+    return `How much should I add to ${candidates[0].title}?`;
+  }
+  const best = intent.goalName ? candidates.filter(g => goalMatchScore(g, intent.goalName!) === goalMatchScore(candidates[0], intent.goalName!)) : candidates;
+  if (best.length > 1) {
+    return goalDisambiguationMessage(best);
+  }
+  // The whole contribution is recorded, even past the target; the summary says by how much it is over
+  const goal = candidates[0];
+  const next = goal.current + intent.amount;
+  await actions.updateGoalProgress(goal.id, next);
+  return `Added R${intent.amount.toFixed(2)} to ${goal.title}. ${summarizeGoal({ ...goal, current: next })}.`;
+}
+
+// Minimal Budget shape, as kept by BudgetsContext
+export interface SimpleBudget {
+  id: string;
+  category: string;
+  limit: number;
+  spent: number;
+}
+
+// The BudgetsContext and BudgetPlanContext state budget intents run through;
+// categorySpend is this month's spending per category, see monthCategorySpend
+export interface BudgetActions {
+  budgets: SimpleBudget[];
+  categorySpend: Record<string, number>;
+  setBudget: (category: string, limit: number) => Promise<void>;
+  transferBudget: (fromCategory: string, toCategory: string, amount: number) => Promise<void>; // both limits change together
+  plan: BudgetPlanResult | null;
+  setPlan: (plan: BudgetPlanResult | null) => void;
+}
+
+function findBudget(budgets: SimpleBudget[], category: string): SimpleBudget | undefined {
+  const name = category.toLowerCase();
+  return budgets.find(b => b.category.toLowerCase() === name)
+    || budgets.find(b => b.category.toLowerCase().includes(name) || name.includes(b.category.toLowerCase()));
+}
+
+function findPlanLimit(plan: BudgetPlanResult | null, category: string): number | undefined {
+  const name = category.toLowerCase();
+  return plan?.recommendations.find(r => r.category.toLowerCase() === name)?.suggested;
+}
+
+export function summarizeBudget(b: SimpleBudget, categorySpend: Record<string, number>): string {
+  const spent = budgetSpent(b, categorySpend);
+  const remaining = b.limit - spent;
+  return remaining >= 0
+    ? `${b.category} - R${remaining.toFixed(2)} left of R${b.limit.toFixed(2)} (R${spent.toFixed(2)} spent)`
+    : `${b.category} - R${(-remaining).toFixed(2)} over the R${b.limit.toFixed(2)} budget`;
+}
+
+// Keep the plan's suggestion for a category in step with a limit the user set in chat
+function withPlanLimit(plan: BudgetPlanResult, category: string, limit: number): BudgetPlanResult {
+  const name = category.toLowerCase();
+  const exists = plan.recommendations.some(r => r.category.toLowerCase() === name);
+  const recommendations = exists
+    ? plan.recommendations.map(r => r.category.toLowerCase() === name ? { ...r, suggested: limit, basis: 'Set in chat' } : r)
+    : [...plan.recommendations, { category, suggested: limit, basis: 'Set in chat', confidence: 1 }];
+  return { ...plan, recommendations, totalSuggested: recommendations.reduce((s, r) => s + r.suggested, 0) };
+}
+
+function buildBudgetActionSummary(intent: BudgetIntent): string {
+  const amt = intent.amount ? `R${intent.amount.toFixed(2)}` : 'money';
+  switch (intent.type) {
+    case 'update':
+      return `Set your ${intent.category || 'selected'} budget to ${amt}?`;
+    case 'transfer':
+      return `Move ${amt} from your ${intent.fromCategory} budget to ${intent.category}?`;
+    case 'read':
+    default:
+      return intent.category ? `Show what is left of your ${intent.category} budget?` : 'Show what is left of your budgets?';
+  }
+}
+
+// Run a confirmed budget intent and describe the outcome; limits never go below zero
+export async function executeBudgetIntent(intent: BudgetIntent, actions: BudgetActions): Promise<string> {
+  const { budgets, categorySpend, plan } = actions;
+
+  if (intent.type === 'read') {
+    if (!intent.category) {
+      return budgets.length
+        ? budgets.map(b => summarizeBudget(b, categorySpend)).join('\n')
+        : 'You have no budgets yet. Try "set my groceries budget to R2500".';
+    }
+    const budget = findBudget(budgets, intent.category);
+    if (budget) return summarizeBudget(budget, categorySpend);
+    // No stored budget: fall back to the generated plan's suggestion
+    const suggested = findPlanLimit(plan, intent.category);
+    if (suggested === undefined) return `You don't have a ${intent.category} budget yet.`;
+    return summarizeBudget({ id: '', category: intent.category, limit: suggested, spent: 0 }, categorySpend) + ' (suggested plan)';
+  }
+
+  if (!intent.amount || intent.amount <= 0) {
+    return 'Tell me the amount, e.g. "set my groceries budget to R2500".';
+  }
+
+  if (intent.type === 'update') {
+    if (!intent.category) return 'Which budget should I set?';
+    const category = findBudget(budgets, intent.category)?.category ?? intent.category;
+    await actions.setBudget(category, intent.amount);
+    if (plan) actions.setPlan(withPlanLimit(plan, category, intent.amount));
+    const budget = { id: '', category, limit: intent.amount, spent: findBudget(budgets, category)?.spent ?? 0 };
+    return `Set your ${category} budget to R${intent.amount.toFixed(2)}. ${summarizeBudget(budget, categorySpend)}.`;
+  }
+
+  if (!intent.fromCategory || !intent.category) {
+    return 'Tell me which budgets to move between, e.g. "move R200 from entertainment to food".';
+  }
+  const from = findBudget(budgets, intent.fromCategory);
+  if (!from) return `You don't have a ${intent.fromCategory} budget to move money from.`;
+  // A budget can't be left at zero
+  if (from.limit <= intent.amount) {
+    return `Your ${from.category} budget is only R${from.limit.toFixed(2)}, so I can't move R${intent.amount.toFixed(2)} and leave something in it.`;
+  }
+  const to = findBudget(budgets, intent.category);
+  const toCategory = to?.category ?? intent.category;
+  if (toCategory === from.category) return 'Pick two different budgets to move money between.';
+  const fromLimit = from.limit - intent.amount;
+  const toLimit = (to?.limit ?? 0) + intent.amount;
+  await actions.transferBudget(from.category, toCategory, intent.amount);
+  if (plan) actions.setPlan(withPlanLimit(withPlanLimit(plan, from.category, fromLimit), toCategory, toLimit));
+  return `Moved R${intent.amount.toFixed(2)} from ${from.category} to ${toCategory}.\n` +
+    summarizeBudget({ ...from, limit: fromLimit }, categorySpend) + '\n' +
+    summarizeBudget({ id: to?.id ?? '', category: toCategory, limit: toLimit, spent: to?.spent ?? 0 }, categorySpend);
+}
+
+// The change history a chat undo reverts, scoped to the signed-in user
+export interface UndoActions {
+  history: Pick<IChangeHistoryRepository, 'undoLatest'>;
+  userId: string;
+}
+
+// Everything a confirmed chat intent can act through; an intent whose actions are missing is left to the assistant
+export interface ChatActions {
+  undo?: UndoActions;
+  goals?: GoalActions;
+  budgets?: BudgetActions;
+}
+
+// Whether the chat can run an intent itself after the user confirms it
+export function canExecuteIntent(intent: ChatIntent, actions: ChatActions): boolean {
+  if (intent.domain === 'goal') return !!actions.goals;
+  if (intent.domain === 'budget') return !!actions.budgets;
+  return intent.domain === 'expense' && intent.type === 'undo' && !!actions.undo;
+}
+
+// "Undone: removed the expense at Woolworths (R120.00)." from the change that performed an undo
+export function describeUndo(change: ChangeRecord | null): string {
+  if (!change) return 'Nothing to undo.';
+  const row = change.after ?? change.before ?? {};
+  const name = row.merchant ?? row.merchantName ?? row.title ?? row.name ?? row.description;
+  const amount = row.amount ?? row.currentAmount;
+  const label = !name ? '' : change.entityType === 'goal' || change.entityType === 'budget' ? ` "${name}"` : ` at ${name}`;
+  const what = `the ${change.entityType}${label}${typeof amount === 'number' ? ` (R${amount.toFixed(2)})` : ''}`;
+  // The revert's operation is the opposite of the change it undid
+  const verb = change.operation === 'delete' ? 'removed' : change.operation === 'create' ? 'restored' : 'put back';
+  return `Undone: ${verb} ${what}${change.operation === 'update' ? ' as it was' : ''}.`;
+}
+
+// Run a confirmed chat intent and describe the outcome
+export async function executeChatIntent(intent: ChatIntent, actions: ChatActions): Promise<string> {
+  if (intent.domain === 'goal' && actions.goals) return executeGoalIntent(intent, actions.goals);
+  if (intent.domain === 'budget' && actions.budgets) return executeBudgetIntent(intent, actions.budgets);
+  if (intent.domain === 'expense' && intent.type === 'undo' && actions.undo) {
+    const { history, userId } = actions.undo;
+    try {
+      return describeUndo(await history.undoLatest(userId, { source: 'chat' }));
+    } catch (error) {
+      // A record edited after the change can't be reverted without losing the later edit
+      return `I couldn't undo that: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return buildActionSummary(intent);
+}
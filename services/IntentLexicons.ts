@@ -0,0 +1,310 @@
+// Per-language vocabulary for the chat intent parser (NLIntents)
+// Language codes follow the chat's language picker; languages without a lexicon fall back to a close one or English
+
+import { IntentType } from './NLIntents';
+
+export type RelativeDay = 'today' | 'yesterday' | 'lastWeek' | 'thisWeek' | 'lastMonth' | 'thisMonth';
+
+export interface IntentLexicon {
+  code: string;
+  // isiZulu and isiXhosa inflect words with prefixes ("ngikhokhe", "kagesi"), so terms match inside words;
+  // otherwise terms match whole words, and categories the start of a word ("bills" for "bill")
+  affixed: boolean;
+  verbs: Record<IntentType, string[]>;
+  spendWords: string[]; // with an amount, mark the message as a new expense
+  categories: Record<string, string>;
+  dates: Record<RelativeDay, string[]>;
+  numbers: Record<string, number>;
+  fractions: Record<string, number>; // "half a bar"
+  numberJoiners: string[]; // "two hundred and fifty"
+  currencyWords: string[]; // after an amount: "fifty rand"
+  centWords: string[]; // after an amount: "50c", "fifty cents"
+  countAfterMultiplier: boolean; // "amakhulu amabili": hundreds, two
+  merchant: RegExp;
+  markers: string[]; // common words that only help tell the language apart
+}
+
+const ENGLISH: IntentLexicon = {
+  code: 'en-ZA',
+  affixed: false,
+  verbs: {
+    create: ['add', 'record', 'log'],
+    read: ['show', 'list', 'how much', 'total', 'report', 'view'],
+    update: ['update', 'change', 'edit', 'correct'],
+    delete: ['delete', 'remove'],
+    undo: ['undo'],
+  },
+  spendWords: ['for', 'on', 'spent', 'spend'],
+  categories: {
+    groceries: 'Food & Dining',
+    grocery: 'Food & Dining',
+    food: 'Food & Dining',
+    dining: 'Food & Dining',
+    transport: 'Transportation',
+    fuel: 'Transportation',
+    petrol: 'Transportation',
+    uber: 'Transportation',
+    shopping: 'Shopping',
+    clothes: 'Shopping',
+    clothing: 'Shopping',
+    entertainment: 'Entertainment',
+    movie: 'Entertainment',
+    movies: 'Entertainment',
+    bill: 'Bills & Utilities',
+    electricity: 'Bills & Utilities',
+    water: 'Bills & Utilities',
+    rent: 'Housing',
+    coffee: 'Food & Dining',
+    lunch: 'Food & Dining',
+    breakfast: 'Food & Dining',
+  },
+  dates: {
+    today: ['today'],
+    yesterday: ['yesterday'],
+    lastWeek: ['last week'],
+    thisWeek: ['this week'],
+    lastMonth: ['last month'],
+    thisMonth: ['this month'],
+  },
+  numbers: {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+    sixty: 60, seventy: 70, eighty: 80, ninety: 90, hundred: 100, thousand: 1000,
+  },
+  fractions: { half: 0.5, quarter: 0.25 },
+  numberJoiners: ['and', 'a'],
+  currencyWords: ['rand', 'rands', 'zar', 'bucks'],
+  centWords: ['c', 'cent', 'cents'],
+  countAfterMultiplier: false,
+  merchant: /\b(?:at|from|to|with|my)\s+([A-Za-z][\w&'\- ]{1,40})/i,
+  markers: ['i', 'the', 'my', 'at', 'last', 'expense', 'spending'],
+};
+
+const AFRIKAANS: IntentLexicon = {
+  code: 'af-ZA',
+  affixed: false,
+  verbs: {
+    create: ['voeg', 'spandeer', 'gespandeer', 'betaal', 'koop', 'gekoop', 'teken aan'],
+    read: ['wys', 'lys', 'hoeveel', 'totaal', 'verslag'],
+    update: ['verander', 'wysig', 'korrigeer', 'opdateer'],
+    delete: ['verwyder', 'skrap', 'vee uit'],
+    undo: ['ontdoen', 'ongedaan'],
+  },
+  spendWords: ['vir', 'op', 'spandeer', 'gespandeer', 'betaal'],
+  categories: {
+    kruideniersware: 'Food & Dining',
+    kos: 'Food & Dining',
+    ete: 'Food & Dining',
+    middagete: 'Food & Dining',
+    ontbyt: 'Food & Dining',
+    koffie: 'Food & Dining',
+    vervoer: 'Transportation',
+    brandstof: 'Transportation',
+    taxi: 'Transportation',
+    klere: 'Shopping',
+    inkopies: 'Shopping',
+    vermaak: 'Entertainment',
+    fliek: 'Entertainment',
+    rekening: 'Bills & Utilities',
+    elektrisiteit: 'Bills & Utilities',
+    krag: 'Bills & Utilities',
+    huur: 'Housing',
+  },
+  dates: {
+    today: ['vandag'],
+    yesterday: ['gister'],
+    lastWeek: ['verlede week', 'laas week'],
+    thisWeek: ['hierdie week', 'vandeesweek'],
+    lastMonth: ['verlede maand', 'laas maand'],
+    thisMonth: ['hierdie maand', 'vandeesmaand'],
+  },
+  numbers: {
+    een: 1, twee: 2, drie: 3, vier: 4, vyf: 5, ses: 6, sewe: 7, agt: 8, nege: 9, tien: 10,
+    elf: 11, twaalf: 12, vyftien: 15, twintig: 20, dertig: 30, veertig: 40, vyftig: 50,
+    sestig: 60, sewentig: 70, tagtig: 80, negentig: 90, honderd: 100, duisend: 1000,
+  },
+  fractions: { half: 0.5, kwart: 0.25 },
+  numberJoiners: ['en', 'n'],
+  currencyWords: ['rand', 'zar'],
+  centWords: ['c', 'sent'],
+  countAfterMultiplier: false,
+  merchant: /\b(?:by|van|in)\s+([A-Za-z][\w&'\- ]{1,40})/i,
+  markers: ['ek', 'het', 'die', 'my', 'laaste', 'uitgawe', 'uitgawes', 'rand'],
+};
+
+const ISIZULU: IntentLexicon = {
+  code: 'zu-ZA',
+  affixed: true,
+  verbs: {
+    create: ['engeza', 'faka', 'khokh', 'thenga', 'thenge', 'sebenzis', 'chith'],
+    read: ['bonisa', 'khombisa', 'malini', 'kangakanani', 'isamba'],
+    update: ['shintsh', 'lungisa'],
+    delete: ['susa', 'cisha'],
+    undo: ['hlehlisa', 'buyisela'],
+  },
+  spendWords: [],
+  categories: {
+    kudla: 'Food & Dining',
+    grosa: 'Food & Dining',
+    khofi: 'Food & Dining',
+    thutha: 'Transportation',
+    tekisi: 'Transportation',
+    phethiloli: 'Transportation',
+    ngubo: 'Shopping',
+    jabulis: 'Entertainment',
+    bhayisikobho: 'Entertainment',
+    gesi: 'Bills & Utilities',
+    manzi: 'Bills & Utilities',
+    renti: 'Housing',
+  },
+  dates: {
+    today: ['namuhla', 'namhlanje'],
+    yesterday: ['izolo'],
+    lastWeek: ['viki eledlule', 'sonto eledlule'],
+    thisWeek: ['kuleli viki', 'kuleli sonto'],
+    lastMonth: ['nyanga edlule'],
+    thisMonth: ['kule nyanga', 'kulenyanga'],
+  },
+  numbers: {
+    kunye: 1, kubili: 2, amabili: 2, ezimbili: 2, amathathu: 3, ezintathu: 3, amane: 4, ezine: 4,
+    amahlanu: 5, ezinhlanu: 5, isithupha: 6, isikhombisa: 7, isishiyagalombili: 8, isishiyagalolunye: 9,
+    ishumi: 10, amashumi: 10, ikhulu: 100, amakhulu: 100, inkulungwane: 1000, izinkulungwane: 1000,
+  },
+  fractions: {},
+  numberJoiners: ['futhi'],
+  currencyWords: ['randi'],
+  centWords: ['senti'],
+  countAfterMultiplier: true,
+  merchant: /\b(?:e|kwa)-?([A-Z][\w&'\-]{1,40})/,
+  markers: ['ngi', 'mina', 'yini', 'kanjani', 'ngempela', 'imali'],
+};
+
+const ISIXHOSA: IntentLexicon = {
+  code: 'xh-ZA',
+  affixed: true,
+  verbs: {
+    create: ['yongeza', 'faka', 'hlawul', 'thenga', 'thenge', 'chitha', 'chithe'],
+    read: ['bonisa', 'malini', 'mingaphi', 'ngakanani', 'itotali'],
+    update: ['tshintsh', 'lungisa'],
+    delete: ['susa', 'cima'],
+    undo: ['rhoxisa', 'buyisela'],
+  },
+  spendWords: [],
+  categories: {
+    kutya: 'Food & Dining',
+    grosari: 'Food & Dining',
+    kofu: 'Food & Dining',
+    thutho: 'Transportation',
+    teksi: 'Transportation',
+    petroli: 'Transportation',
+    mpahla: 'Shopping',
+    nwabis: 'Entertainment',
+    mbane: 'Bills & Utilities',
+    manzi: 'Bills & Utilities',
+    rente: 'Housing',
+  },
+  dates: {
+    today: ['namhla'],
+    yesterday: ['izolo'],
+    lastWeek: ['veki ephelileyo', 'veki edlulileyo'],
+    thisWeek: ['kule veki', 'kuleveki'],
+    lastMonth: ['nyanga ephelileyo', 'nyanga edlulileyo'],
+    thisMonth: ['kule nyanga', 'kulenyanga'],
+  },
+  numbers: {
+    inye: 1, amabini: 2, ezimbini: 2, zimbini: 2, amathathu: 3, ezintathu: 3, amane: 4, ezine: 4,
+    amahlanu: 5, ezintlanu: 5, amathandathu: 6, ezintandathu: 6, isixhenxe: 7, isibhozo: 8, ithoba: 9,
+    ishumi: 10, amashumi: 10, ikhulu: 100, amakhulu: 100, iwaka: 1000, amawaka: 1000,
+  },
+  fractions: {},
+  numberJoiners: ['kwaye'],
+  currencyWords: ['randi'],
+  centWords: ['senti'],
+  countAfterMultiplier: true,
+  merchant: /\b(?:e|kwa)-?([A-Z][\w&'\-]{1,40})/,
+  markers: ['ndi', 'mna', 'yintoni', 'njani', 'kwaye', 'imali', 'ndiyi'],
+};
+
+export const INTENT_LEXICONS: IntentLexicon[] = [ENGLISH, AFRIKAANS, ISIZULU, ISIXHOSA];
+
+// siSwati and isiNdebele share most of this vocabulary with isiZulu
+const LEXICON_FALLBACKS: Record<string, string> = {
+  'ss-ZA': 'zu-ZA',
+  'nr-ZA': 'zu-ZA',
+};
+
+export const englishLexicon = ENGLISH;
+
+export function lexiconFor(code: string | null | undefined): IntentLexicon {
+  const wanted = code ? (LEXICON_FALLBACKS[code] ?? code) : ENGLISH.code;
+  const lang = wanted.toLowerCase().split('-')[0];
+  return INTENT_LEXICONS.find(l => l.code.toLowerCase().split('-')[0] === lang) ?? ENGLISH;
+}
+
+// English vocabulary always applies too, since users mix it with their own language
+export function activeLexicons(lexicon: IntentLexicon): IntentLexicon[] {
+  return lexicon === ENGLISH ? [ENGLISH] : [lexicon, ENGLISH];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whether text (lower case) contains a term, honouring how the lexicon's words inflect
+export function hasTerm(lower: string, term: string, lexicon: IntentLexicon, prefixOnly = false): boolean {
+  if (lexicon.affixed) return lower.includes(term);
+  return new RegExp(`(?:^|[^a-z])${escapeRegExp(term)}${prefixOnly ? '' : '(?![a-z])'}`).test(lower);
+}
+
+export function findTerm(lower: string, terms: string[], lexicon: IntentLexicon, prefixOnly = false): string | undefined {
+  return terms.find(term => hasTerm(lower, term, lexicon, prefixOnly));
+}
+
+// A number word's value; Afrikaans writes hundreds and thousands as one word ("tweehonderd")
+export function numberWordValue(word: string, lexicon: IntentLexicon): number | undefined {
+  if (Object.prototype.hasOwnProperty.call(lexicon.numbers, word)) return lexicon.numbers[word];
+  for (const [multiplierWord, multiplier] of Object.entries(lexicon.numbers)) {
+    if (multiplier < 100 || !word.endsWith(multiplierWord)) continue;
+    const count = word.slice(0, -multiplierWord.length);
+    if (Object.prototype.hasOwnProperty.call(lexicon.numbers, count)) return lexicon.numbers[count] * multiplier;
+  }
+  return undefined;
+}
+
+function vocabulary(lexicon: IntentLexicon): string[] {
+  return [
+    ...Object.values(lexicon.verbs).flat(),
+    ...Object.keys(lexicon.categories),
+    ...Object.values(lexicon.dates).flat(),
+  ];
+}
+
+// Whether a single word is one of the lexicon's verbs or date words, which end a merchant name
+export function isCommandWord(word: string, lexicon: IntentLexicon): boolean {
+  const lower = word.toLowerCase();
+  return [...Object.values(lexicon.verbs).flat(), ...Object.values(lexicon.dates).flat()]
+    .some(term => !term.includes(' ') && (lexicon.affixed ? lower.includes(term) : lower === term));
+}
+
+function languageScore(lower: string, lexicon: IntentLexicon): number {
+  const words = lower.split(/[^a-z]+/).filter(Boolean);
+  const known = vocabulary(lexicon).filter(term => hasTerm(lower, term, lexicon, true)).length;
+  const tokens = words.filter(w => lexicon.markers.includes(w) || numberWordValue(w, lexicon) !== undefined).length;
+  return known + tokens;
+}
+
+// Pick the lexicon whose vocabulary best covers the message; the chat's selected language breaks ties
+export function detectLanguage(text: string, preferred?: string | null): IntentLexicon {
+  const lower = (text || '').toLowerCase();
+  const fallback = lexiconFor(preferred);
+  let best = fallback;
+  let bestScore = languageScore(lower, fallback);
+  for (const lexicon of INTENT_LEXICONS) {
+    const score = languageScore(lower, lexicon);
+    if (score > bestScore) {
+      best = lexicon;
+      bestScore = score;
+    }
+  }
+  return best;
+}
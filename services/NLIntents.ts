@@ -1,7 +1,19 @@
-// Lightweight natural language intent parsing for expense CRUD
-// Free, local-only heuristics
+// Lightweight natural language intent parsing for expense CRUD, savings goals and budgets
+// Free, local-only heuristics; vocabulary per language lives in IntentLexicons
 
-export type IntentType = 'create' | 'read' | 'update' | 'delete';
+import {
+  activeLexicons,
+  detectLanguage,
+  englishLexicon,
+  findTerm,
+  IntentLexicon,
+  isCommandWord,
+  RelativeDay,
+} from './IntentLexicons';
+import { findAmount } from './AmountParser';
+import { DateSpan, parseDateExpression } from './DateParser';
+
+export type IntentType = 'create' | 'read' | 'update' | 'delete' | 'undo';
 
 export interface DateRange {
   start?: string; // YYYY-MM-DD
@@ -18,115 +30,90 @@ export interface ExpenseIntent {
   date?: string; // YYYY-MM-DD
   range?: DateRange;
   target?: 'last' | 'byMerchant' | 'byCategory' | 'all';
+  clarification?: string; // asked before acting when the date is ambiguous
 }
 
-function toISODate(d: Date): string {
-  return d.toISOString().slice(0, 10);
+// What the parser cannot tell from the message alone
+export interface IntentOptions {
+  payday?: number; // day of the month the user is paid, for "since payday"
+  now?: Date;
 }
 
-function parseAmount(text: string): number | undefined {
-  // Matches R1,234.56 or 1234 or 1234.50 etc.
-  const m = text.match(/(?:^|\s)r\s*([0-9][0-9.,]*)|(?:^|\s)([0-9][0-9.,]*)\s*(?:rand|zar)?/i);
-  if (!m) return undefined;
-  const raw = (m[1] || m[2] || '').replace(/[,\s]/g, '');
-  if (!raw) return undefined;
-  const val = parseFloat(raw);
-  return isNaN(val) ? undefined : val;
+// create: start a goal; update: put money towards one; read: report progress
+export interface GoalIntent {
+  domain: 'goal';
+  type: 'create' | 'update' | 'read';
+  amount?: number;
+  goalName?: string; // as typed, e.g. 'emergency fund'; absent when asking about all goals
+  category?: string; // for create
+  deadline?: string; // YYYY-MM-DD, for create
 }
 
-function parseRelativeDate(text: string): { date?: string; range?: DateRange } {
-  const now = new Date();
-  const lower = text.toLowerCase();
-  if (/(today)/.test(lower)) return { date: toISODate(now) };
-  if (/(yesterday)/.test(lower)) {
-    const d = new Date(now); d.setDate(d.getDate() - 1); return { date: toISODate(d) };
-  }
-  if (/(last\s+week)/.test(lower)) {
-    const d = new Date(now); const day = d.getDay();
-    const end = new Date(d); end.setDate(d.getDate() - day);
-    const start = new Date(end); start.setDate(end.getDate() - 7);
-    return { range: { start: toISODate(start), end: toISODate(end) } };
-  }
-  if (/(this\s+week)/.test(lower)) {
-    const d = new Date(now); const day = d.getDay();
-    const start = new Date(d); start.setDate(d.getDate() - day);
-    return { range: { start: toISODate(start), end: toISODate(now) } };
-  }
-  if (/(last\s+month)/.test(lower)) {
-    const d = new Date(now); d.setDate(1); d.setMonth(d.getMonth() - 1);
-    const start = new Date(d);
-    const end = new Date(d.getFullYear(), d.getMonth() + 1, 0);
-    return { range: { start: toISODate(start), end: toISODate(end) } };
-  }
-  if (/(this\s+month)/.test(lower)) {
-    const start = new Date(now.getFullYear(), now.getMonth(), 1);
-    return { range: { start: toISODate(start), end: toISODate(now) } };
-  }
-  // on 10 Aug / 10 August / 2025-08-10
-  const mDmy = lower.match(/on\s+(\d{1,2})\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\b/i);
-  if (mDmy) {
-    const day = parseInt(mDmy[1], 10);
-    const monStr = mDmy[2].slice(0,3).toLowerCase();
-    const months = ['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'];
-    const month = months.indexOf(monStr);
-    const year = now.getFullYear();
-    const d = new Date(year, month, day);
-    return { date: toISODate(d) };
-  }
-  const mIso = lower.match(/(20\d{2}-\d{2}-\d{2})/);
-  if (mIso) return { date: mIso[1] };
-
-  return {};
-}
-
-function extractCategory(text: string): string | undefined {
-  // naive extraction by common keywords
+// update: set a category limit; read: what is left; transfer: move part of one limit to another
+export interface BudgetIntent {
+  domain: 'budget';
+  type: 'update' | 'read' | 'transfer';
+  amount?: number;
+  category?: string; // budget set, asked about, or receiving a transfer; absent when asking about all budgets
+  fromCategory?: string; // for transfer
+}
+
+export type ChatIntent = ExpenseIntent | GoalIntent | BudgetIntent;
+
+function mentions(lower: string, lexicons: IntentLexicon[], terms: (l: IntentLexicon) => string[]): boolean {
+  return lexicons.some(l => findTerm(lower, terms(l), l) !== undefined);
+}
+
+function parseAmount(text: string, lexicon: IntentLexicon = englishLexicon): number | undefined {
+  return findAmount(text, lexicon)?.value;
+}
+
+function extractCategory(text: string, lexicon: IntentLexicon = englishLexicon): string | undefined {
+  // naive extraction by common keywords, at the start of a word
   const lower = text.toLowerCase();
-  const catMap: Record<string, string> = {
-    groceries: 'Food & Dining',
-    grocery: 'Food & Dining',
-    food: 'Food & Dining',
-    dining: 'Food & Dining',
-    transport: 'Transportation',
-    fuel: 'Transportation',
-    petrol: 'Transportation',
-    uber: 'Transportation',
-    shopping: 'Shopping',
-    clothes: 'Shopping',
-    clothing: 'Shopping',
-    entertainment: 'Entertainment',
-    movie: 'Entertainment',
-    movies: 'Entertainment',
-    bill: 'Bills & Utilities',
-    electricity: 'Bills & Utilities',
-    water: 'Bills & Utilities',
-    rent: 'Housing',
-    coffee: 'Food & Dining',
-    lunch: 'Food & Dining',
-    breakfast: 'Food & Dining',
-  };
-  for (const key of Object.keys(catMap)) {
-    if (lower.includes(key)) return catMap[key];
+  for (const l of activeLexicons(lexicon)) {
+    const key = findTerm(lower, Object.keys(l.categories), l, true);
+    if (key) return l.categories[key];
   }
   return undefined;
 }
 
-function extractMerchant(text: string): string | undefined {
-  // naive merchant extract: after 'at', 'from', 'to', 'with', or 'my'
-  const m = text.match(/\b(?:at|from|to|with|my)\s+([A-Za-z][\w&'\- ]{1,40})/i);
-  if (m) return m[1].trim();
+function extractMerchant(text: string, lexicon: IntentLexicon = englishLexicon, dateSpan?: DateSpan): string | undefined {
+  // naive merchant extract: after 'at', 'from', 'to', 'with', or 'my' (or the lexicon's own markers),
+  // up to a verb or date word such as 'today', or the date the DateParser found ("Woolworths on 10 Aug");
+  // a date straight after the marker ("at month end") leaves no merchant at all
+  const lexicons = activeLexicons(lexicon);
+  for (const l of lexicons) {
+    const m = text.match(l.merchant);
+    if (!m) continue;
+    const start = m.index! + m[0].length - m[1].length;
+    const name = dateSpan && dateSpan.start >= start ? m[1].slice(0, dateSpan.start - start) : m[1];
+    const words = name.trim().split(/\s+/).filter(Boolean);
+    const end = words.findIndex(w => lexicons.some(x => isCommandWord(w, x)));
+    const merchant = (end < 0 ? words : words.slice(0, end)).join(' ');
+    if (merchant) return merchant;
+  }
   return undefined;
 }
 
-export function parseExpenseIntent(text: string): ExpenseIntent | null {
+// language is the chat's selected language code (e.g. 'af-ZA'); the message itself decides when it reads otherwise
+export function parseExpenseIntent(text: string, language?: string | null, options: IntentOptions = {}): ExpenseIntent | null {
   const lower = (text || '').toLowerCase();
-  const amount = parseAmount(text);
-  const { date, range } = parseRelativeDate(text);
-  const categoryRaw = extractCategory(text);
-  const merchant = extractMerchant(text);
+  const lexicon = detectLanguage(text, language);
+  const lexicons = activeLexicons(lexicon);
+  const amount = parseAmount(text, lexicon);
+  const { date, range, clarification, span } = parseDateExpression(text, { lexicon, ...options });
+  const categoryRaw = extractCategory(text, lexicon);
+  const merchant = extractMerchant(text, lexicon, span);
+  const says = (type: IntentType) => mentions(lower, lexicons, l => l.verbs[type]);
+
+  // Undo: reverts the last recorded change instead of deleting anything
+  if (says('undo')) {
+    return { domain: 'expense', type: 'undo' };
+  }
 
   // Create
-  if (/(^|\s)(add|record|log)\b/.test(lower) || (amount && /(for|on|spent|spend)/.test(lower))) {
+  if (says('create') || (amount && mentions(lower, lexicons, l => l.spendWords))) {
     return {
       domain: 'expense',
       type: 'create',
@@ -135,22 +122,25 @@ export function parseExpenseIntent(text: string): ExpenseIntent | null {
       merchant,
       description: text,
       date,
+      ...(clarification ? { clarification } : {}),
     };
   }
 
   // Read
-  if (/(^|\s)(show|list|how much|total|report|view)\b/.test(lower)) {
+  if (says('read')) {
     return {
       domain: 'expense',
       type: 'read',
       categoryRaw,
-      range,
-      target: categoryRaw ? 'byCategory' : 'all'
+      // A single day reads as a one-day range: "show my spending last Friday"
+      range: range ?? (date ? { start: date, end: date } : undefined),
+      target: categoryRaw ? 'byCategory' : 'all',
+      ...(clarification ? { clarification } : {}),
     };
   }
 
   // Update
-  if (/(^|\s)(update|change|edit|correct)\b/.test(lower)) {
+  if (says('update')) {
     return {
       domain: 'expense',
       type: 'update',
@@ -163,7 +153,7 @@ export function parseExpenseIntent(text: string): ExpenseIntent | null {
   }
 
   // Delete
-  if (/(^|\s)(delete|remove|undo)\b/.test(lower)) {
+  if (says('delete')) {
     return {
       domain: 'expense',
       type: 'delete',
@@ -176,3 +166,151 @@ export function parseExpenseIntent(text: string): ExpenseIntent | null {
   // Fallback no match
   return null;
 }
+
+const MONTHS = ['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'];
+
+function formatDay(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseDeadline(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  const now = new Date();
+  const iso = lower.match(/\b(?:by|before|until)\s+(20\d{2}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+  if (/\b(?:by|before|until)\s+(?:the\s+)?(?:end\s+of\s+(?:the\s+)?year|year\s*end)\b/.test(lower)) {
+    return formatDay(now.getFullYear(), 11, 31);
+  }
+  // by December / by the end of March 2026: the last day of that month, next year if it has passed
+  const m = lower.match(/\b(?:by|before|until)\s+(?:the\s+end\s+of\s+)?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b(?:\s+(20\d{2}))?/);
+  if (m) {
+    const month = MONTHS.indexOf(m[1]);
+    const year = m[2] ? parseInt(m[2], 10) : (month < now.getMonth() ? now.getFullYear() + 1 : now.getFullYear());
+    return formatDay(year, month, new Date(year, month + 1, 0).getDate());
+  }
+  return undefined;
+}
+
+function cleanGoalName(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const name = raw
+    .replace(/\b(?:my|the|our|a|an)\b/gi, ' ')
+    .replace(/\bgoal\b/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name || undefined;
+}
+
+function extractGoalName(text: string, type: GoalIntent['type']): string | undefined {
+  const end = '(?=\\s+(?:by|before|until|in|this|next)\\b|\\s*[?.!,]|$)';
+  const patterns: Record<GoalIntent['type'], RegExp[]> = {
+    create: [
+      new RegExp(`\\bgoal\\s+(?:called|named|for)\\s+(.+?)${end}`, 'i'),
+      new RegExp(`\\bfor\\s+(.+?)${end}`, 'i'),
+    ],
+    update: [new RegExp(`\\b(?:into|towards?|to)\\s+(.+?)${end}`, 'i')],
+    read: [
+      new RegExp(`\\b(?:with|on|for|of)\\s+(.+?)${end}`, 'i'),
+      /\b(?:my|the|our)\s+([a-z][\w'&\- ]*?)\s+(?:goal|fund)\b/i,
+    ],
+  };
+  for (const pattern of patterns[type]) {
+    const m = text.match(pattern);
+    const name = cleanGoalName(m?.[1]);
+    if (name && !/^goals?$/i.test(name)) return name;
+  }
+  return undefined;
+}
+
+function inferGoalCategory(name: string | undefined): string {
+  const lower = (name || '').toLowerCase();
+  if (/(holiday|vacation|travel|trip|wedding)/.test(lower)) return 'lifestyle';
+  if (/(car|house|home|property|deposit)/.test(lower)) return 'asset';
+  if (/(study|studies|school|education|course|degree)/.test(lower)) return 'education';
+  return 'savings';
+}
+
+function titleCase(name: string): string {
+  return name.replace(/\b[a-z]/g, c => c.toUpperCase());
+}
+
+export function parseGoalIntent(text: string): GoalIntent | null {
+  const lower = (text || '').toLowerCase();
+  const amount = parseAmount(text);
+  const mentionsGoal = /\b(goals?|fund|savings)\b/.test(lower);
+
+  // Read: "how far am I with the car goal?"
+  if (/\b(how far|progress|how close|on track|how much (?:more|is left|left|to go))\b/.test(lower) && mentionsGoal) {
+    return { domain: 'goal', type: 'read', goalName: extractGoalName(text, 'read') };
+  }
+
+  // Fund: "put R300 into my emergency fund"
+  if (amount && /\b(put|deposit|contribute|add|save|top up)\b/.test(lower)
+    && (/\b(into|towards?)\b/.test(lower) || (/\bto\b/.test(lower) && mentionsGoal))) {
+    return { domain: 'goal', type: 'update', amount, goalName: extractGoalName(text, 'update') };
+  }
+
+  // Create: "save R5000 for a holiday by December"
+  if (amount && (/\bsave\b.*\bfor\b/.test(lower) || /\b(new|create|start|set up)\b.*\bgoal\b/.test(lower))) {
+    const goalName = extractGoalName(text, 'create');
+    return {
+      domain: 'goal',
+      type: 'create',
+      amount,
+      goalName: goalName ? titleCase(goalName) : undefined,
+      category: inferGoalCategory(goalName),
+      deadline: parseDeadline(text),
+    };
+  }
+
+  return null;
+}
+
+// A category keyword in the text, or the words naming the budget ("my gym budget" -> Gym)
+function extractBudgetCategory(text: string, lexicon: IntentLexicon = englishLexicon): string | undefined {
+  const known = extractCategory(text, lexicon);
+  if (known) return known;
+  const m = text.match(/\b(?:my|the|our)\s+([a-z][a-z &]*?)\s+budget\b/i)
+    || text.match(/\bbudget\s+(?:for|on)\s+([a-z][a-z &]*?)(?=\s+(?:to|at|is|left|remaining)\b|\s*[?.!,]|$)/i)
+    || text.match(/\b(?:left|remaining)\s+(?:for|on|in)\s+([a-z][a-z &]*?)(?=\s*[?.!,]|$)/i);
+  const name = m?.[1].replace(/\b(?:my|the|our)\b/gi, ' ').replace(/\s+/g, ' ').trim();
+  return name ? titleCase(name) : undefined;
+}
+
+export function parseBudgetIntent(text: string, language?: string | null): BudgetIntent | null {
+  const lower = (text || '').toLowerCase();
+  const lexicon = detectLanguage(text, language);
+  const amount = parseAmount(text, lexicon);
+
+  // Transfer: "move R200 from entertainment to food"
+  const transfer = text.match(/\bfrom\s+(.+?)\s+(?:to|into)\s+(.+?)(?:\s+budget)?\s*[?.!]*$/i);
+  if (amount && /\b(move|shift|transfer|reallocate)\b/.test(lower) && transfer) {
+    return {
+      domain: 'budget',
+      type: 'transfer',
+      amount,
+      fromCategory: extractBudgetCategory(transfer[1], lexicon) ?? titleCase(transfer[1].replace(/\bbudget\b/i, '').trim()),
+      category: extractBudgetCategory(transfer[2], lexicon) ?? titleCase(transfer[2].trim()),
+    };
+  }
+
+  if (!/\bbudget/.test(lower)) return null;
+
+  // Set: "set my groceries budget to R2500"
+  if (amount && /\b(set|change|update|make|adjust)\b/.test(lower)) {
+    return { domain: 'budget', type: 'update', amount, category: extractBudgetCategory(text, lexicon) };
+  }
+
+  // Read: "how much budget is left for transport?"
+  if (/\b(how much|left|remaining|remain|status|show|check|how am i|over)\b/.test(lower)) {
+    return { domain: 'budget', type: 'read', category: extractBudgetCategory(text, lexicon) };
+  }
+
+  return null;
+}
+
+// Goal and budget phrases are checked first: "save R5000 for a holiday" would otherwise read as an expense.
+// language is the chat's selected language code, see parseExpenseIntent
+export function parseIntent(text: string, language?: string | null, options: IntentOptions = {}): ChatIntent | null {
+  return parseGoalIntent(text) ?? parseBudgetIntent(text, language) ?? parseExpenseIntent(text, language, options);
+}
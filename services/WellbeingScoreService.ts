@@ -1,4 +1,6 @@
 import { standardBankService } from '@/services/StandardBankService';
+import { SplitAllocation } from '@/types/finance';
+import { categoryTotals } from '@/utils/splits';
 
 /**
  * Financial Wellbeing Score Service (MVP)
@@ -10,7 +12,7 @@ import { standardBankService } from '@/services/StandardBankService';
  *  - Goal Progress (20%)
  *  - Recurring vs One-off Balance (15%)
  */
-export interface ExpenseLike { amount: number; category?: string; date?: string; isRecurring?: boolean; }
+export interface ExpenseLike { amount: number; category?: string; date?: string; isRecurring?: boolean; tags?: string[]; splits?: SplitAllocation[]; }
 export interface GoalLike { targetAmount: number; currentAmount: number; priority?: 'high'|'medium'|'low'; }
 
 export interface WellbeingBreakdownItem { key: string; label: string; weight: number; raw: number; normalized: number; contribution: number; note?: string; }
@@ -40,8 +42,7 @@ export class WellbeingScoreService {
     const savingsMomentumNorm = clamp(pct(savingsApprox, currentBalance));
 
     // Category Diversification: penalize concentration. Compute Herfindahl index H = sum(p_i^2)
-    const catTotals: Record<string, number> = {};
-    last30.forEach(e => { const k = e.category || 'Other'; catTotals[k] = (catTotals[k]||0)+(e.amount||0); });
+    const catTotals = categoryTotals(last30.map(e => ({ ...e, amount: e.amount||0 })));
     const cats = Object.entries(catTotals);
     const catSum = cats.reduce((s,[,v])=>s+v,0);
     let H = 0; if(catSum>0){ cats.forEach(([,v])=>{ const p = v/catSum; H += p*p; }); }
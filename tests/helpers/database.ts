@@ -0,0 +1,83 @@
+import { IDatabaseManager } from '@/database/interfaces/IDatabaseManager';
+import { ILogger } from '@/database/interfaces/ILogger';
+import { ISyncQueueRepository } from '@/database/interfaces/Repositories';
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { DatabaseMigrator } from '@/database/migrations/DatabaseMigrator';
+import { migrations } from '@/database/migrations/migrations';
+
+/**
+ * A statement a fake database was asked to run
+ */
+export interface ExecutedQuery {
+  query: string;
+  params: any[];
+}
+
+/**
+ * Answers a statement: rows for reads, `{ changes, lastInsertRowId }` for writes
+ */
+export type QueryHandler = (query: string, params: any[]) => unknown;
+
+/**
+ * Database double that records what it is asked to run
+ */
+export interface FakeDatabase extends IDatabaseManager {
+  calls: ExecutedQuery[]; // statements run through execute
+  transactions: ExecutedQuery[][]; // statements of each transaction, in order
+}
+
+/**
+ * Fake database answering every statement with a handler, for tests about the SQL a class issues
+ * @param handler Answers each statement, inside transactions too; defaults to no rows
+ * @returns Recording database
+ */
+export function fakeDatabase(handler: QueryHandler = () => []): FakeDatabase {
+  const calls: ExecutedQuery[] = [];
+  const transactions: ExecutedQuery[][] = [];
+  return {
+    calls,
+    transactions,
+    initialize: async () => {},
+    close: async () => {},
+    execute: async <T>(query: string, params: any[] = []) => {
+      calls.push({ query, params });
+      return handler(query, params) as T;
+    },
+    transaction: async <T>(queries: { query: string; params?: any[] }[]) => {
+      const statements = queries.map(({ query, params = [] }) => ({ query, params }));
+      transactions.push(statements);
+      return statements.map(({ query, params }) => handler(query, params) as T);
+    },
+  };
+}
+
+/**
+ * Sync queue double that accepts every change and has nothing to send
+ * @returns Queue whose enqueue is a jest mock
+ */
+export function fakeSyncQueue(): ISyncQueueRepository & { enqueue: jest.Mock } {
+  return {
+    enqueue: jest.fn(async () => 1),
+    getProcessable: async () => [],
+    hasPending: async () => false,
+    markInProgress: async () => {},
+    resetInProgress: async () => 0,
+    markSuccess: async () => {},
+    markError: async () => {},
+    assignRemoteId: async () => {},
+    purgeCompleted: async () => 0,
+    getStats: async () => ({ pending: 0, in_progress: 0, success: 0, error: 0 }),
+  };
+}
+
+/**
+ * Open an in-memory SQLite database with every migration applied, for tests against the real schema
+ * @param logger Logger for the connection and migrations
+ * @returns Initialized database; close it after the test
+ */
+export async function openTestDatabase(logger: ILogger): Promise<NodeSQLiteManager> {
+  const db = new NodeSQLiteManager(':memory:', logger);
+  await db.initialize();
+  await new DatabaseMigrator(db, logger, migrations).migrateUp();
+  return db;
+}
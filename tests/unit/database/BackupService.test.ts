@@ -0,0 +1,142 @@
+import { BackupService, BACKUP_FORMAT_VERSION } from '@/database/backup/BackupService';
+import { BackupError } from '@/database/errors/DatabaseErrors';
+import { fakeDatabase } from '../../helpers/database';
+
+jest.mock('expo-sqlite', () => ({}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  EncodingType: { Base64: 'base64' },
+  makeDirectoryAsync: jest.fn(async () => {}),
+  readAsStringAsync: jest.fn(async (uri: string) => `base64-of-${uri.split('/').pop()}`),
+  writeAsStringAsync: jest.fn(async () => {}),
+}));
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+/**
+ * Tiny in-memory stand-in for SQLite that understands the statements the backup service
+ * and the migrator issue
+ */
+type Tables = Record<string, { columns: string[]; rows: Record<string, any>[] }>;
+
+function tableDb(initial: Tables = {}) {
+  const tables: Tables = JSON.parse(JSON.stringify(initial));
+
+  const run = (query: string, params: any[]): unknown => {
+    const sql = query.trim().replace(/\s+/g, ' ');
+    let m: RegExpExecArray | null;
+    if (sql.includes('sqlite_master')) return Object.keys(tables).map(name => ({ name }));
+    if (sql.includes('pragma_table_info')) return tables[params[0]].columns.map(name => ({ name }));
+    if (sql.includes('MAX(version)')) {
+      return [{ version: Math.max(0, ...(tables.migrations?.rows || []).map(r => r.version)) }];
+    }
+    if ((m = /^CREATE TABLE (?:IF NOT EXISTS )?(\w+) \((.*)\)/.exec(sql))) {
+      tables[m[1]] = tables[m[1]] || { columns: m[2].split(',').map(c => c.trim().split(' ')[0]), rows: [] };
+      return {};
+    }
+    if ((m = /^ALTER TABLE (\w+) ADD COLUMN (\w+) DEFAULT '(\w+)'/.exec(sql))) {
+      tables[m[1]].columns.push(m[2]);
+      tables[m[1]].rows.forEach(row => { row[m![2]] = m![3]; });
+      return {};
+    }
+    if (sql.startsWith('UPDATE')) return { changes: 0 };
+    if ((m = /^SELECT [\w, *]+ FROM (\w+)/.exec(sql))) return tables[m[1]].rows.map(r => ({ ...r }));
+    if ((m = /^DELETE FROM (\w+)/.exec(sql))) {
+      tables[m[1]].rows = [];
+      return { changes: 0 };
+    }
+    if ((m = /^INSERT INTO (\w+) \(([^)]+)\)/.exec(sql))) {
+      const row: Record<string, any> = {};
+      m[2].split(',').forEach((c, i) => { row[c.trim()] = params[i]; });
+      tables[m[1]].rows.push(row);
+      return { lastInsertRowId: tables[m[1]].rows.length, changes: 1 };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  return Object.assign(fakeDatabase(run), { tables, close: jest.fn(async () => {}) });
+}
+
+const testMigrations = [
+  { version: 1, name: 'initial', up: 'CREATE TABLE expenses (id, amount, merchant)', down: '' },
+  { version: 2, name: 'currency', up: "ALTER TABLE expenses ADD COLUMN currency DEFAULT 'ZAR'", down: '' },
+];
+
+function liveDb(version: number, expenses: Record<string, any>[]) {
+  return tableDb({
+    migrations: { columns: ['version', 'name', 'applied_at', 'checksum', 'schema_before'], rows: testMigrations.slice(0, version).map(m => ({ version: m.version })) },
+    expenses: { columns: version >= 2 ? ['id', 'amount', 'merchant', 'currency'] : ['id', 'amount', 'merchant'], rows: expenses },
+    receipts: { columns: ['id', 'imageUri', 'merchantName'], rows: [{ id: 3, imageUri: 'file:///cache/slip one.jpg', merchantName: 'Spar' }] },
+    sync_queue: { columns: ['id', 'entityId'], rows: [{ id: 1, entityId: 9 }] },
+  });
+}
+
+describe('BackupService', () => {
+  test('creates an archive with counts and checksums that validates', async () => {
+    const service = new BackupService(liveDb(2, [{ id: 1, amount: 10, merchant: 'Spar', currency: 'ZAR' }]), logger);
+
+    const archive = await service.createBackup();
+
+    expect(archive.manifest).toMatchObject({ formatVersion: BACKUP_FORMAT_VERSION, schemaVersion: 2, images: null });
+    expect(archive.manifest.tables.expenses.count).toBe(1);
+    expect(archive.manifest.tables.expenses.checksum).toMatch(/^[0-9a-f]{8}$/);
+    expect(archive.tables.sync_queue).toBeUndefined();
+    expect(() => service.validateArchive(JSON.parse(JSON.stringify(archive)))).not.toThrow();
+  });
+
+  test('rejects altered, truncated and future archives', async () => {
+    const service = new BackupService(liveDb(2, [{ id: 1, amount: 10, merchant: 'Spar', currency: 'ZAR' }]), logger);
+    const archive = await service.createBackup();
+
+    const altered = JSON.parse(JSON.stringify(archive));
+    altered.tables.expenses[0].amount = 1000;
+    expect(() => service.validateArchive(altered)).toThrow('Checksum mismatch for table expenses');
+
+    const truncated = JSON.parse(JSON.stringify(archive));
+    truncated.tables.expenses = [];
+    expect(() => service.validateArchive(truncated)).toThrow('should have 1 rows');
+
+    const future = JSON.parse(JSON.stringify(archive));
+    future.manifest.formatVersion = BACKUP_FORMAT_VERSION + 1;
+    expect(() => service.validateArchive(future)).toThrow(BackupError);
+    expect(() => service.validateArchive({ hello: 'world' })).toThrow('Not a backup archive');
+  });
+
+  test('restores images under new URIs and replaces tables in one transaction', async () => {
+    const source = new BackupService(liveDb(2, [{ id: 1, amount: 10, merchant: 'Spar', currency: 'ZAR' }]), logger);
+    const archive = await source.createBackup({ includeImages: true });
+    expect(Object.keys(archive.manifest.images!)).toEqual(['receipts-3-slip_one.jpg']);
+
+    const target = liveDb(2, [{ id: 7, amount: 99, merchant: 'Old', currency: 'ZAR' }]);
+    const result = await new BackupService(target, logger).restore(archive);
+
+    expect(result).toMatchObject({ schemaVersion: 2, upgradedFrom: null, images: 1, tables: { expenses: 1, receipts: 1 } });
+    expect(target.transactions).toHaveLength(1);
+    expect(target.tables.expenses.rows).toEqual([{ id: 1, amount: 10, merchant: 'Spar', currency: 'ZAR' }]);
+    expect(target.tables.receipts.rows[0].imageUri).toBe('file:///docs/receipt-images/receipts-3-slip_one.jpg');
+    expect(target.tables.sync_queue.rows).toEqual([]);
+  });
+
+  test('migrates archives from an older schema in a staging database first', async () => {
+    const oldDb = liveDb(1, [{ id: 1, amount: 10, merchant: 'Spar' }]);
+    delete oldDb.tables.receipts;
+    const oldArchive = await new BackupService(oldDb, logger, undefined, testMigrations).createBackup();
+
+    const staging = tableDb();
+    const target = liveDb(2, []);
+    const result = await new BackupService(target, logger, () => staging, testMigrations).restore(oldArchive);
+
+    expect(result.upgradedFrom).toBe(1);
+    expect(staging.close).toHaveBeenCalled();
+    expect(target.tables.expenses.rows).toEqual([{ id: 1, amount: 10, merchant: 'Spar', currency: 'ZAR' }]);
+  });
+
+  test('refuses archives from a newer schema without touching the database', async () => {
+    const newer = await new BackupService(liveDb(2, []), logger).createBackup();
+    const target = liveDb(1, [{ id: 1, amount: 10, merchant: 'Spar' }]);
+
+    await expect(new BackupService(target, logger).restore(newer)).rejects.toThrow('Update the app first');
+    expect(target.transactions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { budgetWindow } from '@/database/budgets/BudgetPeriod';
+import { BudgetRepository } from '@/database/repositories/BudgetRepository';
+import { BudgetRecord } from '@/database/models/Records';
+import { DatabaseError } from '@/database/errors/DatabaseErrors';
+import { fakeDatabase, fakeSyncQueue, openTestDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const budget = (overrides: Partial<BudgetRecord> = {}): BudgetRecord => ({
+  id: 1, userId: 'u1', name: 'Groceries', category: 'Groceries', amount: 3000, period: 'monthly',
+  startDate: '2025-01-25', isActive: true, createdAt: '', updatedAt: '', syncStatus: 'pending',
+  ...overrides,
+});
+
+describe('budget periods', () => {
+  test('monthly periods repeat from the start day', () => {
+    expect(budgetWindow(budget(), '2025-03-10')).toEqual({ start: '2025-02-25', end: '2025-03-24' });
+    expect(budgetWindow(budget(), '2025-03-25')).toEqual({ start: '2025-03-25', end: '2025-04-24' });
+    expect(budgetWindow(budget({ startDate: '2025-01-31' }), '2025-02-28')).toEqual({ start: '2025-02-28', end: '2025-03-30' });
+  });
+
+  test('weekly and yearly periods, cut off at the end date', () => {
+    // 2025-03-03 is a Monday
+    expect(budgetWindow(budget({ period: 'weekly', startDate: '2025-03-03' }), '2025-03-16'))
+      .toEqual({ start: '2025-03-10', end: '2025-03-16' });
+    expect(budgetWindow(budget({ period: 'yearly', startDate: '2024-03-01', endDate: '2025-06-30' }), '2025-05-01'))
+      .toEqual({ start: '2025-03-01', end: '2025-06-30' });
+    expect(budgetWindow(budget({ period: 'yearly', startDate: '2024-03-01' }), '2024-01-15'))
+      .toEqual({ start: '2024-03-01', end: '2025-02-28' });
+  });
+});
+
+describe('BudgetRepository', () => {
+  test('adds up the expenses of the current period, all categories for an overall budget', async () => {
+    const db = fakeDatabase(() => [{ spent: 1250.5 }]);
+    const repo = new BudgetRepository(db, logger);
+
+    expect(await repo.getSpent(budget(), '2025-03-10')).toBe(1250.5);
+    expect(db.calls[0].query).toContain('deletedAt IS NULL');
+    expect(db.calls[0].params).toEqual(['u1', '2025-02-25', '2025-03-25', 'Groceries']);
+
+    await repo.getSpent(budget({ category: null }), '2025-03-10');
+    expect(db.calls[1].query).not.toContain('category = ?');
+  });
+
+  test('maps active budgets to finance budgets with spent and the current window', async () => {
+    const rows = [
+      { ...budget(), isActive: 1 },
+      { ...budget({ id: 2, name: 'Overall', category: null, amount: 12000, startDate: '2025-03-01' }), isActive: 1 },
+      { ...budget({ id: 3, startDate: '2025-06-01' }), isActive: 1 },
+    ];
+    const db = fakeDatabase(query => (query.includes('AS spent') ? [{ spent: 400 }] : rows));
+    const repo = new BudgetRepository(db, logger);
+
+    const budgets = await repo.getBudgets('u1', '2025-03-10');
+
+    expect(budgets).toEqual([
+      { id: '1', category: 'Groceries', limit: 3000, spent: 400, period: 'monthly', startDate: '2025-02-25', endDate: '2025-03-24' },
+      { id: '2', category: 'Overall', limit: 12000, spent: 400, period: 'monthly', startDate: '2025-03-01', endDate: '2025-03-31' },
+    ]);
+  });
+
+  test('setLimit updates the existing budget for the category and queues it for sync', async () => {
+    const db = fakeDatabase(query => {
+      if (query.startsWith('SELECT id')) return [{ id: 4 }];
+      if (query.startsWith('UPDATE')) return { changes: 1 };
+      return [{ ...budget({ id: 4 }), isActive: 1 }];
+    });
+    const syncQueue = fakeSyncQueue();
+    const repo = new BudgetRepository(db, logger, syncQueue);
+
+    expect(await repo.setLimit('u1', 'Groceries', 3500)).toBe(4);
+    expect(db.calls[0].params).toEqual(['u1', 'Groceries', 'monthly']);
+    expect(db.calls[1].query).toContain('amount = ?');
+    expect(syncQueue.enqueue).toHaveBeenCalledWith('budget', 4, 'update', expect.objectContaining({ id: 4 }));
+  });
+
+  test('rejects invalid limits and periods', async () => {
+    const repo = new BudgetRepository(fakeDatabase(() => ({ lastInsertRowId: 1 })), logger);
+
+    await expect(repo.create({ ...budget(), amount: 0 })).rejects.toBeInstanceOf(DatabaseError);
+    await expect(repo.update(1, { period: 'daily' as any })).rejects.toBeInstanceOf(DatabaseError);
+    await expect(repo.create({ ...budget(), endDate: '2025-01-01' })).rejects.toBeInstanceOf(DatabaseError);
+  });
+
+  test('moves limit between budgets in one transaction and refuses to empty a budget', async () => {
+    const db = await openTestDatabase(logger);
+    const syncQueue = fakeSyncQueue();
+    const repo = new BudgetRepository(db, logger, syncQueue);
+    await repo.setLimit('u1', 'Entertainment', 500);
+    await repo.setLimit('u1', 'Food', 2000);
+    const limits = async () => (await repo.getByUserId('u1')).map(b => [b.category, b.amount]);
+    const transaction = jest.spyOn(db, 'transaction');
+
+    await expect(repo.transferLimit('u1', 'Entertainment', 'Food', 500)).rejects.toThrow('would leave nothing');
+    expect(await limits()).toEqual([['Entertainment', 500], ['Food', 2000]]);
+
+    await repo.transferLimit('u1', 'Entertainment', 'Food', 200);
+    const { toId } = await repo.transferLimit('u1', 'Entertainment', 'Transport', 50.5);
+
+    expect(transaction).toHaveBeenCalledTimes(2);
+    expect(await limits()).toEqual([['Entertainment', 249.5], ['Food', 2200], ['Transport', 50.5]]);
+    expect(syncQueue.enqueue).toHaveBeenLastCalledWith('budget', toId, 'create', expect.objectContaining({ category: 'Transport' }));
+    await db.close();
+  });
+});
@@ -0,0 +1,130 @@
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { DatabaseMigrator } from '@/database/migrations/DatabaseMigrator';
+import { migrations } from '@/database/migrations/migrations';
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { SplitRepository } from '@/database/repositories/SplitRepository';
+import { TagRepository } from '@/database/repositories/TagRepository';
+import { ChangeHistoryRepository } from '@/database/repositories/ChangeHistoryRepository';
+import { ChangeEventBus, changeEvents } from '@/database/events/ChangeEventBus';
+import { LiveQuery, LiveQueryState } from '@/database/events/LiveQuery';
+import { ChangeEvent } from '@/database/interfaces/IChangeEventBus';
+import { ExpenseRecord } from '@/database/models/Records';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const expense = (overrides: Partial<ExpenseRecord> = {}): Omit<ExpenseRecord, 'id'> => ({
+  userId: 'u1', amount: 300, category: 'Food & Dining', merchant: 'Woolworths', description: '',
+  date: '2025-03-10', isRecurring: false,
+  createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(), syncStatus: 'pending',
+  ...overrides,
+});
+
+describe('ChangeEventBus', () => {
+  test('delivers events to listeners of their kind of record until they unsubscribe', () => {
+    const bus = new ChangeEventBus(logger);
+    const expenses = jest.fn();
+    const everything = jest.fn();
+    const stop = bus.subscribe(['expense'], expenses);
+    bus.subscribe(null, everything);
+
+    bus.emit({ entity: 'expense', operation: 'create', ids: [1] });
+    bus.emit({ entity: 'goal', operation: 'update', ids: [2] });
+    stop();
+    bus.emit({ entity: 'expense', operation: 'delete', ids: [1] });
+
+    expect(expenses).toHaveBeenCalledTimes(1);
+    expect(expenses).toHaveBeenCalledWith({ entity: 'expense', operation: 'create', ids: [1] });
+    expect(everything).toHaveBeenCalledTimes(3);
+    expect(bus.listenerCount()).toBe(1);
+  });
+
+  test('keeps delivering when a listener throws', () => {
+    const bus = new ChangeEventBus(logger);
+    const after = jest.fn();
+    bus.subscribe(null, () => { throw new Error('boom'); });
+    bus.subscribe(null, after);
+
+    expect(() => bus.emit({ entity: 'tag', operation: 'create', ids: [1] })).not.toThrow();
+    expect(after).toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
+
+describe('Repository change events', () => {
+  let db: NodeSQLiteManager;
+  let events: ChangeEvent[];
+  let stop: () => void;
+
+  beforeEach(async () => {
+    db = new NodeSQLiteManager(':memory:', logger);
+    await db.initialize();
+    await new DatabaseMigrator(db, logger, migrations).migrateUp();
+    events = [];
+    stop = changeEvents.subscribe(null, event => events.push(event));
+  });
+
+  afterEach(async () => {
+    stop();
+    await db.close();
+  });
+
+  test('announces expense changes once they are committed', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    const repo = new ExpenseRepository(db, logger, undefined, history);
+
+    const id = await repo.create(expense());
+    await repo.update(id, { amount: 350 });
+    await repo.update(999, { amount: 1 });
+    await repo.delete(id);
+    await repo.restore(id);
+    const [latest] = await history.getRecent('u1', 1);
+    await history.revert(latest.id!);
+
+    expect(events).toEqual([
+      { entity: 'expense', operation: 'create', ids: [id] },
+      { entity: 'expense', operation: 'update', ids: [id] },
+      { entity: 'expense', operation: 'delete', ids: [id] },
+      { entity: 'expense', operation: 'restore', ids: [id] },
+      { entity: 'expense', operation: 'delete', ids: [id] },
+    ]);
+  });
+
+  test('announces splits and tags as changes to the record they belong to', async () => {
+    const expenses = new ExpenseRepository(db, logger);
+    const tags = new TagRepository(db, logger);
+    const id = await expenses.create(expense());
+    const tag = (await tags.findOrCreate('u1', 'Work')).id!;
+    events = [];
+
+    await new SplitRepository(db, logger).setSplits('expense', id, [
+      { category: 'Food & Dining', amount: 200 },
+      { category: 'Shopping', amount: 100 },
+    ]);
+    await tags.attachToExpense(id, [tag]);
+    await tags.attachToExpense(id, [tag]);
+
+    expect(events).toEqual([
+      { entity: 'expense', operation: 'update', ids: [id] },
+      { entity: 'expense', operation: 'update', ids: [id] },
+    ]);
+  });
+
+  test('re-runs live queries for the tables they read, coalescing changes made during a run', async () => {
+    const repo = new ExpenseRepository(db, logger);
+    const states: LiveQueryState<number>[] = [];
+    const query = jest.fn(async () => (await repo.getByUserId('u1')).length);
+    const live = new LiveQuery(query, ['expense'], state => states.push(state));
+
+    await live.start();
+    await Promise.all([repo.create(expense()), repo.create(expense()), repo.create(expense())]);
+    await live.refresh();
+    changeEvents.emit({ entity: 'goal', operation: 'create', ids: [1] });
+    live.stop();
+    await repo.create(expense());
+
+    expect(states[0]).toEqual({ data: 0, loading: false, error: null });
+    expect(states[states.length - 1]).toEqual({ data: 3, loading: false, error: null });
+    expect(query.mock.calls.length).toBeLessThan(5);
+    expect(changeEvents.listenerCount()).toBe(1);
+  });
+});
@@ -0,0 +1,158 @@
+import { ChangeHistoryRepository } from '@/database/repositories/ChangeHistoryRepository';
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { SyncQueueRepository } from '@/database/repositories/SyncQueueRepository';
+import { BudgetRepository } from '@/database/repositories/BudgetRepository';
+import { FinancialGoalRepository } from '@/database/repositories/FinancialGoalRepository';
+import { DatabaseError } from '@/database/errors/DatabaseErrors';
+import { openTestDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+let db: NodeSQLiteManager;
+
+beforeEach(async () => {
+  db = await openTestDatabase(logger);
+});
+
+afterEach(() => db.close());
+
+const insertCoffee = (firebaseId: string | null = null) => db.execute(
+  `INSERT INTO expenses (id, userId, amount, category, merchant, date, createdAt, updatedAt, syncStatus, firebaseId)
+   VALUES (1, 'u1', 35, 'Food', 'Vida', '2025-01-01', '2025-01-01', '2025-01-01', 'synced', ?)`,
+  [firebaseId]
+);
+
+const setCoffee = (column: 'amount' | 'deletedAt', value: number | string | null) =>
+  db.execute(`UPDATE expenses SET ${column} = ? WHERE id = 1`, [value]);
+
+const expenses = () => db.execute<Record<string, any>[]>('SELECT * FROM expenses');
+
+describe('ChangeHistoryRepository', () => {
+  test('records before and after images with actor and source', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    await insertCoffee();
+
+    const before = await history.snapshot('expense', 1);
+    await setCoffee('amount', 350);
+    await history.record('expense', 1, 'update', before, { source: 'chat' });
+
+    const [change] = await history.getHistory('expense', 1);
+    expect(change).toMatchObject({ operation: 'update', userId: 'u1', actor: 'u1', source: 'chat', revertOf: null });
+    expect(change.before!.amount).toBe(35);
+    expect(change.after!.amount).toBe(350);
+  });
+
+  test('reverts an update in one transaction and refuses to revert it twice', async () => {
+    const syncQueue = new SyncQueueRepository(db, logger);
+    const history = new ChangeHistoryRepository(db, logger, syncQueue);
+    await insertCoffee();
+    const before = await history.snapshot('expense', 1);
+    await setCoffee('amount', 350);
+    const changeId = await history.record('expense', 1, 'update', before);
+    const transaction = jest.spyOn(db, 'transaction');
+
+    const revert = await history.revert(changeId, { source: 'chat' });
+
+    expect(revert).toMatchObject({ operation: 'update', revertOf: changeId, source: 'chat' });
+    expect(await expenses()).toEqual([expect.objectContaining({ amount: 35, syncStatus: 'pending' })]);
+    expect(transaction).toHaveBeenCalledTimes(1);
+    const [queued] = await syncQueue.getProcessable(5);
+    expect(queued).toMatchObject({ entityType: 'expense', entityId: 1, operation: 'update' });
+    expect(JSON.parse(queued.data!).amount).toBe(35);
+    await expect(history.revert(changeId)).rejects.toThrow('already reverted');
+  });
+
+  test('refuses to revert a change the record has moved on from', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    await insertCoffee();
+    const before = await history.snapshot('expense', 1);
+    await setCoffee('amount', 350);
+    const changeId = await history.record('expense', 1, 'update', before);
+    await setCoffee('amount', 40);
+
+    await expect(history.revert(changeId)).rejects.toThrow(DatabaseError);
+    expect((await expenses())[0].amount).toBe(40);
+  });
+
+  test('undoLatest steps back through creates and deletes', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    await insertCoffee();
+    await history.record('expense', 1, 'create', null);
+    const before = await history.snapshot('expense', 1);
+    await setCoffee('deletedAt', '2025-01-05');
+    await history.record('expense', 1, 'delete', before);
+
+    await history.undoLatest('u1');
+    expect(await expenses()).toEqual([expect.objectContaining({ id: 1, amount: 35, deletedAt: null })]);
+
+    await history.undoLatest('u1');
+    expect(await expenses()).toEqual([expect.objectContaining({ id: 1, deletedAt: expect.any(String) })]);
+
+    await expect(history.undoLatest('u1')).resolves.toBeNull();
+  });
+
+  test('undoLatest puts back both budgets of a transfer in one transaction', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    const budgets = new BudgetRepository(db, logger, undefined, history);
+    await budgets.setLimit('u1', 'Entertainment', 500);
+    await budgets.transferLimit('u1', 'Entertainment', 'Food', 200, 'monthly', { source: 'chat' });
+    const limits = async () => (await budgets.getByUserId('u1')).map(b => [b.category, b.amount]);
+    expect(await limits()).toEqual([['Entertainment', 300], ['Food', 200]]);
+    const transaction = jest.spyOn(db, 'transaction');
+
+    const undone = await history.undoLatest('u1', { source: 'chat' });
+
+    expect(undone).toMatchObject({ entityType: 'budget', operation: 'delete', source: 'chat' });
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(await limits()).toEqual([['Entertainment', 500]]);
+
+    // The next undo steps back to the budget that was set before the transfer
+    await history.undoLatest('u1');
+    expect(await limits()).toEqual([]);
+  });
+
+  test('undoLatest reverts nothing of a batch when one of its records moved on', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    const budgets = new BudgetRepository(db, logger, undefined, history);
+    await budgets.setLimit('u1', 'Entertainment', 500);
+    await budgets.setLimit('u1', 'Food', 1000);
+    await budgets.transferLimit('u1', 'Entertainment', 'Food', 200);
+    await db.execute("UPDATE budgets SET amount = 50 WHERE category = 'Entertainment'");
+
+    await expect(history.undoLatest('u1')).rejects.toThrow('was modified after change');
+
+    const limits = (await budgets.getByUserId('u1')).map(b => [b.category, b.amount]);
+    expect(limits).toEqual([['Entertainment', 50], ['Food', 1200]]);
+  });
+
+  test('undoLatest takes back a goal contribution rather than an older change', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    const goals = new FinancialGoalRepository(db, logger, undefined, history);
+    await insertCoffee();
+    await history.record('expense', 1, 'create', null);
+    const id = await goals.create({
+      userId: 'u1', title: 'Holiday', description: '', targetAmount: 5000, currentAmount: 0, deadline: '',
+      category: 'savings', isActive: true, createdAt: '', updatedAt: '', syncStatus: 'pending',
+    });
+    await goals.updateProgress(id, 750, { source: 'chat' });
+
+    const undone = await history.undoLatest('u1', { source: 'chat' });
+
+    expect(undone).toMatchObject({ entityType: 'goal', entityId: id, operation: 'update' });
+    expect((await goals.getById(id))!.currentAmount).toBe(0);
+    expect(await expenses()).toEqual([expect.objectContaining({ id: 1, deletedAt: null })]);
+  });
+
+  test('reverting a delete after the trash was purged inserts the record again', async () => {
+    const history = new ChangeHistoryRepository(db, logger);
+    await insertCoffee('remote-1');
+    const before = await history.snapshot('expense', 1);
+    await db.execute('DELETE FROM expenses WHERE id = 1');
+    const changeId = await history.record('expense', 1, 'delete', before);
+
+    await history.revert(changeId);
+
+    expect(await expenses()).toEqual([expect.objectContaining({ id: 1, amount: 35, deletedAt: null, syncStatus: 'pending' })]);
+    expect((await expenses())[0].firebaseId).toBeNull();
+  });
+});
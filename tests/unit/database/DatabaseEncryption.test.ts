@@ -0,0 +1,118 @@
+import { DatabaseEncryption } from '@/database/security/DatabaseEncryption';
+import { IDatabaseKeyStore } from '@/database/interfaces/IDatabaseKeyStore';
+import { EncryptionError } from '@/database/errors/DatabaseErrors';
+
+// Simulated database files: the key each file is encrypted with (null = plaintext)
+const files: Record<string, { key: string | null }> = {};
+const statements: string[] = [];
+
+const keyOf = (sql: string) => /x'([0-9a-f]+)'/i.exec(sql)?.[1] ?? null;
+
+jest.mock('expo-sqlite', () => ({
+  defaultDatabaseDirectory: '/data/SQLite',
+  openDatabaseAsync: jest.fn(async (name: string) => {
+    const conn = { key: null as string | null, attached: null as string | null };
+    return {
+      execAsync: async (sql: string) => {
+        statements.push(sql.trim());
+        if (sql.includes('PRAGMA key')) conn.key = keyOf(sql);
+        if (sql.includes('PRAGMA rekey')) files[name] = { key: keyOf(sql) };
+      },
+      runAsync: async (sql: string, params: any[]) => {
+        statements.push(sql.trim());
+        if (sql.startsWith('ATTACH')) files[params[0].split('/').pop()] = { key: keyOf(sql) };
+      },
+      getFirstAsync: async (sql: string) => {
+        if (sql.includes('cipher_version')) return { cipher_version: '4.6.1' };
+        if (sql.includes('user_version')) return { user_version: 7 };
+        const file = files[name];
+        if (file && file.key !== conn.key) throw new Error('file is not a database');
+        return { count: 12 };
+      },
+      closeAsync: async () => {},
+    };
+  }),
+}));
+
+jest.mock('expo-file-system', () => ({
+  deleteAsync: jest.fn(async () => {}),
+  moveAsync: jest.fn(async ({ from, to }: { from: string; to: string }) => {
+    files[to.split('/').pop()!] = files[from.split('/').pop()!];
+  }),
+}));
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const KEY_A = 'a'.repeat(64);
+const KEY_B = 'b'.repeat(64);
+
+function memoryKeyStore(key: string | null = null, pending: string | null = null): IDatabaseKeyStore & { key: string | null; pending: string | null } {
+  const store = {
+    key,
+    pending,
+    getKey: async () => store.key,
+    setKey: async (k: string) => { store.key = k; },
+    getPendingKey: async () => store.pending,
+    setPendingKey: async (k: string | null) => { store.pending = k; },
+    generateKey: () => KEY_B,
+  };
+  return store;
+}
+
+describe('DatabaseEncryption', () => {
+  beforeEach(() => {
+    Object.keys(files).forEach(k => delete files[k]);
+    statements.length = 0;
+  });
+
+  test('creates and stores a key on first run', async () => {
+    const keyStore = memoryKeyStore();
+    await new DatabaseEncryption(keyStore, logger).open('app.db');
+
+    expect(keyStore.key).toBe(KEY_B);
+    expect(statements[0]).toBe(`PRAGMA key = "x'${KEY_B}'";`);
+  });
+
+  test('encrypts an existing plaintext database in place', async () => {
+    files['app.db'] = { key: null };
+    const keyStore = memoryKeyStore(KEY_A);
+
+    await new DatabaseEncryption(keyStore, logger).open('app.db');
+
+    expect(statements.some(s => s.includes("sqlcipher_export('encrypted')"))).toBe(true);
+    expect(files['app.db']).toEqual({ key: KEY_A });
+  });
+
+  test('completes a rotation that was interrupted after re-keying', async () => {
+    files['app.db'] = { key: KEY_B };
+    const keyStore = memoryKeyStore(KEY_A, KEY_B);
+
+    await new DatabaseEncryption(keyStore, logger).open('app.db');
+
+    expect(keyStore.key).toBe(KEY_B);
+    expect(keyStore.pending).toBeNull();
+  });
+
+  test('rotateKey re-keys outside WAL mode and stores the new key', async () => {
+    files['app.db'] = { key: KEY_A };
+    const keyStore = memoryKeyStore(KEY_A);
+    const encryption = new DatabaseEncryption(keyStore, logger);
+    const db = await encryption.open('app.db');
+
+    await encryption.rotateKey(db);
+
+    expect(statements.slice(-3)).toEqual([
+      'PRAGMA journal_mode = DELETE;',
+      `PRAGMA rekey = "x'${KEY_B}'";`,
+      'PRAGMA journal_mode = WAL;',
+    ]);
+    expect(files['app.db']).toEqual({ key: KEY_B });
+    expect(keyStore.key).toBe(KEY_B);
+    expect(keyStore.pending).toBeNull();
+  });
+
+  test('fails when no known key unlocks the database', async () => {
+    files['app.db'] = { key: 'c'.repeat(64) };
+    await expect(new DatabaseEncryption(memoryKeyStore(KEY_A), logger).open('app.db'))
+      .rejects.toBeInstanceOf(EncryptionError);
+  });
+});
@@ -0,0 +1,111 @@
+import * as FileSystem from 'expo-file-system';
+import { DatabaseMaintenanceService, formatHealthReport } from '@/database/maintenance/DatabaseMaintenanceService';
+import { fakeDatabase } from '../../helpers/database';
+
+jest.mock('expo-file-system', () => ({
+  getInfoAsync: jest.fn(async (uri: string) => ({ exists: !uri.includes('gone'), uri })),
+}));
+
+const fs = FileSystem as jest.Mocked<typeof FileSystem>;
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const TABLES = ['migrations', 'expenses', 'tags', 'expense_tags', 'receipts', 'receipt_attachments'];
+
+/**
+ * Fake database answering the maintenance queries; `answers` are matched against the query text in order
+ */
+function maintenanceDb(answers: [string, unknown][] = []) {
+  return fakeDatabase(query => {
+    const answer = answers.find(([match]) => query.includes(match));
+    if (answer) return answer[1];
+    if (query.includes('sqlite_master')) return TABLES.map(name => ({ name }));
+    if (query.includes('pragma_page_count')) return [{ size: 4096 * 100, free: 4096 * 10 }];
+    if (query.includes('sqlite_version')) return [{ version: '3.45.0' }];
+    if (query.includes('COUNT(*)')) return [{ count: 3 }];
+    if (query.includes('pragma_integrity_check')) return [{ integrity_check: 'ok' }];
+    if (query.includes('MAX(version)')) return [{ version: 14 }];
+    if (query.startsWith('DELETE')) return { changes: 2 };
+    if (query === 'REINDEX' || query === 'VACUUM') return { changes: 0 };
+    return [];
+  });
+}
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('DatabaseMaintenanceService', () => {
+  test('reports a healthy database with its metrics', async () => {
+    const report = await new DatabaseMaintenanceService(maintenanceDb(), logger).checkHealth();
+
+    expect(report.status).toBe('healthy');
+    expect(report.issues).toEqual([]);
+    expect(report.schemaVersion).toBe(14);
+    expect(report.metrics).toEqual(expect.objectContaining({ size: 409600, freeBytes: 40960, version: '3.45.0' }));
+    expect(report.metrics.tables).toContainEqual({ name: 'expenses', rowCount: 3 });
+  });
+
+  test('reports a damaged database file as corrupt', async () => {
+    const db = maintenanceDb([['pragma_integrity_check', [{ integrity_check: 'row 5 missing from index idx_expenses_date' }]]]);
+
+    const report = await new DatabaseMaintenanceService(db, logger).checkHealth();
+
+    expect(report.status).toBe('corrupt');
+    expect(report.issues[0]).toEqual(expect.objectContaining({ check: 'integrity', repairable: false }));
+  });
+
+  test('finds foreign key violations, orphaned links, missing files and invalid records', async () => {
+    const db = maintenanceDb([
+      ['pragma_foreign_key_check', [{ table: 'expense_tags', rowid: 4, parent: 'tags' }]],
+      ['FROM expense_tags WHERE', [{ id: 4 }]],
+      ['SELECT id, uri FROM receipt_attachments', [{ id: 1, uri: 'file:///docs/a.jpg' }, { id: 2, uri: 'file:///docs/gone.pdf' }]],
+      ["FROM expenses WHERE typeof(amount)", [{ id: 8 }]],
+      ["FROM receipts WHERE (date IS NOT NULL", [{ id: 3 }]],
+    ]);
+
+    const report = await new DatabaseMaintenanceService(db, logger).checkHealth();
+
+    expect(report.status).toBe('warning');
+    expect(report.issues.map(issue => [issue.check, issue.table, issue.ids])).toEqual([
+      ['foreign_keys', 'expense_tags', [4]],
+      ['orphans', 'expense_tags', [4]],
+      ['missing_files', 'receipt_attachments', [2]],
+      ['invalid_records', 'expenses', [8]],
+      ['invalid_records', 'receipts', [3]],
+    ]);
+    expect(fs.getInfoAsync).toHaveBeenCalledTimes(2);
+    expect(report.issues[1].repairable).toBe(true);
+    expect(report.issues[3].repairable).toBe(false);
+  });
+
+  test('repair removes orphaned rows of existing tables, rebuilds indexes and deletes unused files', async () => {
+    const db = maintenanceDb();
+    const attachments = { cleanupOrphanedFiles: jest.fn(async () => 1) } as any;
+
+    const result = await new DatabaseMaintenanceService(db, logger, attachments).repair();
+
+    expect(db.transactions[0]).toHaveLength(2);
+    expect(db.transactions[0][0].query).toContain('DELETE FROM expense_tags WHERE NOT EXISTS');
+    expect(db.transactions[0][1].query).toContain('DELETE FROM receipt_attachments');
+    expect(db.calls.map(c => c.query)).toContain('REINDEX');
+    expect(result).toEqual({ orphansRemoved: 4, filesDeleted: 1 });
+  });
+
+  test('vacuum reports the space it gave back', async () => {
+    let size = 409600;
+    const db = fakeDatabase(query => {
+      if (query.includes('pragma_page_count')) return [{ size, free: 0 }];
+      if (query === 'VACUUM') size = 368640;
+      return [];
+    });
+
+    expect(await new DatabaseMaintenanceService(db, logger).vacuum()).toBe(40960);
+  });
+
+  test('formats a support report without record contents', async () => {
+    const db = maintenanceDb([["FROM expenses WHERE typeof(amount)", [{ id: 8 }]]]);
+    const text = formatHealthReport(await new DatabaseMaintenanceService(db, logger).checkHealth());
+
+    expect(text).toContain('Status: WARNING');
+    expect(text).toContain('Size: 400.0 KB (40.0 KB free)');
+    expect(text).toContain('invalid_records in expenses: 1 records have an invalid amount [ids 8]');
+  });
+});
@@ -0,0 +1,102 @@
+import Database from 'better-sqlite3';
+import { IDatabaseManager } from '@/database/interfaces/IDatabaseManager';
+import { SQLiteManager } from '@/database/core/SQLiteManager';
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { DatabaseMigrator } from '@/database/migrations/DatabaseMigrator';
+import { migrations } from '@/database/migrations/migrations';
+import { QueryError } from '@/database/errors/DatabaseErrors';
+
+// expo-sqlite over an in-memory better-sqlite3 database. Like the native module, the
+// prepared-statement calls run only the first statement of a script; execAsync runs all of it.
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(async () => {
+    const Database = require('better-sqlite3');
+    const db = new Database(':memory:');
+    const first = (sql: string) => db.prepare(sql.split(';')[0]);
+    return {
+      execAsync: async (sql: string) => { db.exec(sql); },
+      runAsync: async (sql: string, params: any[] = []) => {
+        const result = first(sql).run(...params);
+        return { changes: result.changes, lastInsertRowId: Number(result.lastInsertRowid) };
+      },
+      getAllAsync: async (sql: string, params: any[] = []) => first(sql).all(...params),
+      getFirstAsync: async (sql: string, params: any[] = []) => first(sql).get(...params) ?? null,
+      closeAsync: async () => db.close(),
+    };
+  }),
+}));
+
+jest.mock('expo-file-system', () => ({}));
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const SCHEMA = "SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' AND name != 'migrations' ORDER BY type, name;";
+
+const managers: [string, () => IDatabaseManager][] = [
+  ['SQLiteManager', () => new SQLiteManager('test.db', logger)],
+  ['NodeSQLiteManager', () => new NodeSQLiteManager(':memory:', logger)],
+];
+
+describe.each(managers)('%s scripts', (_name, create) => {
+  let db: IDatabaseManager;
+
+  beforeEach(async () => {
+    db = create();
+    await db.initialize();
+  });
+
+  afterEach(() => db.close());
+
+  test('runs every statement of each migration script', async () => {
+    const reference = new Database(':memory:');
+    migrations.forEach(m => reference.exec(m.up));
+
+    expect(await new DatabaseMigrator(db, logger, migrations).migrateUp()).toBe(migrations.length);
+
+    expect(await db.execute(SCHEMA)).toEqual(reference.prepare(SCHEMA).all());
+    reference.close();
+  });
+
+  test('dry-runs and rolls back every statement of each migration script', async () => {
+    const migrator = new DatabaseMigrator(db, logger, migrations);
+    const reference = new Database(':memory:');
+    migrations.forEach(m => reference.exec(m.up));
+
+    const report = await migrator.dryRun();
+    expect(report.schema.map(o => [o.type, o.name])).toEqual(reference.prepare(SCHEMA).raw().all());
+    expect(await db.execute(SCHEMA)).toEqual([]);
+
+    await migrator.migrateUp();
+    expect(await migrator.migrateDown(migrations.length)).toBe(migrations.length);
+    expect(await db.execute(SCHEMA)).toEqual([]);
+    reference.close();
+  });
+
+  test('runs scripts inside transactions and reports the last change', async () => {
+    const [script, insert] = await db.transaction([
+      { query: "CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT); INSERT INTO notes (body) VALUES ('a;b');" },
+      { query: 'INSERT INTO notes (body) VALUES (?);', params: ['c'] },
+    ]);
+
+    expect(script).toEqual({ changes: 1, lastInsertRowId: 1 });
+    expect(insert).toEqual({ changes: 1, lastInsertRowId: 2 });
+    expect(await db.execute('SELECT body FROM notes ORDER BY id;')).toEqual([{ body: 'a;b' }, { body: 'c' }]);
+  });
+
+  test('treats semicolons in strings and comments as part of one statement', async () => {
+    await db.execute('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);');
+
+    const result = await db.execute('INSERT INTO notes (body) VALUES (?) /* ; */; -- one statement; really', ['x']);
+
+    expect(result).toEqual({ changes: 1, lastInsertRowId: 1 });
+  });
+
+  test('rejects a script with parameters and runs none of it', async () => {
+    await db.execute('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);');
+
+    await expect(db.execute('INSERT INTO notes (body) VALUES (?); INSERT INTO notes (body) VALUES (?);', ['a', 'b']))
+      .rejects.toBeInstanceOf(QueryError);
+
+    expect(await db.execute('SELECT COUNT(*) AS count FROM notes;')).toEqual([{ count: 0 }]);
+  });
+});
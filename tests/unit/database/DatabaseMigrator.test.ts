@@ -0,0 +1,141 @@
+import { DatabaseMigrator } from '@/database/migrations/DatabaseMigrator';
+import { MigrationError } from '@/database/errors/DatabaseErrors';
+import { fakeDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const migrations = [
+  { version: 1, name: 'create_a', up: 'UP a', down: 'DOWN a' },
+  { version: 2, name: 'create_b', up: 'UP b', down: 'DOWN b' },
+];
+
+/**
+ * Fake database whose schema is a list of table names: "UP x" creates table x, "DOWN x" drops it.
+ * Savepoints snapshot and restore the schema. Scripts such as "UP x; UP y" run statement by statement.
+ */
+interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+  checksum: string;
+  schema_before: string;
+}
+
+function schemaDb() {
+  const state = {
+    schema: [] as string[],
+    applied: [] as AppliedMigration[],
+    statements: [] as string[],
+    savepoint: null as string[] | null,
+  };
+
+  const run = (query: string, params: any[]): unknown => {
+    const script = query.split(';').map(s => s.trim()).filter(Boolean);
+    if (script.length > 1) {
+      if (params.length > 0) throw new Error('Scripts of several statements cannot take parameters');
+      return script.map(statement => run(statement, [])).pop();
+    }
+    const sql = query.trim().replace(/\s+/g, ' ');
+    state.statements.push(sql);
+    let m: RegExpExecArray | null;
+
+    if ((m = /^UP (\w+)$/.exec(sql))) {
+      if (m[1] === 'broken') throw new Error('syntax error');
+      state.schema.push(m[1]);
+      return {};
+    }
+    if ((m = /^DOWN (\w+)$/.exec(sql))) {
+      if (m[1] !== 'leaky') state.schema = state.schema.filter(t => t !== m![1]);
+      return {};
+    }
+    if (sql.startsWith('SAVEPOINT')) state.savepoint = [...state.schema];
+    if (sql.startsWith('ROLLBACK TO')) state.schema = state.savepoint!;
+    if (sql.includes('sqlite_master')) {
+      return state.schema.map(name => ({ type: 'table', name, tableName: name, sql: `CREATE TABLE ${name}`, shape: 'id INTEGER 0  1' }));
+    }
+    if (sql.includes('pragma_table_info')) return ['id', 'version', 'name', 'applied_at', 'checksum', 'schema_before'].map(name => ({ name }));
+    if (sql.includes('MAX(version)')) return [{ version: Math.max(0, ...state.applied.map(a => a.version)) }];
+    if (sql.startsWith('SELECT version, name, applied_at, checksum')) return [...state.applied].sort((a, b) => a.version - b.version);
+    if (sql.startsWith('SELECT version, name, schema_before')) {
+      return [...state.applied].sort((a, b) => b.version - a.version).slice(0, params[0]);
+    }
+    if (sql.startsWith('INSERT INTO migrations')) {
+      const [version, name, applied_at, checksum, schema_before] = params;
+      state.applied.push({ version, name, applied_at, checksum, schema_before });
+    }
+    if (sql.startsWith('DELETE FROM migrations')) state.applied = state.applied.filter(a => a.version !== params[0]);
+    return { changes: 1 };
+  };
+
+  return Object.assign(fakeDatabase(run), { state });
+}
+
+describe('DatabaseMigrator', () => {
+  test('records a checksum per applied migration and reports status', async () => {
+    const db = schemaDb();
+    await new DatabaseMigrator(db, logger, migrations.slice(0, 1)).migrateUp();
+
+    const status = await new DatabaseMigrator(db, logger, migrations).status();
+
+    expect(db.state.applied[0].checksum).toMatch(/^[0-9a-f]{8}$/);
+    expect(status.currentVersion).toBe(1);
+    expect(status.latestVersion).toBe(2);
+    expect(status.applied.map(m => m.version)).toEqual([1]);
+    expect(status.pending.map(m => m.version)).toEqual([2]);
+    expect(status.drifted).toEqual([]);
+  });
+
+  test('detects edited migrations and refuses to migrate past them', async () => {
+    const db = schemaDb();
+    await new DatabaseMigrator(db, logger, migrations.slice(0, 1)).migrateUp();
+
+    const edited = [{ ...migrations[0], up: 'UP a_renamed' }, migrations[1]];
+    const migrator = new DatabaseMigrator(db, logger, edited);
+
+    expect((await migrator.status()).drifted.map(m => m.version)).toEqual([1]);
+    await expect(migrator.migrateUp()).rejects.toThrow(MigrationError);
+    expect(db.state.schema).toEqual(['a']);
+  });
+
+  test('dry run reports the resulting schema and leaves the database unchanged', async () => {
+    const db = schemaDb();
+    const migrator = new DatabaseMigrator(db, logger, [
+      ...migrations,
+      { version: 3, name: 'create_c_d', up: 'UP c; UP d;', down: 'DOWN d; DOWN c;' },
+      { version: 4, name: 'bad', up: 'UP broken', down: '' },
+    ]);
+
+    const report = await migrator.dryRun();
+
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: 3, applied: [1, 2, 3], failed: { version: 4, error: 'syntax error' } });
+    expect(report.schema.map(o => o.name)).toEqual(['a', 'b', 'c', 'd']);
+    expect(db.state.schema).toEqual([]);
+    expect(db.state.applied).toEqual([]);
+    expect(db.state.statements.slice(-2)).toEqual(['ROLLBACK TO migrate_dry_run;', 'RELEASE migrate_dry_run;']);
+  });
+
+  test('migrateDown keeps rollbacks that restore the previous schema', async () => {
+    const db = schemaDb();
+    const scripted = [migrations[0], { version: 2, name: 'create_b_c', up: 'UP b; UP c;', down: 'DOWN c; DOWN b;' }];
+    const migrator = new DatabaseMigrator(db, logger, scripted);
+    await migrator.migrateUp();
+    expect(db.state.schema).toEqual(['a', 'b', 'c']);
+
+    await expect(migrator.migrateDown()).resolves.toBe(1);
+
+    expect(db.state.schema).toEqual(['a']);
+    expect(db.state.applied.map(a => a.version)).toEqual([1]);
+  });
+
+  test('migrateDown undoes a down script that leaves objects behind', async () => {
+    const db = schemaDb();
+    const leaky = [migrations[0], { version: 2, name: 'create_leaky', up: 'UP leaky', down: 'DOWN leaky' }];
+    const migrator = new DatabaseMigrator(db, logger, leaky);
+    await migrator.migrateUp();
+
+    await expect(migrator.migrateDown()).rejects.toThrow('did not restore the previous schema');
+
+    expect(db.state.schema).toEqual(['a', 'leaky']);
+    expect(db.state.applied.map(a => a.version)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,129 @@
+import { FxRateRepository } from '@/database/repositories/FxRateRepository';
+import { FxRateCsvImporter, parseFxRateCsv } from '@/database/importers/FxRateCsvImporter';
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { DatabaseError, FxRateNotFoundError } from '@/database/errors/DatabaseErrors';
+import { formatCurrency, parseCurrency } from '@/utils/currency';
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { openTestDatabase } from '../../helpers/database';
+
+jest.mock('expo-file-system', () => ({
+  readAsStringAsync: jest.fn(async () => 'currency,date,rate\nUSD,2025-03-01,18.40\n'),
+}));
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+let db: NodeSQLiteManager;
+
+beforeEach(async () => {
+  db = await openTestDatabase(logger);
+});
+
+afterEach(() => db.close());
+
+const storedExpenses = () =>
+  db.execute<Record<string, any>[]>('SELECT amount, currency, originalAmount, fxRate FROM expenses ORDER BY id');
+
+const expense = {
+  amount: 20, category: 'Food', merchant: 'Choppies', description: '', date: '2025-03-02T10:00:00.000Z',
+  isRecurring: false, userId: 'u1', createdAt: '', updatedAt: '', syncStatus: 'pending' as const,
+};
+
+describe('exchange rate CSV import', () => {
+  test('parses rows in any column order and reports the rows it skips', () => {
+    const { rates, skipped } = parseFxRateCsv(
+      '﻿Rate,Currency,Date,Note\r\n' +
+      '2.71,bwp,2025-03-01,"Pula, cash"\r\n' +
+      '18.40,USD,2025-03-01,\r\n' +
+      '\r\n' +
+      '1,ZAR,2025-03-01,\r\n' +
+      '-3,EUR,2025-03-01,\r\n' +
+      '18.55,USD,2025-03-01,corrected\r\n'
+    );
+
+    expect(rates).toEqual([
+      { currency: 'BWP', date: '2025-03-01', rate: 2.71 },
+      { currency: 'USD', date: '2025-03-01', rate: 18.55 },
+    ]);
+    expect(skipped.map(s => s.line)).toEqual([5, 6]);
+  });
+
+  test('rejects files without the required columns', () => {
+    expect(() => parseFxRateCsv('code,day,value\nUSD,2025-03-01,18.4')).toThrow('missing columns: currency, date, rate');
+  });
+
+  test('stores imported rates with the file name as source', async () => {
+    const importer = new FxRateCsvImporter(new FxRateRepository(db, logger), logger);
+
+    const result = await importer.importFile('file:///docs/rates-march.csv');
+
+    expect(result).toEqual({ imported: 1, skipped: [] });
+    expect(await db.execute('SELECT currency, rate, source FROM fx_rates'))
+      .toEqual([{ currency: 'USD', rate: 18.4, source: 'rates-march.csv' }]);
+  });
+});
+
+describe('FxRateRepository', () => {
+  test('converts at the latest rate on or before the day', async () => {
+    const rates = new FxRateRepository(db, logger);
+    await rates.save([
+      { currency: 'USD', date: '2025-03-01', rate: 18.4, source: 'test' },
+      { currency: 'USD', date: '2025-03-05', rate: 18.9, source: 'test' },
+    ]);
+
+    await expect(rates.convert(20, 'usd', '2025-03-04T12:00:00.000Z')).resolves.toEqual({ amount: 368, rate: 18.4 });
+    await expect(rates.convert(20, 'ZAR', '2025-03-04')).resolves.toEqual({ amount: 20, rate: 1 });
+    await expect(rates.convert(20, 'USD', '2025-02-28')).rejects.toThrow(FxRateNotFoundError);
+  });
+
+  test('rejects invalid rates', async () => {
+    const rates = new FxRateRepository(db, logger);
+
+    await expect(rates.save([{ currency: 'ZAR', date: '2025-03-01', rate: 1, source: 'test' }])).rejects.toThrow(DatabaseError);
+    await expect(rates.save([{ currency: 'USD', date: '1 March', rate: 18, source: 'test' }])).rejects.toThrow('Invalid date');
+  });
+});
+
+describe('ExpenseRepository currencies', () => {
+  test('stores foreign spend with its original amount and the ZAR conversion', async () => {
+    const rates = new FxRateRepository(db, logger);
+    await rates.save([{ currency: 'USD', date: '2025-03-01', rate: 18.4, source: 'test' }]);
+    const repo = new ExpenseRepository(db, logger, undefined, undefined, rates);
+
+    await repo.create({ ...expense, currency: 'usd' });
+
+    expect(await storedExpenses()).toEqual([{ amount: 368, currency: 'USD', originalAmount: 20, fxRate: 18.4 }]);
+  });
+
+  test('ZAR expenses keep their amount and need no rates', async () => {
+    await new ExpenseRepository(db, logger).create({ ...expense, amount: 55 });
+
+    expect(await storedExpenses()).toEqual([{ amount: 55, currency: 'ZAR', originalAmount: 55, fxRate: 1 }]);
+  });
+
+  test('fails when foreign spend has no rate', async () => {
+    const repo = new ExpenseRepository(db, logger);
+    await expect(repo.create({ ...expense, currency: 'EUR' })).rejects.toThrow(FxRateNotFoundError);
+  });
+
+  test('reconverts when the original amount changes', async () => {
+    const rates = new FxRateRepository(db, logger);
+    await rates.save([{ currency: 'USD', date: '2025-03-01', rate: 18.4, source: 'test' }]);
+    const repo = new ExpenseRepository(db, logger, undefined, undefined, rates);
+    const id = await repo.create({ ...expense, currency: 'USD' });
+
+    await new ExpenseRepository(db, logger).update(id, { amount: 30 });
+
+    expect(await storedExpenses()).toEqual([{ amount: 552, currency: 'USD', originalAmount: 30, fxRate: 18.4 }]);
+  });
+});
+
+describe('currency formatting', () => {
+  test('formats amounts in their own currency and parses them back', () => {
+    expect(formatCurrency(1234.5, { currency: 'USD' })).toBe('$1,234.50');
+    expect(formatCurrency(-20, { currency: 'bwp' })).toBe('-P20.00');
+    expect(formatCurrency(1500000, { currency: 'NAD', compact: true })).toBe('N$1.5M');
+    expect(formatCurrency(10, { currency: 'XOF' })).toBe('XOF 10.00');
+    expect(['$1,234.56', 'R1 234,56', 'N$ 12,50', '€1.234,56'].map(value => parseCurrency(value)))
+      .toEqual([1234.56, 1234.56, 12.5, 1234.56]);
+  });
+});
@@ -0,0 +1,176 @@
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { DatabaseMigrator } from '@/database/migrations/DatabaseMigrator';
+import { migrations } from '@/database/migrations/migrations';
+import { LegacyDataImporter, LEGACY_CONTEXT_SOURCE, LEGACY_DATABASE_NAME, LEGACY_MODULES_COURSE_ID } from '@/database/migrations/LegacyDataImporter';
+import { EducationRepository } from '@/database/repositories/EducationRepository';
+import { DatabaseError } from '@/database/errors/DatabaseErrors';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+// Tables as the old DatabaseContext created them in bluebot.db
+const CONTEXT_SCHEMA = `
+  CREATE TABLE expenses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, amount REAL NOT NULL, category TEXT NOT NULL, merchant TEXT NOT NULL,
+    description TEXT, date TEXT NOT NULL, receiptUrl TEXT, isRecurring INTEGER DEFAULT 0, createdAt TEXT NOT NULL
+  );
+  CREATE TABLE receipts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, imageUri TEXT NOT NULL, merchantName TEXT NOT NULL, amount REAL NOT NULL,
+    date TEXT NOT NULL, items TEXT, category TEXT NOT NULL, processed INTEGER DEFAULT 0, ocrConfidence REAL DEFAULT 0,
+    createdAt TEXT NOT NULL
+  );
+  CREATE INDEX idx_expenses_category ON expenses(category);
+`;
+
+// Tables of bluebotFinance.db as the old SQLiteManager and EnhancedDatabaseContext created them
+const LEGACY_SCHEMA = `
+  CREATE TABLE expenses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, firebaseId TEXT UNIQUE, amount REAL NOT NULL, category TEXT NOT NULL,
+    merchant TEXT NOT NULL, description TEXT, date TEXT NOT NULL, receiptUrl TEXT, isRecurring INTEGER DEFAULT 0,
+    userId TEXT NOT NULL, createdAt TEXT NOT NULL, updatedAt TEXT NOT NULL, syncStatus TEXT DEFAULT 'pending', deletedAt TEXT
+  );
+  CREATE TABLE financial_goals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, firebaseId TEXT UNIQUE, title TEXT NOT NULL, description TEXT,
+    targetAmount REAL NOT NULL, currentAmount REAL DEFAULT 0, deadline TEXT NOT NULL, category TEXT NOT NULL,
+    userId TEXT NOT NULL, isActive INTEGER DEFAULT 1, createdAt TEXT NOT NULL, updatedAt TEXT NOT NULL, syncStatus TEXT DEFAULT 'pending'
+  );
+  CREATE TABLE user_achievements (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, userId TEXT NOT NULL, achievementId TEXT NOT NULL, unlockedAt TEXT NOT NULL,
+    UNIQUE(userId, achievementId)
+  );
+  CREATE TABLE crypto_wallets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, userId TEXT NOT NULL UNIQUE, encryptedPrivateKey TEXT NOT NULL,
+    publicKey TEXT NOT NULL, address TEXT NOT NULL, network TEXT NOT NULL DEFAULT 'ethereum',
+    createdAt TEXT NOT NULL, updatedAt TEXT NOT NULL
+  );
+  CREATE TABLE education_progress (
+    userId TEXT PRIMARY KEY, totalXP INTEGER DEFAULT 0, level INTEGER DEFAULT 1, completedModules TEXT,
+    achievements TEXT, lastCompletedTimestamp TEXT, updatedAt TEXT NOT NULL, syncStatus TEXT DEFAULT 'pending'
+  );
+`;
+
+const T = '2025-02-01T10:00:00.000Z';
+
+describe('LegacyDataImporter', () => {
+  let db: NodeSQLiteManager;
+  let legacy: NodeSQLiteManager;
+
+  beforeEach(async () => {
+    db = new NodeSQLiteManager(':memory:', logger);
+    legacy = new NodeSQLiteManager(':memory:', logger);
+    await db.initialize();
+    await legacy.initialize();
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await legacy.close();
+  });
+
+  const migrate = () => new DatabaseMigrator(db, logger, migrations).migrateUp();
+
+  test('moves DatabaseContext tables out of the way of the migrations and imports them', async () => {
+    await db.execute(CONTEXT_SCHEMA);
+    await db.execute("INSERT INTO expenses (amount, category, merchant, description, date, isRecurring, createdAt) VALUES (234.5, 'Groceries', 'Checkers', 'Weekly shop', '2025-01-20', 0, ?)", [T]);
+    await db.execute("INSERT INTO expenses (amount, category, merchant, date, isRecurring, createdAt) VALUES (125, 'Entertainment', 'Netflix', '2025-01-19', 1, ?)", [T]);
+    await db.execute("INSERT INTO receipts (imageUri, merchantName, amount, date, category, createdAt) VALUES ('file:///r1.jpg', 'Checkers', 234.5, '2025-01-20', 'Groceries', ?)", [T]);
+
+    const importer = new LegacyDataImporter(db, logger);
+    expect(await importer.stageUnmigratedTables()).toEqual(['legacy_context_expenses', 'legacy_context_receipts']);
+    await migrate();
+    const report = await importer.importStagedTables();
+
+    expect(report!.tables.map(t => [t.target, t.rows, t.imported])).toEqual([['expenses', 2, 2], ['receipts', 1, 1]]);
+    expect(await db.execute('SELECT merchant, userId, createdAt, updatedAt, syncStatus, firebaseId, isRecurring FROM expenses ORDER BY id')).toEqual([
+      { merchant: 'Checkers', userId: 'demo', createdAt: T, updatedAt: T, syncStatus: 'pending', firebaseId: null, isRecurring: 0 },
+      { merchant: 'Netflix', userId: 'demo', createdAt: T, updatedAt: T, syncStatus: 'pending', firebaseId: null, isRecurring: 1 },
+    ]);
+    expect(await db.execute("SELECT name FROM sqlite_master WHERE name LIKE 'legacy_context_%'")).toEqual([]);
+    expect(await db.execute("SELECT tbl_name FROM sqlite_master WHERE name = 'idx_expenses_category'")).toEqual([{ tbl_name: 'expenses' }]);
+    expect(await importer.hasImported(LEGACY_CONTEXT_SOURCE)).toBe(true);
+    expect(await importer.stageUnmigratedTables()).toEqual([]);
+  });
+
+  test('imports a legacy database once, next to existing data, converting education progress', async () => {
+    await migrate();
+    await db.execute("INSERT INTO user_achievements (userId, achievementId, unlockedAt) VALUES ('u1', 'first_budget', ?)", [T]);
+    await db.execute("INSERT INTO expenses (amount, category, merchant, date, userId, createdAt, updatedAt) VALUES (50, 'Transport', 'Uber', '2025-02-01', 'u1', ?, ?)", [T, T]);
+
+    await legacy.execute(LEGACY_SCHEMA);
+    await legacy.execute("INSERT INTO expenses (firebaseId, amount, category, merchant, date, userId, createdAt, updatedAt, syncStatus) VALUES ('fb1', 320, 'Utilities', 'Eskom', '2025-01-18', 'u1', ?, ?, 'synced')", [T, T]);
+    await legacy.execute("INSERT INTO expenses (amount, category, merchant, date, userId, createdAt, updatedAt, deletedAt) VALUES (45.8, 'Groceries', 'Woolworths', '2025-01-19', 'u1', ?, ?, ?)", [T, T, T]);
+    await legacy.execute("INSERT INTO financial_goals (title, targetAmount, deadline, category, userId, createdAt, updatedAt) VALUES ('Emergency fund', 10000, '2025-12-31', 'Savings', 'u1', ?, ?)", [T, T]);
+    await legacy.execute("INSERT INTO user_achievements (userId, achievementId, unlockedAt) VALUES ('u1', 'first_budget', ?)", [T]);
+    await legacy.execute("INSERT INTO crypto_wallets (userId, encryptedPrivateKey, publicKey, address, createdAt, updatedAt) VALUES ('u1', 'enc', 'pub', '0xabc', ?, ?)", [T, T]);
+    await legacy.execute("INSERT INTO education_progress (userId, totalXP, completedModules, achievements, lastCompletedTimestamp, updatedAt) VALUES ('u1', 250, '[\"budgeting\",\"saving\",\"budgeting\"]', '[\"first_budget\",\"saver\"]', ?, ?)", [T, T]);
+
+    const importer = new LegacyDataImporter(db, logger);
+    const report = await importer.importDatabase(legacy);
+
+    expect(report!.tables.map(t => `${t.source}->${t.target}: ${t.imported}/${t.rows}`)).toEqual([
+      'expenses->expenses: 2/2',
+      'financial_goals->financial_goals: 1/1',
+      'user_achievements->user_achievements: 0/1',
+      'crypto_wallets->crypto_wallets: 1/1',
+      'education_progress->educational_progress: 2/2',
+      'education_progress->user_achievements: 1/2',
+    ]);
+    expect(await db.execute('SELECT id, merchant, firebaseId, syncStatus, deletedAt FROM expenses ORDER BY id')).toEqual([
+      { id: 1, merchant: 'Uber', firebaseId: null, syncStatus: 'pending', deletedAt: null },
+      { id: 2, merchant: 'Eskom', firebaseId: null, syncStatus: 'pending', deletedAt: null },
+      { id: 3, merchant: 'Woolworths', firebaseId: null, syncStatus: 'pending', deletedAt: T },
+    ]);
+
+    const education = new EducationRepository(db, logger);
+    const lessons = await education.getProgress('u1', LEGACY_MODULES_COURSE_ID);
+    expect(lessons.map(l => l.lessonId).sort()).toEqual(['budgeting', 'saving']);
+    expect(lessons.reduce((sum, l) => sum + l.score, 0)).toBe(250);
+    expect((await education.getAchievements('u1')).map(a => a.achievementId)).toEqual(['first_budget', 'saver']);
+
+    expect(await importer.importDatabase(legacy)).toBeNull();
+    expect(await db.execute('SELECT COUNT(*) AS count FROM expenses')).toEqual([{ count: 3 }]);
+    expect(await db.execute('SELECT source, rowCounts FROM legacy_imports')).toEqual([{
+      source: LEGACY_DATABASE_NAME,
+      rowCounts: JSON.stringify({ expenses: 2, financial_goals: 1, user_achievements: 1, crypto_wallets: 1, educational_progress: 2 }),
+    }]);
+  });
+
+  test('rolls the whole import back when a row cannot be copied', async () => {
+    await migrate();
+    await legacy.execute(LEGACY_SCHEMA);
+    await legacy.execute("INSERT INTO financial_goals (title, targetAmount, deadline, category, userId, createdAt, updatedAt) VALUES ('Car', 50000, '2026-06-30', 'Savings', 'u1', ?, ?)", [T, T]);
+    // Transactions of this copy lack a description, which the migrated schema requires
+    await legacy.execute("CREATE TABLE transactions (id INTEGER PRIMARY KEY, type TEXT, amount REAL, category TEXT, date TEXT, userId TEXT, createdAt TEXT, updatedAt TEXT)");
+    await legacy.execute("INSERT INTO transactions (type, amount, category, date, userId, createdAt, updatedAt) VALUES ('income', 9000, 'Salary', '2025-01-25', 'u1', ?, ?)", [T, T]);
+
+    const importer = new LegacyDataImporter(db, logger);
+    await expect(importer.importDatabase(legacy)).rejects.toMatchObject({ name: 'LegacyImportError', table: 'transactions' });
+
+    expect(await db.execute('SELECT COUNT(*) AS count FROM financial_goals')).toEqual([{ count: 0 }]);
+    expect(await importer.hasImported(LEGACY_DATABASE_NAME)).toBe(false);
+  });
+});
+
+describe('EducationRepository', () => {
+  let db: NodeSQLiteManager;
+
+  beforeEach(async () => {
+    db = new NodeSQLiteManager(':memory:', logger);
+    await db.initialize();
+    await new DatabaseMigrator(db, logger, migrations).migrateUp();
+  });
+
+  afterEach(() => db.close());
+
+  test('keeps the best score of a lesson and unlocks an achievement once', async () => {
+    const education = new EducationRepository(db, logger);
+
+    await education.completeLesson('u1', 'budgeting-101', 'l1', 80);
+    const again = await education.completeLesson('u1', 'budgeting-101', 'l1', 40);
+    expect(again).toMatchObject({ completed: true, score: 80 });
+    await expect(education.completeLesson('u1', 'budgeting-101', 'l2', -5)).rejects.toBeInstanceOf(DatabaseError);
+
+    expect(await education.unlockAchievement('u1', 'scholar')).toBe(true);
+    expect(await education.unlockAchievement('u1', 'scholar')).toBe(false);
+    expect(await education.getAchievements('u1')).toHaveLength(1);
+  });
+});
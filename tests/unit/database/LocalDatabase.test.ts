@@ -0,0 +1,116 @@
+import type { SQLiteManager } from '@/database/core/SQLiteManager';
+
+// Simulated database files: the key each file is encrypted with (null = plaintext)
+const files: Record<string, { key: string | null }> = {};
+const statements: string[] = [];
+const secureStore: Record<string, string> = {};
+
+const keyOf = (sql: string) => /x'([0-9a-f]+)'/i.exec(sql)?.[1] ?? null;
+
+jest.mock('expo-sqlite', () => ({
+  defaultDatabaseDirectory: '/data/SQLite',
+  openDatabaseAsync: jest.fn(async (name: string) => {
+    const conn = { key: null as string | null };
+    const check = () => {
+      const file = files[name];
+      if (file && file.key !== conn.key) throw new Error('file is not a database');
+    };
+    return {
+      execAsync: async (sql: string) => {
+        statements.push(sql.trim());
+        if (sql.includes('PRAGMA key')) conn.key = keyOf(sql);
+        else if (!files[name]) files[name] = { key: conn.key };
+      },
+      runAsync: async (sql: string, params: any[]) => {
+        statements.push(sql.trim());
+        if (sql.startsWith('ATTACH')) files[params[0].split('/').pop()] = { key: keyOf(sql) };
+      },
+      getFirstAsync: async (sql: string) => {
+        if (sql.includes('cipher_version')) return { cipher_version: '4.6.1' };
+        if (sql.includes('user_version')) return { user_version: 15 };
+        check();
+        return { count: 12 };
+      },
+      closeAsync: async () => {},
+    };
+  }),
+}));
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: null,
+  deleteAsync: jest.fn(async () => {}),
+  moveAsync: jest.fn(async ({ from, to }: { from: string; to: string }) => {
+    files[to.split('/').pop()!] = files[from.split('/').pop()!];
+  }),
+}));
+
+jest.mock('expo-secure-store', () => ({
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+  getItemAsync: jest.fn(async (name: string) => secureStore[name] ?? null),
+  setItemAsync: jest.fn(async (name: string, value: string) => { secureStore[name] = value; }),
+  deleteItemAsync: jest.fn(async (name: string) => { delete secureStore[name]; }),
+}));
+
+jest.mock('react-native-get-random-values', () => ({}));
+
+// Schema work is covered by the migrator and importer tests; here only the connection matters
+jest.mock('@/database/migrations/DatabaseMigrator', () => ({
+  DatabaseMigrator: jest.fn().mockImplementation(() => ({ migrateUp: jest.fn(async () => {}) })),
+}));
+
+jest.mock('@/database/migrations/LegacyDataImporter', () => ({
+  LEGACY_DATABASE_NAME: 'bluebotFinance.db',
+  LegacyDataImporter: jest.fn().mockImplementation(() => ({
+    stageUnmigratedTables: jest.fn(async () => {}),
+    importStagedTables: jest.fn(async () => {}),
+  })),
+}));
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const KEY = 'c'.repeat(64);
+
+// A fresh module each time, since every caller of openLocalDatabase shares one connection
+function open(): Promise<SQLiteManager> {
+  let opened!: Promise<SQLiteManager>;
+  jest.isolateModules(() => {
+    opened = require('@/database/core/LocalDatabase').openLocalDatabase(logger);
+  });
+  return opened;
+}
+
+describe('openLocalDatabase', () => {
+  beforeEach(() => {
+    for (const record of [files, secureStore]) Object.keys(record).forEach(k => delete record[k]);
+    statements.length = 0;
+  });
+
+  test('creates a key on first run and opens the database encrypted with it', async () => {
+    const db = await open();
+
+    const key = secureStore['bluebot_db_key'];
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(statements[0]).toBe(`PRAGMA key = "x'${key}'";`);
+    expect(files['bluebot.db']).toEqual({ key });
+    await expect(db.isEncrypted()).resolves.toBe(true);
+  });
+
+  test('encrypts the plaintext database of an existing install', async () => {
+    files['bluebot.db'] = { key: null };
+    secureStore['bluebot_db_key'] = KEY;
+
+    await open();
+
+    expect(statements).toContain(`ATTACH DATABASE ? AS encrypted KEY "x'${KEY}'";`);
+    expect(files['bluebot.db']).toEqual({ key: KEY });
+  });
+
+  test('reopens an encrypted install with the stored key', async () => {
+    files['bluebot.db'] = { key: KEY };
+    secureStore['bluebot_db_key'] = KEY;
+
+    await open();
+
+    expect(statements.some(s => s.startsWith('ATTACH'))).toBe(false);
+    expect(files['bluebot.db']).toEqual({ key: KEY });
+  });
+});
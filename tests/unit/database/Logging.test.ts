@@ -0,0 +1,135 @@
+import { StructuredLogger } from '@/database/logging/StructuredLogger';
+import { RingBufferSink } from '@/database/logging/RingBufferSink';
+import { RotatingFileSink } from '@/database/logging/RotatingFileSink';
+import { RemoteLogSink } from '@/database/logging/RemoteLogSink';
+import { LocalLogTransport } from '@/database/logging/LocalLogTransport';
+import { redactText, redactValue } from '@/database/logging/LogRedactor';
+import { LogLevel } from '@/database/logging/ConsoleLogger';
+import { LogEntry } from '@/database/interfaces/ILogSink';
+
+const files = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  makeDirectoryAsync: jest.fn(async () => {}),
+  getInfoAsync: jest.fn(async (uri: string) => files.has(uri)
+    ? { exists: true, isDirectory: false, size: files.get(uri)!.length }
+    : { exists: false }),
+  readAsStringAsync: jest.fn(async (uri: string) => files.get(uri) ?? ''),
+  writeAsStringAsync: jest.fn(async (uri: string, content: string) => { files.set(uri, content); }),
+  moveAsync: jest.fn(async ({ from, to }: { from: string; to: string }) => {
+    files.set(to, files.get(from)!);
+    files.delete(from);
+  }),
+  deleteAsync: jest.fn(async (uri: string) => { files.delete(uri); }),
+}));
+
+const entry = (message: string, level: LogLevel = LogLevel.INFO): LogEntry => ({
+  timestamp: '2025-03-10T08:00:00.000Z', level, module: 'Test', message,
+});
+
+describe('Log redaction', () => {
+  test('removes emails, ID numbers, account numbers and amounts from text', () => {
+    expect(redactText('Sent statement to thabo.m@example.co.za')).toBe('Sent statement to [EMAIL]');
+    expect(redactText('Verified ID 8001015009087')).toBe('Verified ID [ID_NUMBER]');
+    expect(redactText('Linked account 62112345678 and card 4111 1111 1111 1111')).toBe('Linked account [ACCOUNT_NUMBER] and card [ACCOUNT_NUMBER]');
+    expect(redactText('Paid R1 250.50 and USD 12 (4.99 EUR)')).toBe('Paid [AMOUNT] and [AMOUNT] ([AMOUNT])');
+    expect(redactText('Expense created with ID: 42 on 2025-03-10T08:00:00.000Z')).toBe('Expense created with ID: 42 on 2025-03-10T08:00:00.000Z');
+  });
+
+  test('replaces sensitive fields whole and leaves the input untouched', () => {
+    const fields = { id: 7, amount: 350, updates: { currentAmount: 900, note: 'from a@b.io' }, accountNumber: '123', token: 'abc', isActive: true };
+
+    expect(redactValue(fields)).toEqual({
+      id: 7,
+      amount: '[AMOUNT]',
+      updates: { currentAmount: '[AMOUNT]', note: 'from [EMAIL]' },
+      accountNumber: '[ACCOUNT_NUMBER]',
+      token: '[REDACTED]',
+      isActive: true,
+    });
+    expect(fields.amount).toBe(350);
+  });
+});
+
+describe('StructuredLogger', () => {
+  test('writes redacted structured entries to every sink', () => {
+    const buffer = new RingBufferSink();
+    const failing = { write: jest.fn(() => { throw new Error('disk full'); }) };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const logger = new StructuredLogger({ module: 'Budgets', sinks: [failing, buffer] });
+
+    logger.error('Budget of R3500 failed for jo@example.com', new Error('limit R3500 too high'), { amount: 3500, period: 'monthly' });
+
+    expect(buffer.getEntries()).toEqual([{
+      timestamp: expect.any(String),
+      level: LogLevel.ERROR,
+      module: 'Budgets',
+      message: 'Budget of [AMOUNT] failed for [EMAIL]',
+      fields: { amount: '[AMOUNT]', period: 'monthly' },
+      error: { name: 'Error', message: 'limit [AMOUNT] too high', stack: expect.any(String) },
+    }]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('applies per-module levels to child loggers, matching dotted prefixes', () => {
+    const buffer = new RingBufferSink();
+    const root = new StructuredLogger({ sinks: [buffer], levels: { default: LogLevel.WARN, modules: { Sync: LogLevel.DEBUG } } });
+
+    root.child('Sync.Engine').debug('queued');
+    root.child('Budgets').info('loaded');
+    root.setLevel(LogLevel.INFO, 'Budgets');
+    root.child('Budgets').info('reloaded');
+
+    expect(buffer.getEntries().map(e => `${e.module}: ${e.message}`)).toEqual(['Sync.Engine: queued', 'Budgets: reloaded']);
+    expect(root.getLevel('Syncing')).toBe(LogLevel.WARN);
+  });
+});
+
+describe('Log sinks', () => {
+  beforeEach(() => files.clear());
+
+  test('ring buffer keeps only the most recent entries', () => {
+    const buffer = new RingBufferSink(2);
+    ['one', 'two', 'three'].forEach(message => buffer.write(entry(message)));
+    buffer.write(entry('four', LogLevel.ERROR));
+
+    expect(buffer.getEntries().map(e => e.message)).toEqual(['three', 'four']);
+    expect(buffer.toText(LogLevel.WARN)).toBe(JSON.stringify(entry('four', LogLevel.ERROR)));
+  });
+
+  test('file sink appends JSON lines and rotates full files', async () => {
+    const sink = new RotatingFileSink({ maxBytes: 250, maxFiles: 2 });
+
+    for (let i = 0; i < 6; i++) {
+      sink.write(entry(`entry ${i}`));
+      await sink.flush();
+    }
+
+    expect(Array.from(files.keys()).sort()).toEqual(['file:///docs/logs/app.1.log', 'file:///docs/logs/app.log']);
+    const lines = (await sink.read()).trim().split('\n').map(line => JSON.parse(line).message);
+    expect(lines[lines.length - 1]).toBe('entry 5');
+    expect(lines).not.toContain('entry 0');
+    for (const content of files.values()) expect(content.length).toBeLessThanOrEqual(250);
+  });
+
+  test('remote sink sends warnings in batches and keeps them while the transport fails', async () => {
+    const transport = new LocalLogTransport();
+    const send = jest.spyOn(transport, 'send').mockRejectedValueOnce(new Error('offline'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const sink = new RemoteLogSink(transport, { batchSize: 10 });
+
+    sink.write(entry('debug noise', LogLevel.DEBUG));
+    sink.write(entry('first', LogLevel.WARN));
+    sink.write(entry('second', LogLevel.ERROR));
+    await sink.flush();
+    expect(sink.pendingCount()).toBe(2);
+
+    await sink.flush();
+    expect(transport.getReceived().map(e => e.message)).toEqual(['first', 'second']);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(sink.pendingCount()).toBe(0);
+    warn.mockRestore();
+  });
+});
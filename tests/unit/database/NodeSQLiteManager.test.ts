@@ -0,0 +1,82 @@
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { DatabaseMigrator } from '@/database/migrations/DatabaseMigrator';
+import { migrations } from '@/database/migrations/migrations';
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { SplitRepository } from '@/database/repositories/SplitRepository';
+import { DatabaseMaintenanceService } from '@/database/maintenance/DatabaseMaintenanceService';
+import { ConnectionError, QueryError, TransactionError } from '@/database/errors/DatabaseErrors';
+import { ExpenseRecord } from '@/database/models/Records';
+
+jest.mock('expo-file-system', () => ({
+  getInfoAsync: jest.fn(async () => ({ exists: true })),
+}));
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const expense = (overrides: Partial<ExpenseRecord> = {}): Omit<ExpenseRecord, 'id'> => ({
+  userId: 'u1', amount: 900, category: 'Shopping', merchant: 'Checkers', description: '',
+  date: new Date().toISOString().slice(0, 10), isRecurring: false,
+  createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(), syncStatus: 'pending',
+  ...overrides,
+});
+
+describe('NodeSQLiteManager', () => {
+  let db: NodeSQLiteManager;
+
+  beforeEach(async () => {
+    db = new NodeSQLiteManager(':memory:', logger);
+    await db.initialize();
+  });
+
+  afterEach(() => db.close());
+
+  test('returns rows for SELECT and the change count otherwise, like SQLiteManager', async () => {
+    await db.execute('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT, done INTEGER)');
+
+    expect(await db.execute('INSERT INTO notes (body, done) VALUES (?, ?)', ['a', true])).toEqual({ changes: 1, lastInsertRowId: 1 });
+    expect(await db.execute('SELECT * FROM notes WHERE body IS NOT ?', [undefined])).toEqual([{ id: 1, body: 'a', done: 1 }]);
+    await expect(db.execute('SELECT * FROM missing')).rejects.toBeInstanceOf(QueryError);
+  });
+
+  test('rolls a failed transaction back', async () => {
+    await db.execute('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)');
+
+    await expect(db.transaction([
+      { query: 'INSERT INTO notes (body) VALUES (?)', params: ['kept?'] },
+      { query: 'INSERT INTO notes (body) VALUES (NULL)' },
+    ])).rejects.toBeInstanceOf(TransactionError);
+
+    expect(await db.execute('SELECT COUNT(*) AS count FROM notes')).toEqual([{ count: 0 }]);
+  });
+
+  test('refuses queries before it is initialized', async () => {
+    await expect(new NodeSQLiteManager(':memory:', logger).execute('SELECT 1')).rejects.toBeInstanceOf(ConnectionError);
+  });
+
+  test('applies every migration and rolls each one back to the schema before it', async () => {
+    const migrator = new DatabaseMigrator(db, logger, migrations);
+
+    expect(await migrator.migrateUp()).toBe(migrations.length);
+    expect((await migrator.status()).currentVersion).toBe(migrations[migrations.length - 1].version);
+
+    expect(await migrator.migrateDown(migrations.length)).toBe(migrations.length);
+    expect((await migrator.status()).currentVersion).toBe(0);
+  });
+
+  test('runs repositories and triggers against the real schema', async () => {
+    await new DatabaseMigrator(db, logger, migrations).migrateUp();
+    const expenses = new ExpenseRepository(db, logger);
+    const splits = new SplitRepository(db, logger);
+
+    const id = await expenses.create(expense());
+    await splits.setSplits('expense', id, [{ category: 'Groceries', amount: 600 }, { category: 'Household', amount: 300 }]);
+    await expenses.update(id, { amount: 450 });
+
+    expect((await splits.getSplits('expense', id)).map(s => [s.category, s.amount])).toEqual([['Groceries', 300], ['Household', 150]]);
+    const stats = await expenses.getStatistics('u1');
+    expect(stats.byCategory.map(c => c.category).sort()).toEqual(['Groceries', 'Household']);
+
+    const report = await new DatabaseMaintenanceService(db, logger).checkHealth();
+    expect(report.status).toBe('healthy');
+  });
+});
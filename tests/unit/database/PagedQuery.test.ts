@@ -0,0 +1,80 @@
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { decodeCursor, encodeCursor } from '@/database/query/PagedQuery';
+import { QueryError } from '@/database/errors/DatabaseErrors';
+import { fakeDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+// Counts are the number of rows; pages are the first LIMIT rows
+const pagedDb = (rows: Record<string, unknown>[]) => fakeDatabase((query, params) =>
+  query.includes('COUNT(*)') ? [{ count: rows.length }] : rows.slice(0, params[params.length - 1]));
+
+const expenseRow = (id: number, date: string) => ({
+  id, amount: 10, category: 'Food', merchant: 'Spar', date, isRecurring: 0,
+  userId: 'u1', createdAt: date, updatedAt: date, syncStatus: 'pending',
+});
+
+describe('paged queries', () => {
+  test('builds typed filters and returns a cursor when more rows exist', async () => {
+    const db = pagedDb([expenseRow(3, '2025-03-01'), expenseRow(2, '2025-02-01'), expenseRow(1, '2025-01-01')]);
+    const repo = new ExpenseRepository(db, logger);
+
+    const page = await repo.query({
+      filter: { userId: 'u1', amount: { gte: 5, lt: 100 }, category: { in: ['Food', 'Transport'] }, isRecurring: false },
+      limit: 2,
+    });
+
+    const { query, params } = db.calls[0];
+    expect(query).toContain('userId = ? AND amount >= ? AND amount < ? AND category IN (?,?) AND isRecurring = ?');
+    expect(query).toContain('ORDER BY date DESC, createdAt DESC, id DESC LIMIT ?');
+    expect(params).toEqual(['u1', 5, 100, 'Food', 'Transport', 0, 3]);
+    expect(page.items.map(e => e.id)).toEqual([3, 2]);
+    expect(page.hasMore).toBe(true);
+    expect(decodeCursor(page.nextCursor!, 'date:desc,createdAt:desc,id:desc')).toEqual(['2025-02-01', '2025-02-01', 2]);
+  });
+
+  test('continues after the cursor using the sort key and ID', async () => {
+    const db = pagedDb([]);
+    const repo = new ExpenseRepository(db, logger);
+    const cursor = encodeCursor('amount:asc,id:asc', [10, 7]);
+
+    const page = await repo.query({ sort: [{ field: 'amount', direction: 'asc' }], cursor, limit: 10 });
+
+    const { query, params } = db.calls[0];
+    expect(query).toContain('((amount > ?) OR (amount = ? AND id > ?))');
+    expect(params).toEqual([10, 10, 7, 11]);
+    expect(page).toEqual({ items: [], nextCursor: null, hasMore: false });
+  });
+
+  test('escapes LIKE wildcards in contains filters', async () => {
+    const db = pagedDb([]);
+    await new ExpenseRepository(db, logger).query({ filter: { merchant: { contains: '50%_off' } } });
+
+    expect(db.calls[0].query).toContain("merchant LIKE ? ESCAPE '\\'");
+    expect(db.calls[0].params[0]).toBe('%50\\%\\_off%');
+  });
+
+  test('rejects unknown columns and cursors from another sort', async () => {
+    const repo = new ExpenseRepository(pagedDb([]), logger);
+
+    await expect(repo.query({ filter: { 'merchant; DROP TABLE expenses': 1 } as any })).rejects.toThrow(QueryError);
+    await expect(repo.query({ sort: [{ field: 'description', direction: 'asc' }] })).rejects.toThrow(QueryError);
+    await expect(repo.query({ cursor: encodeCursor('amount:asc,id:asc', [1, 1]) })).rejects.toThrow('Cursor does not belong to this query');
+    await expect(repo.query({ cursor: '%%%' })).rejects.toThrow('Invalid cursor');
+  });
+
+  test('count applies the same filter', async () => {
+    const db = pagedDb([expenseRow(1, '2025-01-01'), expenseRow(2, '2025-01-02')]);
+
+    const total = await new ExpenseRepository(db, logger).count({ userId: 'u1', date: { gte: '2025-01-01' } });
+
+    expect(total).toBe(2);
+    expect(db.calls[0].query).toContain('SELECT COUNT(*) as count FROM expenses WHERE deletedAt IS NULL AND userId = ? AND date >= ?');
+  });
+
+  test('cursors survive non-ASCII sort values', () => {
+    const cursor = encodeCursor('merchant:asc,id:asc', ['Café Ñandú', 4]);
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, 'merchant:asc,id:asc')).toEqual(['Café Ñandú', 4]);
+  });
+});
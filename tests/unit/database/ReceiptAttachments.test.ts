@@ -0,0 +1,125 @@
+import * as FileSystem from 'expo-file-system';
+import { ReceiptAttachmentRepository, MAX_ATTACHMENT_BYTES, attachmentTypeOf, mimeTypeOf } from '@/database/repositories/ReceiptAttachmentRepository';
+import { DatabaseError, RecordNotFoundError } from '@/database/errors/DatabaseErrors';
+import { crc32 } from '@/utils/checksum';
+import { fakeDatabase } from '../../helpers/database';
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  EncodingType: { Base64: 'base64' },
+  getInfoAsync: jest.fn(async (uri: string) => ({ exists: true, isDirectory: false, uri, size: 2048 })),
+  readAsStringAsync: jest.fn(async () => 'cGFnZQ=='),
+  makeDirectoryAsync: jest.fn(async () => {}),
+  copyAsync: jest.fn(async () => {}),
+  deleteAsync: jest.fn(async () => {}),
+}));
+
+const fs = FileSystem as jest.Mocked<typeof FileSystem>;
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const row = (overrides: any = {}) => ({
+  id: 1, receiptId: 7, type: 'image', uri: 'file:///docs/receipt-attachments/7-1-page.jpg', filename: 'page.jpg',
+  mimeType: 'image/jpeg', size: 2048, checksum: 'abc', position: 0, createdAt: '', syncStatus: 'pending',
+  ...overrides,
+});
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('attachment types', () => {
+  test('are derived from the file extension and MIME type', () => {
+    expect(mimeTypeOf('Invoice.PDF')).toBe('application/pdf');
+    expect(mimeTypeOf('slip.jpeg')).toBe('image/jpeg');
+    expect(mimeTypeOf('notes')).toBe('application/octet-stream');
+    expect(attachmentTypeOf('image/heic')).toBe('image');
+    expect(attachmentTypeOf('application/pdf')).toBe('pdf');
+    expect(attachmentTypeOf('text/plain')).toBe('other');
+  });
+});
+
+describe('ReceiptAttachmentRepository', () => {
+  test('copies the file into app storage and appends it after the other attachments', async () => {
+    const db = fakeDatabase(query => {
+      if (query.startsWith('SELECT id FROM receipts')) return [{ id: 7 }];
+      if (query.startsWith('INSERT')) return { lastInsertRowId: 3 };
+      return [row({ id: 3, type: 'pdf', filename: 'invoice.pdf', mimeType: 'application/pdf', position: 1 })];
+    });
+    const repo = new ReceiptAttachmentRepository(db, logger);
+
+    const attachment = await repo.add(7, { uri: 'file:///cache/DocumentPicker/invoice.pdf' });
+
+    const [{ to }] = fs.copyAsync.mock.calls[0] as any;
+    expect(to).toMatch(/^file:\/\/\/docs\/receipt-attachments\/7-\d+-invoice\.pdf$/);
+    const insert = db.calls.find(c => c.query.startsWith('INSERT'))!;
+    expect(insert.query).toContain('MAX(position) + 1');
+    expect(insert.params.slice(0, 7)).toEqual([7, 'pdf', to, 'invoice.pdf', 'application/pdf', 2048, crc32('cGFnZQ==')]);
+    expect(attachment).toEqual(expect.objectContaining({ id: 3, type: 'pdf', position: 1 }));
+  });
+
+  test('removes the copied file when the row cannot be stored', async () => {
+    const db = fakeDatabase(query => {
+      if (query.startsWith('SELECT id FROM receipts')) return [{ id: 7 }];
+      throw new Error('disk full');
+    });
+
+    await expect(new ReceiptAttachmentRepository(db, logger).add(7, { uri: 'file:///cache/page.jpg' })).rejects.toThrow('disk full');
+    expect(fs.deleteAsync).toHaveBeenCalledWith((fs.copyAsync.mock.calls[0] as any)[0].to, { idempotent: true });
+  });
+
+  test('rejects missing receipts, missing files and files over the size limit', async () => {
+    const repo = (receipts: any[]) => new ReceiptAttachmentRepository(fakeDatabase(() => receipts), logger);
+
+    await expect(repo([]).add(7, { uri: 'file:///cache/page.jpg' })).rejects.toBeInstanceOf(RecordNotFoundError);
+
+    fs.getInfoAsync.mockResolvedValueOnce({ exists: false, isDirectory: false, uri: '' });
+    await expect(repo([{ id: 7 }]).add(7, { uri: 'file:///cache/gone.jpg' })).rejects.toBeInstanceOf(DatabaseError);
+
+    fs.getInfoAsync.mockResolvedValueOnce({ exists: true, isDirectory: false, uri: '', size: MAX_ATTACHMENT_BYTES + 1, modificationTime: 0 });
+    await expect(repo([{ id: 7 }]).add(7, { uri: 'file:///cache/huge.pdf' })).rejects.toBeInstanceOf(DatabaseError);
+    expect(fs.copyAsync).not.toHaveBeenCalled();
+  });
+
+  test('reorders the attachments of a receipt', async () => {
+    const db = fakeDatabase(() => [row({ id: 1 }), row({ id: 2, position: 1 }), row({ id: 3, position: 2 })]);
+    const repo = new ReceiptAttachmentRepository(db, logger);
+
+    await repo.reorder(7, [3, 1, 2]);
+
+    expect(db.transactions[0].map(q => q.params)).toEqual([[0, 3, 7], [1, 1, 7], [2, 2, 7]]);
+    await expect(repo.reorder(7, [3, 1])).rejects.toBeInstanceOf(DatabaseError);
+    await expect(repo.reorder(7, [3, 3, 1])).rejects.toBeInstanceOf(DatabaseError);
+  });
+
+  test('deletes an attachment, closes the gap and removes its file', async () => {
+    const uri = row().uri;
+    const db = fakeDatabase(query => {
+      if (query.includes('FROM orphaned_files')) return [{ id: 1, uri, inUse: 0 }];
+      if (query.startsWith('DELETE')) return { changes: 1 };
+      return [row({ id: 2, position: 1 })];
+    });
+
+    expect(await new ReceiptAttachmentRepository(db, logger).delete(2)).toBe(true);
+
+    expect(db.transactions[0][1].params).toEqual([7, 1]);
+    expect(fs.deleteAsync).toHaveBeenCalledWith(uri, { idempotent: true });
+    expect(db.calls.some(c => c.query === 'DELETE FROM orphaned_files WHERE id = ?')).toBe(true);
+  });
+
+  test('leaves files in use or outside app storage, and retries failed deletes', async () => {
+    const db = fakeDatabase(query => (query.includes('FROM orphaned_files')
+      ? [
+          { id: 1, uri: 'file:///docs/receipt-images/restored.jpg', inUse: 1 },
+          { id: 2, uri: 'file:///DCIM/photo.jpg', inUse: 0 },
+          { id: 3, uri: 'file:///docs/receipt-attachments/7-1-a.jpg', inUse: 0 },
+          { id: 4, uri: 'file:///docs/receipt-attachments/7-1-b.jpg', inUse: 0 },
+        ]
+      : { changes: 1 }));
+    fs.deleteAsync.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('busy'));
+
+    const deleted = await new ReceiptAttachmentRepository(db, logger).cleanupOrphanedFiles();
+
+    expect(deleted).toBe(1);
+    expect(fs.deleteAsync).toHaveBeenCalledTimes(2);
+    const cleared = db.calls.filter(c => c.query.startsWith('DELETE FROM orphaned_files')).map(c => c.params[0]);
+    expect(cleared).toEqual([1, 2, 3]);
+  });
+});
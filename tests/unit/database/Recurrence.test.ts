@@ -0,0 +1,115 @@
+import { occurrenceDates, projectOccurrences, projectedSpend } from '@/database/recurrence/RecurrenceSchedule';
+import { RecurrenceService } from '@/database/recurrence/RecurrenceService';
+import { RecurrenceRuleRecord, RecurrenceExceptionRecord } from '@/database/models/Records';
+import { DatabaseError } from '@/database/errors/DatabaseErrors';
+import { fakeDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const rule = (overrides: Partial<RecurrenceRuleRecord> = {}): RecurrenceRuleRecord => ({
+  id: 1, userId: 'u1', entityType: 'expense', name: 'Netflix', amount: 159, category: 'Entertainment',
+  frequency: 'monthly', interval: 1, startDate: '2025-01-31', active: true, createdAt: '', updatedAt: '',
+  ...overrides,
+});
+
+describe('recurrence schedules', () => {
+  test('monthly rules fall on the last day of shorter months', () => {
+    expect(occurrenceDates(rule(), '2025-01-01', '2025-04-30')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+    expect(occurrenceDates(rule({ interval: 2, dayOfMonth: 15 }), '2025-06-01', '2025-10-31')).toEqual(['2025-07-15', '2025-09-15']);
+  });
+
+  test('last business day moves back from the weekend', () => {
+    // May 2025 ends on a Saturday, August 2025 on a Sunday
+    expect(occurrenceDates(rule({ frequency: 'last_business_day' }), '2025-05-01', '2025-08-31'))
+      .toEqual(['2025-05-30', '2025-06-30', '2025-07-31', '2025-08-29']);
+  });
+
+  test('weekly and every-N-days rules step from their first occurrence', () => {
+    // 2025-03-03 is a Monday; the rule runs on Fridays
+    expect(occurrenceDates(rule({ frequency: 'weekly', dayOfWeek: 5, startDate: '2025-03-03' }), '2025-03-10', '2025-03-25'))
+      .toEqual(['2025-03-14', '2025-03-21']);
+    expect(occurrenceDates(rule({ frequency: 'every_n_days', interval: 10, startDate: '2025-03-01', endDate: '2025-04-05' }), '2025-03-05', '2025-12-31'))
+      .toEqual(['2025-03-11', '2025-03-21', '2025-03-31']);
+  });
+
+  test('exceptions skip or change single occurrences', () => {
+    const exceptions: RecurrenceExceptionRecord[] = [
+      { ruleId: 1, occurrenceDate: '2025-02-28', action: 'skip', createdAt: '' },
+      { ruleId: 1, occurrenceDate: '2025-03-31', action: 'modify', amount: 199, date: '2025-04-02', createdAt: '' },
+    ];
+
+    const occurrences = projectOccurrences(rule(), exceptions, '2025-02-01', '2025-04-30');
+
+    expect(occurrences.map(o => [o.occurrenceDate, o.date, o.amount])).toEqual([
+      ['2025-03-31', '2025-04-02', 199],
+      ['2025-04-30', '2025-04-30', 159],
+    ]);
+    expect(projectedSpend(occurrences)).toEqual({ total: 358, byCategory: { Entertainment: 358 } });
+  });
+});
+
+describe('RecurrenceService', () => {
+  function setup(rules: RecurrenceRuleRecord[], exceptions: RecurrenceExceptionRecord[] = [], instances: any[] = []) {
+    const ruleRepo = {
+      getActive: jest.fn(async () => rules),
+      getByUserId: jest.fn(async () => rules),
+      getById: jest.fn(async (id: number) => rules.find(r => r.id === id) || null),
+      getExceptions: jest.fn(async () => exceptions),
+      saveException: jest.fn(async () => 1),
+      setMaterializedThrough: jest.fn(async () => true),
+    } as any;
+    const expenses = { create: jest.fn(async () => 10), update: jest.fn(async () => true), delete: jest.fn(async () => true) } as any;
+    const transactions = { create: jest.fn(async () => 20) } as any;
+    const db = fakeDatabase((_query, params) =>
+      instances.filter(i => i.recurrenceRuleId === params[0] && i.occurrenceDate === params[1]));
+    const service = new RecurrenceService(db, ruleRepo, expenses, transactions, logger);
+    return { service, ruleRepo, expenses, transactions };
+  }
+
+  test('creates due occurrences once and moves the watermark', async () => {
+    const { service, ruleRepo, expenses } = setup(
+      [rule({ startDate: '2025-01-15', materializedThrough: '2025-01-31' })],
+      [],
+      [{ id: 5, recurrenceRuleId: 1, occurrenceDate: '2025-02-15' }]
+    );
+
+    const created = await service.materializeDue(new Date('2025-03-20T08:00:00.000Z'));
+
+    expect(created).toBe(1);
+    expect(expenses.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 159, date: '2025-03-15', recurrenceRuleId: 1, occurrenceDate: '2025-03-15', isRecurring: true }),
+      { actor: 'recurrence' }
+    );
+    expect(ruleRepo.setMaterializedThrough).toHaveBeenCalledWith(1, '2025-03-20');
+  });
+
+  test('transaction rules create transactions of their type', async () => {
+    const { service, transactions } = setup([
+      rule({ entityType: 'transaction', transactionType: 'income', name: 'Salary', frequency: 'last_business_day', startDate: '2025-03-01' }),
+    ]);
+
+    await service.materializeDue(new Date('2025-03-31T12:00:00.000Z'));
+
+    expect(transactions.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'income', date: '2025-03-31' }), { actor: 'recurrence' });
+  });
+
+  test('projects only occurrences that have no record yet', async () => {
+    const { service } = setup([rule({ startDate: '2025-01-15', materializedThrough: '2025-03-20' })]);
+
+    const upcoming = await service.getUpcoming('u1', 60, new Date('2025-03-01T00:00:00.000Z'));
+
+    expect(upcoming.map(o => o.date)).toEqual(['2025-04-15']);
+  });
+
+  test('skipping an occurrence that was already created deletes its record', async () => {
+    const { service, ruleRepo, expenses } = setup([rule({ startDate: '2025-01-15' })], [], [
+      { id: 5, recurrenceRuleId: 1, occurrenceDate: '2025-02-15' },
+    ]);
+
+    await service.skipOccurrence(1, '2025-02-15', { source: 'chat' });
+
+    expect(ruleRepo.saveException).toHaveBeenCalledWith({ ruleId: 1, occurrenceDate: '2025-02-15', action: 'skip' });
+    expect(expenses.delete).toHaveBeenCalledWith(5, { source: 'chat' });
+    await expect(service.modifyOccurrence(1, '2025-02-16', { amount: 10 })).rejects.toThrow(DatabaseError);
+  });
+});
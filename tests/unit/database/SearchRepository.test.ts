@@ -0,0 +1,50 @@
+import { SearchRepository, splitSnippet, SNIPPET_MARK_START, SNIPPET_MARK_END } from '@/database/repositories/SearchRepository';
+import { fakeDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+// Answers every search with the rows for its MATCH expression
+const searchDb = (rowsFor: (match: string) => Record<string, unknown>[]) => fakeDatabase((_query, params) => rowsFor(params[0]));
+
+describe('SearchRepository', () => {
+  test('drops noise words and matches remaining terms as prefixes', async () => {
+    const db = searchDb(() => [{ entityType: 'receipt', entityId: '4', title: 'Dis-Chem', amount: 99, date: '2025-01-01', category: 'Health', snippet: 'x', rank: -1 }]);
+    const repo = new SearchRepository(db, logger);
+
+    const results = await repo.search('u1', 'that Dischem slip with sunscreen');
+
+    expect(db.calls).toHaveLength(1);
+    expect(db.calls[0].params.slice(0, 2)).toEqual(['"dischem"* "sunscreen"*', 'u1']);
+    expect(results[0]).toMatchObject({ entityType: 'receipt', entityId: 4, title: 'Dis-Chem' });
+  });
+
+  test('falls back to matching any term when no record has all of them', async () => {
+    const db = searchDb(match => (match.includes(' OR ') ? [{ entityType: 'expense', entityId: 1 }] : []));
+    const repo = new SearchRepository(db, logger);
+
+    const results = await repo.search('u1', 'sunscreen plasters');
+
+    expect(db.calls[1].params[0]).toBe('"sunscreen"* OR "plasters"*');
+    expect(results).toHaveLength(1);
+  });
+
+  test('applies filters and strips FTS syntax from the query', async () => {
+    const db = searchDb(() => []);
+    const repo = new SearchRepository(db, logger);
+
+    await repo.search('u1', 'spf"50 NEAR(', { entityTypes: ['receipt'], startDate: '2025-01-01', maxAmount: 200, limit: 5 });
+
+    const { query, params } = db.calls[0];
+    expect(query).toContain('s.entityType IN (?)');
+    expect(params).toEqual(['"spf"* "50"* "near"*', 'u1', 'receipt', '2025-01-01', 200, 5]);
+  });
+
+  test('splitSnippet separates highlighted terms', () => {
+    const snippet = `Sunscreen ${SNIPPET_MARK_START}SPF${SNIPPET_MARK_END} 50`;
+    expect(splitSnippet(snippet)).toEqual([
+      { text: 'Sunscreen ', highlighted: false },
+      { text: 'SPF', highlighted: true },
+      { text: ' 50', highlighted: false },
+    ]);
+  });
+});
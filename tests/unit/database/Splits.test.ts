@@ -0,0 +1,130 @@
+import { SplitRepository } from '@/database/repositories/SplitRepository';
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { DatabaseError, RecordNotFoundError, SplitMismatchError } from '@/database/errors/DatabaseErrors';
+import { categoryTotals, splitsMatch } from '@/utils/splits';
+import { fakeDatabase, openTestDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+describe('split utilities', () => {
+  test('splits must add up to the amount to the cent', () => {
+    expect(splitsMatch(100.1, [{ amount: 33.37 }, { amount: 33.37 }, { amount: 33.36 }])).toBe(true);
+    expect(splitsMatch(100, [{ amount: 60 }, { amount: 39.99 }])).toBe(false);
+  });
+
+  test('category totals count split items in the categories of their splits', () => {
+    expect(categoryTotals([
+      { amount: 900, category: 'Shopping', splits: [{ category: 'Groceries', amount: 600 }, { category: 'Household', amount: 300 }] },
+      { amount: 200, category: 'Groceries' },
+      { amount: 50 },
+    ])).toEqual({ Groceries: 800, Household: 300, Other: 50 });
+  });
+});
+
+describe('SplitRepository', () => {
+  const parentDb = (amount: number, splitRows: any[] = []) => fakeDatabase(query =>
+    (query.includes('FROM expenses') || query.includes('FROM transactions') ? [{ amount }] : splitRows));
+
+  test('replaces the splits of an expense in one transaction', async () => {
+    const db = parentDb(900, [{ id: 1, expenseId: 7, parentId: 7, category: 'Groceries', amount: 600, tagId: null, createdAt: 'now' }]);
+    const repo = new SplitRepository(db, logger);
+
+    const splits = await repo.setSplits('expense', 7, [
+      { category: 'Groceries', amount: 600 },
+      { category: ' Household ', amount: 300, tagId: 2 },
+    ]);
+
+    const [queries] = db.transactions;
+    expect(queries[0]).toEqual({ query: 'DELETE FROM expense_splits WHERE expenseId = ?', params: [7] });
+    expect(queries).toHaveLength(3);
+    expect(queries[2].params!.slice(0, 4)).toEqual([7, 'Household', 300, 2]);
+    expect(splits[0]).toEqual(expect.objectContaining({ parentType: 'expense', parentId: 7, category: 'Groceries' }));
+  });
+
+  test('matches transaction splits against the absolute amount', async () => {
+    const db = parentDb(-250);
+    const repo = new SplitRepository(db, logger);
+
+    await repo.setSplits('transaction', 3, [{ category: 'Fuel', amount: 200 }, { category: 'Snacks', amount: 50 }]);
+
+    expect(db.calls[0].query).toContain('FROM transactions');
+    expect(db.transactions[0][0].query).toContain('transaction_splits');
+  });
+
+  test('an empty list removes the split', async () => {
+    const db = parentDb(900);
+    await new SplitRepository(db, logger).setSplits('expense', 7, []);
+
+    expect(db.transactions[0]).toEqual([{ query: 'DELETE FROM expense_splits WHERE expenseId = ?', params: [7] }]);
+  });
+
+  test('rejects splits that do not add up, single splits and invalid parts', async () => {
+    const repo = new SplitRepository(parentDb(900), logger);
+
+    const mismatch = repo.setSplits('expense', 7, [{ category: 'A', amount: 600 }, { category: 'B', amount: 200 }]);
+    await expect(mismatch).rejects.toBeInstanceOf(SplitMismatchError);
+    await expect(mismatch).rejects.toMatchObject({ expected: 900, actual: 800 });
+    await expect(repo.setSplits('expense', 7, [{ category: 'A', amount: 900 }])).rejects.toBeInstanceOf(DatabaseError);
+    await expect(repo.setSplits('expense', 7, [{ category: ' ', amount: 450 }, { category: 'B', amount: 450 }]))
+      .rejects.toBeInstanceOf(DatabaseError);
+    await expect(repo.setSplits('expense', 7, [{ category: 'A', amount: 1000 }, { category: 'B', amount: -100 }]))
+      .rejects.toBeInstanceOf(DatabaseError);
+  });
+
+  test('fails for a missing or deleted record', async () => {
+    const db = fakeDatabase(() => []);
+    await expect(new SplitRepository(db, logger).setSplits('expense', 9, []))
+      .rejects.toBeInstanceOf(RecordNotFoundError);
+    expect(db.calls[0].query).toContain('deletedAt IS NULL');
+  });
+
+  test('groups the splits of several records by record', async () => {
+    const db = fakeDatabase(() => [
+      { id: 1, parentId: 1, category: 'A', amount: 5, createdAt: '' },
+      { id: 2, parentId: 2, category: 'B', amount: 4, createdAt: '' },
+      { id: 3, parentId: 1, category: 'C', amount: 3, createdAt: '' },
+    ]);
+    const repo = new SplitRepository(db, logger);
+
+    const byParent = await repo.getSplitsFor('expense', [1, 2, 3]);
+
+    expect(Object.keys(byParent)).toEqual(['1', '2']);
+    expect(byParent[1].map(s => s.category)).toEqual(['A', 'C']);
+    expect(db.calls[0].params).toEqual([1, 2, 3]);
+    expect(await repo.getSplitsFor('expense', [])).toEqual({});
+  });
+});
+
+describe('expense statistics', () => {
+  test('count split expenses in the categories of their splits', async () => {
+    const db = fakeDatabase(query => (query.includes('expense_splits') ? [{ category: 'Groceries', total: 600 }] : [{ total: 600, count: 1 }]));
+    const repo = new ExpenseRepository(db, logger);
+
+    const stats = await repo.getStatistics('u1', 'month');
+
+    const byCategory = db.calls.find(c => c.query.includes('expense_splits'));
+    expect(byCategory!.query).toContain('LEFT JOIN expense_splits');
+    expect(stats.byCategory[0]).toEqual({ category: 'Groceries', total: 600, percentage: 100 });
+  });
+});
+
+describe('category totals of stored expenses', () => {
+  test('a split expense adds to the category of each split', async () => {
+    const db = await openTestDatabase(logger);
+    const expenses = new ExpenseRepository(db, logger);
+    const splits = new SplitRepository(db, logger);
+    const expense = {
+      category: 'Shopping', merchant: 'Checkers', description: '', date: '2025-03-02', isRecurring: false,
+      userId: 'u1', createdAt: '', updatedAt: '', syncStatus: 'pending' as const,
+    };
+    const split = await expenses.create({ ...expense, amount: 900 });
+    await expenses.create({ ...expense, amount: 100, category: 'Groceries' });
+    await splits.setSplits('expense', split, [{ category: 'Groceries', amount: 600 }, { category: 'Household', amount: 300 }]);
+
+    const stored = await splits.withSplits('expense', await expenses.getByUserId('u1'));
+
+    expect(categoryTotals(stored)).toEqual({ Groceries: 700, Household: 300 });
+    expect(stored.find(e => e.id !== split)!.splits).toBeUndefined();
+    await db.close();
+  });
+});
@@ -0,0 +1,97 @@
+import { SyncEngine } from '@/database/sync/SyncEngine';
+import { LocalSyncRemote } from '@/database/sync/LocalSyncRemote';
+import { ISyncQueueRepository } from '@/database/interfaces/Repositories';
+import { ISyncRemote } from '@/database/interfaces/ISyncRemote';
+import { SyncQueueRecord } from '@/database/models/Records';
+import { SyncError } from '@/database/errors/DatabaseErrors';
+import { fakeDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+function memoryQueue(entries: SyncQueueRecord[]): ISyncQueueRepository {
+  const byId = (id: number) => entries.find(e => e.id === id)!;
+  return {
+    enqueue: jest.fn(async () => null),
+    getProcessable: async (maxAttempts: number) => entries
+      .filter(e => (e.status === 'pending' || e.status === 'error') && e.attempts < maxAttempts)
+      .sort((a, b) => b.priority - a.priority || a.id! - b.id!),
+    hasPending: async (type, id, exclude) => entries.some(e => e.entityType === type && e.entityId === id && e.id !== exclude && e.status !== 'success'),
+    markInProgress: async id => { byId(id).status = 'in_progress'; },
+    resetInProgress: async () => 0,
+    markSuccess: async id => { byId(id).status = 'success'; },
+    markError: async (id, message, attempts) => {
+      Object.assign(byId(id), { status: 'error', errorMessage: message, attempts, lastAttempt: new Date().toISOString() });
+    },
+    assignRemoteId: jest.fn(async () => {}),
+    purgeCompleted: async () => 0,
+    getStats: async () => ({ pending: 0, in_progress: 0, success: 0, error: 0 }),
+  };
+}
+
+function entry(id: number, overrides: Partial<SyncQueueRecord> = {}): SyncQueueRecord {
+  return {
+    id, entityType: 'expense', entityId: id, operation: 'create', data: JSON.stringify({ userId: 'u1', amount: 10 }),
+    priority: 0, attempts: 0, createdAt: new Date().toISOString(), status: 'pending', ...overrides,
+  };
+}
+
+// Reads find no rows; writes change one
+const syncDb = () => fakeDatabase(query => (query.trim().startsWith('SELECT') ? [] : { changes: 1 }));
+
+describe('SyncEngine', () => {
+  test('pushes entries in priority order and marks records synced', async () => {
+    const entries = [entry(1, { priority: 1 }), entry(2, { priority: 10, entityType: 'goal' })];
+    const pushed: string[] = [];
+    const remote: ISyncRemote = { name: 'test', push: async c => { pushed.push(c.entityType); return { remoteId: `r${c.entityId}` }; } };
+    const db = syncDb();
+
+    const result = await new SyncEngine(db, memoryQueue(entries), remote, logger).processQueue();
+
+    expect(result).toEqual({ processed: 2, succeeded: 2, failed: 0, deferred: 0 });
+    expect(pushed).toEqual(['goal', 'expense']);
+    expect(db.calls.some(s => s.query.includes('SET syncStatus') && s.params[0] === 'synced')).toBe(true);
+  });
+
+  test('defers failed entries until the backoff delay has elapsed', async () => {
+    const entries = [entry(1)];
+    const remote: ISyncRemote = { name: 'flaky', push: async () => { throw new Error('offline'); } };
+    const engine = new SyncEngine(syncDb(), memoryQueue(entries), remote, logger, { baseDelayMs: 60_000 });
+
+    const first = await engine.processQueue();
+    const second = await engine.processQueue();
+
+    expect(first.failed).toBe(1);
+    expect(entries[0].attempts).toBe(1);
+    expect(second).toEqual({ processed: 0, succeeded: 0, failed: 0, deferred: 1 });
+    expect(engine.getRetryDelay(3)).toBe(240_000);
+  });
+
+  test('gives up immediately on non-retryable errors and flags the record', async () => {
+    const entries = [entry(1)];
+    const remote: ISyncRemote = { name: 'strict', push: async () => { throw new SyncError('unsupported', false); } };
+    const db = syncDb();
+
+    await new SyncEngine(db, memoryQueue(entries), remote, logger, { maxAttempts: 4 }).processQueue();
+
+    expect(entries[0].attempts).toBe(4);
+    expect(db.calls.some(s => s.query.includes('SET syncStatus') && s.params[0] === 'error')).toBe(true);
+  });
+
+  test('forgets the remote ID of a deleted record once the deletion has synced', async () => {
+    const entries = [entry(1, { operation: 'delete', data: JSON.stringify({ userId: 'u1', firebaseId: 'remote-1' }) })];
+    const remote: ISyncRemote = { name: 'test', push: async () => ({}) };
+    const db = syncDb();
+
+    await new SyncEngine(db, memoryQueue(entries), remote, logger).processQueue();
+
+    expect(db.calls.some(s => s.query.includes('SET firebaseId = NULL') && s.params[0] === 1)).toBe(true);
+    expect(db.calls.some(s => s.query.includes('SET syncStatus') && s.params[0] === 'synced')).toBe(true);
+  });
+
+  test('LocalSyncRemote stores created records under a generated remote id', async () => {
+    const remote = new LocalSyncRemote();
+    const res = await remote.push({ queueId: 1, entityType: 'expense', entityId: 5, operation: 'create', data: { amount: 20 } });
+    expect(res.remoteId).toBeDefined();
+    expect(remote.getRecords('expense')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { TrashService, TrashRepositories } from '@/database/trash/TrashService';
+import { fakeDatabase } from '../../helpers/database';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+// Every purge statement removes one record
+const purgeDb = () => fakeDatabase(() => ({ changes: 1 }));
+
+function trashRepo(deleted: any[] = []) {
+  return { getDeleted: jest.fn(async () => deleted), restore: jest.fn(async () => true) };
+}
+
+function repositories(overrides: Partial<TrashRepositories> = {}): TrashRepositories {
+  return { expense: trashRepo(), receipt: trashRepo(), goal: trashRepo(), transaction: trashRepo(), budget: trashRepo(), ...overrides };
+}
+
+describe('TrashService', () => {
+  test('lists deleted records of every type, newest first, with their purge date', async () => {
+    const repos = repositories({
+      expense: trashRepo([{ id: 1, deletedAt: '2025-03-01T00:00:00.000Z' }]),
+      goal: trashRepo([{ id: 2, deletedAt: '2025-03-05T00:00:00.000Z' }]),
+    });
+    const trash = new TrashService(purgeDb(), repos, logger, { retentionDays: 7 });
+
+    const items = await trash.list('u1');
+
+    expect(items.map(i => [i.entityType, i.record.id])).toEqual([['goal', 2], ['expense', 1]]);
+    expect(items[1].purgeAt).toBe('2025-03-08T00:00:00.000Z');
+  });
+
+  test('restores through the repository of the entity type', async () => {
+    const repos = repositories();
+    await new TrashService(purgeDb(), repos, logger).restore('receipt', 9, { source: 'chat' });
+
+    expect(repos.receipt.restore).toHaveBeenCalledWith(9, { source: 'chat' });
+  });
+
+  test('purges records past the retention period whose deletion has synced', async () => {
+    const db = purgeDb();
+    const trash = new TrashService(db, repositories(), logger, { retentionDays: 30 });
+
+    const purged = await trash.purge(new Date('2025-04-30T00:00:00.000Z'));
+
+    expect(purged).toBe(5);
+    const statements = db.transactions.flat();
+    expect(statements.map(c => c.params)).toContainEqual(['2025-03-31T00:00:00.000Z', 'expense']);
+    statements.forEach(c => {
+      expect(c.query).toContain('firebaseId IS NULL');
+      expect(c.query).toContain('FROM sync_queue');
+    });
+  });
+
+  test('deletes the files of purged receipts', async () => {
+    const attachments = { cleanupOrphanedFiles: jest.fn(async () => 2) } as any;
+    const trash = new TrashService(purgeDb(), repositories(), logger, {}, attachments);
+
+    await trash.purge();
+
+    expect(attachments.cleanupOrphanedFiles).toHaveBeenCalled();
+  });
+
+  test('rejects a negative retention period', () => {
+    expect(() => new TrashService(purgeDb(), repositories(), logger, { retentionDays: -1 })).toThrow(RangeError);
+  });
+});
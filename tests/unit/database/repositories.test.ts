@@ -0,0 +1,154 @@
+import { ILogger } from '@/database/interfaces/ILogger';
+import { RecordNotFoundError } from '@/database/errors/DatabaseErrors';
+import { FinancialGoalRepository } from '@/database/repositories/FinancialGoalRepository';
+import { ReceiptRepository } from '@/database/repositories/ReceiptRepository';
+import { TransactionRepository } from '@/database/repositories/TransactionRepository';
+import { TagRepository, defaultTagColor } from '@/database/repositories/TagRepository';
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { DatabaseError } from '@/database/errors/DatabaseErrors';
+import { fakeDatabase, fakeSyncQueue } from '../../helpers/database';
+
+const logger: ILogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+describe('FinancialGoalRepository', () => {
+  const goalRow = {
+    id: 7, title: 'Holiday', description: '', targetAmount: 5000, currentAmount: 1200,
+    deadline: '2025-12-01', category: 'travel', isActive: 1, userId: 'u1',
+    createdAt: '2025-01-01', updatedAt: '2025-01-02', syncStatus: 'pending',
+  };
+
+  test('updateProgress writes the amount, marks pending and returns the mapped record', async () => {
+    const db = fakeDatabase(q => (q.startsWith('UPDATE') ? { changes: 1 } : [goalRow]));
+    const repo = new FinancialGoalRepository(db, logger);
+
+    const goal = await repo.updateProgress(7, 1200);
+
+    expect(db.calls[0].params.slice(0, 2)).toEqual([1200, 'pending']);
+    expect(goal.isActive).toBe(true);
+    expect(goal.currentAmount).toBe(1200);
+  });
+
+  test('updateProgress throws RecordNotFoundError for unknown goals', async () => {
+    const db = fakeDatabase(() => ({ changes: 0 }));
+    const repo = new FinancialGoalRepository(db, logger);
+    await expect(repo.updateProgress(99, 10)).rejects.toBeInstanceOf(RecordNotFoundError);
+  });
+});
+
+describe('ReceiptRepository', () => {
+  test('create stores booleans as integers', async () => {
+    const db = fakeDatabase(() => ({ lastInsertRowId: 3 }));
+    const repo = new ReceiptRepository(db, logger);
+    const id = await repo.create({
+      imageUri: 'file://slip.jpg', merchantName: 'Dischem', amount: 89.9, date: '2025-02-01',
+      items: '[]', category: 'Health', processed: true, ocrConfidence: 0.8, userId: 'u1',
+      createdAt: '', updatedAt: '', syncStatus: 'pending',
+    });
+    expect(id).toBe(3);
+    expect(db.calls[0].params[7]).toBe(1);
+  });
+});
+
+describe('TransactionRepository', () => {
+  test('getByType filters by user and type', async () => {
+    const db = fakeDatabase(() => [{ id: 1, type: 'income', amount: 100, userId: 'u1', fromAccount: null }]);
+    const repo = new TransactionRepository(db, logger);
+    const rows = await repo.getByType('u1', 'income', 10);
+    expect(db.calls[0].params).toEqual(['u1', 'income', 10]);
+    expect(rows[0].fromAccount).toBeUndefined();
+  });
+});
+
+describe('TagRepository', () => {
+  test('create assigns a default colour and rejects invalid colours', async () => {
+    const db = fakeDatabase(() => ({ lastInsertRowId: 1 }));
+    const repo = new TagRepository(db, logger);
+
+    await repo.create({ userId: 'u1', name: ' work-trip ', color: '', createdAt: '', updatedAt: '' });
+    expect(db.calls[0].params.slice(1, 3)).toEqual(['work-trip', defaultTagColor('work-trip')]);
+
+    await expect(repo.create({ userId: 'u1', name: 'wedding', color: 'red', createdAt: '', updatedAt: '' }))
+      .rejects.toBeInstanceOf(DatabaseError);
+  });
+
+  test('setExpenseTags replaces links in one transaction', async () => {
+    const db = fakeDatabase(() => ({ changes: 1 }));
+    const repo = new TagRepository(db, logger);
+
+    await repo.setExpenseTags(5, [1, 2, 2]);
+
+    expect(db.transactions).toHaveLength(1);
+    expect(db.transactions[0].map(c => c.query.split(' ')[0])).toEqual(['DELETE', 'INSERT', 'INSERT']);
+    expect(db.transactions[0][2].params).toEqual([5, 2]);
+  });
+
+  test('getTagsForExpenses groups tags by expense', async () => {
+    const db = fakeDatabase(() => [
+      { id: 1, userId: 'u1', name: 'wedding', color: '#FF6B6B', linkedId: 5 },
+      { id: 2, userId: 'u1', name: 'work-trip', color: '#4ECDC4', linkedId: 5 },
+      { id: 1, userId: 'u1', name: 'wedding', color: '#FF6B6B', linkedId: 6 },
+    ]);
+    const repo = new TagRepository(db, logger);
+
+    const byExpense = await repo.getTagsForExpenses([5, 6]);
+
+    expect(byExpense[5].map(t => t.name)).toEqual(['wedding', 'work-trip']);
+    expect(byExpense[6]).toHaveLength(1);
+  });
+});
+
+describe('ExpenseRepository.getByTags', () => {
+  test("'all' mode requires every tag via HAVING", async () => {
+    const db = fakeDatabase(() => []);
+    const repo = new ExpenseRepository(db, logger);
+
+    await repo.getByTags('u1', [3, 4], 'all');
+    await repo.getByTags('u1', [3, 4]);
+
+    expect(db.calls[0].query).toContain('HAVING COUNT(DISTINCT et.tagId) = ?');
+    expect(db.calls[0].params).toEqual(['u1', 3, 4, 2]);
+    expect(db.calls[1].query).not.toContain('HAVING');
+  });
+});
+
+describe('ExpenseRepository soft delete', () => {
+  const expenseRow = {
+    id: 4, amount: 60, category: 'Food', merchant: 'Nandos', description: '', date: '2025-03-01', isRecurring: 0,
+    userId: 'u1', firebaseId: 'remote-4', createdAt: '2025-03-01', updatedAt: '2025-03-01', syncStatus: 'synced',
+  };
+
+  test('delete leaves a tombstone and queues it for sync', async () => {
+    const db = fakeDatabase(q => (q.startsWith('UPDATE') ? { changes: 1 } : [{ ...expenseRow, deletedAt: '2025-03-02' }]));
+    const syncQueue = fakeSyncQueue();
+    const repo = new ExpenseRepository(db, logger, syncQueue);
+
+    await expect(repo.delete(4)).resolves.toBe(true);
+
+    expect(db.calls[0].query).toContain('SET deletedAt = ?');
+    expect(db.calls[0].query).toContain('AND deletedAt IS NULL');
+    expect(db.calls.some(c => c.query.startsWith('DELETE'))).toBe(false);
+    expect(syncQueue.enqueue).toHaveBeenCalledWith('expense', 4, 'delete', expect.objectContaining({ deletedAt: '2025-03-02' }));
+  });
+
+  test('restore re-creates the remote copy once the deletion has synced', async () => {
+    const db = fakeDatabase(q => (q.startsWith('UPDATE') ? { changes: 1 } : [{ ...expenseRow, firebaseId: null, deletedAt: null }]));
+    const syncQueue = fakeSyncQueue();
+    const repo = new ExpenseRepository(db, logger, syncQueue);
+
+    await expect(repo.restore(4)).resolves.toBe(true);
+
+    expect(db.calls[0].query).toContain('SET deletedAt = NULL');
+    expect(syncQueue.enqueue).toHaveBeenCalledWith('expense', 4, 'create', expect.objectContaining({ id: 4 }));
+  });
+
+  test('reads leave out records in the trash', async () => {
+    const db = fakeDatabase(() => []);
+    const repo = new ExpenseRepository(db, logger);
+
+    await repo.getById(4);
+    await repo.getByUserId('u1');
+    await repo.getMany({ category: 'Food' });
+
+    db.calls.forEach(call => expect(call.query).toContain('deletedAt IS NULL'));
+  });
+});
@@ -1,5 +1,9 @@
 import { __TESTING__createGoalsManager, Goal } from '@/contexts/GoalsContext';
 
+// GoalsProvider opens the device database and log files; these tests only drive the in-memory goals manager
+jest.mock('@/database/core/LocalDatabase', () => ({ openLocalDatabase: jest.fn() }));
+jest.mock('expo-file-system', () => ({}));
+
 describe('GoalsContext logic', () => {
   test('adds a goal and retrieves it', async () => {
     const mgr = __TESTING__createGoalsManager([]);
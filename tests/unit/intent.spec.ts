@@ -1,5 +1,19 @@
-import { parseExpenseIntent, ExpenseIntent } from '../../services/NLIntents';
-import { selectExpenseTargets, summarizeExpense } from '../../services/IntentExecution';
+import { parseExpenseIntent, parseGoalIntent, parseBudgetIntent, parseIntent, ExpenseIntent, GoalIntent } from '../../services/NLIntents';
+import { selectExpenseTargets, summarizeExpense, buildActionSummary, executeGoalIntent, selectGoalTargets, executeBudgetIntent, BudgetActions, SimpleBudget, canExecuteIntent, executeChatIntent, ChatActions } from '../../services/IntentExecution';
+import { BudgetPlanResult } from '../../services/BudgetRecommendationService';
+import { detectLanguage } from '../../services/IntentLexicons';
+import { monthCategorySpend } from '../../utils/budgets';
+import { __TESTING__createGoalsManager, Goal } from '@/contexts/GoalsContext';
+import { ChangeHistoryRepository } from '@/database/repositories/ChangeHistoryRepository';
+import { ExpenseRepository } from '@/database/repositories/ExpenseRepository';
+import { BudgetRepository } from '@/database/repositories/BudgetRepository';
+import { FinancialGoalRepository } from '@/database/repositories/FinancialGoalRepository';
+import { NodeSQLiteManager } from '@/database/core/NodeSQLiteManager';
+import { openTestDatabase } from '../helpers/database';
+
+// GoalsProvider opens the device database and log files; these tests only drive the in-memory goals manager
+jest.mock('@/database/core/LocalDatabase', () => ({ openLocalDatabase: jest.fn() }));
+jest.mock('expo-file-system', () => ({}));
 
 describe('NLIntents.parseExpenseIntent', () => {
   test('parses create with amount/category/merchant/date keywords', () => {
@@ -32,6 +46,78 @@ describe('NLIntents.parseExpenseIntent', () => {
     expect(intent).not.toBeNull();
     expect(intent!.type).toBe('delete');
   });
+
+  test('parses undo as its own intent, not a delete', () => {
+    const intent = parseExpenseIntent('Undo that last expense');
+    expect(intent).not.toBeNull();
+    expect(intent!.type).toBe('undo');
+  });
+});
+
+describe('NLIntents multilingual expenses', () => {
+  const yesterday = () => { const d = new Date(); d.setDate(d.getDate() - 1); return d.toISOString().slice(0, 10); };
+
+  test('detects the language, with the selected one breaking ties', () => {
+    expect(detectLanguage('ek het R150 by Spar spandeer').code).toBe('af-ZA');
+    expect(detectLanguage('khokha R200 ugesi').code).toBe('zu-ZA');
+    expect(detectLanguage('hlawula R300 umbane').code).toBe('xh-ZA');
+    expect(detectLanguage('R150', 'xh-ZA').code).toBe('xh-ZA');
+    expect(detectLanguage('R150', 'st-ZA').code).toBe('en-ZA');
+    expect(detectLanguage('Add R200 for groceries', 'af-ZA').code).toBe('en-ZA');
+  });
+
+  test('parses Afrikaans', () => {
+    expect(parseIntent('ek het R150 by Spar spandeer', 'af-ZA')).toMatchObject({ domain: 'expense', type: 'create', amount: 150, merchant: 'Spar' });
+    expect(parseExpenseIntent('voeg tweehonderd en vyftig rand vir kos by')).toMatchObject({ type: 'create', amount: 250, categoryRaw: 'Food & Dining' });
+    expect(parseExpenseIntent('wys my uitgawes vir verlede maand')).toMatchObject({ type: 'read', target: 'all' });
+    expect(parseExpenseIntent('verwyder die laaste koffie')).toMatchObject({ type: 'delete', categoryRaw: 'Food & Dining', target: 'byCategory' });
+  });
+
+  test('parses isiZulu and isiXhosa', () => {
+    expect(parseIntent('khokha R200 ugesi')).toMatchObject({ domain: 'expense', type: 'create', amount: 200, categoryRaw: 'Bills & Utilities' });
+    expect(parseExpenseIntent('ngikhokhe amakhulu amabili kagesi izolo')).toMatchObject({ type: 'create', amount: 200, date: yesterday() });
+    expect(parseExpenseIntent('ndichithe R80 kwiteksi eShoprite izolo')).toMatchObject({
+      type: 'create', amount: 80, categoryRaw: 'Transportation', merchant: 'Shoprite', date: yesterday(),
+    });
+    expect(parseExpenseIntent('bonisa imali yenyanga edlule')!.range).toBeTruthy();
+  });
+
+  test('accepts English mixed into another language', () => {
+    expect(parseExpenseIntent('add R45 koffie vandag')).toMatchObject({ type: 'create', amount: 45, categoryRaw: 'Food & Dining' });
+    expect(parseExpenseIntent('spent two hundred and fifty on lunch')).toMatchObject({ type: 'create', amount: 250 });
+    expect(parseExpenseIntent('edit the last one')!.amount).toBeUndefined();
+  });
+});
+
+describe('NLIntents dates', () => {
+  const now = new Date(2025, 9, 15);
+
+  test('uses the configured payday', () => {
+    expect(parseIntent('show my spending since payday', null, { payday: 25, now }))
+      .toMatchObject({ domain: 'expense', type: 'read', range: { start: '2025-09-25', end: '2025-10-15' } });
+    expect(parseExpenseIntent('show my spending last Friday', null, { now })!.range).toEqual({ start: '2025-10-10', end: '2025-10-10' });
+  });
+
+  test('asks about an ambiguous date before confirming', () => {
+    const intent = parseExpenseIntent('add R40 for lunch on 03/04/2025', null, { now })!;
+    expect(intent).toMatchObject({ type: 'create', amount: 40, date: undefined });
+    expect(buildActionSummary(intent)).toBe('Did you mean 3 April 2025 or 4 March 2025?');
+  });
+  test('keeps dates out of merchant names', () => {
+    expect(parseExpenseIntent('spent R120 at Woolworths on 10 Aug', null, { now })).toMatchObject({ merchant: 'Woolworths', date: '2025-08-10' });
+    expect(parseExpenseIntent('spent R30 at the shop 5 days ago', null, { now })).toMatchObject({ merchant: 'the shop', date: '2025-10-10' });
+    expect(parseExpenseIntent('spent R45 at Vida on the 3rd', null, { now })).toMatchObject({ merchant: 'Vida', date: '2025-10-03' });
+
+    const monthEnd = parseExpenseIntent('spent R100 at month end', null, { now })!;
+    expect(monthEnd).toMatchObject({ type: 'create', amount: 100, date: '2025-09-30' });
+    expect(monthEnd.merchant).toBeUndefined();
+  });
+
+  test('does not read a street name as a date', () => {
+    const intent = parseExpenseIntent('spent R80 at the 24th street market', null, { now })!;
+    expect(intent).toMatchObject({ type: 'create', amount: 80, merchant: 'the 24th street market' });
+    expect(intent.date).toBeUndefined();
+  });
 });
 
 describe('IntentExecution.selectExpenseTargets', () => {
@@ -53,3 +139,280 @@ describe('IntentExecution.selectExpenseTargets', () => {
     expect(res.map(r => r.id)).toEqual(expect.arrayContaining([1,3]));
   });
 });
+
+describe('NLIntents.parseGoalIntent', () => {
+  test('parses a new savings goal with a deadline', () => {
+    const intent = parseIntent('save R5000 for a holiday by December');
+    expect(intent).toMatchObject({ domain: 'goal', type: 'create', amount: 5000, goalName: 'Holiday', category: 'lifestyle' });
+    expect((intent as GoalIntent).deadline).toMatch(/^20\d{2}-12-31$/);
+  });
+
+  test('parses funding a goal', () => {
+    expect(parseIntent('put R300 into my emergency fund')).toEqual({ domain: 'goal', type: 'update', amount: 300, goalName: 'emergency fund' });
+  });
+
+  test('parses a progress question', () => {
+    expect(parseIntent('how far am I with the car goal?')).toEqual({ domain: 'goal', type: 'read', goalName: 'car' });
+  });
+
+  test('leaves expense phrases to the expense parser', () => {
+    expect(parseGoalIntent('Add R200 for groceries at Checkers today')).toBeNull();
+    expect(parseIntent('Show my total spending last month')).toMatchObject({ domain: 'expense', type: 'read' });
+  });
+});
+
+describe('IntentExecution goal intents', () => {
+  const initial = (): Goal[] => [
+    { id: 'g1', title: 'Emergency Fund', category: 'savings', current: 15000, target: 50000, createdAt: '', updatedAt: '' },
+    { id: 'g2', title: 'New Car', category: 'asset', current: 75000, target: 250000, createdAt: '', updatedAt: '' },
+  ];
+  const actionsFor = (mgr: ReturnType<typeof __TESTING__createGoalsManager>) => ({
+    goals: mgr.getGoals(), addGoal: mgr.addGoal, updateGoalProgress: mgr.updateGoalProgress,
+  });
+
+  test('asks for confirmation before acting', () => {
+    expect(buildActionSummary(parseIntent('put R300 into my emergency fund')!)).toBe('Add R300.00 to emergency fund?');
+    expect(buildActionSummary({ domain: 'goal', type: 'create', amount: 5000, goalName: 'Holiday', deadline: '2025-12-31' }))
+      .toBe('Create a savings goal for Holiday of R5000.00 by 2025-12-31?');
+  });
+
+  test('funds the matching goal through updateGoalProgress', async () => {
+    const mgr = __TESTING__createGoalsManager(initial());
+    const reply = await executeGoalIntent(parseGoalIntent('put R300 into my emergency fund')!, actionsFor(mgr));
+
+    expect(mgr.getGoals().find(g => g.id === 'g1')!.current).toBe(15300);
+    expect(reply).toContain('Added R300.00 to Emergency Fund');
+  });
+
+  test('creates goals through addGoal and reports progress', async () => {
+    const mgr = __TESTING__createGoalsManager(initial());
+    await executeGoalIntent({ domain: 'goal', type: 'create', amount: 5000, goalName: 'Holiday', category: 'lifestyle', deadline: '2025-12-31' }, actionsFor(mgr));
+
+    expect(mgr.getGoals()[2]).toMatchObject({ title: 'Holiday', target: 5000, current: 0, deadline: '2025-12-31' });
+    expect(await executeGoalIntent(parseGoalIntent('how far am I with the car goal?')!, actionsFor(mgr)))
+      .toBe('New Car - R75000.00 of R250000.00 (30%), R175000.00 to go');
+  });
+
+  test('records the whole contribution when it goes past the target', async () => {
+    const mgr = __TESTING__createGoalsManager([{ ...initial()[0], current: 49900 }]);
+    const reply = await executeGoalIntent(parseGoalIntent('put R300 into my emergency fund')!, actionsFor(mgr));
+
+    expect(mgr.getGoals()[0].current).toBe(50200);
+    expect(reply).toBe('Added R300.00 to Emergency Fund. Emergency Fund - R50000.00 reached, R200.00 over.');
+
+    const again = await executeGoalIntent(parseGoalIntent('put R100 into my emergency fund')!, actionsFor(mgr));
+    expect(mgr.getGoals()[0].current).toBe(50300);
+    expect(again).toBe('Added R100.00 to Emergency Fund. Emergency Fund - R50000.00 reached, R300.00 over.');
+  });
+
+  test('does not act when the goal is unknown', async () => {
+    const mgr = __TESTING__createGoalsManager(initial());
+    const reply = await executeGoalIntent({ domain: 'goal', type: 'update', amount: 100, goalName: 'wedding' }, actionsFor(mgr));
+
+    expect(reply).toContain("couldn't find");
+    expect(selectGoalTargets(mgr.getGoals(), { domain: 'goal', type: 'read', goalName: 'car' }).map(g => g.id)).toEqual(['g2']);
+    expect(mgr.getGoals().map(g => g.current)).toEqual([15000, 75000]);
+  });
+
+  test('runs a confirmed chat message through the GoalsContext actions', async () => {
+    const mgr = __TESTING__createGoalsManager(initial());
+    const chat = (): ChatActions => ({ goals: actionsFor(mgr) });
+    const intent = parseIntent('save R5000 for a holiday by December')!;
+
+    expect(canExecuteIntent(intent, chat())).toBe(true);
+    expect(buildActionSummary(intent)).toMatch(/^Create a savings goal for Holiday of R5000.00 by \d{4}-12-31\?$/);
+    expect(await executeChatIntent(intent, chat())).toContain('Created Holiday: saving R5000.00');
+    expect(await executeChatIntent(parseIntent('add R250 to my holiday goal')!, chat())).toContain('Added R250.00 to Holiday');
+
+    expect(mgr.getGoals()[2]).toMatchObject({ title: 'Holiday', current: 250, target: 5000 });
+    expect(canExecuteIntent(intent, {})).toBe(false);
+  });
+});
+
+describe('NLIntents.parseBudgetIntent', () => {
+  test('parses setting a category budget', () => {
+    expect(parseIntent('set my groceries budget to R2500')).toEqual({ domain: 'budget', type: 'update', amount: 2500, category: 'Food & Dining' });
+  });
+
+  test('parses asking what is left', () => {
+    expect(parseIntent('how much budget is left for transport?')).toEqual({ domain: 'budget', type: 'read', category: 'Transportation' });
+    expect(parseIntent('how much is left in my gym budget?')).toEqual({ domain: 'budget', type: 'read', category: 'Gym' });
+    expect(parseIntent('show my budgets')).toEqual({ domain: 'budget', type: 'read', category: undefined });
+  });
+
+  test('parses moving money between budgets', () => {
+    expect(parseIntent('move R200 from entertainment to food')).toEqual({
+      domain: 'budget', type: 'transfer', amount: 200, fromCategory: 'Entertainment', category: 'Food & Dining',
+    });
+  });
+
+  test('leaves expense phrases alone', () => {
+    expect(parseBudgetIntent('Add R200 for groceries at Checkers today')).toBeNull();
+  });
+});
+
+describe('IntentExecution budget intents', () => {
+  const month = new Date().toISOString().slice(0, 7);
+  const expenses = [
+    { amount: 300, category: 'Transportation', date: `${month}-02` },
+    { amount: 150, category: 'Entertainment', date: `${month}-03` },
+    { amount: 900, category: 'Transportation', date: '2000-01-05' },
+  ];
+  const plan = (): BudgetPlanResult => ({
+    totalSuggested: 3000,
+    recommendations: [
+      { category: 'Food & Dining', suggested: 2000, basis: 'History', confidence: 0.8 },
+      { category: 'Shopping', suggested: 1000, basis: 'History', confidence: 0.5 },
+    ],
+    generatedAt: '',
+  });
+  const setup = (budgets: SimpleBudget[]) => {
+    const state: { budgets: SimpleBudget[]; plan: BudgetPlanResult | null } = { budgets: [...budgets], plan: plan() };
+    const setBudget = async (category: string, limit: number) => {
+      const existing = state.budgets.find(b => b.category === category);
+      state.budgets = existing
+        ? state.budgets.map(b => b === existing ? { ...b, limit } : b)
+        : [...state.budgets, { id: `b${state.budgets.length + 1}`, category, limit, spent: 0 }];
+    };
+    const actions = (): BudgetActions => ({
+      budgets: state.budgets,
+      categorySpend: monthCategorySpend(expenses, month),
+      setBudget,
+      transferBudget: jest.fn(async (from: string, to: string, amount: number) => {
+        const limit = (category: string) => state.budgets.find(b => b.category === category)?.limit ?? 0;
+        const [fromLimit, toLimit] = [limit(from) - amount, limit(to) + amount];
+        await setBudget(from, fromLimit);
+        await setBudget(to, toLimit);
+      }),
+      plan: state.plan,
+      setPlan: p => { state.plan = p; },
+    });
+    return { state, actions };
+  };
+
+  test('asks for confirmation before acting', () => {
+    expect(buildActionSummary(parseIntent('move R200 from entertainment to food')!))
+      .toBe('Move R200.00 from your Entertainment budget to Food & Dining?');
+  });
+
+  test('reports what is left from this month\'s category spending', async () => {
+    const { actions } = setup([{ id: 'b1', category: 'Transportation', limit: 1000, spent: 50 }]);
+
+    expect(await executeBudgetIntent(parseBudgetIntent('how much budget is left for transport?')!, actions()))
+      .toBe('Transportation - R650.00 left of R1000.00 (R350.00 spent)');
+    expect(await executeBudgetIntent({ domain: 'budget', type: 'read', category: 'Shopping' }, actions()))
+      .toBe('Shopping - R1000.00 left of R1000.00 (R0.00 spent) (suggested plan)');
+  });
+
+  test('sets budgets and keeps the plan in step', async () => {
+    const { state, actions } = setup([]);
+    await executeBudgetIntent(parseBudgetIntent('set my groceries budget to R2500')!, actions());
+
+    expect(state.budgets).toEqual([{ id: 'b1', category: 'Food & Dining', limit: 2500, spent: 0 }]);
+    expect(state.plan!.recommendations[0]).toMatchObject({ category: 'Food & Dining', suggested: 2500 });
+    expect(state.plan!.totalSuggested).toBe(3500);
+  });
+
+  test('moves money between budgets without going below zero', async () => {
+    const { state, actions } = setup([
+      { id: 'b1', category: 'Entertainment', limit: 500, spent: 0 },
+      { id: 'b2', category: 'Food & Dining', limit: 2000, spent: 0 },
+    ]);
+    const reply = await executeBudgetIntent(parseBudgetIntent('move R200 from entertainment to food')!, actions());
+
+    expect(reply).toContain('Moved R200.00 from Entertainment to Food & Dining');
+    expect(state.budgets.map(b => b.limit)).toEqual([300, 2200]);
+    expect(await executeBudgetIntent({ domain: 'budget', type: 'transfer', amount: 1000, fromCategory: 'Entertainment', category: 'Food & Dining' }, actions()))
+      .toContain("can't move");
+    expect(state.budgets.map(b => b.limit)).toEqual([300, 2200]);
+  });
+
+  test('refuses to move a budget\'s whole limit and moves both limits in one call', async () => {
+    const { state, actions } = setup([
+      { id: 'b1', category: 'Entertainment', limit: 500, spent: 0 },
+      { id: 'b2', category: 'Food & Dining', limit: 2000, spent: 0 },
+    ]);
+    const exact = actions();
+
+    expect(await executeBudgetIntent(parseBudgetIntent('move R500 from entertainment to food')!, exact)).toContain("can't move R500.00");
+    expect(exact.transferBudget).not.toHaveBeenCalled();
+    expect(state.budgets.map(b => b.limit)).toEqual([500, 2000]);
+
+    const chat: ChatActions = { budgets: actions() };
+    const intent = parseIntent('move R499 from entertainment to food')!;
+    expect(canExecuteIntent(intent, chat)).toBe(true);
+    expect(await executeChatIntent(intent, chat)).toContain('Moved R499.00 from Entertainment to Food & Dining');
+    expect(chat.budgets!.transferBudget).toHaveBeenCalledWith('Entertainment', 'Food & Dining', 499);
+    expect(state.budgets.map(b => b.limit)).toEqual([1, 2499]);
+  });
+});
+
+describe('IntentExecution chat undo', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const coffee = {
+    amount: 35, category: 'Food', merchant: 'Vida', description: '', date: '2025-03-02',
+    isRecurring: false, userId: 'u1', createdAt: '', updatedAt: '', syncStatus: 'pending' as const,
+  };
+  let db: NodeSQLiteManager;
+  let history: ChangeHistoryRepository;
+  let expenses: ExpenseRepository;
+  let actions: ChatActions;
+
+  beforeEach(async () => {
+    db = await openTestDatabase(logger);
+    history = new ChangeHistoryRepository(db, logger);
+    expenses = new ExpenseRepository(db, logger, undefined, history);
+    actions = { undo: { history, userId: 'u1' } };
+  });
+
+  afterEach(() => db.close());
+
+  test('reverts the latest change once confirmed and says what it reverted', async () => {
+    const id = await expenses.create(coffee);
+    const intent = parseIntent('undo that')!;
+
+    expect(canExecuteIntent(intent, actions)).toBe(true);
+    expect(buildActionSummary(intent)).toBe('Undo your last change?');
+    expect(await executeChatIntent(intent, actions)).toBe('Undone: removed the expense at Vida (R35.00).');
+    expect(await expenses.getById(id)).toBeNull();
+    const revert = (await history.getHistory('expense', id)).find(change => change.revertOf !== null);
+    expect(revert).toMatchObject({ operation: 'delete', source: 'chat' });
+    expect(await executeChatIntent(intent, actions)).toBe('Nothing to undo.');
+  });
+
+  test('puts back an edited record and says when there is nothing to undo', async () => {
+    const id = await expenses.create(coffee);
+    await expenses.update(id, { amount: 350 });
+    const intent = parseIntent('undo my last change')!;
+
+    expect(await executeChatIntent(intent, actions)).toBe('Undone: put back the expense at Vida (R35.00) as it was.');
+    expect((await expenses.getById(id))!.amount).toBe(35);
+    expect(await executeChatIntent(intent, actions)).toBe('Undone: removed the expense at Vida (R35.00).');
+    expect(await executeChatIntent(intent, actions)).toBe('Nothing to undo.');
+  });
+
+  test('undoes the latest goal or budget change made in the chat, not an older expense', async () => {
+    const id = await expenses.create(coffee);
+    const goals = new FinancialGoalRepository(db, logger, undefined, history);
+    const budgets = new BudgetRepository(db, logger, undefined, history);
+    const goalId = await goals.create({
+      userId: 'u1', title: 'Holiday', description: '', targetAmount: 5000, currentAmount: 0, deadline: '',
+      category: 'savings', isActive: true, createdAt: '', updatedAt: '', syncStatus: 'pending',
+    });
+    await goals.updateProgress(goalId, 500, { source: 'chat' });
+    await budgets.setLimit('u1', 'Entertainment', 500, 'monthly', { source: 'chat' });
+    await budgets.transferLimit('u1', 'Entertainment', 'Food', 200, 'monthly', { source: 'chat' });
+    const intent = parseIntent('undo that')!;
+
+    expect(await executeChatIntent(intent, actions)).toBe('Undone: removed the budget "Food" (R200.00).');
+    expect((await budgets.getByUserId('u1')).map(b => [b.category, b.amount])).toEqual([['Entertainment', 500]]);
+    expect(await executeChatIntent(intent, actions)).toBe('Undone: removed the budget "Entertainment" (R500.00).');
+    expect(await executeChatIntent(intent, actions)).toBe('Undone: put back the goal "Holiday" (R0.00) as it was.');
+    expect((await goals.getById(goalId))!.currentAmount).toBe(0);
+    expect(await expenses.getById(id)).not.toBeNull();
+  });
+
+  test('leaves undo to the assistant when there is no history to revert', () => {
+    expect(canExecuteIntent(parseIntent('undo that')!, {})).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { findAmount, findAmounts } from '@/services/AmountParser';
+import { lexiconFor } from '@/services/IntentLexicons';
+
+describe('AmountParser', () => {
+  it('reads South African number formats and shorthand', () => {
+    expect(findAmount('R 2 500,50')?.value).toBe(2500.5);
+    expect(findAmount('R1,234.56')?.value).toBe(1234.56);
+    expect(findAmount('R1.5k')?.value).toBe(1500);
+    expect(findAmount('50c')?.value).toBe(0.5);
+    expect(findAmount('1 500 rand')?.value).toBe(1500);
+    expect(findAmount('R2.5m')?.value).toBe(2500000);
+    expect(findAmount('R2,5m house')?.value).toBe(2500000);
+  });
+
+  it('keeps negative amounts out of money spent', () => {
+    expect(findAmounts('R-5')).toEqual([expect.objectContaining({ value: -5, kind: 'money', text: 'R-5' })]);
+    expect(findAmount('R-5')).toBeUndefined();
+    expect(findAmount('spent -R20 on lunch')).toBeUndefined();
+    expect(findAmount('spent -20 on lunch')).toBeUndefined();
+    expect(findAmounts('10-15 people').map(a => a.value)).toEqual([10, 15]);
+  });
+
+  it('reads spelled-out amounts', () => {
+    expect(findAmount('two hundred and fifty rand')).toMatchObject({ value: 250, confidence: 0.9, start: 0, end: 26 });
+    expect(findAmount('half a bar')?.value).toBe(500);
+    expect(findAmount('spent two grand on clothes')).toMatchObject({ value: 2000, text: 'two grand' });
+    expect(findAmount('fifty cents')?.value).toBe(0.5);
+    expect(findAmount('voeg vyf-en-twintig rand by', lexiconFor('af-ZA'))?.value).toBe(25);
+    expect(findAmount('khokha amakhulu amabili ugesi', lexiconFor('zu-ZA'))?.value).toBe(200);
+  });
+
+  it('tells dates and quantities from money', () => {
+    const found = findAmounts('bought 500ml milk R25,99 at 3pm on 10 Aug');
+    expect(found.map(a => [a.text, a.kind])).toEqual([
+      ['500', 'quantity'],
+      ['R25,99', 'money'],
+      ['3pm', 'date'],
+      ['10', 'date'],
+    ]);
+    expect(findAmount('bought 500ml milk R25,99 at 3pm on 10 Aug')?.value).toBe(25.99);
+    expect(findAmounts('ran 500m').map(a => [a.text, a.kind])).toEqual([['500', 'quantity']]);
+  });
+
+  it('finds money written without an R', () => {
+    expect(findAmounts('bought 2 coffees for 60').map(a => [a.text, a.kind])).toEqual([['2', 'quantity'], ['60', 'money']]);
+    expect(findAmount('bought 2 coffees for 60')).toMatchObject({ value: 60, confidence: 0.7 });
+    expect(findAmount('3 beers at 45')?.value).toBe(45);
+    expect(findAmount('3 tickets for 45.50')).toMatchObject({ value: 45.5, confidence: 0.8 });
+    expect(findAmount('paid 2000 towards rent')?.value).toBe(2000);
+    expect(findAmount('lunch was 85')?.value).toBe(85);
+    expect(findAmount('paid 50 bucks for parking')?.value).toBe(50);
+  });
+
+  it('prefers the most certain amount', () => {
+    expect(findAmount('2 coffees for R60')).toMatchObject({ value: 60, start: 14, end: 17 });
+    expect(findAmount('paid 2000 for rent on 2025-08-01')).toMatchObject({ value: 2000, confidence: 0.6 });
+    expect(findAmount('edit the last one')).toBeUndefined();
+    expect(findAmount('meet at the coffee bar')).toBeUndefined();
+  });
+});
@@ -17,3 +17,19 @@ describe('BudgetRecommendationService', () => {
     expect(res.recommendations.find(r=>r.category==='Savings')).toBeTruthy();
   });
 });
+
+describe('BudgetRecommendationService with split expenses', () => {
+  it('counts a split expense towards the categories of its splits', () => {
+    const today = new Date().toISOString().slice(0,10);
+    const res = budgetRecommendationService.generate([
+      { amount: 900, category: 'Shopping', date: today, splits: [
+        { category: 'Groceries', amount: 600 },
+        { category: 'Household', amount: 300 },
+      ] },
+      { amount: 300, category: 'Transport', date: today },
+    ]);
+    const categories = res.recommendations.map(r => r.category);
+    expect(categories).toEqual(expect.arrayContaining(['Groceries', 'Household', 'Transport']));
+    expect(categories).not.toContain('Shopping');
+  });
+});
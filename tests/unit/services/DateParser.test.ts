@@ -0,0 +1,79 @@
+import { parseDateExpression } from '@/services/DateParser';
+import { lexiconFor } from '@/services/IntentLexicons';
+
+// Wednesday 15 October 2025
+const now = new Date(2025, 9, 15, 14, 30);
+// What the text resolves to; where it was found is checked separately
+const parse = (text: string, payday?: number) => {
+  const { span, ...parsed } = parseDateExpression(text, { now, payday });
+  return parsed;
+};
+
+describe('DateParser', () => {
+  it('resolves weekdays and days ago', () => {
+    expect(parse('coffee last Friday')).toEqual({ date: '2025-10-10' });
+    expect(parseDateExpression('verlede Vrydag', { now, lexicon: lexiconFor('af-ZA') })).toMatchObject({ date: '2025-10-10' });
+    expect(parse('3 days ago')).toEqual({ date: '2025-10-12' });
+    expect(parse('two weeks ago')).toEqual({ date: '2025-10-01' });
+  });
+
+  it('resolves days of the month and month end to their latest occurrence', () => {
+    expect(parse('on the 10th')).toEqual({ date: '2025-10-10' });
+    expect(parse('on the 25th')).toEqual({ date: '2025-09-25' });
+    expect(parse('on the 31st')).toEqual({ date: '2025-08-31' });
+    expect(parse('at month end')).toEqual({ date: '2025-09-30' });
+    expect(parse('on 10 Aug')).toEqual({ date: '2025-08-10' });
+    expect(parse('December 5')).toEqual({ date: '2024-12-05' });
+  });
+
+  it('resolves ranges, weekends and payday', () => {
+    expect(parse('between 1 and 15 March')).toEqual({ range: { start: '2025-03-01', end: '2025-03-15' } });
+    expect(parse('between the 25th and the 5th')).toEqual({ range: { start: '2025-09-25', end: '2025-10-05' } });
+    expect(parse('over the weekend')).toEqual({ range: { start: '2025-10-11', end: '2025-10-12' } });
+    expect(parse('since payday', 25)).toEqual({ range: { start: '2025-09-25', end: '2025-10-15' } });
+    // The 12th is a Sunday, so salaries came on Friday the 10th
+    expect(parse('since payday', 12)).toEqual({ range: { start: '2025-10-10', end: '2025-10-15' } });
+  });
+
+  it('runs "since" a date up to today', () => {
+    expect(parse('since Friday')).toEqual({ range: { start: '2025-10-10', end: '2025-10-15' } });
+    expect(parse('since 10 Aug')).toEqual({ range: { start: '2025-08-10', end: '2025-10-15' } });
+    expect(parse('since last month')).toEqual({ range: { start: '2025-09-01', end: '2025-10-15' } });
+    expect(parseDateExpression('sedert Vrydag', { now, lexicon: lexiconFor('af-ZA') })).toMatchObject({ range: { start: '2025-10-10', end: '2025-10-15' } });
+  });
+
+  it('reads DD/MM/YYYY and asks when a date is ambiguous', () => {
+    expect(parse('on 25/08/2025')).toEqual({ date: '2025-08-25' });
+    expect(parse('on 03/04/2025')).toEqual({ clarification: 'Did you mean 3 April 2025 or 4 March 2025?' });
+    expect(parse('on Wednesday')).toEqual({ clarification: 'Do you mean today or last Wednesday, 8 October 2025?' });
+    expect(parse('since payday')).toEqual({ clarification: 'Which day of the month are you paid?' });
+  });
+
+  it('asks about a date that does not exist', () => {
+    expect(parse('on 31/02/2026')).toEqual({ clarification: 'There is no 31 February 2026. Which date did you mean?' });
+    expect(parse('on 29.02.2025')).toEqual({ clarification: 'There is no 29 February 2025. Which date did you mean?' });
+    expect(parse('on 31 April')).toEqual({ clarification: 'There is no 31 April. Which date did you mean?' });
+    expect(parse('scored 45/67')).toEqual({});
+  });
+
+  it('reads "the Nth" as a date only when the words around it say so', () => {
+    expect(parse('lunch at the 24th street market')).toEqual({});
+    expect(parse('paid the 3rd instalment')).toEqual({});
+    expect(parse('rent due on the 1st')).toEqual({ date: '2025-10-01' });
+    expect(parse('since the 5th')).toEqual({ range: { start: '2025-10-05', end: '2025-10-15' } });
+    expect(parse('the 25th of the month')).toEqual({ date: '2025-09-25' });
+    expect(parse('the 10th of August')).toEqual({ date: '2025-08-10' });
+  });
+
+  it('reports where the date is written, with the word that introduces it', () => {
+    const spanOf = (text: string) => {
+      const { span } = parseDateExpression(text, { now });
+      return span && text.slice(span.start, span.end);
+    };
+    expect(spanOf('R120 at Woolworths on 10 Aug')).toBe('on 10 Aug');
+    expect(spanOf('bread at the shop 5 days ago')).toBe('5 days ago');
+    expect(spanOf('coffee at Vida yesterday')).toBe('yesterday');
+    expect(spanOf('fuel over the weekend')).toBe('the weekend');
+    expect(spanOf('R50 at the 24th street market')).toBeUndefined();
+  });
+});
@@ -8,6 +8,15 @@ export interface Transaction {
   merchant?: string;
   recurring?: boolean;
   tags?: string[];
+  currency?: string;
+  originalAmount?: number;
+  splits?: SplitAllocation[];
+}
+
+export interface SplitAllocation {
+  category: string;
+  amount: number;
+  tag?: string;
 }
 
 export interface Budget {
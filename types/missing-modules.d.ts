@@ -18,10 +18,12 @@ declare module "expo-sqlite" {
     execAsync(query: string): Promise<void>;
     runAsync(query: string, params?: any[]): Promise<{ lastInsertRowId: number; changes: number }>;
     getAllAsync(query: string, params?: any[]): Promise<any[]>;
-    getFirstAsync(query: string, params?: any[]): Promise<any>;
+    getFirstAsync<T = any>(query: string, params?: any[]): Promise<T | null>;
+    closeAsync(): Promise<void>;
   }
   
-  export function openDatabaseAsync(name: string): Promise<SQLiteDatabase>;
+  export const defaultDatabaseDirectory: string;
+  export function openDatabaseAsync(name: string, options?: Record<string, any>, directory?: string): Promise<SQLiteDatabase>;
 }
 
 declare module "expo-speech" {
@@ -0,0 +1,20 @@
+/**
+ * Budget spending utilities, shared by the expenses tab and the chat so both report the same amounts.
+ */
+
+import { Budget } from '../types/finance';
+import { categoryTotals, Splittable } from './splits';
+
+/**
+ * Spending per category of the items dated in a month, with split items counted in the categories of their splits
+ */
+export const monthCategorySpend = (items: (Splittable & { date?: string })[], month: string): Record<string, number> => {
+  return categoryTotals(items.filter(item => String(item.date || '').startsWith(month)));
+};
+
+/**
+ * Spent against a budget: the expenses stored on the device plus feed spending in its category
+ */
+export const budgetSpent = (budget: Pick<Budget, 'category' | 'spent'>, categorySpend: Record<string, number>): number => {
+  return budget.spent + (categorySpend[budget.category] || 0);
+};
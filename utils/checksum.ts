@@ -0,0 +1,36 @@
+/**
+ * Checksum helpers for detecting corrupted or altered data
+ */
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 of a string's UTF-8 bytes
+ * @param text Input text
+ * @returns Checksum as 8 lowercase hex characters
+ */
+export const crc32 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Checksum of a JSON-serialisable value
+ * @param value Value to checksum
+ * @returns Checksum as 8 lowercase hex characters
+ */
+export const checksumOf = (value: unknown): string => crc32(JSON.stringify(value));
@@ -1,40 +1,94 @@
 /**
- * Currency formatting utilities for South African Rand
+ * Currency formatting utilities. Amounts default to South African Rand,
+ * the currency all totals and budgets are kept in.
  */
 
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  locale: string;
+  decimals: number;
+}
+
+export const BASE_CURRENCY = 'ZAR';
+
+/**
+ * Currencies the app formats natively: the rand, the other SADC currencies
+ * and the currencies our users most often spend abroad
+ */
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  ZAR: { code: 'ZAR', name: 'South African Rand', symbol: 'R', locale: 'en-ZA', decimals: 2 },
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$', locale: 'en-US', decimals: 2 },
+  EUR: { code: 'EUR', name: 'Euro', symbol: '€', locale: 'en-IE', decimals: 2 },
+  GBP: { code: 'GBP', name: 'British Pound', symbol: '£', locale: 'en-GB', decimals: 2 },
+  BWP: { code: 'BWP', name: 'Botswana Pula', symbol: 'P', locale: 'en-BW', decimals: 2 },
+  NAD: { code: 'NAD', name: 'Namibian Dollar', symbol: 'N$', locale: 'en-NA', decimals: 2 },
+  LSL: { code: 'LSL', name: 'Lesotho Loti', symbol: 'M', locale: 'en-LS', decimals: 2 },
+  SZL: { code: 'SZL', name: 'Swazi Lilangeni', symbol: 'E', locale: 'en-SZ', decimals: 2 },
+  MZN: { code: 'MZN', name: 'Mozambican Metical', symbol: 'MT', locale: 'pt-MZ', decimals: 2 },
+  ZMW: { code: 'ZMW', name: 'Zambian Kwacha', symbol: 'K', locale: 'en-ZM', decimals: 2 },
+  MWK: { code: 'MWK', name: 'Malawian Kwacha', symbol: 'MK', locale: 'en-MW', decimals: 2 },
+  AOA: { code: 'AOA', name: 'Angolan Kwanza', symbol: 'Kz', locale: 'pt-AO', decimals: 2 },
+  TZS: { code: 'TZS', name: 'Tanzanian Shilling', symbol: 'TSh', locale: 'en-TZ', decimals: 2 },
+  MUR: { code: 'MUR', name: 'Mauritian Rupee', symbol: 'Rs', locale: 'en-MU', decimals: 2 },
+  KES: { code: 'KES', name: 'Kenyan Shilling', symbol: 'KSh', locale: 'en-KE', decimals: 2 },
+  AUD: { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', locale: 'en-AU', decimals: 2 },
+  CHF: { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF ', locale: 'de-CH', decimals: 2 },
+  CNY: { code: 'CNY', name: 'Chinese Yuan', symbol: '¥', locale: 'zh-CN', decimals: 2 },
+  JPY: { code: 'JPY', name: 'Japanese Yen', symbol: '¥', locale: 'ja-JP', decimals: 0 },
+};
+
+/**
+ * Look up how to display a currency. Codes the app does not know are shown
+ * with the code itself as the symbol.
+ */
+export const getCurrencyInfo = (currency: string = BASE_CURRENCY): CurrencyInfo => {
+  const code = currency.toUpperCase();
+  return CURRENCIES[code] ?? { code, name: code, symbol: `${code} `, locale: 'en-US', decimals: 2 };
+};
+
+export const isSupportedCurrency = (currency: string): boolean => {
+  return currency.toUpperCase() in CURRENCIES;
+};
+
 export const formatCurrency = (
   amount: number,
   options: {
     showSymbol?: boolean;
     showCents?: boolean;
     compact?: boolean;
+    currency?: string;
   } = {}
 ): string => {
   const {
     showSymbol = true,
     showCents = true,
     compact = false,
+    currency = BASE_CURRENCY,
   } = options;
 
   if (compact && Math.abs(amount) >= 1000) {
-    return formatCompactCurrency(amount, showSymbol);
+    return formatCompactCurrency(amount, showSymbol, currency);
   }
 
-  const formatted = Math.abs(amount).toLocaleString('en-ZA', {
-    minimumFractionDigits: showCents ? 2 : 0,
-    maximumFractionDigits: showCents ? 2 : 0,
+  const info = getCurrencyInfo(currency);
+  const decimals = showCents ? info.decimals : 0;
+  const formatted = Math.abs(amount).toLocaleString(info.locale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
   });
 
-  const symbol = showSymbol ? 'R' : '';
+  const symbol = showSymbol ? info.symbol : '';
   const sign = amount < 0 ? '-' : '';
 
   return `${sign}${symbol}${formatted}`;
 };
 
-const formatCompactCurrency = (amount: number, showSymbol: boolean): string => {
+const formatCompactCurrency = (amount: number, showSymbol: boolean, currency: string): string => {
   const absAmount = Math.abs(amount);
   const sign = amount < 0 ? '-' : '';
-  const symbol = showSymbol ? 'R' : '';
+  const symbol = showSymbol ? getCurrencyInfo(currency).symbol : '';
 
   if (absAmount >= 1000000) {
     return `${sign}${symbol}${(absAmount / 1000000).toFixed(1)}M`;
@@ -42,12 +96,22 @@ const formatCompactCurrency = (amount: number, showSymbol: boolean): string => {
     return `${sign}${symbol}${(absAmount / 1000).toFixed(1)}K`;
   }
 
-  return formatCurrency(amount, { showSymbol, showCents: true });
+  return formatCurrency(amount, { showSymbol, showCents: true, currency });
 };
 
 export const parseCurrency = (value: string): number => {
-  // Remove currency symbol, spaces, and commas
-  const cleaned = value.replace(/[R\s,]/g, '');
+  // Remove currency symbols and codes and spaces
+  let cleaned = value.replace(/[^\d.,\-]/g, '');
+
+  // Amounts arrive as "1,234.56", "1 234,56" (en-ZA) or "12,50": the comma is the decimal
+  // separator when it comes after any dot, or when it is the only one and has cents after it
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  const decimalComma = lastComma > lastDot && (lastDot >= 0 || /,\d{1,2}$/.test(cleaned));
+  cleaned = decimalComma
+    ? cleaned.slice(0, lastComma).replace(/[.,]/g, '') + '.' + cleaned.slice(lastComma + 1)
+    : cleaned.replace(/,/g, '');
+
   const parsed = parseFloat(cleaned);
   return isNaN(parsed) ? 0 : parsed;
 };
@@ -78,6 +142,7 @@ export const formatCurrencyRange = (
   options: {
     showSymbol?: boolean;
     compact?: boolean;
+    currency?: string;
   } = {}
 ): string => {
   const minFormatted = formatCurrency(min, options);
@@ -93,6 +158,10 @@ export const roundToNearestCent = (amount: number): number => {
   return Math.round(amount * 100) / 100;
 };
 
+export const convertToBaseCurrency = (amount: number, rate: number): number => {
+  return roundToNearestCent(amount * rate);
+};
+
 export const formatBudgetStatus = (spent: number, budget: number): {
   percentage: number;
   status: 'good' | 'warning' | 'over';
@@ -0,0 +1,42 @@
+/**
+ * Split allocation utilities. A split expense or transaction counts towards the
+ * categories of its splits instead of its own category.
+ */
+
+import { SplitAllocation } from '../types/finance';
+
+export interface Splittable {
+  amount: number;
+  category?: string;
+  splits?: SplitAllocation[];
+}
+
+const cents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * The allocations an item counts towards: its splits, or the whole amount in its own category
+ */
+export const allocationsOf = (item: Splittable): SplitAllocation[] => {
+  if (item.splits && item.splits.length > 0) return item.splits;
+  return [{ category: item.category || 'Other', amount: item.amount }];
+};
+
+/**
+ * Whether splits add up to an amount, to the cent
+ */
+export const splitsMatch = (amount: number, splits: Pick<SplitAllocation, 'amount'>[]): boolean => {
+  return cents(splits.reduce((sum, split) => sum + split.amount, 0)) === cents(amount);
+};
+
+/**
+ * Total per category, with split items counted in the categories of their splits
+ */
+export const categoryTotals = (items: Splittable[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  for (const item of items) {
+    for (const allocation of allocationsOf(item)) {
+      totals[allocation.category] = (totals[allocation.category] || 0) + allocation.amount;
+    }
+  }
+  return totals;
+};